@@ -0,0 +1,179 @@
+/**
+ * Tests for the `open-wemo setup` command line.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import type { SetupDeviceInfo, WifiNetwork } from "../../wemo/setup";
+import { UsageError, parseSetupArgs, resolveCredentials, runSetupCommand } from "../setup";
+
+const DEVICE: SetupDeviceInfo = {
+  name: "Wemo Mini",
+  model: "Socket",
+  serial: "221517K0101769",
+  mac: "94103EA20B77",
+  rtos: false,
+  newAlgo: true,
+  binaryOption: false,
+};
+
+const NETWORKS: WifiNetwork[] = [
+  {
+    ssid: "HomeNetwork",
+    channel: 6,
+    signalStrength: 80,
+    auth: "WPA2PSK",
+    encrypt: "AES",
+    rawSecurity: "WPA2PSK/AES",
+  },
+  {
+    ssid: "Guest",
+    channel: 11,
+    signalStrength: 60,
+    auth: "OPEN",
+    encrypt: "NONE",
+    rawSecurity: "OPEN/NONE",
+  },
+];
+
+describe("parseSetupArgs", () => {
+  test("reads network and batch options", () => {
+    const options = parseSetupArgs([
+      "--ssid",
+      "HomeNetwork",
+      "--channel",
+      "6",
+      "--timeout",
+      "90",
+      "--batch",
+      "--names",
+      "Porch, Garage",
+      "--name-pattern",
+      "Plug {n}",
+      "--count",
+      "3",
+    ]);
+
+    expect(options).toMatchObject({
+      ssid: "HomeNetwork",
+      password: undefined,
+      channel: 6,
+      timeout: 90,
+      batch: true,
+      names: ["Porch", "Garage"],
+      namePattern: "Plug {n}",
+      count: 3,
+      json: false,
+    });
+  });
+
+  test("uses the default join timeout", () => {
+    expect(parseSetupArgs([]).timeout).toBe(60);
+  });
+
+  test("rejects invalid values and options that need --batch", () => {
+    expect(() => parseSetupArgs(["--channel", "-1"])).toThrow("--channel");
+    expect(() => parseSetupArgs(["--timeout", "0"])).toThrow("--timeout");
+    expect(() => parseSetupArgs(["--batch", "--count", "1.5"])).toThrow("--count");
+    expect(() => parseSetupArgs(["--names", "Porch"])).toThrow("need --batch");
+    expect(() => parseSetupArgs(["--batch", "--list"])).toThrow("--list");
+    expect(() => parseSetupArgs(["--unknown"])).toThrow();
+  });
+});
+
+describe("resolveCredentials", () => {
+  test("takes security and channel from the network the device sees", async () => {
+    const options = parseSetupArgs(["--ssid", "HomeNetwork", "--password", "hunter22"]);
+
+    expect(await resolveCredentials(options, NETWORKS, DEVICE)).toEqual({
+      credentials: {
+        ssid: "HomeNetwork",
+        password: "hunter22",
+        auth: "WPA2PSK",
+        encrypt: "AES",
+        channel: 6,
+      },
+    });
+  });
+
+  test("joins open networks without a password", async () => {
+    const options = parseSetupArgs(["--ssid", "Guest"]);
+
+    expect(await resolveCredentials(options, NETWORKS, DEVICE)).toMatchObject({
+      credentials: { ssid: "Guest", password: "", auth: "OPEN", encrypt: "NONE", channel: 11 },
+    });
+  });
+
+  test("needs --security for networks the device can't see", async () => {
+    const unseen = parseSetupArgs(["--ssid", "Hidden", "--password", "hunter22"]);
+    expect(await resolveCredentials(unseen, NETWORKS, DEVICE)).toMatchObject({
+      ssid: "Hidden",
+      error: expect.stringContaining("--security"),
+    });
+
+    const secured = parseSetupArgs([
+      "--ssid",
+      "Hidden",
+      "--password",
+      "hunter22",
+      "--security",
+      "WPAPSK/TKIP",
+      "--channel",
+      "1",
+    ]);
+    expect(await resolveCredentials(secured, NETWORKS, DEVICE)).toMatchObject({
+      credentials: { ssid: "Hidden", auth: "WPAPSK", encrypt: "TKIP", channel: 1 },
+    });
+  });
+
+  test("requires a password for secured networks when it can't prompt", async () => {
+    const options = parseSetupArgs(["--ssid", "HomeNetwork"]);
+
+    await expect(resolveCredentials(options, NETWORKS, DEVICE)).rejects.toThrow(UsageError);
+  });
+});
+
+describe("runSetupCommand", () => {
+  let stdout: string[] = [];
+  let stderr: string[] = [];
+  let spies: { mockRestore: () => void }[] = [];
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    spies = [
+      spyOn(process.stdout, "write").mockImplementation((chunk) => {
+        stdout.push(String(chunk));
+        return true;
+      }),
+      spyOn(process.stderr, "write").mockImplementation((chunk) => {
+        stderr.push(String(chunk));
+        return true;
+      }),
+    ];
+  });
+
+  afterEach(() => {
+    for (const spy of spies) {
+      spy.mockRestore();
+    }
+  });
+
+  test("exits 2 with the usage for invalid options", async () => {
+    expect(await runSetupCommand(["--count", "2"])).toBe(2);
+    expect(stderr.join("")).toContain("Usage: open-wemo setup");
+    expect(stdout).toEqual([]);
+  });
+
+  test("prints the usage and exits 0 for --help", async () => {
+    expect(await runSetupCommand(["--help"])).toBe(0);
+    expect(stdout.join("")).toContain("Usage: open-wemo setup");
+  });
+
+  test("prints a JSON failure and exits 1 off the setup network", async () => {
+    const code = await runSetupCommand(["--json", "--ssid", "HomeNetwork", "--password", "x"]);
+
+    expect(code).toBe(1);
+    const result = JSON.parse(stdout.join(""));
+    expect(result).toEqual({ success: false, error: expect.stringContaining("Wemo") });
+  });
+});
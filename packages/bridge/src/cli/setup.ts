@@ -0,0 +1,595 @@
+/**
+ * `open-wemo setup` Command
+ *
+ * Provisions a WeMo device without the browser setup window. The host must
+ * be connected to the device's setup network (Wemo.XXX.XXX). The command
+ * reads the device, picks the home network, sends the credentials, waits
+ * for the device to join and closes setup so it leaves its setup network.
+ *
+ * With `--batch` it keeps going: after each device the user joins the next
+ * device's setup network and the command sets it up with the same home
+ * network, until the `--count` is reached or Ctrl+C is pressed. `--report`
+ * saves the session report after every device and resumes from it.
+ */
+
+import { existsSync } from "node:fs";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import { getDatabase } from "../db";
+import {
+  type BatchCredentials,
+  type BatchDeviceEntry,
+  type BatchSetupReport,
+  BatchSetupSession,
+} from "../wemo/batch-setup";
+import {
+  type JoinStatus,
+  type SetupDeviceInfo,
+  type WifiConnectParams,
+  type WifiEncryption,
+  type WifiNetwork,
+  closeSetup,
+  detectSetupDevice,
+  fetchApList,
+  logSetup,
+  selectEncryption,
+  sendWifiConnectCommand,
+  toConnectSecurity,
+  waitForJoinStatus,
+  withSetupLogger,
+} from "../wemo/setup";
+
+/**
+ * Exit codes.
+ */
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * How long to keep waiting for the device to join after the credentials
+ * were sent, in seconds.
+ */
+const DEFAULT_JOIN_TIMEOUT = 60;
+
+/**
+ * How often to look for the next device in batch mode.
+ */
+const BATCH_POLL_INTERVAL = 3000;
+
+const SETUP_USAGE = `
+Usage: open-wemo setup [options]
+
+Connect this computer to the device's setup network (Wemo.XXX.XXX) first.
+
+Options:
+  --ssid <name>           Home network to join (prompted if omitted)
+  --password <password>   Network password (prompted if omitted)
+  --security <auth/enc>   Security for networks the device can't see, e.g. WPA2PSK/AES
+  --channel <n>           Channel for networks the device can't see (default: 0)
+  --timeout <seconds>     How long to keep waiting for the device to join (default: ${DEFAULT_JOIN_TIMEOUT})
+  --list                  List the networks the device can see and exit
+  --json                  Print a JSON result instead of text
+  --verbose               Print setup diagnostics to stderr
+  --help, -h              Show this help message
+
+Batch options (set up one device after another with the same network):
+  --batch                 Keep setting up devices until --count or Ctrl+C
+  --names <a,b,...>       Names for the devices, in the order they are set up
+  --name-pattern <text>   Names after the list runs out; {n} is the position, {serial} the serial number
+  --count <n>             Stop once this many devices have joined
+  --report <file>         Save the session report here after each device; resumes from it if it exists
+
+Exit codes: 0 joined (every device, in batch mode), 1 failed, 2 invalid options.
+`;
+
+/**
+ * Parsed command line.
+ */
+export interface SetupOptions {
+  ssid: string | undefined;
+  password: string | undefined;
+  security: string | undefined;
+  channel: number | undefined;
+  /** Seconds to wait for the device to join */
+  timeout: number;
+  list: boolean;
+  json: boolean;
+  verbose: boolean;
+  help: boolean;
+  batch: boolean;
+  names: string[] | undefined;
+  namePattern: string | undefined;
+  count: number | undefined;
+  report: string | undefined;
+}
+
+/**
+ * Result printed by the command.
+ */
+interface SetupCommandResult {
+  success: boolean;
+  device?: Pick<SetupDeviceInfo, "name" | "model" | "serial" | "mac" | "firmwareVersion">;
+  networks?: WifiNetwork[];
+  ssid?: string;
+  /** Last join status the device reported */
+  joinStatus?: JoinStatus;
+  encryption?: WifiEncryption;
+  error?: string;
+}
+
+/**
+ * Error in the command line, reported with the usage text.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Asks a question on stderr, so stdout stays machine-readable.
+ */
+async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Asks for a value without echoing it.
+ */
+function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin;
+  process.stderr.write(question);
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf-8")) {
+        if (char === "\r" || char === "\n") {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        value = char === "\u007f" || char === "\b" ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * Lets the user pick a network by number or name.
+ */
+async function promptNetwork(networks: WifiNetwork[]): Promise<string> {
+  networks.forEach((network, index) => {
+    process.stderr.write(
+      `  ${String(index + 1).padStart(2)}. ${network.ssid} (${network.rawSecurity}, signal ${network.signalStrength})\n`
+    );
+  });
+
+  const answer = await prompt("Network (number or name): ");
+  const index = Number(answer);
+  if (Number.isInteger(index) && index >= 1 && index <= networks.length) {
+    return networks[index - 1]?.ssid ?? answer;
+  }
+  return answer;
+}
+
+/**
+ * Prints the result as JSON or text.
+ */
+function printResult(result: SetupCommandResult, json: boolean): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+
+  if (result.networks) {
+    for (const network of result.networks) {
+      process.stdout.write(
+        `${network.ssid}\t${network.rawSecurity}\tchannel ${network.channel}\tsignal ${network.signalStrength}\n`
+      );
+    }
+    return;
+  }
+
+  if (!result.success) {
+    process.stderr.write(`Setup failed: ${result.error ?? "Unknown error"}\n`);
+    return;
+  }
+
+  process.stdout.write(
+    `${result.device?.name ?? "The device"} joined ${result.ssid}. Reconnect this computer to ${result.ssid}; the bridge adds the device when it sees it.\n`
+  );
+}
+
+/**
+ * Parses the command line.
+ *
+ * @throws Error for unknown options or invalid values
+ */
+export function parseSetupArgs(args: string[]): SetupOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ssid: { type: "string" },
+      password: { type: "string" },
+      security: { type: "string" },
+      channel: { type: "string" },
+      timeout: { type: "string" },
+      list: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      batch: { type: "boolean", default: false },
+      names: { type: "string" },
+      "name-pattern": { type: "string" },
+      count: { type: "string" },
+      report: { type: "string" },
+    },
+    strict: true,
+  });
+
+  const channel = values.channel === undefined ? undefined : Number(values.channel);
+  if (channel !== undefined && (!Number.isInteger(channel) || channel < 0)) {
+    throw new Error("--channel must be a non-negative integer");
+  }
+  const timeout = values.timeout === undefined ? DEFAULT_JOIN_TIMEOUT : Number(values.timeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error("--timeout must be a positive number of seconds");
+  }
+  const count = values.count === undefined ? undefined : Number(values.count);
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+    throw new Error("--count must be a positive integer");
+  }
+  const batchOnly = [values.names, values["name-pattern"], values.count, values.report];
+  if (!values.batch && batchOnly.some((value) => value !== undefined)) {
+    throw new Error("--names, --name-pattern, --count and --report need --batch");
+  }
+  if (values.batch && values.list) {
+    throw new Error("--list can't be combined with --batch");
+  }
+
+  return {
+    ssid: values.ssid,
+    password: values.password,
+    security: values.security,
+    channel,
+    timeout,
+    list: values.list,
+    json: values.json,
+    verbose: values.verbose,
+    help: values.help,
+    batch: values.batch,
+    names: values.names?.split(",").map((name) => name.trim()),
+    namePattern: values["name-pattern"],
+    count,
+    report: values.report,
+  };
+}
+
+/**
+ * Runs the setup command.
+ *
+ * @param args - Arguments after `setup`
+ * @returns Exit code
+ */
+export async function runSetupCommand(args: string[]): Promise<number> {
+  let options: SetupOptions;
+  try {
+    options = parseSetupArgs(args);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n${SETUP_USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    process.stdout.write(SETUP_USAGE);
+    return EXIT_OK;
+  }
+
+  // The setup module logs every step; keep stdout for the result
+  const logger = options.verbose ? console.error : () => {};
+
+  return withSetupLogger(logger, async () => {
+    try {
+      if (options.batch) {
+        return await runBatch(options);
+      }
+      const result = await provision(options);
+      printResult(result, options.json);
+      return result.success ? EXIT_OK : EXIT_FAILED;
+    } catch (error) {
+      if (error instanceof UsageError) {
+        process.stderr.write(`${error.message}\n${SETUP_USAGE}`);
+        return EXIT_USAGE;
+      }
+      printResult(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        options.json
+      );
+      return EXIT_FAILED;
+    }
+  });
+}
+
+/**
+ * Works out the home network to send, prompting on a terminal for what the
+ * options leave out. The device's view of the network gives its security
+ * and channel; --security and --channel cover networks it can't see.
+ *
+ * @throws UsageError if a value is missing and can't be prompted for
+ */
+export async function resolveCredentials(
+  options: SetupOptions,
+  networks: WifiNetwork[],
+  info: SetupDeviceInfo
+): Promise<{ credentials: BatchCredentials } | { ssid: string; error: string }> {
+  const interactive = process.stdin.isTTY === true;
+  let ssid = options.ssid;
+  if (!ssid) {
+    if (!interactive || networks.length === 0) {
+      throw new UsageError("--ssid is required");
+    }
+    process.stderr.write(`Found ${info.name} (${info.model}, serial ${info.serial}).\n`);
+    ssid = await promptNetwork(networks);
+  }
+
+  const network = networks.find((candidate) => candidate.ssid === ssid);
+  if (!network && !options.security) {
+    return {
+      ssid,
+      error: `The device can't see "${ssid}". Pass --security (and --channel) to join it anyway.`,
+    };
+  }
+  const [auth, encrypt] = options.security?.split("/") ?? [network?.auth, network?.encrypt];
+
+  const security = toConnectSecurity(auth, encrypt);
+  let password = options.password ?? "";
+  if (security.auth !== "OPEN" && !password) {
+    if (!interactive) {
+      throw new UsageError("--password is required for secured networks");
+    }
+    password = await promptHidden(`Password for ${ssid}: `);
+  }
+
+  return {
+    credentials: {
+      ssid,
+      password,
+      ...security,
+      channel: options.channel ?? network?.channel ?? 0,
+    },
+  };
+}
+
+/**
+ * Reads the device, sends it the credentials and waits for it to join.
+ */
+async function provision(options: SetupOptions): Promise<SetupCommandResult> {
+  const detection = await detectSetupDevice();
+  if (!detection.device) {
+    return { success: false, error: detection.error ?? "No WeMo device found" };
+  }
+
+  const info = detection.device;
+  const device = {
+    name: info.name,
+    model: info.model,
+    serial: info.serial,
+    mac: info.mac,
+    ...(info.firmwareVersion ? { firmwareVersion: info.firmwareVersion } : {}),
+  };
+
+  const apList = await fetchApList();
+  if (options.list) {
+    return apList.success
+      ? { success: true, device, networks: apList.networks }
+      : { success: false, device, error: apList.error ?? "Could not list networks" };
+  }
+
+  const resolved = await resolveCredentials(options, apList.networks, info);
+  if ("error" in resolved) {
+    return { success: false, device, ssid: resolved.ssid, error: resolved.error };
+  }
+  const ssid = resolved.credentials.ssid;
+  const params: WifiConnectParams = {
+    ...resolved.credentials,
+    mac: info.mac,
+    serial: info.serial,
+  };
+
+  // A method this model accepted before wins over the setup.xml flags
+  const db = getDatabase();
+  params.encryption =
+    (info.model ? db.getSetupEncryption(info.model) : null) ?? selectEncryption(info);
+
+  const sent = await sendWifiConnectCommand(params, false);
+  if (!sent.success) {
+    return { success: false, device, ssid, error: sent.error ?? "Failed to send setup command" };
+  }
+
+  // The command waits a while for the device to join; keep asking for the rest of the timeout
+  const joinStatus = sent.connected ? "connected" : await waitForJoinStatus(options.timeout * 1000);
+  const result: SetupCommandResult = {
+    success: joinStatus === "connected",
+    device,
+    ssid,
+    joinStatus,
+  };
+  if (sent.encryption) {
+    result.encryption = sent.encryption;
+  }
+
+  if (joinStatus === "failed") {
+    result.error = "The device could not join the network. Check the password and try again.";
+    return result;
+  }
+  if (joinStatus === "pending") {
+    result.error = `The device did not report joining within ${options.timeout} seconds. Check its status light.`;
+    return result;
+  }
+
+  if (sent.encryption && info.model) {
+    db.saveSetupEncryption(info.model, sent.encryption);
+  }
+  // Ends setup mode: the device drops its setup network and stays on the home network
+  const closed = await closeSetup();
+  if (!closed.success) {
+    logSetup("[CLI] CloseSetup failed:", closed.error ?? closed.responseStatus);
+  }
+
+  return result;
+}
+
+/**
+ * Reads a report saved by an earlier batch run, if there is one.
+ */
+async function readBatchReport(path: string): Promise<BatchSetupReport | undefined> {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return (await Bun.file(path).json()) as BatchSetupReport;
+  } catch {
+    throw new UsageError(`${path} is not a batch setup report`);
+  }
+}
+
+/**
+ * Describes the outcome for a device in batch mode.
+ */
+function describeBatchEntry(entry: BatchDeviceEntry): string {
+  const label = `${entry.index}. ${entry.name} (${entry.device.serial})`;
+  switch (entry.status) {
+    case "joined":
+      return `${label}: joined`;
+    case "sent":
+      return `${label}: credentials sent, joining not confirmed`;
+    case "failed":
+      return `${label}: failed - ${entry.error ?? "Unknown error"}`;
+    case "interrupted":
+      return `${label}: interrupted - rejoin its setup network to try again`;
+  }
+}
+
+/**
+ * Sets up one device after another with the same home network.
+ *
+ * @returns Exit code: EXIT_OK if every device in the report joined
+ */
+async function runBatch(options: SetupOptions): Promise<number> {
+  const previous = options.report ? await readBatchReport(options.report) : undefined;
+  if (previous) {
+    process.stderr.write(
+      `Resuming batch setup: ${previous.summary.joined} of ${previous.devices.length} devices joined.\n`
+    );
+  }
+
+  // Ctrl+C finishes the device being set up, then prints the report
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+  };
+  process.once("SIGINT", stop);
+
+  const db = getDatabase();
+  let session: BatchSetupSession | null = null;
+  let joined = 0;
+  let waiting = false;
+
+  try {
+    while (!stopped && (options.count === undefined || joined < options.count)) {
+      if (!session) {
+        const detection = await detectSetupDevice();
+        if (detection.device) {
+          const apList = await fetchApList();
+          const resolved = await resolveCredentials(options, apList.networks, detection.device);
+          if ("error" in resolved) {
+            printResult(
+              { success: false, ssid: resolved.ssid, error: resolved.error },
+              options.json
+            );
+            return EXIT_FAILED;
+          }
+          session = new BatchSetupSession(resolved.credentials, {
+            ...(options.names ? { names: options.names } : {}),
+            ...(options.namePattern ? { pattern: options.namePattern } : {}),
+            joinTimeout: options.timeout * 1000,
+            encryptionFor: (device) => (device.model ? db.getSetupEncryption(device.model) : null),
+            ...(previous ? { report: previous } : {}),
+          });
+        }
+      }
+
+      const step = session ? await session.provisionNext() : null;
+      const entry = step && !step.skipped ? step.entry : null;
+      if (!session || !entry) {
+        if (!waiting) {
+          process.stderr.write(
+            "Connect this computer to the next device's setup network (Wemo.XXX.XXX). Press Ctrl+C when done.\n"
+          );
+          waiting = true;
+        }
+        await Bun.sleep(BATCH_POLL_INTERVAL);
+        continue;
+      }
+
+      waiting = false;
+      process.stderr.write(`${describeBatchEntry(entry)}\n`);
+      if (entry.status === "joined") {
+        joined++;
+        if (entry.encryption && entry.device.model) {
+          db.saveSetupEncryption(entry.device.model, entry.encryption);
+        }
+      }
+      if (options.report) {
+        await Bun.write(options.report, `${JSON.stringify(session.getReport(), null, 2)}\n`);
+      }
+    }
+  } finally {
+    process.off("SIGINT", stop);
+  }
+
+  const report = session?.getReport() ?? previous;
+  if (!report) {
+    process.stderr.write("No devices were set up.\n");
+    return EXIT_FAILED;
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    for (const entry of report.devices) {
+      process.stdout.write(`${describeBatchEntry(entry)}\n`);
+    }
+    const { joined: done, sent, failed, interrupted } = report.summary;
+    process.stdout.write(
+      `${done} joined, ${sent} unconfirmed, ${failed} failed, ${interrupted} interrupted.\n`
+    );
+  }
+
+  return report.devices.every((entry) => entry.status === "joined") ? EXIT_OK : EXIT_FAILED;
+}
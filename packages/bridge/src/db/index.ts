@@ -8,7 +8,15 @@ import { Database } from "bun:sqlite";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import type { SavedDevice, WemoDeviceType } from "../wemo/types";
+import type { HealthSample } from "../wemo/health";
+import {
+  findDuplicateDevices,
+  findMisfiledParents,
+  getDeviceIdAliases,
+  isAddressId,
+} from "../wemo/identity";
+import type { EncryptionMethod, WifiEncryption } from "../wemo/setup";
+import type { SavedDevice, WemoDevice, WemoDeviceType, WemoService } from "../wemo/types";
 
 /**
  * Database row types
@@ -19,16 +27,55 @@ interface DeviceRow {
   device_type: string;
   host: string;
   port: number;
+  parent_id: string | null;
+  model: string | null;
+  firmware_version: string | null;
+  serial_number: string | null;
+  mac_address: string | null;
+  udn: string | null;
+  services: string | null;
+  metadata_updated_at: string | null;
+  needs_setup: number;
+  is_online: number | null;
   last_seen: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface HealthRow {
+  device_id: string;
+  sampled_at: string;
+  reachable: number;
+  latency_ms: number | null;
+  signal_strength: number | null;
+  soap_requests: number;
+  soap_errors: number;
+}
+
+interface SetupEncryptionRow {
+  model: string;
+  method: number;
+  add_lengths: number;
+  updated_at: string;
+}
+
 interface SettingRow {
   key: string;
   value: string;
 }
 
+/**
+ * Parses the services column, ignoring values that are not a JSON array.
+ */
+function parseServices(value: string): WemoService[] | undefined {
+  try {
+    const services: unknown = JSON.parse(value);
+    return Array.isArray(services) ? (services as WemoService[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Gets the application data directory based on platform.
  */
@@ -100,9 +147,175 @@ export class DatabaseManager {
       )
     `);
 
+    // Create device health samples table
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS device_health (
+        device_id TEXT NOT NULL,
+        sampled_at TEXT NOT NULL,
+        reachable INTEGER NOT NULL,
+        latency_ms INTEGER,
+        signal_strength INTEGER,
+        soap_requests INTEGER NOT NULL DEFAULT 0,
+        soap_errors INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    // Create table of the WiFi password encryption each model accepted
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS setup_encryption (
+        model TEXT PRIMARY KEY,
+        method INTEGER NOT NULL,
+        add_lengths INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Columns added after the initial schema
+    this.ensureColumn("devices", "parent_id", "TEXT");
+    this.ensureColumn("devices", "model", "TEXT");
+    this.ensureColumn("devices", "firmware_version", "TEXT");
+    this.ensureColumn("devices", "needs_setup", "INTEGER NOT NULL DEFAULT 0");
+    this.ensureColumn("devices", "is_online", "INTEGER");
+    this.ensureColumn("devices", "serial_number", "TEXT");
+    this.ensureColumn("devices", "mac_address", "TEXT");
+    this.ensureColumn("devices", "udn", "TEXT");
+    this.ensureColumn("devices", "services", "TEXT");
+    this.ensureColumn("devices", "metadata_updated_at", "TEXT");
+
+    // Older versions saved some devices under more than one ID
+    this.mergeDuplicateDevices();
+    this.refileParents();
+
     // Create indexes for faster lookups
     this.db.run("CREATE INDEX IF NOT EXISTS idx_devices_host ON devices(host)");
     this.db.run("CREATE INDEX IF NOT EXISTS idx_devices_type ON devices(device_type)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_devices_parent ON devices(parent_id)");
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_device_health ON device_health(device_id, sampled_at)"
+    );
+  }
+
+  /**
+   * Adds a column to an existing table if it is missing.
+   * Keeps databases created by older versions in sync with the schema.
+   */
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+
+    if (!columns.some((c) => c.name === column)) {
+      this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Merges rows that refer to the same device into the one with the
+   * strongest ID. The oldest row's name is kept, since that is the one the
+   * user has been renaming, and the most recently seen row's address.
+   */
+  private mergeDuplicateDevices(): void {
+    const rows = this.db.query<DeviceRow, []>("SELECT * FROM devices").all();
+    const groups = findDuplicateDevices(
+      rows.map((row) => ({ id: row.id, host: row.host, port: row.port, parentId: row.parent_id }))
+    );
+    if (groups.length === 0) {
+      return;
+    }
+
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    this.db.transaction(() => {
+      for (const group of groups) {
+        const members = [group.id, ...group.duplicates]
+          .map((id) => byId.get(id))
+          .filter((row): row is DeviceRow => row !== undefined);
+        const named = members.reduce((a, b) => (b.created_at < a.created_at ? b : a));
+        const latest = members.reduce((a, b) =>
+          (b.last_seen ?? "") > (a.last_seen ?? "") ? b : a
+        );
+
+        // Metadata comes from the row that has it, strongest ID first
+        const described = members.find((row) => row.services) ?? members[0];
+        this.db
+          .query(
+            `UPDATE devices
+             SET name = ?, host = ?, port = ?, model = ?, firmware_version = ?,
+                 serial_number = ?, mac_address = ?, udn = ?, services = ?, metadata_updated_at = ?,
+                 needs_setup = ?, is_online = ?, last_seen = ?, created_at = ?,
+                 updated_at = datetime('now')
+             WHERE id = ?`
+          )
+          .run(
+            named.name,
+            latest.host,
+            latest.port,
+            members.find((row) => row.model)?.model ?? null,
+            members.find((row) => row.firmware_version)?.firmware_version ?? null,
+            described?.serial_number ?? null,
+            described?.mac_address ?? null,
+            described?.udn ?? null,
+            described?.services ?? null,
+            described?.metadata_updated_at ?? null,
+            latest.needs_setup,
+            latest.is_online,
+            latest.last_seen,
+            named.created_at,
+            group.id
+          );
+
+        for (const id of group.duplicates) {
+          this.reassignDevice(id, group.id);
+          this.db.query("DELETE FROM devices WHERE id = ?").run(id);
+        }
+        console.log(`[Database] Merged ${group.duplicates.join(", ")} into ${group.id}`);
+      }
+    })();
+  }
+
+  /**
+   * Moves Links saved under their serial number to the ID their bulbs refer
+   * to them by, so the bulbs are reached, moved and deleted with them.
+   */
+  private refileParents(): void {
+    const rows = this.db.query<DeviceRow, []>("SELECT * FROM devices").all();
+    const misfiled = findMisfiledParents(
+      rows.map((row) => ({ id: row.id, host: row.host, port: row.port, parentId: row.parent_id }))
+    );
+
+    for (const { id, parentId } of misfiled) {
+      this.db.transaction(() => {
+        this.db.query("UPDATE devices SET id = ? WHERE id = ?").run(parentId, id);
+        this.reassignDevice(id, parentId);
+      })();
+      console.log(`[Database] Moved ${id} to ${parentId}, the ID its bulbs refer to`);
+    }
+  }
+
+  /**
+   * Moves the bulbs and device settings of one ID to another. Where the
+   * target already has the same bulb or setting, the target's is kept.
+   * Device settings are those whose key ends in ":<device ID>".
+   */
+  private reassignDevice(fromId: string, toId: string): void {
+    // Bulb IDs start with their Link's ID
+    this.db
+      .query(
+        `UPDATE OR IGNORE devices SET id = ?2 || substr(id, length(?1) + 1), parent_id = ?2
+         WHERE parent_id = ?1 AND substr(id, 1, length(?1)) = ?1`
+      )
+      .run(fromId, toId);
+    this.db
+      .query("UPDATE OR IGNORE devices SET parent_id = ?2 WHERE parent_id = ?1")
+      .run(fromId, toId);
+    this.db.query("DELETE FROM devices WHERE parent_id = ?").run(fromId);
+    this.db.query("UPDATE device_health SET device_id = ? WHERE device_id = ?").run(toId, fromId);
+
+    const suffix = `:${fromId}`;
+    this.db
+      .query(
+        `UPDATE OR IGNORE settings SET key = substr(key, 1, length(key) - length(?1)) || ?2
+         WHERE substr(key, -length(?1)) = ?1`
+      )
+      .run(suffix, `:${toId}`);
+    this.db.query("DELETE FROM settings WHERE substr(key, -length(?1)) = ?1").run(suffix);
   }
 
   /**
@@ -142,11 +355,50 @@ export class DatabaseManager {
    */
   getDeviceByHost(host: string): SavedDevice | null {
     const row = this.db
-      .query<DeviceRow, [string]>("SELECT * FROM devices WHERE host = ?")
+      .query<DeviceRow, [string]>(
+        // Prefer the device itself over bulbs reached through it at the same address
+        "SELECT * FROM devices WHERE host = ? ORDER BY parent_id IS NOT NULL LIMIT 1"
+      )
       .get(host);
     return row ? this.rowToDevice(row) : null;
   }
 
+  /**
+   * Gets the saved row of a discovered device. Rows saved by older versions
+   * under another of the device's IDs, or under an ID built from its
+   * address, are moved to the device's ID first.
+   */
+  getDeviceByIdentity(
+    device: Pick<WemoDevice, "id" | "host" | "port" | "macAddress" | "serialNumber" | "parentId">
+  ): SavedDevice | null {
+    const saved = this.getDeviceById(device.id);
+    if (saved || device.parentId) {
+      return saved;
+    }
+
+    const legacy =
+      getDeviceIdAliases(device)
+        .map((alias) => this.getDeviceById(alias))
+        .find((row) => row !== null) ??
+      this.getAllDevices().find(
+        (row) =>
+          !row.parentId &&
+          isAddressId(row.id) &&
+          row.host === device.host &&
+          row.port === device.port
+      );
+    if (!legacy) {
+      return null;
+    }
+
+    this.db.transaction(() => {
+      this.db.query("UPDATE devices SET id = ? WHERE id = ?").run(device.id, legacy.id);
+      this.reassignDevice(legacy.id, device.id);
+    })();
+    console.log(`[Database] Moved ${legacy.name} from ${legacy.id} to ${device.id}`);
+    return this.getDeviceById(device.id);
+  }
+
   /**
    * Saves a device (insert or update).
    */
@@ -157,36 +409,130 @@ export class DatabaseManager {
       this.db
         .query(
           `UPDATE devices 
-         SET name = ?, device_type = ?, host = ?, port = ?, updated_at = datetime('now')
+         SET name = ?, device_type = ?, host = ?, port = ?, parent_id = ?,
+             model = COALESCE(?, model), firmware_version = COALESCE(?, firmware_version),
+             updated_at = datetime('now')
          WHERE id = ?`
         )
-        .run(device.name, device.deviceType, device.host, device.port, device.id);
+        .run(
+          device.name,
+          device.deviceType,
+          device.host,
+          device.port,
+          device.parentId ?? null,
+          device.model || null,
+          device.firmwareVersion || null,
+          device.id
+        );
     } else {
       this.db
         .query(
-          `INSERT INTO devices (id, name, device_type, host, port, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
+          `INSERT INTO devices (id, name, device_type, host, port, parent_id, model, firmware_version, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
         )
-        .run(device.id, device.name, device.deviceType, device.host, device.port);
+        .run(
+          device.id,
+          device.name,
+          device.deviceType,
+          device.host,
+          device.port,
+          device.parentId ?? null,
+          device.model || null,
+          device.firmwareVersion || null
+        );
     }
   }
 
   /**
    * Updates the last_seen timestamp for a device.
+   * A device seen on the network is online and no longer needs setup.
    */
   updateLastSeen(id: string): void {
     this.db
       .query(
-        "UPDATE devices SET last_seen = datetime('now'), updated_at = datetime('now') WHERE id = ?"
+        "UPDATE devices SET last_seen = datetime('now'), is_online = 1, needs_setup = 0, updated_at = datetime('now') WHERE id = ?"
       )
       .run(id);
   }
 
+  /**
+   * Records whether a device is on the network.
+   * Devices reached through it (bulbs behind a Link) are updated as well.
+   */
+  setOnline(id: string, online: boolean): void {
+    this.db
+      .query(
+        "UPDATE devices SET is_online = ?, updated_at = datetime('now') WHERE id = ? OR parent_id = ?"
+      )
+      .run(online ? 1 : 0, id, id);
+  }
+
+  /**
+   * Marks a device as waiting to be set up again, e.g. after its WiFi was reset.
+   * Devices reached through it (bulbs behind a Link) are marked as well.
+   */
+  markNeedsSetup(id: string): void {
+    this.db
+      .query(
+        "UPDATE devices SET needs_setup = 1, updated_at = datetime('now') WHERE id = ? OR parent_id = ?"
+      )
+      .run(id, id);
+  }
+
+  /**
+   * Records the model and firmware version a device reports.
+   * Empty values leave the stored ones unchanged.
+   */
+  updateFirmwareInfo(id: string, model: string, firmwareVersion: string): void {
+    this.db
+      .query(
+        `UPDATE devices
+         SET model = COALESCE(NULLIF(?, ''), model),
+             firmware_version = COALESCE(NULLIF(?, ''), firmware_version)
+         WHERE id = ?`
+      )
+      .run(model, firmwareVersion, id);
+  }
+
+  /**
+   * Saves what a device's description says about it: model, firmware,
+   * serial number, MAC, UDN and services. Empty values leave the stored ones
+   * unchanged; bulbs have no services of their own.
+   */
+  updateMetadata(id: string, device: WemoDevice): void {
+    this.db
+      .query(
+        `UPDATE devices
+         SET model = COALESCE(NULLIF(?, ''), model),
+             firmware_version = COALESCE(NULLIF(?, ''), firmware_version),
+             serial_number = COALESCE(NULLIF(?, ''), serial_number),
+             mac_address = COALESCE(NULLIF(?, ''), mac_address),
+             udn = COALESCE(NULLIF(?, ''), udn),
+             services = COALESCE(?, services),
+             metadata_updated_at = datetime('now')
+         WHERE id = ?`
+      )
+      .run(
+        device.model,
+        device.firmwareVersion,
+        device.serialNumber,
+        device.macAddress,
+        device.udn ?? "",
+        device.services.length > 0 ? JSON.stringify(device.services) : null,
+        id
+      );
+  }
+
   /**
    * Deletes a device by ID.
+   * Devices reached through it (bulbs behind a Link) are deleted as well.
    */
   deleteDevice(id: string): boolean {
     const result = this.db.query("DELETE FROM devices WHERE id = ?").run(id);
+    if (result.changes > 0) {
+      this.db.query("DELETE FROM devices WHERE parent_id = ?").run(id);
+      this.db.query("DELETE FROM device_health WHERE device_id = ?").run(id);
+    }
     return result.changes > 0;
   }
 
@@ -200,11 +546,101 @@ export class DatabaseManager {
       deviceType: row.device_type as WemoDeviceType,
       host: row.host,
       port: row.port,
+      parentId: row.parent_id ?? undefined,
+      model: row.model ?? undefined,
+      firmwareVersion: row.firmware_version ?? undefined,
+      serialNumber: row.serial_number ?? undefined,
+      macAddress: row.mac_address ?? undefined,
+      udn: row.udn ?? undefined,
+      services: row.services ? parseServices(row.services) : undefined,
+      metadataUpdatedAt: row.metadata_updated_at ?? undefined,
+      needsSetup: row.needs_setup === 1 || undefined,
+      isOnline: row.is_online === null ? undefined : row.is_online === 1,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  // ==================== Health Operations ====================
+
+  /**
+   * Saves a device health sample.
+   */
+  addHealthSample(sample: HealthSample): void {
+    this.db
+      .query(
+        `INSERT INTO device_health (device_id, sampled_at, reachable, latency_ms, signal_strength, soap_requests, soap_errors)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        sample.deviceId,
+        sample.sampledAt,
+        sample.reachable ? 1 : 0,
+        sample.latencyMs,
+        sample.signalStrength,
+        sample.soapRequests,
+        sample.soapErrors
+      );
+  }
+
+  /**
+   * Gets a device's health samples taken since a time, oldest first.
+   *
+   * @param since - ISO 8601 timestamp
+   */
+  getHealthSamples(deviceId: string, since: string): HealthSample[] {
+    const rows = this.db
+      .query<HealthRow, [string, string]>(
+        "SELECT * FROM device_health WHERE device_id = ? AND sampled_at >= ? ORDER BY sampled_at"
+      )
+      .all(deviceId, since);
+    return rows.map((row) => ({
+      deviceId: row.device_id,
+      sampledAt: row.sampled_at,
+      reachable: row.reachable === 1,
+      latencyMs: row.latency_ms,
+      signalStrength: row.signal_strength,
+      soapRequests: row.soap_requests,
+      soapErrors: row.soap_errors,
+    }));
+  }
+
+  /**
+   * Deletes health samples taken before a time.
+   *
+   * @param before - ISO 8601 timestamp
+   * @returns Number of samples deleted
+   */
+  pruneHealthSamples(before: string): number {
+    return this.db.query("DELETE FROM device_health WHERE sampled_at < ?").run(before).changes;
+  }
+
+  // ==================== Setup Operations ====================
+
+  /**
+   * Gets the WiFi password encryption a model last accepted during setup.
+   */
+  getSetupEncryption(model: string): WifiEncryption | null {
+    const row = this.db
+      .query<SetupEncryptionRow, [string]>("SELECT * FROM setup_encryption WHERE model = ?")
+      .get(model);
+    return row
+      ? { method: row.method as EncryptionMethod, addLengths: row.add_lengths === 1 }
+      : null;
+  }
+
+  /**
+   * Records the WiFi password encryption a model accepted during setup.
+   */
+  saveSetupEncryption(model: string, encryption: WifiEncryption): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO setup_encryption (model, method, add_lengths, updated_at)
+         VALUES (?, ?, ?, datetime('now'))`
+      )
+      .run(model, encryption.method, encryption.addLengths ? 1 : 0);
+  }
+
   // ==================== Settings Operations ====================
 
   /**
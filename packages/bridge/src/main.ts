@@ -1,8 +1,10 @@
 import { existsSync, unlinkSync } from "node:fs";
 import { platform } from "node:os";
 import { join } from "node:path";
+import { runSetupCommand } from "./cli/setup";
 import { closeDatabase, getAppDataDir, getDatabase } from "./db";
 import { handleAutoInstall } from "./install";
+import { getActiveNetworkInterface, selectNetworkInterfaces } from "./network";
 import { type ServerInstance, startServer } from "./server";
 import { getSavedAutostartPreference, setAutostart, syncAutostart } from "./tray/autostart";
 import { type AppTray, createTray } from "./tray/index";
@@ -14,17 +16,47 @@ import {
   openInBrowser,
 } from "./tray/menu";
 import { shouldShowWelcome } from "./tray/welcome";
-import { discoverDevices } from "./wemo/discovery";
+import { type AdoptionJob, getAdoptionWatcher } from "./wemo/adoption";
+import { discoverDevices, getDeviceByAddress, getSavedDescription } from "./wemo/discovery";
+import { getEventSubscriptions } from "./wemo/events";
+import { getFirmwareUpdates } from "./wemo/firmware";
+import { sampleDeviceHealth } from "./wemo/health";
+import { getNetworkMigration } from "./wemo/migration";
+import { getMotionTracker, isMotionSensor } from "./wemo/motion";
+import { withSoapPriority } from "./wemo/queue";
+import { type DeviceMove, getPortRecovery } from "./wemo/relocate";
+import { getSsdpListener } from "./wemo/ssdp";
+import { getTimeSync } from "./wemo/timesync";
+import type { SavedDevice, WemoDevice } from "./wemo/types";
 
 /** Default server port (51515 chosen to avoid conflicts with common dev servers) */
 const DEFAULT_PORT = 51515;
 
+/** How often saved devices are reconciled with event subscriptions */
+const SUBSCRIPTION_SYNC_INTERVAL = 60000;
+
+/** How often device clocks are re-synced with the host */
+const TIME_SYNC_INTERVAL = 6 * 60 * 60 * 1000;
+
+/** How often saved device descriptions are read again */
+const METADATA_REFRESH_INTERVAL = 24 * 60 * 60 * 1000;
+
+/** How often device health is sampled */
+const HEALTH_SAMPLE_INTERVAL = 5 * 60 * 1000;
+
+/** How long health samples are kept */
+const HEALTH_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
 /** Application state */
 interface AppState {
   server: ServerInstance | null;
   tray: AppTray | null;
   isShuttingDown: boolean;
   startOnLogin: boolean;
+  subscriptionTimer: ReturnType<typeof setInterval> | null;
+  timeSyncTimer: ReturnType<typeof setInterval> | null;
+  metadataTimer: ReturnType<typeof setInterval> | null;
+  healthTimer: ReturnType<typeof setInterval> | null;
 }
 
 const state: AppState = {
@@ -32,6 +64,10 @@ const state: AppState = {
   tray: null,
   isShuttingDown: false,
   startOnLogin: false,
+  subscriptionTimer: null,
+  timeSyncTimer: null,
+  metadataTimer: null,
+  healthTimer: null,
 };
 
 /**
@@ -115,9 +151,17 @@ async function initialize(): Promise<void> {
     // Continue anyway - tray is not critical
   }
 
-  // Step 4: Run initial device discovery (background)
+  // Step 4: Run initial device discovery (background), then subscribe to device events
   console.log("[Main] Running initial device discovery...");
-  runBackgroundDiscovery();
+  startTimeSync();
+  startMetadataRefresh();
+  startHealthMonitor();
+  runBackgroundDiscovery().then(() => startEventSubscriptions());
+  watchFirmwareUpdates();
+  watchPortMoves();
+  watchAdoptions();
+  watchNetworkMigration();
+  startSsdpListener();
 
   // Step 5: Show first-launch setup if needed
   if (shouldShowWelcome()) {
@@ -186,63 +230,417 @@ async function createSystemTray(): Promise<void> {
 }
 
 /**
- * Runs device discovery in the background.
+ * Runs device discovery in the background, behind user commands.
  */
 async function runBackgroundDiscovery(): Promise<void> {
   try {
-    const result = await discoverDevices({ timeout: 5000 });
+    const result = await withSoapPriority("poll", () =>
+      discoverDevices({
+        timeout: 5000,
+        networkInterface: getActiveNetworkInterface(),
+      })
+    );
     console.log(`[Main] Discovery found ${result.devices.length} device(s)`);
 
     // Save discovered devices to database
     const db = getDatabase();
     for (const device of result.devices) {
-      const deviceId = device.serialNumber || `device-${Date.now()}`;
-
-      // Check if device exists by ID (serial number) - handles IP changes after re-setup
-      const existingById = db.getDeviceById(deviceId);
-      if (existingById) {
+      const existing = db.getDeviceByIdentity(device);
+      if (existing) {
         // Device exists - check if IP changed
-        if (existingById.host !== device.host || existingById.port !== device.port) {
+        if (existing.host !== device.host || existing.port !== device.port) {
           console.log(
-            `[Main] Device ${device.name} IP changed: ${existingById.host}:${existingById.port} -> ${device.host}:${device.port}`
+            `[Main] Device ${device.name} IP changed: ${existing.host}:${existing.port} -> ${device.host}:${device.port}`
           );
           // Update the device with new IP
           db.saveDevice({
-            ...existingById,
+            ...existing,
             host: device.host,
             port: device.port,
             updatedAt: new Date().toISOString(),
           });
+          void syncDeviceClock({ ...existing, host: device.host, port: device.port });
         } else {
-          db.updateLastSeen(existingById.id);
+          db.updateLastSeen(existing.id);
         }
-        continue;
-      }
-
-      // Check by host (for devices without serial numbers)
-      const existingByHost = db.getDeviceByHost(device.host);
-      if (existingByHost) {
-        db.updateLastSeen(existingByHost.id);
+        db.updateMetadata(existing.id, device);
         continue;
       }
 
       // New device - save it
-      db.saveDevice({
-        id: deviceId,
+      const saved: SavedDevice = {
+        id: device.id,
         name: device.name,
         deviceType: device.deviceType,
         host: device.host,
         port: device.port,
+        parentId: device.parentId,
+        model: device.model,
+        firmwareVersion: device.firmwareVersion,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-      });
+      };
+      db.saveDevice(saved);
+      db.updateMetadata(saved.id, device);
       console.log(`[Main] Saved new device: ${device.name}`);
+      void syncDeviceClock(saved);
     }
   } catch (error) {
     console.error("[Main] Discovery failed:", error);
   }
 }
 
+/**
+ * Starts the UPnP event subscription manager and keeps it in sync with saved devices.
+ */
+async function startEventSubscriptions(): Promise<void> {
+  const events = getEventSubscriptions();
+
+  try {
+    await events.start();
+  } catch (error) {
+    console.error("[Main] Failed to start event subscriptions:", error);
+    return;
+  }
+
+  events.on("state", (event) => {
+    console.log(`[Main] Event from ${event.deviceId}: state=${event.binaryState ?? "-"}`);
+    const db = getDatabase();
+    db.updateLastSeen(event.deviceId);
+
+    // Motion sensors report motion through BinaryState; keep occupancy history current
+    const saved = db.getDeviceById(event.deviceId);
+    if (saved && isMotionSensor(saved) && event.binaryState !== undefined) {
+      getMotionTracker().record(event.deviceId, event.binaryState !== 0, event.receivedAt);
+    }
+  });
+
+  await syncEventSubscriptions();
+  state.subscriptionTimer = setInterval(syncEventSubscriptions, SUBSCRIPTION_SYNC_INTERVAL);
+}
+
+/**
+ * Logs firmware update progress and records new firmware versions.
+ */
+function watchFirmwareUpdates(): void {
+  const updates = getFirmwareUpdates();
+
+  updates.on("progress", (job) => {
+    console.log(`[Main] Firmware update for ${job.deviceId}: ${job.status}`);
+  });
+  updates.on("completed", (job) => {
+    getDatabase().updateFirmwareInfo(job.deviceId, "", job.currentVersion);
+  });
+}
+
+/**
+ * Saves the new port of devices found after moving, along with the bulbs
+ * reached through them, and moves their event subscriptions.
+ */
+function watchPortMoves(): void {
+  getPortRecovery().on("moved", (move: DeviceMove) => {
+    const db = getDatabase();
+    const moved = db
+      .getAllDevices()
+      .filter((saved) => saved.host === move.host && saved.port === move.previousPort);
+
+    for (const saved of moved) {
+      console.log(
+        `[Main] ${saved.name} moved from port ${move.previousPort} to ${move.port}; updating`
+      );
+      db.saveDevice({ ...saved, port: move.port, updatedAt: new Date().toISOString() });
+      db.updateLastSeen(saved.id);
+    }
+
+    moveEventSubscriptions(moved);
+  });
+}
+
+/**
+ * Saves devices found on the home network after setup, under the name
+ * chosen during setup.
+ */
+function watchAdoptions(): void {
+  getAdoptionWatcher().on("found", (job: AdoptionJob, device: WemoDevice) => {
+    const db = getDatabase();
+    const existing = db.getDeviceByIdentity(device);
+    const now = new Date().toISOString();
+
+    const saved: SavedDevice = {
+      ...(existing ?? { id: device.id, createdAt: now }),
+      name: job.name,
+      deviceType: device.deviceType,
+      host: device.host,
+      port: device.port,
+      model: device.model,
+      firmwareVersion: device.firmwareVersion,
+      updatedAt: now,
+    };
+    db.saveDevice(saved);
+    db.updateMetadata(saved.id, device);
+    db.updateLastSeen(saved.id);
+    console.log(`[Main] Adopted ${job.name} at ${device.host}:${device.port}`);
+    void syncDeviceClock(saved);
+
+    // Devices moved to a new network come back at a new address
+    if (existing && (existing.host !== device.host || existing.port !== device.port)) {
+      moveEventSubscriptions(saveNewAddress(saved.id, device.host, device.port));
+    }
+  });
+}
+
+/**
+ * Logs network migration progress and the devices that did not move.
+ * Moved devices are saved by the adoption watcher.
+ */
+function watchNetworkMigration(): void {
+  getNetworkMigration().on("finished", (job) => {
+    const stragglers = job.devices.filter((device) => job.stragglers.includes(device.deviceId));
+    for (const device of stragglers) {
+      console.warn(
+        `[Main] ${device.name} was not moved to ${job.ssid}: ${device.status} (${device.error})`
+      );
+    }
+  });
+}
+
+/**
+ * Saves a device's new address. Bulbs are reached through their Link's
+ * address, so they move with it.
+ *
+ * @returns The rows that moved
+ */
+function saveNewAddress(deviceId: string, host: string, port: number): SavedDevice[] {
+  const db = getDatabase();
+  const moved = db
+    .getAllDevices()
+    .filter((row) => row.id === deviceId || row.parentId === deviceId)
+    .map((row) => ({ ...row, host, port, updatedAt: new Date().toISOString() }));
+  for (const row of moved) {
+    db.saveDevice(row);
+  }
+  return moved;
+}
+
+/**
+ * Drops event subscriptions that point at a device's old address and
+ * subscribes again. Only devices that were subscribed are resubscribed, so
+ * this cannot race the regular sync into subscribing twice.
+ */
+function moveEventSubscriptions(moved: SavedDevice[]): void {
+  const events = getEventSubscriptions();
+  const subscribed = moved.filter((saved) => events.isSubscribed(saved.id));
+  if (subscribed.length > 0) {
+    void Promise.all(subscribed.map((saved) => events.unsubscribe(saved.id)))
+      .then(syncEventSubscriptions)
+      .catch((error) => console.warn("[Main] Could not move event subscriptions:", error));
+  }
+}
+
+/**
+ * Listens for SSDP announcements and keeps saved addresses and online
+ * status current as devices join, leave or change address.
+ */
+function startSsdpListener(): void {
+  const listener = getSsdpListener({
+    interfaceAddresses: selectNetworkInterfaces(getActiveNetworkInterface()).map(
+      (iface) => iface.address
+    ),
+  });
+
+  listener.on("online", (device) => {
+    // Devices that were just set up announce themselves when they join
+    if (getAdoptionWatcher().offer(device)) {
+      return;
+    }
+
+    const db = getDatabase();
+    const saved = db.getDeviceByIdentity(device);
+    if (!saved) {
+      return;
+    }
+
+    if (saved.host !== device.host || saved.port !== device.port) {
+      console.log(
+        `[Main] ${saved.name} announced a new address: ${saved.host}:${saved.port} -> ${device.host}:${device.port}`
+      );
+      moveEventSubscriptions(saveNewAddress(saved.id, device.host, device.port));
+      void syncDeviceClock({ ...saved, host: device.host, port: device.port });
+    }
+
+    db.updateMetadata(saved.id, device);
+    db.updateLastSeen(saved.id);
+    db.setOnline(saved.id, true);
+  });
+
+  listener.on("offline", (udn, device) => {
+    const db = getDatabase();
+    const saved = device ? db.getDeviceByIdentity(device) : db.getDeviceById(udn);
+    if (saved) {
+      console.log(`[Main] ${saved.name} left the network`);
+      db.setOnline(saved.id, false);
+    }
+  });
+
+  listener.start().catch((error) => {
+    console.warn("[Main] Could not start SSDP listener:", error);
+  });
+}
+
+/**
+ * Pushes the host time to devices when they (re)connect and periodically after.
+ * A new subscription means the device was just added, came back online or
+ * rebooted, and a reboot may have reset its clock.
+ */
+function startTimeSync(): void {
+  getEventSubscriptions().on("subscribed", (deviceId, _serviceType, renewed) => {
+    const saved = renewed ? null : getDatabase().getDeviceById(deviceId);
+    if (saved) {
+      void syncDeviceClock(saved);
+    }
+  });
+
+  state.timeSyncTimer = setInterval(() => {
+    for (const saved of getDatabase().getAllDevices()) {
+      void syncDeviceClock(saved, true);
+    }
+  }, TIME_SYNC_INTERVAL);
+}
+
+/**
+ * Syncs one device clock, logging instead of throwing.
+ * Runs behind user commands to the same device.
+ */
+async function syncDeviceClock(saved: SavedDevice, force = false): Promise<void> {
+  try {
+    const result = await withSoapPriority("poll", () =>
+      getTimeSync().syncSavedDevice(saved, force)
+    );
+    if (result) {
+      console.log(`[Main] Synced clock of ${saved.name} (UTC${result.timeZone})`);
+    }
+  } catch (error) {
+    console.warn(`[Main] Could not sync clock of ${saved.name}:`, error);
+  }
+}
+
+/**
+ * Reads saved devices' descriptions again periodically, so clients built
+ * from them pick up firmware updates and changed services.
+ */
+function startMetadataRefresh(): void {
+  state.metadataTimer = setInterval(() => {
+    void refreshDeviceMetadata();
+  }, METADATA_REFRESH_INTERVAL);
+}
+
+/**
+ * Reads the description of every reachable saved device and saves it.
+ * Bulbs are described through their Link.
+ */
+async function refreshDeviceMetadata(): Promise<void> {
+  const db = getDatabase();
+  for (const saved of db.getAllDevices()) {
+    if (saved.parentId) continue;
+
+    try {
+      const device = await withSoapPriority("poll", () =>
+        getDeviceByAddress(saved.host, saved.port)
+      );
+      if (device) {
+        db.updateMetadata(saved.id, device);
+      }
+    } catch (error) {
+      console.warn(`[Main] Could not refresh metadata of ${saved.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Samples the health of saved devices periodically and drops old samples.
+ */
+function startHealthMonitor(): void {
+  state.healthTimer = setInterval(() => {
+    void collectDeviceHealth();
+  }, HEALTH_SAMPLE_INTERVAL);
+}
+
+/**
+ * Samples every saved device at once; requests are queued per host, behind
+ * user commands. Bulbs are reached through their Link, so only the Link is
+ * sampled.
+ */
+async function collectDeviceHealth(): Promise<void> {
+  const db = getDatabase();
+  const devices = db.getAllDevices().filter((saved) => !saved.parentId);
+
+  await withSoapPriority("poll", () =>
+    Promise.all(
+      devices.map(async (saved) => {
+        try {
+          const description =
+            getSavedDescription(saved) ?? (await getDeviceByAddress(saved.host, saved.port));
+          const sample = description
+            ? await sampleDeviceHealth({ ...description, id: saved.id })
+            : {
+                deviceId: saved.id,
+                sampledAt: new Date().toISOString(),
+                reachable: false,
+                latencyMs: null,
+                signalStrength: null,
+                soapRequests: 0,
+                soapErrors: 0,
+              };
+          db.addHealthSample(sample);
+        } catch (error) {
+          console.warn(`[Main] Could not sample health of ${saved.name}:`, error);
+        }
+      })
+    )
+  );
+
+  db.pruneHealthSamples(new Date(Date.now() - HEALTH_RETENTION).toISOString());
+}
+
+/**
+ * Subscribes to newly saved devices and drops subscriptions for removed ones.
+ */
+async function syncEventSubscriptions(): Promise<void> {
+  const events = getEventSubscriptions();
+  const devices = getDatabase().getAllDevices();
+  const savedIds = new Set(devices.map((d) => d.id));
+
+  for (const deviceId of events.deviceIds) {
+    if (!savedIds.has(deviceId)) {
+      await events.unsubscribe(deviceId);
+    }
+  }
+
+  for (const saved of devices) {
+    // Bulbs have no event service of their own; they are polled through their Link
+    if (saved.parentId || events.isSubscribed(saved.id)) continue;
+
+    try {
+      const device = await withSoapPriority(
+        "poll",
+        async () =>
+          (await getDeviceByAddress(saved.host, saved.port)) ??
+          (await getPortRecovery().recover({
+            id: saved.id,
+            host: saved.host,
+            port: saved.port,
+          }))
+      );
+      if (device) {
+        // Keep the saved ID so events map back to the database row
+        await events.subscribe({ ...device, id: saved.id, name: saved.name });
+      }
+    } catch (error) {
+      console.warn(`[Main] Could not subscribe to ${saved.name}:`, error);
+    }
+  }
+}
+
 /**
  * Gracefully shuts down the application.
  */
@@ -255,7 +653,33 @@ async function shutdown(): Promise<void> {
   state.isShuttingDown = true;
   console.log("[Main] Shutting down...");
 
-  // Step 1: Stop HTTP server
+  // Step 1: Stop event subscriptions and HTTP server
+  if (state.subscriptionTimer) {
+    clearInterval(state.subscriptionTimer);
+    state.subscriptionTimer = null;
+  }
+  if (state.timeSyncTimer) {
+    clearInterval(state.timeSyncTimer);
+    state.timeSyncTimer = null;
+  }
+  if (state.metadataTimer) {
+    clearInterval(state.metadataTimer);
+    state.metadataTimer = null;
+  }
+  if (state.healthTimer) {
+    clearInterval(state.healthTimer);
+    state.healthTimer = null;
+  }
+  try {
+    await getEventSubscriptions().stop();
+  } catch (error) {
+    console.error("[Main] Error stopping event subscriptions:", error);
+  }
+  getFirmwareUpdates().stop();
+  getNetworkMigration().stop();
+  getAdoptionWatcher().stop();
+  getSsdpListener().stop();
+
   if (state.server) {
     try {
       await state.server.stop();
@@ -352,6 +776,11 @@ function handleCliArgs(): boolean {
 Open Wemo Bridge
 
 Usage: open-wemo [options]
+       open-wemo setup [options]
+
+Commands:
+  setup                   Connect a new device to WiFi from the command line
+                          (see open-wemo setup --help)
 
 Options:
   --help, -h              Show this help message
@@ -418,6 +847,11 @@ Options:
 
 // ==================== Application Entry ====================
 
+// Subcommands run on their own and exit
+if (process.argv[2] === "setup") {
+  process.exit(await runSetupCommand(process.argv.slice(3)));
+}
+
 // Handle CLI arguments first
 if (!handleCliArgs()) {
   process.exit(0);
@@ -0,0 +1,232 @@
+/**
+ * Network Interfaces
+ *
+ * Picks the local interfaces the bridge uses. Hosts often have Docker
+ * bridges, VPN tunnels and several NICs, so interfaces are scored by how
+ * likely they are to be the home LAN. The same choice is used for the phone
+ * QR code and for device discovery, and users can pin one in settings.
+ */
+
+import { networkInterfaces } from "node:os";
+import { getDatabase } from "./db";
+
+/** Settings key for the interface the user picked */
+const PREFERRED_INTERFACE_KEY = "preferred_interface";
+
+/**
+ * Network interface info for IP selection.
+ */
+export interface NetworkInterface {
+  name: string;
+  address: string;
+  netmask: string;
+  family: string;
+  internal: boolean;
+  /** Whether the name looks like a virtual, container or VPN interface */
+  virtual: boolean;
+}
+
+/**
+ * Patterns for virtual/VPN interfaces that should be excluded.
+ * These are typically not reachable from phones or WeMo devices on the
+ * local network.
+ */
+const VIRTUAL_INTERFACE_PATTERNS = [
+  /^vEthernet/i, // Hyper-V virtual switches
+  /^vnic/i, // Virtual NICs
+  /vmware/i, // VMware
+  /^vmnet/i, // VMware (macOS)
+  /virtual/i, // VirtualBox and other "Virtual" adapters
+  /vbox/i, // VirtualBox
+  /docker/i, // Docker
+  /\bwsl\b/i, // WSL
+  /hyper-?v/i, // Hyper-V
+  /^tun\d/i, // VPN tunnel
+  /^tap\d/i, // VPN tap
+  /^utun\d/i, // macOS VPN
+  /^ppp\d/i, // PPP connections
+  /\bvpn\b/i, // VPN interfaces
+  /^br-/i, // Docker bridge networks
+  /^veth/i, // Docker virtual ethernet
+  /^virbr/i, // libvirt/KVM virtual bridges
+  /loopback/i, // Windows loopback adapters
+];
+
+/**
+ * Checks if an interface name appears to be virtual/VPN.
+ */
+function isVirtualInterface(name: string): boolean {
+  return VIRTUAL_INTERFACE_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Scores an IP address by how likely it is to be a real LAN address.
+ * Higher score = more likely to be the correct local network.
+ * 192.168.x.x and 10.x.x.x are scored equally as both are common home/office ranges.
+ */
+function scoreIpAddress(address: string): number {
+  // 192.168.x.x - common home/SOHO networks
+  if (address.startsWith("192.168.")) {
+    return 100;
+  }
+
+  // 10.x.x.x - common home and corporate networks (equally valid as 192.168)
+  if (address.startsWith("10.")) {
+    return 100;
+  }
+
+  // 172.16.x.x - 172.31.x.x - private range, but often used for virtual networks
+  // Check if it's in the valid private range (172.16.0.0 - 172.31.255.255)
+  if (address.startsWith("172.")) {
+    const parts = address.split(".");
+    const secondOctet = Number.parseInt(parts[1] ?? "0", 10);
+    if (secondOctet >= 16 && secondOctet <= 31) {
+      return 50; // Lower score - often virtual
+    }
+  }
+
+  // Other addresses (link-local, etc.)
+  return 10;
+}
+
+/**
+ * Scores an interface name by how likely it is to be the primary network.
+ * Higher score = more likely to be the user's main connection.
+ */
+function scoreInterfaceName(name: string): number {
+  const lowerName = name.toLowerCase();
+
+  // WiFi interfaces - usually the primary on laptops/phones
+  if (/wi-?fi|wlan|wireless|airport/i.test(lowerName)) {
+    return 100;
+  }
+
+  // Ethernet - usually primary on desktops
+  if (/^ethernet$|^eth\d|^en\d/i.test(lowerName)) {
+    return 80;
+  }
+
+  // Other physical interfaces
+  return 50;
+}
+
+/**
+ * Scores an interface by how likely it is to be the home LAN:
+ * IP range first (192.168 = 10.x > 172.16-31), then name (wifi > ethernet > other).
+ */
+export function scoreInterface(iface: Pick<NetworkInterface, "name" | "address">): number {
+  return scoreIpAddress(iface.address) * 10 + scoreInterfaceName(iface.name);
+}
+
+/**
+ * Gets every external IPv4 interface, including virtual ones, best first.
+ */
+export function listNetworkInterfaces(): NetworkInterface[] {
+  const result: NetworkInterface[] = [];
+
+  for (const [name, addrs] of Object.entries(networkInterfaces())) {
+    if (!addrs) continue;
+
+    for (const addr of addrs) {
+      if (addr.family === "IPv4" && !addr.internal) {
+        result.push({
+          name,
+          address: addr.address,
+          netmask: addr.netmask,
+          family: addr.family,
+          internal: addr.internal,
+          virtual: isVirtualInterface(name),
+        });
+      }
+    }
+  }
+
+  return result.sort((a, b) => scoreInterface(b) - scoreInterface(a));
+}
+
+/**
+ * Gets all available IPv4 addresses from network interfaces, best first.
+ * Filters out virtual/VPN interfaces.
+ */
+export function getNetworkInterfaces(): NetworkInterface[] {
+  return listNetworkInterfaces().filter((iface) => !iface.virtual);
+}
+
+/**
+ * Gets the preferred local IP address.
+ * Uses the interface saved in settings if it is up, otherwise the
+ * best-scored non-virtual interface.
+ */
+export function getPreferredIp(): string | null {
+  return selectNetworkInterfaces(getActiveNetworkInterface())[0]?.address ?? null;
+}
+
+/**
+ * Gets the interfaces to use for a selection.
+ *
+ * @param selection - Interface name or address. Virtual interfaces can be
+ *   selected by name. Without a selection, all non-virtual interfaces.
+ * @returns Matching interfaces, best first (empty if nothing matches)
+ */
+export function selectNetworkInterfaces(selection?: string): NetworkInterface[] {
+  if (!selection) {
+    return getNetworkInterfaces();
+  }
+  return listNetworkInterfaces().filter(
+    (iface) => iface.name === selection || iface.address === selection
+  );
+}
+
+/**
+ * Converts a dotted IPv4 address to a number.
+ */
+function ipToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Finds the interface whose subnet contains a host.
+ */
+export function findInterfaceForHost<T extends Pick<NetworkInterface, "address" | "netmask">>(
+  host: string,
+  interfaces: T[]
+): T | undefined {
+  const target = ipToNumber(host);
+  return interfaces.find((iface) => {
+    // Addresses in one subnet share the quotient by the subnet size
+    const size = 2 ** 32 - ipToNumber(iface.netmask);
+    return size > 0 && Math.floor(target / size) === Math.floor(ipToNumber(iface.address) / size);
+  });
+}
+
+/**
+ * Gets the interface name or address saved in settings.
+ */
+export function getSavedNetworkInterface(): string | null {
+  try {
+    return getDatabase().getSetting(PREFERRED_INTERFACE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the saved interface if it is up. A saved interface that is down
+ * (e.g., an unplugged adapter) gives undefined, meaning all interfaces.
+ */
+export function getActiveNetworkInterface(): string | undefined {
+  const saved = getSavedNetworkInterface();
+  return saved && selectNetworkInterfaces(saved).length > 0 ? saved : undefined;
+}
+
+/**
+ * Saves the interface to use, or clears it with null.
+ */
+export function saveNetworkInterface(selection: string | null): void {
+  const db = getDatabase();
+  if (selection) {
+    db.setSetting(PREFERRED_INTERFACE_KEY, selection);
+  } else {
+    db.deleteSetting(PREFERRED_INTERFACE_KEY);
+  }
+}
@@ -4,6 +4,8 @@
  * Consistent error handling for the REST API.
  */
 
+import { DeviceError } from "../wemo/device";
+
 /**
  * Error codes used in API responses.
  */
@@ -19,6 +21,18 @@ export const ErrorCodes = {
   DEVICE_OFFLINE: "DEVICE_OFFLINE",
   DEVICE_OPERATION_FAILED: "DEVICE_OPERATION_FAILED",
   INSIGHT_NOT_SUPPORTED: "INSIGHT_NOT_SUPPORTED",
+  FEATURE_NOT_SUPPORTED: "FEATURE_NOT_SUPPORTED",
+  RESET_NOT_CONFIRMED: "RESET_NOT_CONFIRMED",
+  SERVICE_NOT_FOUND: "SERVICE_NOT_FOUND",
+  ACTION_NOT_FOUND: "ACTION_NOT_FOUND",
+
+  // Rule errors
+  RULE_NOT_FOUND: "RULE_NOT_FOUND",
+  RULES_CONFLICT: "RULES_CONFLICT",
+
+  // Firmware errors
+  FIRMWARE_IMAGE_NOT_FOUND: "FIRMWARE_IMAGE_NOT_FOUND",
+  FIRMWARE_UPDATE_IN_PROGRESS: "FIRMWARE_UPDATE_IN_PROGRESS",
 
   // Discovery errors
   DISCOVERY_TIMEOUT: "DISCOVERY_TIMEOUT",
@@ -115,6 +129,136 @@ export class InsightNotSupportedError extends ApiError {
   }
 }
 
+/**
+ * Error thrown when a device-specific feature is requested on a device that lacks it.
+ */
+export class FeatureNotSupportedError extends ApiError {
+  public readonly feature: string;
+
+  constructor(deviceId: string, feature: string) {
+    super(`Device does not support ${feature}`, 400, ErrorCodes.FEATURE_NOT_SUPPORTED, deviceId);
+    this.name = "FeatureNotSupportedError";
+    this.feature = feature;
+  }
+
+  override toJSON() {
+    return {
+      ...super.toJSON(),
+      feature: this.feature,
+    };
+  }
+}
+
+/**
+ * Error thrown when a reset is requested without a valid confirmation token.
+ */
+export class ResetNotConfirmedError extends ApiError {
+  constructor(deviceId: string) {
+    super(
+      "Reset not confirmed: request a confirmation token for this device and mode first",
+      403,
+      ErrorCodes.RESET_NOT_CONFIRMED,
+      deviceId
+    );
+    this.name = "ResetNotConfirmedError";
+  }
+}
+
+/**
+ * Error thrown when a device has no service with the given ID.
+ */
+export class ServiceNotFoundError extends ApiError {
+  constructor(deviceId: string, serviceId: string) {
+    super(`Service not found: ${serviceId}`, 404, ErrorCodes.SERVICE_NOT_FOUND, deviceId);
+    this.name = "ServiceNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when a service's description does not list an action.
+ */
+export class ActionNotFoundError extends ApiError {
+  constructor(deviceId: string, serviceId: string, action: string) {
+    super(
+      `Action not found: ${action} is not described by ${serviceId}`,
+      404,
+      ErrorCodes.ACTION_NOT_FOUND,
+      deviceId
+    );
+    this.name = "ActionNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when a rule is not found on a device.
+ */
+export class RuleNotFoundError extends ApiError {
+  public readonly ruleId: number;
+
+  constructor(deviceId: string, ruleId: number) {
+    super(`Rule not found: ${ruleId}`, 404, ErrorCodes.RULE_NOT_FOUND, deviceId);
+    this.name = "RuleNotFoundError";
+    this.ruleId = ruleId;
+  }
+
+  override toJSON() {
+    return {
+      ...super.toJSON(),
+      ruleId: this.ruleId,
+    };
+  }
+}
+
+/**
+ * Error thrown when a device's rules changed since the client last read them.
+ */
+export class RulesOutOfDateError extends ApiError {
+  public readonly currentVersion: number;
+
+  constructor(deviceId: string, expectedVersion: number, currentVersion: number) {
+    super(
+      `Rules changed on the device since version ${expectedVersion}; reload and try again`,
+      409,
+      ErrorCodes.RULES_CONFLICT,
+      deviceId
+    );
+    this.name = "RulesOutOfDateError";
+    this.currentVersion = currentVersion;
+  }
+
+  override toJSON() {
+    return {
+      ...super.toJSON(),
+      currentVersion: this.currentVersion,
+    };
+  }
+}
+
+/**
+ * Error thrown when an uploaded firmware image is not found.
+ */
+export class FirmwareImageNotFoundError extends ApiError {
+  constructor(imageId: string) {
+    super(`Firmware image not found: ${imageId}`, 404, ErrorCodes.FIRMWARE_IMAGE_NOT_FOUND);
+    this.name = "FirmwareImageNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when a firmware update is requested while one is running.
+ */
+export class FirmwareUpdateInProgressError extends ApiError {
+  constructor(deviceId: string) {
+    super(
+      "A firmware update is already running for this device",
+      409,
+      ErrorCodes.FIRMWARE_UPDATE_IN_PROGRESS,
+      deviceId
+    );
+    this.name = "FirmwareUpdateInProgressError";
+  }
+}
+
 /**
  * Error thrown for validation failures.
  */
@@ -150,6 +294,12 @@ export function toApiError(error: unknown): ApiError {
     return error;
   }
 
+  // Clients are built from saved descriptions, so an offline device
+  // shows up as a request that never got an answer
+  if (error instanceof DeviceError && error.unreachable) {
+    return new DeviceOfflineError(error.deviceId, error.message);
+  }
+
   if (error instanceof Error) {
     return new ApiError(error.message, 500, ErrorCodes.INTERNAL_ERROR);
   }
@@ -9,8 +9,9 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { getPreferredIp } from "../network";
 import { getSavedAutostartPreference, setAutostart } from "../tray/autostart";
-import { generateQRWindowHtml, getPreferredIp, getServerUrl } from "../tray/qr-window";
+import { generateQRWindowHtml, getServerUrl } from "../tray/qr-window";
 import { createSetupRoute } from "../tray/setup-window";
 import {
   generateWelcomeHtml,
@@ -18,9 +19,12 @@ import {
   setDontShowWelcome,
   shouldShowWelcome,
 } from "../tray/welcome";
+import { getSoapQueue } from "../wemo/queue";
 import { toApiError } from "./errors";
 import { deviceRoutes } from "./routes/devices";
 import { discoveryRoutes } from "./routes/discovery";
+import { firmwareRoutes } from "./routes/firmware";
+import { settingsRoutes } from "./routes/settings";
 import { setupRoutes } from "./routes/setup";
 import { initStaticFiles, isDevMode, staticFileMiddleware } from "./static";
 
@@ -279,6 +283,11 @@ export function createApp(config: ServerConfig = {}): Hono {
     });
   });
 
+  // SOAP queue metrics per device host
+  app.get("/api/health/soap", (c) => {
+    return c.json({ queues: getSoapQueue().getMetrics() });
+  });
+
   // Server info endpoint (returns LAN IP for QR code generation)
   app.get("/api/info", (c) => {
     const ip = getPreferredIp();
@@ -297,6 +306,7 @@ export function createApp(config: ServerConfig = {}): Hono {
       version: "0.2.0",
       endpoints: [
         "GET /api/health",
+        "GET /api/health/soap",
         "GET /api/info",
         "GET /api/discover",
         "GET /api/discover/:host",
@@ -304,10 +314,46 @@ export function createApp(config: ServerConfig = {}): Hono {
         "GET /api/devices/:id",
         "POST /api/devices",
         "DELETE /api/devices/:id",
+        "POST /api/devices/:id/refresh",
+        "GET /api/devices/:id/health",
         "POST /api/devices/:id/on",
         "POST /api/devices/:id/off",
         "POST /api/devices/:id/toggle",
+        "POST /api/devices/:id/brightness",
+        "POST /api/devices/:id/color-temperature",
+        "GET /api/devices/:id/maker",
+        "PATCH /api/devices/:id/maker",
+        "GET /api/devices/:id/crockpot",
+        "PATCH /api/devices/:id/crockpot",
+        "GET /api/devices/:id/heater",
+        "PATCH /api/devices/:id/heater",
+        "GET /api/devices/:id/humidifier",
+        "PATCH /api/devices/:id/humidifier",
+        "GET /api/devices/:id/motion",
+        "PATCH /api/devices/:id/motion",
+        "GET /api/devices/:id/rules",
+        "POST /api/devices/:id/rules",
+        "PUT /api/devices/:id/rules/:ruleId",
+        "DELETE /api/devices/:id/rules/:ruleId",
+        "GET /api/devices/:id/firmware",
+        "POST /api/devices/:id/firmware",
+        "GET /api/devices/:id/time",
+        "POST /api/devices/:id/time/sync",
+        "POST /api/devices/:id/reset/confirmation",
+        "POST /api/devices/:id/reset",
         "GET /api/devices/:id/insight",
+        "GET /api/devices/:id/insight/settings",
+        "PATCH /api/devices/:id/insight/settings",
+        "POST /api/devices/:id/insight/reset",
+        "GET /api/devices/:id/services",
+        "POST /api/devices/:id/services/:serviceId/actions/:action",
+        "GET /api/firmware",
+        "GET /api/firmware/images",
+        "POST /api/firmware/images",
+        "GET /api/firmware/images/:imageId",
+        "DELETE /api/firmware/images/:imageId",
+        "GET /api/settings/network",
+        "PUT /api/settings/network",
       ],
     });
   });
@@ -315,6 +361,8 @@ export function createApp(config: ServerConfig = {}): Hono {
   // Mount API routes
   app.route("/api/devices", deviceRoutes);
   app.route("/api/discover", discoveryRoutes);
+  app.route("/api/firmware", firmwareRoutes);
+  app.route("/api/settings", settingsRoutes);
   app.route("/api/setup", setupRoutes);
 
   // QR code page for phone setup
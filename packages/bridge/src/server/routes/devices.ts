@@ -4,18 +4,102 @@
  * Endpoints for managing saved devices.
  */
 
+import type { Database } from "bun:sqlite";
+import { randomBytes } from "node:crypto";
 import { Hono } from "hono";
 import { getDatabase } from "../../db";
-import { WemoDeviceClient } from "../../wemo/device";
-import { getDeviceByAddress } from "../../wemo/discovery";
-import { InsightDeviceClient, supportsInsight } from "../../wemo/insight";
-import type { SavedDevice, WemoDeviceType } from "../../wemo/types";
+import { AttributeDeviceClient, supportsAttributes } from "../../wemo/attributes";
 import {
+  CROCKPOT_MODES,
+  CrockpotDeviceClient,
+  type CrockpotMode,
+  type CrockpotState,
+  MAX_COOK_TIME,
+  isCrockpot,
+} from "../../wemo/crockpot";
+import { type ResetMode, WemoDeviceClient } from "../../wemo/device";
+import { DimmerDeviceClient, supportsDimming } from "../../wemo/dimmer";
+import { getDeviceByAddress, getSavedDescription } from "../../wemo/discovery";
+import { getCallbackAddress, getEventSubscriptions } from "../../wemo/events";
+import { getFirmwareUpdates, supportsFirmwareUpdate } from "../../wemo/firmware";
+import {
+  HEALTH_WINDOW,
+  type HealthSample,
+  type HealthSummary,
+  summarizeHealth,
+} from "../../wemo/health";
+import {
+  HEATER_MODES,
+  HeaterDeviceClient,
+  type HeaterMode,
+  type HeaterState,
+  isHeater,
+} from "../../wemo/heater";
+import {
+  FAN_MODES,
+  type FanMode,
+  HumidifierDeviceClient,
+  type HumidifierState,
+  TARGET_HUMIDITY_LEVELS,
+  type TargetHumidity,
+  isHumidifier,
+} from "../../wemo/humidifier";
+import { InsightDeviceClient, type InsightHomeSettings, supportsInsight } from "../../wemo/insight";
+import {
+  type BulbCapability,
+  BulbDeviceClient,
+  MAX_COLOR_TEMPERATURE,
+  MIN_COLOR_TEMPERATURE,
+  getEndDeviceId,
+  isLinkDevice,
+  supportsColorTemperature,
+} from "../../wemo/link";
+import { MakerDeviceClient, type MakerState, isMaker } from "../../wemo/maker";
+import {
+  DEFAULT_OCCUPANCY_TIMEOUT,
+  MAX_OCCUPANCY_TIMEOUT,
+  MIN_OCCUPANCY_TIMEOUT,
+  MotionDeviceClient,
+  type MotionSnapshot,
+  getMotionTracker,
+  isMotionSensor,
+  isSensorOnly,
+} from "../../wemo/motion";
+import { getPortRecovery } from "../../wemo/relocate";
+import {
+  RulesConflictError,
+  RulesDeviceClient,
+  type TimerRuleInput,
+  addTimerRule,
+  deleteRule,
+  parseRulesDatabase,
+  supportsRules,
+  updateTimerRule,
+} from "../../wemo/rules";
+import { findService, findUnknownArguments, getServiceCatalog } from "../../wemo/scpd";
+import {
+  MAX_CLOCK_DRIFT,
+  TimeSyncDeviceClient,
+  getTimeSync,
+  supportsTimeSync,
+} from "../../wemo/timesync";
+import { type SavedDevice, type WemoDevice, WemoDeviceType } from "../../wemo/types";
+import {
+  ActionNotFoundError,
   DeviceNotFoundError,
   DeviceOfflineError,
+  DeviceOperationError,
+  FeatureNotSupportedError,
+  FirmwareImageNotFoundError,
+  FirmwareUpdateInProgressError,
   InsightNotSupportedError,
+  ResetNotConfirmedError,
+  RuleNotFoundError,
+  RulesOutOfDateError,
+  ServiceNotFoundError,
   ValidationError,
 } from "../errors";
+import { findFirmwareImage } from "./firmware";
 
 /**
  * Device routes.
@@ -34,12 +118,151 @@ function requireDevice(id: string): SavedDevice {
   return device;
 }
 
+/**
+ * Helper to remove a device and everything stored about it.
+ */
+function forgetDevice(id: string): void {
+  const db = getDatabase();
+  db.deleteDevice(id);
+  db.deleteSetting(occupancyTimeoutKey(id));
+  getMotionTracker().forget(id);
+  getTimeSync().forget(id);
+  getServiceCatalog().forget(id);
+}
+
+/**
+ * Helper to read a saved device's description from the network and save it
+ * as the device's metadata. A device that stopped answering on its saved
+ * port is looked for on the other WeMo ports. Bulbs are reached through
+ * their Link, so the Link is looked for.
+ */
+async function fetchDevice(device: SavedDevice): Promise<WemoDevice | null> {
+  const wemoDevice =
+    (await getDeviceByAddress(device.host, device.port)) ??
+    (await getPortRecovery().recover({
+      id: device.parentId ?? device.id,
+      host: device.host,
+      port: device.port,
+    }));
+  if (wemoDevice) {
+    getDatabase().updateMetadata(device.parentId ?? device.id, wemoDevice);
+  }
+  return wemoDevice;
+}
+
+/**
+ * Helper to get the description clients are built from. Saved metadata is
+ * used when there is some (clients find devices that moved port on their
+ * own); otherwise the description is read from the network.
+ */
+async function lookupDevice(device: SavedDevice): Promise<WemoDevice | null> {
+  const source = device.parentId ? getDatabase().getDeviceById(device.parentId) : device;
+  return (source && getSavedDescription(source)) || fetchDevice(device);
+}
+
+/**
+ * Longest health history that can be requested, in hours (the retention).
+ */
+const MAX_HEALTH_HOURS = 7 * 24;
+
+/**
+ * Helper to get a device's health samples, oldest first.
+ * Bulbs are sampled through their Link.
+ */
+function getHealthSamples(device: SavedDevice, window = HEALTH_WINDOW): HealthSample[] {
+  const since = new Date(Date.now() - window).toISOString();
+  return getDatabase().getHealthSamples(device.parentId ?? device.id, since);
+}
+
+/**
+ * Helper to add the health summary to a saved device, once it has samples.
+ */
+function withHealth(device: SavedDevice): SavedDevice & { health?: HealthSummary } {
+  const health = summarizeHealth(getHealthSamples(device));
+  return health.samples > 0 ? { ...device, health } : device;
+}
+
+/**
+ * Helper to reject on/off control for devices that only report state.
+ */
+function requireSwitchable(device: SavedDevice): void {
+  if (isSensorOnly(device)) {
+    throw new ValidationError(
+      `${device.name} is a ${device.deviceType} sensor and cannot be switched on or off`,
+      ["deviceType"]
+    );
+  }
+  if (isCrockpot(device) || isHeater(device) || isHumidifier(device)) {
+    throw new ValidationError(
+      `${device.name} is a ${device.deviceType} and is controlled by setting its mode`,
+      ["deviceType"]
+    );
+  }
+}
+
+/**
+ * Helper to check for appliances whose state goes beyond BinaryState.
+ */
+function isAppliance(device: SavedDevice): boolean {
+  return isMaker(device) || isCrockpot(device) || isHeater(device) || isHumidifier(device);
+}
+
+/**
+ * Helper to get an appliance client from a SavedDevice.
+ * Returns the client if the device has the expected type and is reachable.
+ */
+async function getApplianceClient<T extends WemoDeviceClient>(
+  device: SavedDevice,
+  isType: (device: SavedDevice) => boolean,
+  Client: new (device: WemoDevice) => T,
+  feature: string
+): Promise<T> {
+  if (!isType(device)) {
+    throw new FeatureNotSupportedError(device.id, feature);
+  }
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  if (Client.prototype instanceof AttributeDeviceClient && !supportsAttributes(wemoDevice)) {
+    throw new FeatureNotSupportedError(device.id, feature);
+  }
+  return new Client(wemoDevice);
+}
+
+/**
+ * Settings key for a sensor's occupancy timeout.
+ */
+function occupancyTimeoutKey(deviceId: string): string {
+  return `motion_occupancy_timeout:${deviceId}`;
+}
+
+/**
+ * Gets a sensor's occupancy timeout in seconds.
+ */
+function getOccupancyTimeout(deviceId: string): number {
+  return getDatabase().getNumberSetting(occupancyTimeoutKey(deviceId), DEFAULT_OCCUPANCY_TIMEOUT);
+}
+
+/**
+ * Gets the tracked motion and occupancy state for a sensor.
+ */
+function getMotionSnapshot(device: SavedDevice): MotionSnapshot {
+  return getMotionTracker().getSnapshot(device.id, getOccupancyTimeout(device.id));
+}
+
 /**
  * Helper to get a WemoDevice client from a SavedDevice.
  * Returns the client if device is reachable, throws otherwise.
  */
 async function getDeviceClient(device: SavedDevice): Promise<WemoDeviceClient> {
-  const wemoDevice = await getDeviceByAddress(device.host, device.port);
+  if (device.deviceType === WemoDeviceType.Bulb) {
+    return getBulbClient(device);
+  }
+  if (isLinkDevice(device)) {
+    throw new FeatureNotSupportedError(device.id, "on/off control");
+  }
+  const wemoDevice = await lookupDevice(device);
   if (!wemoDevice) {
     throw new DeviceOfflineError(device.id, "Device not reachable");
   }
@@ -51,7 +274,7 @@ async function getDeviceClient(device: SavedDevice): Promise<WemoDeviceClient> {
  * Returns the client if device is reachable and supports Insight.
  */
 async function getInsightClient(device: SavedDevice): Promise<InsightDeviceClient> {
-  const wemoDevice = await getDeviceByAddress(device.host, device.port);
+  const wemoDevice = await lookupDevice(device);
   if (!wemoDevice) {
     throw new DeviceOfflineError(device.id, "Device not reachable");
   }
@@ -61,10 +284,244 @@ async function getInsightClient(device: SavedDevice): Promise<InsightDeviceClien
   return new InsightDeviceClient(wemoDevice);
 }
 
+/**
+ * Helper to get a Motion client from a SavedDevice.
+ * Returns the client if device is reachable and is a motion sensor.
+ */
+async function getMotionClient(device: SavedDevice): Promise<MotionDeviceClient> {
+  if (!isMotionSensor(device)) {
+    throw new FeatureNotSupportedError(device.id, "motion sensing");
+  }
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  return new MotionDeviceClient(wemoDevice);
+}
+
+/**
+ * Helper to get a rules client from a SavedDevice.
+ * Returns the client if device is reachable and exposes the rules service.
+ */
+async function getRulesClient(device: SavedDevice): Promise<RulesDeviceClient> {
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  if (!supportsRules(wemoDevice)) {
+    throw new FeatureNotSupportedError(device.id, "on-device rules");
+  }
+  return new RulesDeviceClient(wemoDevice);
+}
+
+/**
+ * Helper to look up a device whose clock can be set.
+ * The result keeps the saved ID so sync results map back to the saved device.
+ */
+async function getTimeSyncDevice(device: SavedDevice): Promise<WemoDevice> {
+  // Bulbs run on their Link's clock
+  if (device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "time sync");
+  }
+
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  if (!supportsTimeSync(wemoDevice)) {
+    throw new FeatureNotSupportedError(device.id, "time sync");
+  }
+  return { ...wemoDevice, id: device.id, name: device.name };
+}
+
+/**
+ * Days accepted in timer rules.
+ */
+const RULE_DAYS = [
+  "daily",
+  "weekdays",
+  "weekends",
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+/**
+ * Helper to apply an edit to a device's rules, reporting version conflicts.
+ * Bulbs share their Link's rules database and are not supported.
+ */
+async function editRules<T>(
+  device: SavedDevice,
+  version: number,
+  edit: (db: Database, udn: string) => T
+) {
+  if (device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "rule editing");
+  }
+  const client = await getRulesClient(device);
+  try {
+    return await client.updateRules(version, (db) => edit(db, client.id));
+  } catch (error) {
+    if (error instanceof RulesConflictError) {
+      throw new RulesOutOfDateError(device.id, error.expectedVersion, error.actualVersion);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Helper to check that a rule exists and is a timer before editing it.
+ */
+function requireTimerRule(device: SavedDevice, db: Database, ruleId: number): void {
+  const rule = parseRulesDatabase(db).find((r) => r.id === ruleId);
+  if (!rule) {
+    throw new RuleNotFoundError(device.id, ruleId);
+  }
+  if (rule.type !== "timer") {
+    throw new ValidationError(`Only timer rules can be changed; rule ${ruleId} is ${rule.type}`, [
+      "ruleId",
+    ]);
+  }
+}
+
+/**
+ * Helper to parse a rule ID path parameter.
+ */
+function parseRuleId(value: string): number {
+  const ruleId = Number(value);
+  if (!Number.isInteger(ruleId) || ruleId < 0) {
+    throw new ValidationError(`Invalid rule ID: ${value}`, ["ruleId"]);
+  }
+  return ruleId;
+}
+
+/**
+ * Helper to validate the version a rule edit is based on.
+ */
+function parseRulesVersion(value: unknown): number {
+  const version = typeof value === "string" && value !== "" ? Number(value) : value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new ValidationError(
+      "Missing or invalid version: pass the version returned when the rules were read",
+      ["version"]
+    );
+  }
+  return version;
+}
+
+/**
+ * Helper to validate a timer rule request body.
+ */
+function parseTimerRule(body: Record<string, unknown>): TimerRuleInput {
+  const isTime = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 86400;
+  const isSwitchAction = (value: unknown): value is "on" | "off" =>
+    value === "on" || value === "off";
+
+  const invalid: string[] = [];
+  if (typeof body.name !== "string" || body.name.trim() === "" || body.name.length > 64) {
+    invalid.push("name");
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    invalid.push("enabled");
+  }
+  if (
+    !Array.isArray(body.days) ||
+    body.days.length === 0 ||
+    !body.days.every((day) => RULE_DAYS.includes(day))
+  ) {
+    invalid.push("days");
+  }
+  if (!isTime(body.startTime)) {
+    invalid.push("startTime");
+  }
+  if (!isSwitchAction(body.startAction)) {
+    invalid.push("startAction");
+  }
+  const hasEnd = body.endTime !== undefined && body.endTime !== null;
+  if (hasEnd && !isTime(body.endTime)) {
+    invalid.push("endTime");
+  }
+  if (hasEnd && !isSwitchAction(body.endAction)) {
+    invalid.push("endAction");
+  }
+
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid rule fields: ${invalid.join(", ")}. Times are seconds after midnight (0-86399), actions are "on" or "off", days are ${RULE_DAYS.join(", ")}`,
+      invalid
+    );
+  }
+
+  return {
+    name: (body.name as string).trim(),
+    enabled: body.enabled !== false,
+    days: [...new Set(body.days as TimerRuleInput["days"])],
+    startTime: body.startTime as number,
+    startAction: body.startAction as "on" | "off",
+    endTime: hasEnd ? (body.endTime as number) : null,
+    endAction: hasEnd ? (body.endAction as "on" | "off") : "none",
+  };
+}
+
+/**
+ * Helper to get a client for a bulb behind a WeMo Link.
+ * Returns the client if the Link is reachable.
+ */
+async function getBulbClient(device: SavedDevice): Promise<BulbDeviceClient> {
+  if (device.deviceType !== WemoDeviceType.Bulb || !device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "bulb control");
+  }
+  const link = await lookupDevice(device);
+  if (!link) {
+    throw new DeviceOfflineError(device.id, "Link not reachable");
+  }
+  // Keep the saved Link ID so the bulb client reports the saved bulb ID
+  return new BulbDeviceClient(
+    { ...link, id: device.parentId },
+    getEndDeviceId(device.id, device.parentId),
+    device.name
+  );
+}
+
+/**
+ * Helper to get a brightness-capable client from a SavedDevice.
+ * Returns the client if device is reachable and supports dimming.
+ */
+async function getDimmerClient(
+  device: SavedDevice
+): Promise<DimmerDeviceClient | BulbDeviceClient> {
+  if (device.deviceType === WemoDeviceType.Bulb) {
+    return getBulbClient(device);
+  }
+  if (!supportsDimming(device)) {
+    throw new FeatureNotSupportedError(device.id, "brightness control");
+  }
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  return new DimmerDeviceClient(wemoDevice);
+}
+
 /** Device state result type */
 type DeviceStateResult = {
   isOnline: boolean;
   state?: number;
+  brightness?: number;
+  colorTemperature?: number;
+  capabilities?: BulbCapability[];
+  motion?: boolean;
+  lastMotionAt?: string | null;
+  occupancy?: MotionSnapshot["occupancy"];
+  maker?: MakerState;
+  crockpot?: CrockpotState;
+  heater?: HeaterState;
+  humidifier?: HumidifierState;
   error?: string;
 };
 
@@ -87,10 +544,92 @@ async function getDeviceState(device: SavedDevice): Promise<DeviceStateResult> {
     error: "Device not reachable (timeout)",
   };
 
+  // Devices with a live event subscription push their state, so no polling needed
+  // Appliances report more than BinaryState, so they are always polled
+  const events = getEventSubscriptions();
+  if (events.hasLiveSubscription(device.id) && !isAppliance(device)) {
+    const pushed = events.getLatestState(device.id);
+    if (pushed?.binaryState !== undefined) {
+      if (isMotionSensor(device)) {
+        return { isOnline: true, state: pushed.binaryState, ...getMotionSnapshot(device) };
+      }
+      return { isOnline: true, state: pushed.binaryState, brightness: pushed.brightness };
+    }
+  }
+
   try {
     // Wrap the entire operation in a 6-second timeout
     return await withTimeout<DeviceStateResult>(
       (async (): Promise<DeviceStateResult> => {
+        if (device.deviceType === WemoDeviceType.Bulb) {
+          const bulb = await getBulbClient(device);
+          const { binaryState, ...rest } = await bulb.getState();
+          return { isOnline: true, state: binaryState, ...rest };
+        }
+
+        if (isLinkDevice(device)) {
+          // The Link itself has no on/off state; report reachability only
+          const link = await fetchDevice(device);
+          return link ? { isOnline: true } : offlineResult;
+        }
+
+        if (isMotionSensor(device)) {
+          const sensor = await getMotionClient(device);
+          const binaryState = await sensor.getBinaryState();
+          getMotionTracker().record(device.id, binaryState !== 0);
+          return { isOnline: true, state: binaryState, ...getMotionSnapshot(device) };
+        }
+
+        if (isMaker(device)) {
+          const maker = await getApplianceClient(
+            device,
+            isMaker,
+            MakerDeviceClient,
+            "Maker controls"
+          );
+          const state = await maker.getMakerState();
+          return { isOnline: true, state: state.relay ? 1 : 0, maker: state };
+        }
+
+        if (isCrockpot(device)) {
+          const crockpot = await getApplianceClient(
+            device,
+            isCrockpot,
+            CrockpotDeviceClient,
+            "Crock-Pot controls"
+          );
+          const state = await crockpot.getCrockpotState();
+          return { isOnline: true, state: state.mode === "off" ? 0 : 1, crockpot: state };
+        }
+
+        if (isHeater(device)) {
+          const heater = await getApplianceClient(
+            device,
+            isHeater,
+            HeaterDeviceClient,
+            "heater controls"
+          );
+          const state = await heater.getHeaterState();
+          return { isOnline: true, state: state.mode === "off" ? 0 : 1, heater: state };
+        }
+
+        if (isHumidifier(device)) {
+          const humidifier = await getApplianceClient(
+            device,
+            isHumidifier,
+            HumidifierDeviceClient,
+            "humidifier controls"
+          );
+          const state = await humidifier.getHumidifierState();
+          return { isOnline: true, state: state.fanMode === "off" ? 0 : 1, humidifier: state };
+        }
+
+        if (supportsDimming(device)) {
+          const dimmer = await getDimmerClient(device);
+          const { binaryState, brightness } = await dimmer.getState();
+          return { isOnline: true, state: binaryState, brightness };
+        }
+
         const client = await getDeviceClient(device);
         const binaryState = await client.getBinaryState();
         return { isOnline: true, state: binaryState };
@@ -117,7 +656,7 @@ async function getDeviceState(device: SavedDevice): Promise<DeviceStateResult> {
 deviceRoutes.get("/", async (c) => {
   const includeState = c.req.query("includeState") === "true";
   const db = getDatabase();
-  const devices = db.getAllDevices();
+  const devices = db.getAllDevices().map(withHealth);
 
   if (!includeState) {
     return c.json({ devices });
@@ -214,13 +753,21 @@ deviceRoutes.post("/", async (c) => {
   // Try to discover the device to get its real ID
   let deviceId = body.id;
   let deviceType = body.deviceType ?? ("Switch" as WemoDeviceType);
+  let model: string | undefined;
+  let firmwareVersion: string | undefined;
+  let existing: SavedDevice | null = null;
+  let discovered: WemoDevice | null = null;
 
   if (!deviceId) {
     try {
-      const discovered = await getDeviceByAddress(body.host, body.port ?? 49153);
+      discovered = await getDeviceByAddress(body.host, body.port ?? 49153);
       if (discovered) {
         deviceId = discovered.id;
         deviceType = discovered.deviceType;
+        model = discovered.model;
+        firmwareVersion = discovered.firmwareVersion;
+        // Adding a device that is saved under an older ID updates that row
+        existing = db.getDeviceByIdentity(discovered);
       }
     } catch {
       // Ignore discovery errors, use provided or generated ID
@@ -231,6 +778,7 @@ deviceRoutes.post("/", async (c) => {
   if (!deviceId) {
     deviceId = `manual:${body.host}:${body.port ?? 49153}`;
   }
+  existing ??= db.getDeviceById(deviceId);
 
   const device: SavedDevice = {
     id: deviceId,
@@ -238,13 +786,23 @@ deviceRoutes.post("/", async (c) => {
     deviceType,
     host: body.host,
     port: body.port ?? 49153,
-    createdAt: now,
+    model,
+    firmwareVersion,
+    createdAt: existing?.createdAt ?? now,
     updatedAt: now,
   };
 
   db.saveDevice(device);
+  if (discovered) {
+    db.updateMetadata(device.id, discovered);
+  }
 
-  return c.json({ device, created: true }, 201);
+  // Set the clock in the background; schedules depend on it
+  getTimeSync()
+    .syncSavedDevice(device)
+    .catch((error) => console.warn(`[Devices API] Could not sync clock of ${device.name}:`, error));
+
+  return c.json({ device, created: !existing }, existing ? 200 : 201);
 });
 
 /**
@@ -293,12 +851,51 @@ deviceRoutes.delete("/:id", async (c) => {
   // Verify device exists first
   requireDevice(id);
 
-  const db = getDatabase();
-  db.deleteDevice(id);
+  forgetDevice(id);
 
   return c.json({ deleted: true, id });
 });
 
+/**
+ * POST /api/devices/:id/refresh
+ *
+ * Reads the device description again and saves its model, serial number,
+ * firmware, MAC, UDN and services. Bulbs refresh their Link.
+ */
+deviceRoutes.post("/:id/refresh", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const wemoDevice = await fetchDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  // Service descriptions are read again on next use, in case they changed
+  getServiceCatalog().forget(device.parentId ?? device.id);
+
+  return c.json({ device: requireDevice(device.id), refreshed: true });
+});
+
+/**
+ * GET /api/devices/:id/health
+ *
+ * Gets the device's health score and the samples behind it.
+ *
+ * Query params:
+ * - hours: How many hours of samples to score and return (default: 24, max: 168)
+ */
+deviceRoutes.get("/:id/health", (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const hoursParam = c.req.query("hours");
+  const hours = hoursParam === undefined ? 24 : Number(hoursParam);
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HEALTH_HOURS) {
+    throw new ValidationError(`hours must be an integer between 1 and ${MAX_HEALTH_HOURS}`, [
+      "hours",
+    ]);
+  }
+
+  const history = getHealthSamples(device, hours * 60 * 60 * 1000);
+  return c.json({ id: device.id, health: summarizeHealth(history), history });
+});
+
 // =============================================================================
 // Device Control Endpoints
 // =============================================================================
@@ -328,6 +925,7 @@ deviceRoutes.get("/:id/state", async (c) => {
  */
 deviceRoutes.post("/:id/on", async (c) => {
   const device = requireDevice(c.req.param("id"));
+  requireSwitchable(device);
   const client = await getDeviceClient(device);
   await client.turnOn();
   const newState = await client.getBinaryState();
@@ -347,6 +945,7 @@ deviceRoutes.post("/:id/on", async (c) => {
  */
 deviceRoutes.post("/:id/off", async (c) => {
   const device = requireDevice(c.req.param("id"));
+  requireSwitchable(device);
   const client = await getDeviceClient(device);
   await client.turnOff();
   const newState = await client.getBinaryState();
@@ -366,6 +965,7 @@ deviceRoutes.post("/:id/off", async (c) => {
  */
 deviceRoutes.post("/:id/toggle", async (c) => {
   const device = requireDevice(c.req.param("id"));
+  requireSwitchable(device);
   const client = await getDeviceClient(device);
   const { binaryState } = await client.toggle();
 
@@ -378,19 +978,1039 @@ deviceRoutes.post("/:id/toggle", async (c) => {
 });
 
 /**
- * GET /api/devices/:id/insight
+ * POST /api/devices/:id/brightness
  *
- * Gets power monitoring data for Insight devices.
+ * Sets the brightness of a dimmable device.
+ *
+ * Body:
+ * {
+ *   brightness: number  // Integer 0-100 (0 turns the light off)
+ * }
  */
-deviceRoutes.get("/:id/insight", async (c) => {
+deviceRoutes.post("/:id/brightness", async (c) => {
   const device = requireDevice(c.req.param("id"));
-  const client = await getInsightClient(device);
-  const powerData = await client.getPowerData();
-  const rawParams = await client.getInsightParams();
+  const body = await c.req.json<{ brightness?: unknown }>();
+
+  if (body.brightness === undefined) {
+    throw new ValidationError("Missing required fields: brightness", ["brightness"]);
+  }
+
+  const { brightness } = body;
+  if (
+    typeof brightness !== "number" ||
+    !Number.isInteger(brightness) ||
+    brightness < 0 ||
+    brightness > 100
+  ) {
+    throw new ValidationError("Invalid brightness: must be an integer between 0 and 100", [
+      "brightness",
+    ]);
+  }
+
+  const client = await getDimmerClient(device);
+  await client.setBrightness(brightness);
+  const newState = await client.getState();
 
   return c.json({
     id: device.id,
-    power: powerData,
-    raw: rawParams,
+    action: "brightness",
+    state: newState.binaryState,
+    brightness: newState.brightness ?? brightness,
+    isOn: newState.binaryState === 1,
+  });
+});
+
+/**
+ * GET /api/devices/:id/motion
+ *
+ * Gets motion, occupancy and sensor settings for a motion sensor.
+ */
+deviceRoutes.get("/:id/motion", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getMotionClient(device);
+
+  getMotionTracker().record(device.id, await client.getMotion());
+  const settings = await client.getSettings();
+
+  return c.json({
+    id: device.id,
+    ...getMotionSnapshot(device),
+    occupancyTimeout: getOccupancyTimeout(device.id),
+    settings,
+  });
+});
+
+/**
+ * PATCH /api/devices/:id/motion
+ *
+ * Updates occupancy timeout and sensor settings.
+ *
+ * Body:
+ * {
+ *   occupancyTimeout?: number,  // Seconds after last motion before idle (10-86400)
+ *   sensitivity?: number,       // Only if the firmware exposes it
+ *   delay?: number              // Only if the firmware exposes it
+ * }
+ */
+deviceRoutes.patch("/:id/motion", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{
+    occupancyTimeout?: unknown;
+    sensitivity?: unknown;
+    delay?: unknown;
+  }>();
+
+  const isInteger = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value);
+
+  const { occupancyTimeout, sensitivity, delay } = body;
+  if (
+    occupancyTimeout !== undefined &&
+    (!isInteger(occupancyTimeout) ||
+      occupancyTimeout < MIN_OCCUPANCY_TIMEOUT ||
+      occupancyTimeout > MAX_OCCUPANCY_TIMEOUT)
+  ) {
+    throw new ValidationError(
+      `Invalid occupancyTimeout: must be an integer between ${MIN_OCCUPANCY_TIMEOUT} and ${MAX_OCCUPANCY_TIMEOUT}`,
+      ["occupancyTimeout"]
+    );
+  }
+
+  const invalidFields = (["sensitivity", "delay"] as const).filter(
+    (field) => body[field] !== undefined && (!isInteger(body[field]) || (body[field] as number) < 0)
+  );
+  if (invalidFields.length > 0) {
+    throw new ValidationError(
+      `Invalid ${invalidFields.join(", ")}: must be a non-negative integer`,
+      [...invalidFields]
+    );
+  }
+
+  const client = await getMotionClient(device);
+
+  if (isInteger(sensitivity) || isInteger(delay)) {
+    const unsupported = await client.setSettings({
+      sensitivity: isInteger(sensitivity) ? sensitivity : undefined,
+      delay: isInteger(delay) ? delay : undefined,
+    });
+    if (unsupported.length > 0) {
+      throw new FeatureNotSupportedError(device.id, `motion ${unsupported.join(" and ")} setting`);
+    }
+  }
+
+  if (isInteger(occupancyTimeout)) {
+    getDatabase().setNumberSetting(occupancyTimeoutKey(device.id), occupancyTimeout);
+  }
+
+  return c.json({
+    id: device.id,
+    ...getMotionSnapshot(device),
+    occupancyTimeout: getOccupancyTimeout(device.id),
+    settings: await client.getSettings(),
   });
 });
+
+/**
+ * POST /api/devices/:id/color-temperature
+ *
+ * Sets the color temperature of a bulb behind a WeMo Link.
+ *
+ * Body:
+ * {
+ *   kelvin: number  // Integer 2700-6500
+ * }
+ */
+deviceRoutes.post("/:id/color-temperature", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ kelvin?: unknown }>();
+
+  if (body.kelvin === undefined) {
+    throw new ValidationError("Missing required fields: kelvin", ["kelvin"]);
+  }
+
+  const { kelvin } = body;
+  if (
+    typeof kelvin !== "number" ||
+    !Number.isInteger(kelvin) ||
+    kelvin < MIN_COLOR_TEMPERATURE ||
+    kelvin > MAX_COLOR_TEMPERATURE
+  ) {
+    throw new ValidationError(
+      `Invalid kelvin: must be an integer between ${MIN_COLOR_TEMPERATURE} and ${MAX_COLOR_TEMPERATURE}`,
+      ["kelvin"]
+    );
+  }
+
+  if (!supportsColorTemperature(device)) {
+    throw new FeatureNotSupportedError(device.id, "color temperature control");
+  }
+
+  const client = await getBulbClient(device);
+  const { capabilities } = await client.getState();
+  if (!capabilities.includes("colorTemperature")) {
+    throw new FeatureNotSupportedError(device.id, "color temperature control");
+  }
+
+  await client.setColorTemperature(kelvin);
+  const newState = await client.getState();
+
+  return c.json({
+    id: device.id,
+    action: "color-temperature",
+    state: newState.binaryState,
+    colorTemperature: newState.colorTemperature ?? kelvin,
+    isOn: newState.binaryState === 1,
+  });
+});
+
+/**
+ * GET /api/devices/:id/maker
+ *
+ * Gets a Maker's relay and sensor state.
+ */
+deviceRoutes.get("/:id/maker", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getApplianceClient(device, isMaker, MakerDeviceClient, "Maker controls");
+
+  return c.json({ id: device.id, maker: await client.getMakerState() });
+});
+
+/**
+ * PATCH /api/devices/:id/maker
+ *
+ * Switches a Maker's relay and/or relay mode.
+ *
+ * Body:
+ * {
+ *   relay?: boolean,     // true closes the relay; in momentary mode it opens again by itself
+ *   momentary?: boolean  // Momentary (true) or toggle (false) relay mode
+ * }
+ */
+deviceRoutes.patch("/:id/maker", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ relay?: unknown; momentary?: unknown }>();
+
+  const invalidFields = (["relay", "momentary"] as const).filter(
+    (field) => body[field] !== undefined && typeof body[field] !== "boolean"
+  );
+  if (invalidFields.length > 0) {
+    throw new ValidationError(`Invalid ${invalidFields.join(", ")}: must be a boolean`, [
+      ...invalidFields,
+    ]);
+  }
+
+  const client = await getApplianceClient(device, isMaker, MakerDeviceClient, "Maker controls");
+
+  // Mode first, so a relay change already uses the requested mode
+  if (typeof body.momentary === "boolean") {
+    await client.setMomentary(body.momentary);
+  }
+  if (typeof body.relay === "boolean") {
+    await client.setRelay(body.relay);
+  }
+
+  return c.json({ id: device.id, maker: await client.getMakerState() });
+});
+
+/**
+ * GET /api/devices/:id/crockpot
+ *
+ * Gets a Crock-Pot's mode and cook times.
+ */
+deviceRoutes.get("/:id/crockpot", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getApplianceClient(
+    device,
+    isCrockpot,
+    CrockpotDeviceClient,
+    "Crock-Pot controls"
+  );
+
+  return c.json({ id: device.id, crockpot: await client.getCrockpotState() });
+});
+
+/**
+ * PATCH /api/devices/:id/crockpot
+ *
+ * Sets a Crock-Pot's mode and/or cook time.
+ *
+ * Body:
+ * {
+ *   mode?: "off" | "warm" | "low" | "high",
+ *   cookTime?: number   // Minutes on low or high before switching to warm (1-1440)
+ * }
+ */
+deviceRoutes.patch("/:id/crockpot", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ mode?: unknown; cookTime?: unknown }>();
+
+  if (body.mode !== undefined && !CROCKPOT_MODES.includes(body.mode as CrockpotMode)) {
+    throw new ValidationError(`Invalid mode: must be one of ${CROCKPOT_MODES.join(", ")}`, [
+      "mode",
+    ]);
+  }
+  const { cookTime } = body;
+  if (
+    cookTime !== undefined &&
+    (typeof cookTime !== "number" ||
+      !Number.isInteger(cookTime) ||
+      cookTime < 1 ||
+      cookTime > MAX_COOK_TIME)
+  ) {
+    throw new ValidationError(
+      `Invalid cookTime: must be an integer between 1 and ${MAX_COOK_TIME} minutes`,
+      ["cookTime"]
+    );
+  }
+
+  const client = await getApplianceClient(
+    device,
+    isCrockpot,
+    CrockpotDeviceClient,
+    "Crock-Pot controls"
+  );
+  const current = await client.getCrockpotState();
+  const mode = (body.mode as CrockpotMode | undefined) ?? current.mode;
+  const time = (cookTime as number | undefined) ?? current.cookTime;
+
+  if ((mode === "low" || mode === "high") && time <= 0) {
+    throw new ValidationError("Missing required fields: cookTime", ["cookTime"]);
+  }
+
+  await client.setCrockpotState(mode, time);
+
+  return c.json({ id: device.id, crockpot: await client.getCrockpotState() });
+});
+
+/**
+ * GET /api/devices/:id/heater
+ *
+ * Gets a heater's mode and temperatures.
+ */
+deviceRoutes.get("/:id/heater", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getApplianceClient(device, isHeater, HeaterDeviceClient, "heater controls");
+
+  return c.json({ id: device.id, heater: await client.getHeaterState() });
+});
+
+/**
+ * PATCH /api/devices/:id/heater
+ *
+ * Sets a heater's mode and/or target temperature.
+ *
+ * Body:
+ * {
+ *   mode?: "off" | "frostProtect" | "high" | "low" | "eco",
+ *   targetTemperature?: number   // In the heater's temperature unit
+ * }
+ */
+deviceRoutes.patch("/:id/heater", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ mode?: unknown; targetTemperature?: unknown }>();
+
+  if (body.mode !== undefined && !HEATER_MODES.includes(body.mode as HeaterMode)) {
+    throw new ValidationError(`Invalid mode: must be one of ${HEATER_MODES.join(", ")}`, ["mode"]);
+  }
+  const { targetTemperature } = body;
+  if (
+    targetTemperature !== undefined &&
+    (typeof targetTemperature !== "number" ||
+      !Number.isFinite(targetTemperature) ||
+      targetTemperature < 0 ||
+      targetTemperature > 100)
+  ) {
+    throw new ValidationError("Invalid targetTemperature: must be a number between 0 and 100", [
+      "targetTemperature",
+    ]);
+  }
+
+  const client = await getApplianceClient(device, isHeater, HeaterDeviceClient, "heater controls");
+  await client.updateHeater({
+    mode: body.mode as HeaterMode | undefined,
+    targetTemperature: targetTemperature as number | undefined,
+  });
+
+  return c.json({ id: device.id, heater: await client.getHeaterState() });
+});
+
+/**
+ * GET /api/devices/:id/humidifier
+ *
+ * Gets a humidifier's fan speed, humidity, water level and filter life.
+ */
+deviceRoutes.get("/:id/humidifier", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getApplianceClient(
+    device,
+    isHumidifier,
+    HumidifierDeviceClient,
+    "humidifier controls"
+  );
+
+  return c.json({ id: device.id, humidifier: await client.getHumidifierState() });
+});
+
+/**
+ * PATCH /api/devices/:id/humidifier
+ *
+ * Sets a humidifier's fan speed and/or target humidity.
+ *
+ * Body:
+ * {
+ *   fanMode?: "off" | "minimum" | "low" | "medium" | "high" | "maximum",
+ *   targetHumidity?: 45 | 50 | 55 | 60 | 100   // 100 runs continuously
+ * }
+ */
+deviceRoutes.patch("/:id/humidifier", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ fanMode?: unknown; targetHumidity?: unknown }>();
+
+  if (body.fanMode !== undefined && !FAN_MODES.includes(body.fanMode as FanMode)) {
+    throw new ValidationError(`Invalid fanMode: must be one of ${FAN_MODES.join(", ")}`, [
+      "fanMode",
+    ]);
+  }
+  if (
+    body.targetHumidity !== undefined &&
+    !TARGET_HUMIDITY_LEVELS.includes(body.targetHumidity as TargetHumidity)
+  ) {
+    throw new ValidationError(
+      `Invalid targetHumidity: must be one of ${TARGET_HUMIDITY_LEVELS.join(", ")}`,
+      ["targetHumidity"]
+    );
+  }
+
+  const client = await getApplianceClient(
+    device,
+    isHumidifier,
+    HumidifierDeviceClient,
+    "humidifier controls"
+  );
+  await client.updateHumidifier({
+    fanMode: body.fanMode as FanMode | undefined,
+    targetHumidity: body.targetHumidity as TargetHumidity | undefined,
+  });
+
+  return c.json({ id: device.id, humidifier: await client.getHumidifierState() });
+});
+
+/**
+ * GET /api/devices/:id/rules
+ *
+ * Reads the rules (timers, sunrise/sunset, away mode, long press) stored
+ * on the device.
+ */
+deviceRoutes.get("/:id/rules", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getRulesClient(device);
+  const { version, rules } = await client.fetchRules();
+
+  return c.json({
+    id: device.id,
+    version,
+    rules,
+  });
+});
+
+/**
+ * POST /api/devices/:id/rules
+ *
+ * Creates a timer rule on the device.
+ *
+ * Body:
+ * {
+ *   version: number,             // Rules version from GET /rules
+ *   name: string,
+ *   enabled?: boolean,           // Default true
+ *   days: string[],              // daily, weekdays, weekends or day names
+ *   startTime: number,           // Seconds after midnight
+ *   startAction: "on" | "off",
+ *   endTime?: number | null,     // Seconds after midnight
+ *   endAction?: "on" | "off"     // Required with endTime
+ * }
+ */
+deviceRoutes.post("/:id/rules", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<Record<string, unknown>>();
+  const version = parseRulesVersion(body.version);
+  const rule = parseTimerRule(body);
+
+  const updated = await editRules(device, version, (db, udn) => addTimerRule(db, udn, rule));
+
+  return c.json(
+    {
+      id: device.id,
+      ruleId: updated.result,
+      version: updated.version,
+      rules: updated.rules,
+    },
+    201
+  );
+});
+
+/**
+ * PUT /api/devices/:id/rules/:ruleId
+ *
+ * Replaces a timer rule on the device. Body as for POST /rules.
+ */
+deviceRoutes.put("/:id/rules/:ruleId", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const ruleId = parseRuleId(c.req.param("ruleId"));
+  const body = await c.req.json<Record<string, unknown>>();
+  const version = parseRulesVersion(body.version);
+  const rule = parseTimerRule(body);
+
+  const updated = await editRules(device, version, (db, udn) => {
+    requireTimerRule(device, db, ruleId);
+    updateTimerRule(db, ruleId, udn, rule);
+  });
+
+  return c.json({
+    id: device.id,
+    ruleId,
+    version: updated.version,
+    rules: updated.rules,
+  });
+});
+
+/**
+ * DELETE /api/devices/:id/rules/:ruleId?version=N
+ *
+ * Deletes a timer rule from the device.
+ */
+deviceRoutes.delete("/:id/rules/:ruleId", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const ruleId = parseRuleId(c.req.param("ruleId"));
+  const version = parseRulesVersion(c.req.query("version"));
+
+  const updated = await editRules(device, version, (db) => {
+    requireTimerRule(device, db, ruleId);
+    deleteRule(db, ruleId);
+  });
+
+  return c.json({
+    id: device.id,
+    ruleId,
+    deleted: true,
+    version: updated.version,
+    rules: updated.rules,
+  });
+});
+
+/**
+ * GET /api/devices/:id/firmware
+ *
+ * Gets the stored firmware version and the latest firmware update, if any.
+ */
+deviceRoutes.get("/:id/firmware", (c) => {
+  const device = requireDevice(c.req.param("id"));
+
+  return c.json({
+    id: device.id,
+    model: device.model ?? null,
+    firmwareVersion: device.firmwareVersion ?? null,
+    update: getFirmwareUpdates().getJob(device.id),
+  });
+});
+
+/**
+ * POST /api/devices/:id/firmware
+ *
+ * Starts a firmware update from an uploaded image. The device downloads the
+ * image from the bridge; poll GET /firmware for progress.
+ *
+ * Body:
+ * {
+ *   imageId: string,     // From POST /api/firmware/images
+ *   version?: string,    // Version the image contains
+ *   signature?: string   // Image signature, for signed images
+ * }
+ */
+deviceRoutes.post("/:id/firmware", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ imageId?: unknown; version?: unknown; signature?: unknown }>();
+
+  if (typeof body.imageId !== "string" || body.imageId === "") {
+    throw new ValidationError("Missing required fields: imageId", ["imageId"]);
+  }
+  const invalidFields = (["version", "signature"] as const).filter(
+    (field) => body[field] !== undefined && typeof body[field] !== "string"
+  );
+  if (invalidFields.length > 0) {
+    throw new ValidationError(`Invalid ${invalidFields.join(", ")}: must be a string`, [
+      ...invalidFields,
+    ]);
+  }
+
+  const found = findFirmwareImage(body.imageId);
+  if (!found) {
+    throw new FirmwareImageNotFoundError(body.imageId);
+  }
+
+  // Bulbs are flashed over Zigbee by their Link, which this service cannot do
+  if (device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "firmware updates");
+  }
+
+  const updates = getFirmwareUpdates();
+  if (updates.isUpdating(device.id)) {
+    throw new FirmwareUpdateInProgressError(device.id);
+  }
+
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  if (!supportsFirmwareUpdate(wemoDevice)) {
+    throw new FeatureNotSupportedError(device.id, "firmware updates");
+  }
+
+  // The device downloads from the bridge, so point it at an address on its network
+  const serverPort = new URL(c.req.url).port || "80";
+  const url = `http://${getCallbackAddress(device.host)}:${serverPort}/api/firmware/images/${found.image.id}`;
+
+  const job = await updates.start(
+    { ...wemoDevice, id: device.id, name: device.name },
+    {
+      url,
+      version: body.version as string | undefined,
+      signature: body.signature as string | undefined,
+    }
+  );
+
+  return c.json({ id: device.id, update: job }, 202);
+});
+
+/**
+ * GET /api/devices/:id/time
+ *
+ * Compares the device clock with the host clock.
+ *
+ * Response:
+ * {
+ *   id: string,
+ *   deviceTime: string,      // ISO, whole seconds
+ *   hostTime: string,        // ISO
+ *   driftSeconds: number,    // deviceTime - hostTime
+ *   inSync: boolean,         // |driftSeconds| within tolerance
+ *   lastSync: TimeSyncResult | null
+ * }
+ */
+deviceRoutes.get("/:id/time", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const wemoDevice = await getTimeSyncDevice(device);
+  const clock = await new TimeSyncDeviceClient(wemoDevice).readClock();
+
+  return c.json({
+    id: device.id,
+    ...clock,
+    inSync: Math.abs(clock.driftSeconds) <= MAX_CLOCK_DRIFT,
+    lastSync: getTimeSync().getLastSync(device.id),
+  });
+});
+
+/**
+ * POST /api/devices/:id/time/sync
+ *
+ * Pushes the host's time, time zone and DST flag to the device now.
+ */
+deviceRoutes.post("/:id/time/sync", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const wemoDevice = await getTimeSyncDevice(device);
+  const result = await getTimeSync().sync(wemoDevice, true);
+
+  return c.json({ id: device.id, lastSync: result });
+});
+
+/**
+ * Reset modes accepted by the reset endpoints.
+ */
+const RESET_MODES: readonly ResetMode[] = ["clear-data", "clear-wifi", "factory"];
+
+/**
+ * How long a reset confirmation token stays valid.
+ */
+const RESET_TOKEN_TTL = 2 * 60 * 1000;
+
+/**
+ * Outstanding reset confirmations, by token. Each is single-use and bound to
+ * one device and mode.
+ */
+const resetConfirmations = new Map<
+  string,
+  { deviceId: string; mode: ResetMode; expiresAt: number }
+>();
+
+/**
+ * Helper to validate a reset mode.
+ */
+function parseResetMode(value: unknown): ResetMode {
+  if (typeof value !== "string" || !RESET_MODES.includes(value as ResetMode)) {
+    throw new ValidationError(`Invalid mode: must be one of ${RESET_MODES.join(", ")}`, ["mode"]);
+  }
+  return value as ResetMode;
+}
+
+/**
+ * Helper to reject resets for devices that cannot be reset remotely.
+ * Bulbs are reset by pairing them again through their Link.
+ */
+function requireResettable(device: SavedDevice): void {
+  if (device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "remote reset");
+  }
+}
+
+/**
+ * POST /api/devices/:id/reset/confirmation
+ *
+ * Issues a single-use token that confirms a reset of this device in the given
+ * mode. The token expires after two minutes.
+ *
+ * Body:
+ * {
+ *   mode: "clear-data" | "clear-wifi" | "factory"
+ * }
+ */
+deviceRoutes.post("/:id/reset/confirmation", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ mode?: unknown }>();
+  const mode = parseResetMode(body.mode);
+  requireResettable(device);
+
+  const now = Date.now();
+  for (const [token, confirmation] of resetConfirmations) {
+    if (confirmation.expiresAt <= now) {
+      resetConfirmations.delete(token);
+    }
+  }
+
+  const token = randomBytes(16).toString("hex");
+  const expiresAt = now + RESET_TOKEN_TTL;
+  resetConfirmations.set(token, { deviceId: device.id, mode, expiresAt });
+
+  return c.json({ id: device.id, mode, token, expiresAt: new Date(expiresAt).toISOString() });
+});
+
+/**
+ * POST /api/devices/:id/reset
+ *
+ * Resets the device remotely. Clearing WiFi marks the saved device as needing
+ * setup; a factory reset removes it.
+ *
+ * Body:
+ * {
+ *   mode: "clear-data" | "clear-wifi" | "factory",
+ *   token: string   // From POST /reset/confirmation, for the same mode
+ * }
+ *
+ * Response:
+ * {
+ *   id: string,
+ *   mode: string,
+ *   outcome: "kept" | "needs-setup" | "removed"
+ * }
+ */
+deviceRoutes.post("/:id/reset", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ mode?: unknown; token?: unknown }>();
+  const mode = parseResetMode(body.mode);
+  requireResettable(device);
+
+  const token = typeof body.token === "string" ? body.token : "";
+  const confirmation = resetConfirmations.get(token);
+  if (
+    !confirmation ||
+    confirmation.deviceId !== device.id ||
+    confirmation.mode !== mode ||
+    confirmation.expiresAt <= Date.now()
+  ) {
+    throw new ResetNotConfirmedError(device.id);
+  }
+  // Single use, even if the reset fails
+  resetConfirmations.delete(token);
+
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  await new WemoDeviceClient(wemoDevice).reset(mode);
+
+  let outcome: "kept" | "needs-setup" | "removed" = "kept";
+  if (mode === "factory") {
+    forgetDevice(device.id);
+    outcome = "removed";
+  } else if (mode === "clear-wifi") {
+    getDatabase().markNeedsSetup(device.id);
+    outcome = "needs-setup";
+  }
+
+  return c.json({ id: device.id, mode, outcome });
+});
+
+/**
+ * GET /api/devices/:id/insight
+ *
+ * Gets power monitoring data for Insight devices.
+ */
+deviceRoutes.get("/:id/insight", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getInsightClient(device);
+  const powerData = await client.getPowerData();
+  const rawParams = await client.getInsightParams();
+
+  return c.json({
+    id: device.id,
+    power: powerData,
+    raw: rawParams,
+  });
+});
+
+/**
+ * Highest standby threshold accepted, in watts.
+ */
+const MAX_STANDBY_THRESHOLD = 1000;
+
+/**
+ * Helper to read Insight settings in API units.
+ * Firmware without home settings reports them as null.
+ */
+async function getInsightSettings(client: InsightDeviceClient) {
+  const threshold = await client.getPowerThreshold();
+
+  let homeSettings: InsightHomeSettings | null = null;
+  try {
+    homeSettings = await client.getHomeSettings();
+  } catch {
+    // Older firmware lacks GetInsightHomeSettings
+  }
+
+  return {
+    standbyThreshold: threshold / 1000,
+    pricePerKwh: homeSettings ? homeSettings.energyPerUnitCost / 1000 : null,
+    currency: homeSettings?.currency || null,
+  };
+}
+
+/**
+ * GET /api/devices/:id/insight/settings
+ *
+ * Gets the standby threshold and energy price of an Insight.
+ */
+deviceRoutes.get("/:id/insight/settings", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getInsightClient(device);
+
+  return c.json({
+    id: device.id,
+    ...(await getInsightSettings(client)),
+  });
+});
+
+/**
+ * PATCH /api/devices/:id/insight/settings
+ *
+ * Updates Insight settings. All fields are optional.
+ *
+ * Body:
+ * {
+ *   standbyThreshold?: number,  // Watts; below this the device reports standby (0-1000)
+ *   pricePerKwh?: number,       // Energy price per kWh, up to 3 decimals
+ *   currency?: string           // ISO 4217 code, e.g. "USD"
+ * }
+ */
+deviceRoutes.patch("/:id/insight/settings", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{
+    standbyThreshold?: unknown;
+    pricePerKwh?: unknown;
+    currency?: unknown;
+  }>();
+
+  const isNumberIn = (value: unknown, max: number): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= max;
+
+  const { standbyThreshold, pricePerKwh, currency } = body;
+  if (standbyThreshold !== undefined && !isNumberIn(standbyThreshold, MAX_STANDBY_THRESHOLD)) {
+    throw new ValidationError(
+      `Invalid standbyThreshold: must be a number of watts between 0 and ${MAX_STANDBY_THRESHOLD}`,
+      ["standbyThreshold"]
+    );
+  }
+  if (pricePerKwh !== undefined && !isNumberIn(pricePerKwh, 1000)) {
+    throw new ValidationError("Invalid pricePerKwh: must be a number between 0 and 1000", [
+      "pricePerKwh",
+    ]);
+  }
+  if (currency !== undefined && (typeof currency !== "string" || !/^[A-Za-z]{3}$/.test(currency))) {
+    throw new ValidationError("Invalid currency: must be a 3-letter currency code", ["currency"]);
+  }
+
+  const client = await getInsightClient(device);
+
+  // Read the home settings before writing anything, so an unsupported price
+  // change doesn't leave the threshold changed behind an error
+  const current =
+    pricePerKwh !== undefined || currency !== undefined
+      ? await client.getHomeSettings().catch(() => {
+          throw new FeatureNotSupportedError(device.id, "energy price settings");
+        })
+      : null;
+
+  if (isNumberIn(standbyThreshold, MAX_STANDBY_THRESHOLD)) {
+    await client.setPowerThreshold(standbyThreshold * 1000);
+  }
+
+  if (current) {
+    await client.setHomeSettings({
+      energyPerUnitCost:
+        typeof pricePerKwh === "number" ? pricePerKwh * 1000 : current.energyPerUnitCost,
+      currency: typeof currency === "string" ? currency.toUpperCase() : current.currency,
+    });
+  }
+
+  return c.json({
+    id: device.id,
+    ...(await getInsightSettings(client)),
+  });
+});
+
+/**
+ * POST /api/devices/:id/insight/reset
+ *
+ * Clears the Insight's usage counters (on time and energy totals).
+ */
+deviceRoutes.post("/:id/insight/reset", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const client = await getInsightClient(device);
+
+  await client.resetUsage();
+
+  return c.json({
+    id: device.id,
+    action: "reset-usage",
+    power: await client.getPowerData(),
+  });
+});
+
+/**
+ * Helper to look up a device for service introspection.
+ * Bulbs have no services of their own; their Link is inspected instead.
+ */
+async function getServiceDevice(device: SavedDevice): Promise<WemoDevice> {
+  if (device.parentId) {
+    throw new FeatureNotSupportedError(device.id, "service introspection");
+  }
+
+  const wemoDevice = await lookupDevice(device);
+  if (!wemoDevice) {
+    throw new DeviceOfflineError(device.id, "Device not reachable");
+  }
+  return { ...wemoDevice, id: device.id, name: device.name };
+}
+
+/**
+ * GET /api/devices/:id/services
+ *
+ * Lists the device's services with the actions, arguments and state
+ * variables from their SCPD documents.
+ *
+ * Query params:
+ * - refresh=true: Download the SCPDs again instead of using the cache
+ */
+deviceRoutes.get("/:id/services", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const wemoDevice = await getServiceDevice(device);
+  const services = await getServiceCatalog().getServices(
+    wemoDevice,
+    c.req.query("refresh") === "true"
+  );
+
+  return c.json({ id: device.id, services });
+});
+
+/**
+ * POST /api/devices/:id/services/:serviceId/actions/:action
+ *
+ * Calls an action described by the service's SCPD. The service may be given
+ * by its full or short service ID (e.g., "basicevent1") or its service type.
+ * Argument names must be inputs of the action; values are sent as text.
+ *
+ * Body:
+ * {
+ *   arguments?: { [name: string]: string | number | boolean }
+ * }
+ *
+ * Response:
+ * {
+ *   id: string,
+ *   serviceId: string,
+ *   action: string,
+ *   result: object | null   // Parsed action response
+ * }
+ */
+deviceRoutes.post("/:id/services/:serviceId/actions/:action", async (c) => {
+  const device = requireDevice(c.req.param("id"));
+  const body = await c.req.json<{ arguments?: unknown }>().catch(() => ({ arguments: undefined }));
+
+  const rawArgs = body.arguments ?? {};
+  if (typeof rawArgs !== "object" || rawArgs === null || Array.isArray(rawArgs)) {
+    throw new ValidationError("Invalid arguments: must be an object of argument values", [
+      "arguments",
+    ]);
+  }
+
+  const args: Record<string, string> = {};
+  const invalidArgs: string[] = [];
+  for (const [name, value] of Object.entries(rawArgs)) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      args[name] = typeof value === "boolean" ? (value ? "1" : "0") : String(value);
+    } else {
+      invalidArgs.push(name);
+    }
+  }
+  if (invalidArgs.length > 0) {
+    throw new ValidationError(
+      `Invalid argument values: ${invalidArgs.join(", ")} must be strings, numbers or booleans`,
+      invalidArgs.map((name) => `arguments.${name}`)
+    );
+  }
+
+  const wemoDevice = await getServiceDevice(device);
+  const catalog = getServiceCatalog();
+  const serviceId = c.req.param("serviceId");
+  const service = findService(await catalog.getServices(wemoDevice), serviceId);
+  if (!service) {
+    throw new ServiceNotFoundError(device.id, serviceId);
+  }
+  if (service.error) {
+    throw new DeviceOfflineError(device.id, `Could not read service description: ${service.error}`);
+  }
+
+  const actionName = c.req.param("action");
+  const action = service.actions.find((a) => a.name === actionName);
+  if (!action) {
+    throw new ActionNotFoundError(device.id, service.serviceId, actionName);
+  }
+
+  const unknownArgs = findUnknownArguments(action, Object.keys(args));
+  if (unknownArgs.length > 0) {
+    const inputs = action.arguments.filter((a) => a.direction === "in").map((a) => a.name);
+    throw new ValidationError(
+      `Unknown arguments for ${action.name}: ${unknownArgs.join(", ")} (accepted: ${inputs.join(", ") || "none"})`,
+      unknownArgs.map((name) => `arguments.${name}`)
+    );
+  }
+
+  try {
+    const result = await catalog.invoke(wemoDevice, service, action, args);
+    return c.json({ id: device.id, serviceId: service.serviceId, action: action.name, result });
+  } catch (error) {
+    throw new DeviceOperationError(
+      device.id,
+      `call ${action.name}`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
@@ -6,8 +6,11 @@
 
 import { Hono } from "hono";
 import { getDatabase } from "../../db";
-import { discoverDevices } from "../../wemo/discovery";
-import type { WemoDevice } from "../../wemo/types";
+import { getActiveNetworkInterface, selectNetworkInterfaces } from "../../network";
+import { discoverDevices, expandCidr } from "../../wemo/discovery";
+import { getTimeSync, supportsTimeSync } from "../../wemo/timesync";
+import { type DiscoveryMode, type WemoDevice, WemoDeviceType } from "../../wemo/types";
+import { ValidationError } from "../errors";
 
 /**
  * Discovery routes.
@@ -21,18 +24,38 @@ export const discoveryRoutes = new Hono();
 const DISCOVERY_COOLDOWN_MS = 5000; // 5 seconds between discovery requests
 let lastDiscoveryTime = 0;
 
+/**
+ * Sets a saved device's clock in the background.
+ * Devices synced within the last minute are skipped.
+ */
+function syncClock(device: WemoDevice): void {
+  if (device.parentId || !supportsTimeSync(device)) {
+    return;
+  }
+  getTimeSync()
+    .sync(device)
+    .catch((error) => console.warn(`[Discovery] Could not sync clock of ${device.name}:`, error));
+}
+
 /**
  * GET /api/discover
  *
  * Scans the network for WeMo devices.
  *
  * Query Parameters:
- * - timeout: Scan timeout in seconds (default: 5, max: 30)
+ * - mode: "ssdp" (multicast search) or "sweep" (probe every address in a range)
+ * - timeout: Scan timeout in seconds (default: 5, or 20 for a sweep; max: 30)
+ * - ranges: Comma-separated CIDR ranges to sweep (default: the /24 of each interface)
+ * - interface: Interface name or address to search from (default: the one saved in
+ *   settings, else all non-virtual interfaces)
+ * - types: Comma-separated device types to keep (default: all)
  * - save: Whether to save discovered devices to database (default: false)
  *
  * Response:
  * {
  *   devices: WemoDevice[],
+ *   mode: "ssdp" | "sweep",
+ *   interfaces: string[],
  *   duration: number,
  *   saved: number,
  *   errors: string[]
@@ -41,6 +64,53 @@ let lastDiscoveryTime = 0;
  * Rate limited: minimum 5 seconds between requests
  */
 discoveryRoutes.get("/", async (c) => {
+  const modeParam = c.req.query("mode") ?? "ssdp";
+  if (modeParam !== "ssdp" && modeParam !== "sweep") {
+    throw new ValidationError('mode must be "ssdp" or "sweep"', ["mode"]);
+  }
+  const mode: DiscoveryMode = modeParam;
+
+  const rangesParam = c.req.query("ranges");
+  const ranges = rangesParam
+    ?.split(",")
+    .map((range) => range.trim())
+    .filter((range) => range !== "");
+  if (ranges) {
+    if (ranges.length === 0) {
+      throw new ValidationError("ranges must list at least one CIDR range", ["ranges"]);
+    }
+    if (mode !== "sweep") {
+      throw new ValidationError("ranges can only be used with mode=sweep", ["ranges"]);
+    }
+    for (const range of ranges) {
+      try {
+        expandCidr(range);
+      } catch (error) {
+        throw new ValidationError(error instanceof Error ? error.message : String(error), [
+          "ranges",
+        ]);
+      }
+    }
+  }
+
+  const requestedInterface = c.req.query("interface");
+  if (requestedInterface && selectNetworkInterfaces(requestedInterface).length === 0) {
+    throw new ValidationError(`Network interface ${requestedInterface} not found`, ["interface"]);
+  }
+  const networkInterface = requestedInterface || getActiveNetworkInterface();
+  const interfaces = selectNetworkInterfaces(networkInterface);
+
+  const knownTypes = Object.values(WemoDeviceType) as string[];
+  const deviceTypes = c.req
+    .query("types")
+    ?.split(",")
+    .map((type) => type.trim())
+    .filter((type) => type !== "");
+  const unknownTypes = deviceTypes?.filter((type) => !knownTypes.includes(type)) ?? [];
+  if (unknownTypes.length > 0) {
+    throw new ValidationError(`Unknown device types: ${unknownTypes.join(", ")}`, ["types"]);
+  }
+
   // Rate limiting check
   const now = Date.now();
   const timeSinceLastDiscovery = now - lastDiscoveryTime;
@@ -59,9 +129,11 @@ discoveryRoutes.get("/", async (c) => {
   }
 
   lastDiscoveryTime = now;
-  // Parse timeout (default 5 seconds, max 30)
+  // Parse timeout (default 5 seconds, or 20 for a sweep; max 30)
+  const defaultTimeout = mode === "sweep" ? 20 : 5;
   const timeoutParam = c.req.query("timeout");
-  const timeout = Math.min(Math.max(Number.parseInt(timeoutParam ?? "5", 10) || 5, 1), 30) * 1000;
+  const timeout =
+    Math.min(Math.max(Number.parseInt(timeoutParam ?? "", 10) || defaultTimeout, 1), 30) * 1000;
 
   // Parse save flag
   const saveParam = c.req.query("save");
@@ -69,10 +141,46 @@ discoveryRoutes.get("/", async (c) => {
 
   try {
     // Run discovery
-    const result = await discoverDevices({ timeout });
+    const result = await discoverDevices({
+      mode,
+      timeout,
+      ranges,
+      networkInterface,
+      deviceTypes: deviceTypes as WemoDeviceType[] | undefined,
+    });
 
-    // Merge with saved devices to add any offline devices
+    // Save discovered devices if requested. Rows saved under an older ID are
+    // moved to the device's ID, so they aren't listed as offline duplicates.
     const db = getDatabase();
+    let savedCount = 0;
+    for (const device of result.devices) {
+      const existing = db.getDeviceByIdentity(device);
+      if (shouldSave) {
+        const now = new Date().toISOString();
+        db.saveDevice({
+          id: device.id,
+          name: existing?.name ?? device.name,
+          deviceType: device.deviceType,
+          host: device.host,
+          port: device.port,
+          parentId: device.parentId,
+          model: device.model,
+          firmwareVersion: device.firmwareVersion,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        });
+        db.updateMetadata(device.id, device);
+        db.updateLastSeen(device.id);
+        syncClock(device);
+        savedCount++;
+      } else if (existing) {
+        // Still update last_seen for discovered devices that are already saved
+        db.updateMetadata(device.id, device);
+        db.updateLastSeen(device.id);
+      }
+    }
+
+    // Merge with saved devices to add any offline devices
     const savedDevices = db.getAllDevices();
 
     // Create a map of discovered device IDs
@@ -80,7 +188,10 @@ discoveryRoutes.get("/", async (c) => {
 
     // Add saved devices that weren't discovered (offline)
     const offlineDevices: WemoDevice[] = savedDevices
-      .filter((saved) => !discoveredIds.has(saved.id))
+      .filter(
+        (saved) =>
+          !discoveredIds.has(saved.id) && (!deviceTypes || deviceTypes.includes(saved.deviceType))
+      )
       .map((saved) => ({
         id: saved.id,
         name: saved.name,
@@ -94,6 +205,7 @@ discoveryRoutes.get("/", async (c) => {
         macAddress: "",
         services: [],
         setupUrl: `http://${saved.host}:${saved.port}/setup.xml`,
+        parentId: saved.parentId,
       }));
 
     // Mark discovered devices as online in response
@@ -108,34 +220,10 @@ discoveryRoutes.get("/", async (c) => {
       ...offlineDevices.map((d) => ({ ...d, isOnline: false })),
     ];
 
-    // Save discovered devices if requested
-    let savedCount = 0;
-    if (shouldSave) {
-      for (const device of result.devices) {
-        db.saveDevice({
-          id: device.id,
-          name: device.name,
-          deviceType: device.deviceType,
-          host: device.host,
-          port: device.port,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        });
-        db.updateLastSeen(device.id);
-        savedCount++;
-      }
-    } else {
-      // Still update last_seen for discovered devices that are already saved
-      for (const device of result.devices) {
-        const existing = db.getDeviceById(device.id);
-        if (existing) {
-          db.updateLastSeen(device.id);
-        }
-      }
-    }
-
     return c.json({
       devices: allDevices,
+      mode,
+      interfaces: [...new Set(interfaces.map((iface) => iface.name))],
       duration: result.scanDuration,
       discovered: result.devices.length,
       offline: offlineDevices.length,
@@ -192,16 +280,21 @@ discoveryRoutes.get("/:host", async (c) => {
     // Save if requested
     if (shouldSave) {
       const db = getDatabase();
+      const existing = db.getDeviceByIdentity(device);
       db.saveDevice({
         id: device.id,
-        name: device.name,
+        name: existing?.name ?? device.name,
         deviceType: device.deviceType,
         host: device.host,
         port: device.port,
-        createdAt: new Date().toISOString(),
+        model: device.model,
+        firmwareVersion: device.firmwareVersion,
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       });
+      db.updateMetadata(device.id, device);
       db.updateLastSeen(device.id);
+      syncClock(device);
     }
 
     return c.json({
@@ -0,0 +1,208 @@
+/**
+ * Firmware API Routes
+ *
+ * Firmware inventory across saved devices, and firmware images uploaded by
+ * the user that devices download from the bridge during an update.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Hono } from "hono";
+import { getAppDataDir, getDatabase } from "../../db";
+import { type FirmwareUpdateJob, getFirmwareUpdates } from "../../wemo/firmware";
+import { FirmwareImageNotFoundError, ValidationError } from "../errors";
+
+/**
+ * Firmware routes.
+ */
+export const firmwareRoutes = new Hono();
+
+/**
+ * Largest firmware image accepted for upload.
+ */
+const MAX_IMAGE_SIZE = 32 * 1024 * 1024;
+
+/**
+ * Length of image IDs (hex characters of the image's SHA-256).
+ */
+const IMAGE_ID_LENGTH = 16;
+
+/**
+ * A firmware image stored by the bridge.
+ */
+export interface FirmwareImage {
+  /** Image ID, derived from its contents */
+  id: string;
+  /** File name as uploaded */
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** When the image was uploaded (ISO) */
+  uploadedAt: string;
+}
+
+/**
+ * Gets the directory firmware images are stored in.
+ * Files are named `<id>-<original name>`.
+ */
+function getImagesDir(): string {
+  const dir = path.join(getAppDataDir(), "firmware");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+/**
+ * Lists stored firmware images, newest first.
+ */
+function listImages(): FirmwareImage[] {
+  const dir = getImagesDir();
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.charAt(IMAGE_ID_LENGTH) === "-")
+    .map((file) => {
+      const stat = fs.statSync(path.join(dir, file));
+      return {
+        id: file.slice(0, IMAGE_ID_LENGTH),
+        name: file.slice(IMAGE_ID_LENGTH + 1),
+        size: stat.size,
+        uploadedAt: stat.mtime.toISOString(),
+      };
+    })
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+/**
+ * Finds a stored firmware image and its path on disk.
+ */
+export function findFirmwareImage(id: string): { image: FirmwareImage; filePath: string } | null {
+  const image = listImages().find((i) => i.id === id);
+  if (!image) {
+    return null;
+  }
+  return { image, filePath: path.join(getImagesDir(), `${image.id}-${image.name}`) };
+}
+
+/**
+ * GET /api/firmware
+ *
+ * Reports firmware versions across saved devices, grouped by model and version.
+ *
+ * Response:
+ * {
+ *   groups: [{ model, firmwareVersion, devices: [{ id, name, update }] }],
+ *   images: FirmwareImage[]
+ * }
+ */
+firmwareRoutes.get("/", (c) => {
+  const updates = getFirmwareUpdates();
+  const groups = new Map<
+    string,
+    {
+      model: string | null;
+      firmwareVersion: string | null;
+      devices: { id: string; name: string; update: FirmwareUpdateJob | null }[];
+    }
+  >();
+
+  for (const device of getDatabase().getAllDevices()) {
+    const model = device.model ?? null;
+    const firmwareVersion = device.firmwareVersion ?? null;
+    const key = `${model}\u0000${firmwareVersion}`;
+    const group = groups.get(key) ?? { model, firmwareVersion, devices: [] };
+    group.devices.push({ id: device.id, name: device.name, update: updates.getJob(device.id) });
+    groups.set(key, group);
+  }
+
+  // Unknown models and versions sort last
+  const compare = (a: string | null, b: string | null) =>
+    a === b ? 0 : a === null ? 1 : b === null ? -1 : a.localeCompare(b);
+
+  return c.json({
+    groups: [...groups.values()].sort(
+      (a, b) => compare(a.model, b.model) || compare(a.firmwareVersion, b.firmwareVersion)
+    ),
+    images: listImages(),
+  });
+});
+
+/**
+ * GET /api/firmware/images
+ *
+ * Lists uploaded firmware images.
+ */
+firmwareRoutes.get("/images", (c) => {
+  return c.json({ images: listImages() });
+});
+
+/**
+ * POST /api/firmware/images
+ *
+ * Uploads a firmware image (multipart form, field "file").
+ */
+firmwareRoutes.post("/images", async (c) => {
+  const body = await c.req.parseBody();
+  const file = body.file;
+
+  if (!(file instanceof File)) {
+    throw new ValidationError("Missing required fields: file", ["file"]);
+  }
+  if (file.size === 0 || file.size > MAX_IMAGE_SIZE) {
+    throw new ValidationError(
+      `Invalid file: must be between 1 byte and ${MAX_IMAGE_SIZE / 1024 / 1024} MB`,
+      ["file"]
+    );
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const id = createHash("sha256").update(data).digest("hex").slice(0, IMAGE_ID_LENGTH);
+  const name = path.basename(file.name || "firmware.bin").replace(/[^\w.-]/g, "_");
+
+  const existing = findFirmwareImage(id);
+  if (existing) {
+    return c.json({ image: existing.image, created: false });
+  }
+
+  await Bun.write(path.join(getImagesDir(), `${id}-${name}`), data);
+  const stored = findFirmwareImage(id);
+
+  return c.json({ image: stored?.image, created: true }, 201);
+});
+
+/**
+ * GET /api/firmware/images/:imageId
+ *
+ * Serves an image; this is the URL devices download from during an update.
+ */
+firmwareRoutes.get("/images/:imageId", (c) => {
+  const id = c.req.param("imageId");
+  const found = findFirmwareImage(id);
+  if (!found) {
+    throw new FirmwareImageNotFoundError(id);
+  }
+
+  return new Response(Bun.file(found.filePath), {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${found.image.name}"`,
+    },
+  });
+});
+
+/**
+ * DELETE /api/firmware/images/:imageId
+ *
+ * Removes an uploaded image.
+ */
+firmwareRoutes.delete("/images/:imageId", (c) => {
+  const id = c.req.param("imageId");
+  const found = findFirmwareImage(id);
+  if (!found) {
+    throw new FirmwareImageNotFoundError(id);
+  }
+
+  fs.unlinkSync(found.filePath);
+  return c.json({ deleted: true, id });
+});
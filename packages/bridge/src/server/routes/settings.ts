@@ -0,0 +1,85 @@
+/**
+ * Settings API Routes
+ *
+ * Bridge settings stored in the database.
+ */
+
+import { Hono } from "hono";
+import {
+  getActiveNetworkInterface,
+  getSavedNetworkInterface,
+  listNetworkInterfaces,
+  saveNetworkInterface,
+  scoreInterface,
+  selectNetworkInterfaces,
+} from "../../network";
+import { ValidationError } from "../errors";
+
+/**
+ * Settings routes.
+ */
+export const settingsRoutes = new Hono();
+
+/**
+ * Describes the network interfaces and which ones discovery uses.
+ */
+function getNetworkSettings() {
+  const inUse = new Set(selectNetworkInterfaces(getActiveNetworkInterface()).map((i) => i.address));
+  return {
+    preferredInterface: getSavedNetworkInterface(),
+    interfaces: listNetworkInterfaces().map((iface) => ({
+      name: iface.name,
+      address: iface.address,
+      netmask: iface.netmask,
+      virtual: iface.virtual,
+      score: scoreInterface(iface),
+      inUse: inUse.has(iface.address),
+    })),
+  };
+}
+
+/**
+ * GET /api/settings/network
+ *
+ * Lists network interfaces, best first, and the preferred one.
+ *
+ * Response:
+ * {
+ *   preferredInterface: string | null,
+ *   interfaces: [{ name, address, netmask, virtual, score, inUse }]
+ * }
+ */
+settingsRoutes.get("/network", (c) => {
+  return c.json(getNetworkSettings());
+});
+
+/**
+ * PUT /api/settings/network
+ *
+ * Sets the interface used for discovery, announcements and the phone QR
+ * code. Null goes back to all non-virtual interfaces.
+ *
+ * Body: { preferredInterface: string | null } (interface name or address)
+ *
+ * Response: Same as GET /api/settings/network
+ */
+settingsRoutes.put("/network", async (c) => {
+  const body = await c.req.json<{ preferredInterface?: unknown }>();
+  const { preferredInterface } = body;
+
+  if (preferredInterface !== null && typeof preferredInterface !== "string") {
+    throw new ValidationError("preferredInterface must be a string or null", [
+      "preferredInterface",
+    ]);
+  }
+  if (preferredInterface && selectNetworkInterfaces(preferredInterface).length === 0) {
+    throw new ValidationError(`Network interface ${preferredInterface} not found`, [
+      "preferredInterface",
+    ]);
+  }
+
+  saveNetworkInterface(preferredInterface || null);
+  console.log(`[Settings] Preferred network interface: ${preferredInterface || "automatic"}`);
+
+  return c.json(getNetworkSettings());
+});
@@ -5,6 +5,10 @@
  */
 
 import { Hono } from "hono";
+import { getDatabase } from "../../db";
+import { getAdoptionWatcher } from "../../wemo/adoption";
+import { type BatchCredentials, BatchSetupSession } from "../../wemo/batch-setup";
+import { getNetworkMigration } from "../../wemo/migration";
 import {
   EncryptionMethod,
   WEMO_WIFI_SETUP_URL,
@@ -13,10 +17,12 @@ import {
   detectSetupDevice,
   encryptWifiPassword,
   fetchApList,
+  fetchSetupDeviceInfo,
   getApList,
   getNetworkStatus,
-  sendRawSoapCommand,
+  selectEncryption,
   sendWifiConnectCommand,
+  toConnectSecurity,
 } from "../../wemo/setup";
 
 export const setupRoutes = new Hono();
@@ -65,14 +71,19 @@ setupRoutes.get("/networks", async (c) => {
 /**
  * POST /api/setup/connect
  *
- * Sends WiFi credentials to the Wemo device.
+ * Sends WiFi credentials to the Wemo device. The password encryption is
+ * the one this model accepted before, else the one its setup.xml flags call
+ * for; other methods are tried if the device can't join with it.
+ *
+ * Once sent, the device is watched for on the home network and saved under
+ * `name` (default: its setup.xml name) when found.
  */
 setupRoutes.post("/connect", async (c) => {
   console.log("[Setup API] WiFi connect request received");
 
   try {
     const body = await c.req.json();
-    const { ssid, password, auth, encrypt, mac, serial, channel } = body as {
+    const { ssid, password, auth, encrypt, mac, serial, channel, name } = body as {
       ssid?: string;
       password?: string;
       auth?: string;
@@ -80,6 +91,7 @@ setupRoutes.post("/connect", async (c) => {
       mac?: string;
       serial?: string;
       channel?: number;
+      name?: string;
     };
 
     // Validate required fields
@@ -95,18 +107,8 @@ setupRoutes.post("/connect", async (c) => {
       return c.json({ success: false, error: "Missing or invalid serial" }, 400);
     }
 
-    // Auth defaults - must match the format from GetApList (e.g., WPA2PSK, WPAPSK)
-    let authMode: "OPEN" | "WPAPSK" | "WPA2PSK";
-    if (auth === "OPEN") {
-      authMode = "OPEN";
-    } else if (auth === "WPA" || auth === "WPAPSK") {
-      authMode = "WPAPSK";
-    } else {
-      // Default to WPA2PSK for WPA2, WPA2PSK, or any other value
-      authMode = "WPA2PSK";
-    }
-
-    const encryptMode = encrypt === "NONE" ? "NONE" : encrypt === "TKIP" ? "TKIP" : "AES";
+    // Auth must match the format from GetApList (e.g., WPA2PSK, WPAPSK)
+    const { auth: authMode, encrypt: encryptMode } = toConnectSecurity(auth, encrypt);
 
     // Password required unless open network
     if (authMode !== "OPEN" && (!password || typeof password !== "string")) {
@@ -124,20 +126,42 @@ setupRoutes.post("/connect", async (c) => {
       ssid,
       password: password ?? "",
       auth: authMode,
-      encrypt: encryptMode as "NONE" | "AES" | "TKIP",
+      encrypt: encryptMode,
       mac,
       serial,
       channel: channel ?? 0,
     };
 
+    const db = getDatabase();
+    const info = await fetchSetupDeviceInfo();
+    const encryption =
+      (info?.model ? db.getSetupEncryption(info.model) : null) ??
+      (info ? selectEncryption(info) : null);
+    if (encryption) {
+      params.encryption = encryption;
+    }
+
     const result = await sendWifiConnectCommand(params);
 
     if (result.success) {
       console.log("[Setup API] WiFi setup command sent successfully");
+      if (result.connected && result.encryption && info?.model) {
+        db.saveSetupEncryption(info.model, result.encryption);
+      }
+      const adoption = getAdoptionWatcher().watch({
+        serial,
+        mac,
+        name: (typeof name === "string" && name.trim()) || info?.name || "Wemo Device",
+      });
       return c.json({
         success: true,
         status: result.status,
-        message: "Device is connecting to WiFi network",
+        connected: result.connected,
+        encryption: result.encryption,
+        message: result.connected
+          ? "Device joined the WiFi network"
+          : "Device is connecting to WiFi network",
+        adoption,
         diagnostics: result.diagnostics,
       });
     }
@@ -160,6 +184,281 @@ setupRoutes.post("/connect", async (c) => {
   }
 });
 
+/**
+ * GET /api/setup/adoption
+ *
+ * Gets the devices set up since the bridge started, newest first, and
+ * whether each has been found on the home network.
+ *
+ * Query params:
+ * - serial: Only the device with this serial number
+ */
+setupRoutes.get("/adoption", (c) => {
+  const watcher = getAdoptionWatcher();
+  const serial = c.req.query("serial");
+  if (serial !== undefined) {
+    const job = watcher.getJob(serial);
+    return c.json({ jobs: job ? [job] : [] });
+  }
+  return c.json({ jobs: watcher.getJobs() });
+});
+
+// ============================================
+// Batch Setup
+// ============================================
+
+/**
+ * Batch session in progress. The home network password is only kept here,
+ * in memory, until the session ends.
+ */
+let batchSession: BatchSetupSession | null = null;
+
+/**
+ * POST /api/setup/batch
+ *
+ * Starts setting up several devices with the same home network, replacing
+ * any earlier session. Devices are named from `names` in order, then from
+ * `pattern` (`{n}` is the device's position, `{serial}` its serial number).
+ */
+setupRoutes.post("/batch", async (c) => {
+  try {
+    const body = (await c.req.json()) as {
+      ssid?: unknown;
+      password?: unknown;
+      auth?: string;
+      encrypt?: string;
+      channel?: unknown;
+      names?: unknown;
+      pattern?: unknown;
+    };
+
+    if (!body.ssid || typeof body.ssid !== "string") {
+      return c.json({ success: false, error: "Missing or invalid ssid" }, 400);
+    }
+
+    const security = toConnectSecurity(body.auth, body.encrypt);
+    const password = typeof body.password === "string" ? body.password : "";
+    if (security.auth !== "OPEN" && !password) {
+      return c.json({ success: false, error: "Password required for secured network" }, 400);
+    }
+
+    if (
+      body.names !== undefined &&
+      (!Array.isArray(body.names) || body.names.some((name) => typeof name !== "string"))
+    ) {
+      return c.json({ success: false, error: "names must be a list of strings" }, 400);
+    }
+
+    const credentials: BatchCredentials = {
+      ssid: body.ssid,
+      password,
+      ...security,
+      channel: typeof body.channel === "number" ? body.channel : 0,
+    };
+
+    const db = getDatabase();
+    batchSession = new BatchSetupSession(credentials, {
+      ...(body.names ? { names: body.names as string[] } : {}),
+      ...(typeof body.pattern === "string" ? { pattern: body.pattern } : {}),
+      encryptionFor: (device) => (device.model ? db.getSetupEncryption(device.model) : null),
+    });
+
+    console.log(`[Setup API] Batch setup started for ${credentials.ssid}`);
+    return c.json({ success: true, report: batchSession.getReport() });
+  } catch (error) {
+    console.error("[Setup API] Error starting batch setup:", error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/setup/batch
+ *
+ * Gets the report of the batch session, if one is in progress.
+ */
+setupRoutes.get("/batch", (c) => {
+  return c.json({
+    active: batchSession !== null,
+    busy: batchSession?.isBusy() ?? false,
+    report: batchSession?.getReport() ?? null,
+  });
+});
+
+/**
+ * POST /api/setup/batch/next
+ *
+ * Sets up the device whose setup network the bridge is on with the batch
+ * session's home network. A device whose setup was interrupted is set up
+ * again under the name it was given; one that already joined is left alone,
+ * as is one that failed unless `retry` is set.
+ */
+setupRoutes.post("/batch/next", async (c) => {
+  const session = batchSession;
+  if (!session) {
+    return c.json({ success: false, error: "No batch setup in progress" }, 404);
+  }
+  if (session.isBusy()) {
+    return c.json({ success: false, error: "A device is already being set up" }, 409);
+  }
+
+  try {
+    const body = (await c.req.json().catch(() => ({}))) as { retry?: unknown };
+    const step = await session.provisionNext(body.retry === true);
+    const entry = step.entry;
+
+    if (entry && !step.skipped && (entry.status === "joined" || entry.status === "sent")) {
+      if (entry.status === "joined" && entry.encryption && entry.device.model) {
+        getDatabase().saveSetupEncryption(entry.device.model, entry.encryption);
+      }
+      getAdoptionWatcher().watch({
+        serial: entry.device.serial,
+        mac: entry.device.mac,
+        name: entry.name,
+      });
+    }
+
+    return c.json({
+      success: entry !== null && (entry.status === "joined" || entry.status === "sent"),
+      ...step,
+      report: session.getReport(),
+    });
+  } catch (error) {
+    console.error("[Setup API] Error in batch setup:", error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * DELETE /api/setup/batch
+ *
+ * Ends the batch session and forgets the home network password.
+ */
+setupRoutes.delete("/batch", (c) => {
+  const report = batchSession?.getReport() ?? null;
+  batchSession = null;
+  return c.json({ success: true, report });
+});
+
+// ============================================
+// Network Migration
+// ============================================
+
+/**
+ * POST /api/setup/migrate
+ *
+ * Moves saved devices to a new WiFi network, e.g. before replacing the
+ * router, while they are still reachable on the old one. Each device is
+ * sent the new network in turn and then looked for on the new network,
+ * where it is saved under its new address once this computer has joined
+ * that network too.
+ *
+ * Body:
+ * - ssid, password, auth, encrypt, channel: The new network
+ * - deviceIds: Devices to move (default: all saved devices)
+ * - dryRun: Check the devices and work out what would be sent, without sending it
+ * - stopOnFailure: Stop after the first device that fails
+ */
+setupRoutes.post("/migrate", async (c) => {
+  try {
+    const body = (await c.req.json()) as {
+      ssid?: unknown;
+      password?: unknown;
+      auth?: string;
+      encrypt?: string;
+      channel?: unknown;
+      deviceIds?: unknown;
+      dryRun?: unknown;
+      stopOnFailure?: unknown;
+    };
+
+    if (!body.ssid || typeof body.ssid !== "string") {
+      return c.json({ success: false, error: "Missing or invalid ssid" }, 400);
+    }
+
+    const security = toConnectSecurity(body.auth, body.encrypt);
+    const password = typeof body.password === "string" ? body.password : "";
+    if (security.auth !== "OPEN" && !password) {
+      return c.json({ success: false, error: "Password required for secured network" }, 400);
+    }
+
+    const db = getDatabase();
+    let devices = db.getAllDevices();
+    if (body.deviceIds !== undefined) {
+      if (!Array.isArray(body.deviceIds) || body.deviceIds.some((id) => typeof id !== "string")) {
+        return c.json({ success: false, error: "deviceIds must be a list of device IDs" }, 400);
+      }
+      const ids = body.deviceIds as string[];
+      const unknown = ids.filter((id) => !devices.some((device) => device.id === id));
+      if (unknown.length > 0) {
+        return c.json({ success: false, error: `Unknown devices: ${unknown.join(", ")}` }, 400);
+      }
+      devices = devices.filter((device) => ids.includes(device.id));
+    }
+
+    const migration = getNetworkMigration();
+    if (migration.isRunning()) {
+      return c.json({ success: false, error: "A network migration is already running" }, 409);
+    }
+
+    const job = migration.start(
+      devices,
+      {
+        ssid: body.ssid,
+        password,
+        ...security,
+        channel: typeof body.channel === "number" ? body.channel : 0,
+        dryRun: body.dryRun === true,
+        stopOnFailure: body.stopOnFailure === true,
+      },
+      (device) => (device.model ? db.getSetupEncryption(device.model) : null)
+    );
+
+    return c.json({ success: true, job }, 202);
+  } catch (error) {
+    console.error("[Setup API] Error starting network migration:", error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/setup/migrate
+ *
+ * Gets the running or last network migration.
+ */
+setupRoutes.get("/migrate", (c) => {
+  return c.json({ job: getNetworkMigration().getJob() });
+});
+
+/**
+ * DELETE /api/setup/migrate
+ *
+ * Cancels the running network migration. Devices not sent the new network
+ * yet are skipped.
+ */
+setupRoutes.delete("/migrate", (c) => {
+  const migration = getNetworkMigration();
+  migration.cancel();
+  return c.json({ success: true, job: migration.getJob() });
+});
+
 // ============================================
 // Diagnostic Endpoints
 // ============================================
@@ -197,33 +496,6 @@ setupRoutes.post("/diag/close", async (c) => {
   return c.json(result);
 });
 
-/**
- * POST /api/setup/diag/raw-soap
- *
- * Sends a raw SOAP command for debugging.
- */
-setupRoutes.post("/diag/raw-soap", async (c) => {
-  console.log("[Setup API] Diagnostic: Raw SOAP");
-  try {
-    const body = await c.req.json();
-    const { url, action, payload, timeout } = body as {
-      url?: string;
-      action?: string;
-      payload?: string;
-      timeout?: number;
-    };
-
-    if (!url || !action || !payload) {
-      return c.json({ error: "Missing url, action, or payload" }, 400);
-    }
-
-    const result = await sendRawSoapCommand(url, action, payload, timeout);
-    return c.json(result);
-  } catch (error) {
-    return c.json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
-
 /**
  * POST /api/setup/diag/encrypt
  *
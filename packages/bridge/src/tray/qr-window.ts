@@ -5,8 +5,8 @@
  * Users scan the QR code to connect their phone to the bridge.
  */
 
-import { networkInterfaces } from "node:os";
 import QRCode from "qrcode";
+import { getNetworkInterfaces, getPreferredIp } from "../network";
 
 /**
  * QR Window configuration.
@@ -18,155 +18,6 @@ export interface QRWindowConfig {
   preferredIp?: string;
 }
 
-/**
- * Network interface info for IP selection.
- */
-interface NetworkInterface {
-  name: string;
-  address: string;
-  family: string;
-  internal: boolean;
-}
-
-/**
- * Patterns for virtual/VPN interfaces that should be excluded.
- * These are typically not reachable from phones on the local network.
- */
-const VIRTUAL_INTERFACE_PATTERNS = [
-  /^vEthernet/i, // Hyper-V virtual switches
-  /^vnic/i, // Virtual NICs
-  /vmware/i, // VMware
-  /virtualbox/i, // VirtualBox
-  /docker/i, // Docker
-  /\bwsl\b/i, // WSL
-  /hyper-?v/i, // Hyper-V
-  /^tun\d/i, // VPN tunnel
-  /^tap\d/i, // VPN tap
-  /^utun\d/i, // macOS VPN
-  /^ppp\d/i, // PPP connections
-  /\bvpn\b/i, // VPN interfaces
-  /^br-/i, // Docker bridge networks
-  /^veth/i, // Docker virtual ethernet
-  /^virbr/i, // libvirt/KVM virtual bridges
-];
-
-/**
- * Checks if an interface name appears to be virtual/VPN.
- */
-function isVirtualInterface(name: string): boolean {
-  return VIRTUAL_INTERFACE_PATTERNS.some((pattern) => pattern.test(name));
-}
-
-/**
- * Scores an IP address by how likely it is to be a real LAN address.
- * Higher score = more likely to be the correct local network.
- * 192.168.x.x and 10.x.x.x are scored equally as both are common home/office ranges.
- */
-function scoreIpAddress(address: string): number {
-  // 192.168.x.x - common home/SOHO networks
-  if (address.startsWith("192.168.")) {
-    return 100;
-  }
-
-  // 10.x.x.x - common home and corporate networks (equally valid as 192.168)
-  if (address.startsWith("10.")) {
-    return 100;
-  }
-
-  // 172.16.x.x - 172.31.x.x - private range, but often used for virtual networks
-  // Check if it's in the valid private range (172.16.0.0 - 172.31.255.255)
-  if (address.startsWith("172.")) {
-    const parts = address.split(".");
-    const secondOctet = Number.parseInt(parts[1] ?? "0", 10);
-    if (secondOctet >= 16 && secondOctet <= 31) {
-      return 50; // Lower score - often virtual
-    }
-  }
-
-  // Other addresses (link-local, etc.)
-  return 10;
-}
-
-/**
- * Scores an interface name by how likely it is to be the primary network.
- * Higher score = more likely to be the user's main connection.
- */
-function scoreInterfaceName(name: string): number {
-  const lowerName = name.toLowerCase();
-
-  // WiFi interfaces - usually the primary on laptops/phones
-  if (/wi-?fi|wlan|wireless|airport/i.test(lowerName)) {
-    return 100;
-  }
-
-  // Ethernet - usually primary on desktops
-  if (/^ethernet$|^eth\d|^en\d/i.test(lowerName)) {
-    return 80;
-  }
-
-  // Other physical interfaces
-  return 50;
-}
-
-/**
- * Gets all available IPv4 addresses from network interfaces.
- * Filters out virtual/VPN interfaces.
- */
-export function getNetworkInterfaces(): NetworkInterface[] {
-  const interfaces = networkInterfaces();
-  const result: NetworkInterface[] = [];
-
-  for (const [name, addrs] of Object.entries(interfaces)) {
-    if (!addrs) continue;
-
-    // Skip virtual interfaces
-    if (isVirtualInterface(name)) {
-      continue;
-    }
-
-    for (const addr of addrs) {
-      if (addr.family === "IPv4" && !addr.internal) {
-        result.push({
-          name,
-          address: addr.address,
-          family: addr.family,
-          internal: addr.internal,
-        });
-      }
-    }
-  }
-
-  return result;
-}
-
-/**
- * Gets the preferred local IP address.
- * Uses heuristics to find the most likely LAN address:
- * 1. Filters out virtual/VPN interfaces
- * 2. Scores by IP range (192.168 > 10.x > 172.16-31)
- * 3. Tiebreaks by interface name (wifi > ethernet > other)
- */
-export function getPreferredIp(): string | null {
-  const interfaces = getNetworkInterfaces();
-
-  if (interfaces.length === 0) {
-    return null;
-  }
-
-  // Score and sort interfaces
-  const scored = interfaces.map((iface) => ({
-    ...iface,
-    ipScore: scoreIpAddress(iface.address),
-    nameScore: scoreInterfaceName(iface.name),
-    totalScore: scoreIpAddress(iface.address) * 10 + scoreInterfaceName(iface.name),
-  }));
-
-  // Sort by total score descending
-  scored.sort((a, b) => b.totalScore - a.totalScore);
-
-  return scored[0]?.address ?? null;
-}
-
 /**
  * Generates a QR code as a data URL (base64 PNG).
  */
@@ -243,6 +243,19 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       margin-top: 2px;
     }
     
+    .success-box {
+      background: rgba(74, 222, 128, 0.1);
+      border: 1px solid rgba(74, 222, 128, 0.3);
+      border-radius: 8px;
+      padding: 12px 16px;
+      font-size: 13px;
+      color: #4ade80;
+      display: flex;
+      align-items: flex-start;
+      gap: 10px;
+      text-align: left;
+    }
+    
     /* Device Info Card */
     .device-card {
       background: rgba(74, 222, 128, 0.1);
@@ -655,6 +668,36 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       color: #fff;
     }
     
+    /* Batch Report */
+    .batch-report {
+      list-style: none;
+      margin-bottom: 20px;
+      text-align: left;
+      font-size: 13px;
+    }
+    
+    .batch-report li {
+      display: flex;
+      justify-content: space-between;
+      gap: 12px;
+      padding: 8px 0;
+      border-bottom: 1px solid #374151;
+      color: #cbd5e1;
+    }
+    
+    .batch-report .batch-status-joined {
+      color: #4ade80;
+    }
+    
+    .batch-report .batch-status-sent,
+    .batch-report .batch-status-interrupted {
+      color: #fbbf24;
+    }
+    
+    .batch-report .batch-status-failed {
+      color: #f87171;
+    }
+    
     /* Toast */
     .toast {
       position: fixed;
@@ -889,6 +932,13 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
           </svg>
           <span>You will temporarily lose internet access while connected to the Wemo device. This is normal.</span>
         </div>
+        
+        <div class="success-box hidden" id="batch-banner" style="margin-top: 16px;">
+          <span id="batch-banner-message" style="flex: 1;">Batch setup in progress.</span>
+          <button type="button" id="btn-finish-batch" class="btn-link" style="font-size: 12px; color: #60a5fa; background: none; border: none; cursor: pointer; padding: 0;">
+            Finish
+          </button>
+        </div>
       </div>
       
       <button class="btn btn-primary" id="btn-detect">
@@ -1030,6 +1080,28 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
             <p class="form-hint">Must be at least 8 characters</p>
           </div>
           
+          <div class="form-group">
+            <label class="form-label" for="device-name-input">Device Name</label>
+            <input type="text" id="device-name-input" class="form-input" placeholder="e.g. Living Room Lamp" autocomplete="off" maxlength="64">
+            <p class="form-hint">The device is added to Open Wemo under this name once it joins your network</p>
+          </div>
+          
+          <div class="form-group">
+            <label class="form-label" style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+              <input type="checkbox" id="batch-toggle">
+              Set up several devices with this network
+            </label>
+            <p class="form-hint">The network and password are remembered until you finish, so each further device only needs its setup network joined</p>
+          </div>
+          
+          <div class="form-group hidden" id="batch-options">
+            <label class="form-label" for="batch-names">Device Names</label>
+            <textarea id="batch-names" class="form-input" rows="4" placeholder="One name per line, in the order you set the devices up"></textarea>
+            <label class="form-label" for="batch-pattern" style="margin-top: 12px;">Then Name Them</label>
+            <input type="text" id="batch-pattern" class="form-input" placeholder="e.g. Plug {n}" autocomplete="off" maxlength="64">
+            <p class="form-hint">{n} is the device's position in the batch. Without names, devices keep the name they came with</p>
+          </div>
+          
           <!-- Hidden fields for security and channel (auto-populated) -->
           <input type="hidden" id="security" value="WPA2PSK/AES">
           <input type="hidden" id="channel" value="0">
@@ -1067,11 +1139,18 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
         <ol>
           <li>Wait about <strong>30 seconds</strong> for the device to connect</li>
           <li>Reconnect this computer to your <strong>home WiFi</strong></li>
-          <li>Return to Open Wemo and click <strong>"Discover Devices"</strong></li>
+          <li>Open Wemo finds the device and adds it automatically</li>
         </ol>
       </div>
       
-      <button class="btn btn-primary" onclick="window.location.href='/'">
+      <div class="info-box" id="adoption-status" style="margin-bottom: 20px;">
+        <span class="spinner" id="adoption-spinner" style="width: 16px; height: 16px;"></span>
+        <span id="adoption-message">Waiting for the device to appear on your home network...</span>
+      </div>
+      
+      <ul class="batch-report hidden" id="batch-report"></ul>
+      
+      <button class="btn btn-primary" id="btn-done">
         Done
       </button>
       <button class="btn btn-secondary" id="btn-another">
@@ -1170,7 +1249,8 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       lastError: null,
       previousStep: 1,
       networks: [], // Available WiFi networks from device scan
-      selectedNetwork: null // Currently selected network object
+      selectedNetwork: null, // Currently selected network object
+      batch: false // A batch session is remembering the network in the bridge
     };
     
     const API_BASE = 'http://localhost:${port}';
@@ -1245,6 +1325,13 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       const btn = document.getElementById('btn-detect');
       setButtonLoading(btn, true);
       
+      // The bridge remembers the network in batch mode, so go straight to setting the device up
+      if (state.batch) {
+        await runBatchStep(true);
+        setButtonLoading(btn, false);
+        return;
+      }
+      
       try {
         const response = await fetch(API_BASE + '/api/setup/detect');
         const data = await response.json();
@@ -1257,6 +1344,7 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
           document.getElementById('device-serial').textContent = data.device.serial || '—';
           document.getElementById('device-mac').textContent = formatMac(data.device.mac) || '—';
           document.getElementById('device-model').textContent = data.device.model || '—';
+          document.getElementById('device-name-input').value = data.device.name || '';
           
           goToStep(2);
         } else {
@@ -1483,6 +1571,11 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       try {
         const [auth, encrypt] = security.split('/');
         
+        if (document.getElementById('batch-toggle').checked) {
+          await startBatch({ ssid, password, auth, encrypt, channel });
+          return;
+        }
+        
         console.log('[Setup] Sending connect request:', { ssid, auth, encrypt, channel });
         
         const response = await fetch(API_BASE + '/api/setup/connect', {
@@ -1495,7 +1588,8 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
             encrypt,
             channel,
             mac: state.device.mac,
-            serial: state.device.serial
+            serial: state.device.serial,
+            name: document.getElementById('device-name-input').value.trim()
           })
         });
         
@@ -1513,6 +1607,7 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
           state.ssid = ssid;
           document.getElementById('success-ssid').textContent = ssid;
           goToStep(4);
+          watchAdoption(state.device.serial);
           
           // Auto-open diagnostics panel to show results (if in debug mode)
           const content = document.getElementById('diag-content');
@@ -1558,8 +1653,194 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       goToStep(state.previousStep);
     });
     
+    // Step 4: Poll until the device shows up on the home network
+    let adoptionTimer = null;
+    
+    function setAdoptionStatus(message, status) {
+      const box = document.getElementById('adoption-status');
+      box.className = status === 'online' ? 'success-box' : status === 'expired' ? 'warning-box' : 'info-box';
+      document.getElementById('adoption-spinner').classList.toggle('hidden', status !== 'waiting');
+      document.getElementById('adoption-message').textContent = message;
+    }
+    
+    function watchAdoption(serial) {
+      clearInterval(adoptionTimer);
+      setAdoptionStatus('Waiting for the device to appear on your home network...', 'waiting');
+      
+      adoptionTimer = setInterval(async () => {
+        try {
+          const response = await fetch(API_BASE + '/api/setup/adoption?serial=' + encodeURIComponent(serial));
+          const data = await response.json();
+          const job = data.jobs && data.jobs[0];
+          if (!job || job.status === 'waiting') return;
+          
+          clearInterval(adoptionTimer);
+          if (job.status === 'online') {
+            setAdoptionStatus(job.name + ' is online at ' + job.host + ' and has been added to Open Wemo.', 'online');
+          } else {
+            setAdoptionStatus('Could not find the device on your network. Make sure this computer is back on your home WiFi, then use "Discover Devices" in Open Wemo.', 'expired');
+          }
+        } catch (error) {
+          // The bridge is briefly unreachable while this computer switches networks
+          console.log('[Setup] Adoption status check failed:', error);
+        }
+      }, 3000);
+    }
+    
+    // ============================================
+    // Batch Setup
+    // ============================================
+    
+    const BATCH_STATUS_LABELS = {
+      joined: 'Joined',
+      sent: 'Not confirmed',
+      failed: 'Failed',
+      interrupted: 'Interrupted'
+    };
+    
+    function setBatchMode(active) {
+      state.batch = active;
+      document.getElementById('btn-another').textContent = active ? 'Set Up Next Device' : 'Set Up Another Device';
+      document.getElementById('batch-banner').classList.toggle('hidden', !active);
+      if (!active) {
+        document.getElementById('batch-report').classList.add('hidden');
+      }
+    }
+    
+    function renderBatchReport(report) {
+      const list = document.getElementById('batch-report');
+      list.innerHTML = '';
+      for (const entry of report.devices) {
+        const item = document.createElement('li');
+        item.innerHTML =
+          '<span>' + escapeHtml(entry.name) + '</span>' +
+          '<span class="batch-status-' + entry.status + '">' + BATCH_STATUS_LABELS[entry.status] + '</span>';
+        list.appendChild(item);
+      }
+      list.classList.toggle('hidden', report.devices.length === 0);
+      
+      document.getElementById('batch-banner-message').textContent =
+        'Setting up devices for ' + report.ssid + ': ' + report.summary.joined + ' of ' +
+        report.devices.length + ' joined. Connect to the next device\\'s Wemo network to continue.';
+    }
+    
+    // Starts a batch session with the network from step 3 and sets up the current device
+    async function startBatch(credentials) {
+      const names = document.getElementById('batch-names').value
+        .split('\\n')
+        .map(name => name.trim())
+        .filter(Boolean);
+      const pattern = document.getElementById('batch-pattern').value.trim();
+      
+      const response = await fetch(API_BASE + '/api/setup/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...credentials, names, pattern: pattern || undefined })
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        showError('Setup Failed', data.error || 'Could not start setting up several devices.');
+        return;
+      }
+      
+      setBatchMode(true);
+      renderBatchReport(data.report);
+      await runBatchStep(false);
+    }
+    
+    // Sets up the device whose network this computer is on with the batch network
+    async function runBatchStep(retry) {
+      try {
+        const response = await fetch(API_BASE + '/api/setup/batch/next', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ retry })
+        });
+        const data = await response.json();
+        
+        if (response.status === 404) {
+          setBatchMode(false);
+          showError('Batch Setup Ended', 'The bridge is no longer setting up several devices. Start again from the WiFi step.');
+          state.previousStep = 1;
+          return;
+        }
+        
+        if (data.report) {
+          renderBatchReport(data.report);
+        }
+        
+        const entry = data.entry;
+        if (!entry) {
+          showError('Device Not Found', data.error || 'Make sure you are connected to the next Wemo device\\'s WiFi network (Wemo.XXX.XXX).');
+        } else if (data.skipped) {
+          showToast(entry.name + ' is already set up. Connect to the next device\\'s network.', true);
+          return;
+        } else if (data.success) {
+          state.device = entry.device;
+          state.ssid = data.report.ssid;
+          document.getElementById('success-ssid').textContent = data.report.ssid;
+          goToStep(4);
+          watchAdoption(entry.device.serial);
+          return;
+        } else if (entry.status === 'interrupted') {
+          showError('Setup Interrupted', 'This computer lost the connection to ' + entry.name + '. Reconnect to its Wemo network and try again; it keeps its name.');
+        } else {
+          showError('Setup Failed', entry.error || 'The device could not join the network.');
+        }
+      } catch (error) {
+        console.error('[Setup] Batch setup error:', error);
+        showError('Connection Error', 'Could not reach the bridge. Make sure Open Wemo is running.');
+      }
+      
+      // Try Again waits for the next device in batch mode
+      state.previousStep = 1;
+    }
+    
+    async function finishBatch() {
+      try {
+        await fetch(API_BASE + '/api/setup/batch', { method: 'DELETE' });
+      } catch (error) {
+        console.log('[Setup] Could not end batch setup:', error);
+      }
+      setBatchMode(false);
+    }
+    
+    document.getElementById('batch-toggle').addEventListener('change', (e) => {
+      document.getElementById('batch-options').classList.toggle('hidden', !e.target.checked);
+      document.getElementById('device-name-input').closest('.form-group').classList.toggle('hidden', e.target.checked);
+    });
+    
+    document.getElementById('btn-finish-batch').addEventListener('click', async () => {
+      await finishBatch();
+      goToStep(1);
+    });
+    
+    document.getElementById('btn-done').addEventListener('click', async () => {
+      if (state.batch) {
+        await finishBatch();
+      }
+      window.location.href = '/';
+    });
+    
+    // Pick up a batch session the bridge is still running, e.g. after this window was reopened
+    (async () => {
+      try {
+        const response = await fetch(API_BASE + '/api/setup/batch');
+        const data = await response.json();
+        if (data.active) {
+          setBatchMode(true);
+          renderBatchReport(data.report);
+        }
+      } catch (error) {
+        console.log('[Setup] Could not check for batch setup:', error);
+      }
+    })();
+    
     // Set up another device
     document.getElementById('btn-another').addEventListener('click', () => {
+      clearInterval(adoptionTimer);
+      
       // Reset state
       state.device = null;
       state.ssid = '';
@@ -1570,6 +1851,7 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
       // Reset form fields
       document.getElementById('ssid-select').value = '';
       document.getElementById('password').value = '';
+      document.getElementById('device-name-input').value = '';
       document.getElementById('security').value = 'WPA2PSK/AES';
       document.getElementById('channel').value = '0';
       
@@ -1643,7 +1925,8 @@ export function generateSetupPageHtml(config: SetupPageConfig): string {
         // Response status
         if (diag.attempts && diag.attempts.length > 0 && responseStatusEl) {
           const attemptsInfo = diag.attempts.map(a => 
-            'Attempt ' + a.attempt + ': ' + (a.status ? 'HTTP ' + a.status : 'Error: ' + a.error)
+            'Attempt ' + a.attempt + ' (method ' + a.method + (a.addLengths ? ', lengths' : '') + '): ' +
+              (a.status ? 'HTTP ' + a.status : 'Error: ' + a.error)
           ).join('\\n');
           responseStatusEl.textContent = attemptsInfo;
         }
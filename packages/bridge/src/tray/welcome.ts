@@ -6,7 +6,8 @@
  */
 
 import { getDatabase } from "../db";
-import { generateQRCode, getPreferredIp, getServerUrl } from "./qr-window";
+import { getPreferredIp } from "../network";
+import { generateQRCode, getServerUrl } from "./qr-window";
 
 /** Settings key for first launch completed */
 const FIRST_LAUNCH_KEY = "first_launch_completed";
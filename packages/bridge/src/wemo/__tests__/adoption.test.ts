@@ -0,0 +1,91 @@
+/**
+ * Tests for finding devices on the home network after setup.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { type AdoptionJob, AdoptionWatcher, matchesAdoption, parseArpTable } from "../adoption";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+const SERIAL = "221517K0101769";
+const MAC = "94103EA20B77";
+
+function device(overrides: Partial<WemoDevice> = {}): WemoDevice {
+  return {
+    id: `uuid:Socket-1_0-${SERIAL}`,
+    name: "WeMo Switch",
+    deviceType: WemoDeviceType.Switch,
+    host: "192.168.1.50",
+    port: 49153,
+    manufacturer: "Belkin International Inc.",
+    model: "Socket",
+    serialNumber: SERIAL,
+    firmwareVersion: "WeMo_WW_2.00.11452.PVT-OWRT-SNSV2",
+    macAddress: MAC,
+    services: [],
+    setupUrl: "http://192.168.1.50:49153/setup.xml",
+    ...overrides,
+  };
+}
+
+describe("matchesAdoption", () => {
+  test("matches by serial number or MAC address", () => {
+    expect(matchesAdoption(device(), { serial: SERIAL, mac: "" })).toBe(true);
+    expect(matchesAdoption(device(), { serial: "OTHER", mac: "94:10:3e:a2:0b:77" })).toBe(true);
+    expect(matchesAdoption(device(), { serial: "OTHER", mac: "000000000000" })).toBe(false);
+  });
+});
+
+describe("parseArpTable", () => {
+  test("reads Linux, macOS and Windows ARP caches", () => {
+    const linux = [
+      "IP address       HW type     Flags       HW address            Mask     Device",
+      "192.168.1.50     0x1         0x2         94:10:3e:a2:0b:77     *        wlan0",
+      "192.168.1.1      0x1         0x0         00:00:00:00:00:00     *        wlan0",
+    ].join("\n");
+    const macos = "? (192.168.1.51) at 94:10:3e:a2:b:77 on en0 ifscope [ethernet]";
+    const windows = "  192.168.1.52          94-10-3e-a2-0b-77     dynamic";
+
+    expect([...parseArpTable(linux)]).toEqual([[MAC, "192.168.1.50"]]);
+    expect(parseArpTable(macos).get(MAC)).toBe("192.168.1.51");
+    expect(parseArpTable(windows).get(MAC)).toBe("192.168.1.52");
+  });
+});
+
+describe("AdoptionWatcher", () => {
+  let watcher: AdoptionWatcher | null = null;
+
+  afterEach(() => {
+    watcher?.stop();
+    watcher = null;
+  });
+
+  test("hands over a matching device once and marks the job online", () => {
+    watcher = new AdoptionWatcher({ pollInterval: 60000 });
+    const found: [AdoptionJob, WemoDevice][] = [];
+    watcher.on("found", (job, device) => found.push([job, device]));
+
+    watcher.watch({ serial: SERIAL, mac: MAC, name: "Porch Light" });
+
+    expect(watcher.offer(device({ serialNumber: "OTHER", macAddress: "" }))).toBe(false);
+    expect(watcher.offer(device())).toBe(true);
+    expect(watcher.offer(device())).toBe(false);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]?.[0].name).toBe("Porch Light");
+    expect(watcher.getJob(SERIAL)).toMatchObject({
+      status: "online",
+      host: "192.168.1.50",
+      port: 49153,
+      deviceId: `uuid:Socket-1_0-${SERIAL}`,
+    });
+  });
+
+  test("expires devices that are not found in time", async () => {
+    watcher = new AdoptionWatcher({ pollInterval: 10, timeout: 0 });
+    watcher.watch({ serial: SERIAL, mac: MAC, name: "Porch Light" });
+
+    await Bun.sleep(50);
+
+    expect(watcher.getJobs().map((job) => job.status)).toEqual(["expired"]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for deviceevent attributes and the appliance models built on them.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { AttributeDeviceClient, formatAttributeList, parseAttributeList } from "../attributes";
+import { parseCrockpotMode } from "../crockpot";
+import { parseHeaterAttributes } from "../heater";
+import { parseHumidifierAttributes } from "../humidifier";
+import { parseMakerAttributes } from "../maker";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("parseAttributeList", () => {
+  test("parses an unescaped list", () => {
+    const xml =
+      "<attribute><name>Switch</name><value>1</value></attribute>" +
+      "<attribute><name>Sensor</name><value>0</value></attribute>";
+
+    expect(parseAttributeList(xml)).toEqual({ Switch: "1", Sensor: "0" });
+  });
+
+  test("parses an escaped list", () => {
+    const xml =
+      "&lt;attribute&gt;&lt;name&gt;FanMode&lt;/name&gt;&lt;value&gt;3&lt;/value&gt;&lt;/attribute&gt;";
+
+    expect(parseAttributeList(xml)).toEqual({ FanMode: "3" });
+  });
+
+  test("parses a list escaped twice", () => {
+    const xml =
+      "&amp;lt;attribute&amp;gt;&amp;lt;name&amp;gt;Mode&amp;lt;/name&amp;gt;&amp;lt;value&amp;gt;4&amp;lt;/value&amp;gt;&amp;lt;/attribute&amp;gt;";
+
+    expect(parseAttributeList(xml)).toEqual({ Mode: "4" });
+  });
+
+  test("ignores extra elements and returns empty for no attributes", () => {
+    const xml =
+      "<attribute><name>Switch</name><value>0</value><prevalue>1</prevalue><ts>1705314600</ts></attribute>";
+
+    expect(parseAttributeList(xml)).toEqual({ Switch: "0" });
+    expect(parseAttributeList("")).toEqual({});
+  });
+});
+
+describe("formatAttributeList", () => {
+  test("round-trips through parseAttributeList", () => {
+    const formatted = formatAttributeList({ SwitchMode: "1", Name: "A&B" });
+
+    expect(formatted).not.toContain("<");
+    expect(parseAttributeList(formatted)).toEqual({ SwitchMode: "1", Name: "A&B" });
+  });
+});
+
+describe("appliance models", () => {
+  test("reads a Maker with a triggered sensor", () => {
+    expect(
+      parseMakerAttributes({ Switch: "0", SwitchMode: "1", SensorPresent: "1", Sensor: "0" })
+    ).toEqual({ relay: false, momentary: true, sensorPresent: true, sensorTriggered: true });
+  });
+
+  test("reports no sensor state without a sensor", () => {
+    expect(parseMakerAttributes({ Switch: "1", SensorPresent: "0", Sensor: "0" })).toEqual({
+      relay: true,
+      momentary: false,
+      sensorPresent: false,
+      sensorTriggered: null,
+    });
+  });
+
+  test("reads heater mode and temperatures", () => {
+    expect(
+      parseHeaterAttributes({ Mode: "4", Temperature: "66", SetTemperature: "70", TempUnit: "1" })
+    ).toEqual({
+      mode: "eco",
+      currentTemperature: 66,
+      targetTemperature: 70,
+      temperatureUnit: "F",
+    });
+  });
+
+  test("reads humidifier levels, water and filter", () => {
+    expect(
+      parseHumidifierAttributes({
+        FanMode: "3",
+        DesiredHumidity: "4",
+        CurrentHumidity: "41",
+        NoWater: "0",
+        WaterAdvise: "1",
+        FilterLife: "30240",
+        ExpiredFilterTime: "0",
+      })
+    ).toEqual({
+      fanMode: "medium",
+      targetHumidity: 100,
+      currentHumidity: 41,
+      waterLevel: "low",
+      filterLife: 50,
+      filterExpired: false,
+    });
+  });
+
+  test("maps Crock-Pot mode codes", () => {
+    expect(parseCrockpotMode(0)).toBe("off");
+    expect(parseCrockpotMode(50)).toBe("warm");
+    expect(parseCrockpotMode(52)).toBe("high");
+    expect(parseCrockpotMode(7)).toBe("off");
+  });
+});
+
+describe("AttributeDeviceClient", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  /**
+   * Serves deviceevent1, answering GetAttributes with the given list.
+   */
+  function serveDevice(attributeList: string): { requests: { path: string; body: string }[] } {
+    const requests: { path: string; body: string }[] = [];
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        requests.push({ path: new URL(request.url).pathname, body: await request.text() });
+        const action = request.headers.get("SOAPACTION")?.includes("GetAttributes")
+          ? `<u:GetAttributesResponse xmlns:u="urn:Belkin:service:deviceevent:1"><attributeList>${attributeList}</attributeList></u:GetAttributesResponse>`
+          : `<u:SetAttributesResponse xmlns:u="urn:Belkin:service:deviceevent:1"><attributeList></attributeList></u:SetAttributesResponse>`;
+        return new Response(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>${action}</s:Body></s:Envelope>`
+        );
+      },
+    });
+
+    return { requests };
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Maker-1_0-TEST",
+      name: "Garage Door",
+      deviceType: WemoDeviceType.Maker,
+      host: "127.0.0.1",
+      port: fakeDevice?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Maker",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+  }
+
+  test("reads attributes from deviceevent1", async () => {
+    const device = serveDevice(
+      formatAttributeList({ Switch: "1", SwitchMode: "1", SensorPresent: "1", Sensor: "1" })
+    );
+    const client = new AttributeDeviceClient(createTestDevice());
+
+    expect(await client.getAttributes()).toEqual({
+      Switch: "1",
+      SwitchMode: "1",
+      SensorPresent: "1",
+      Sensor: "1",
+    });
+    expect(device.requests[0]?.path).toBe("/upnp/control/deviceevent1");
+  });
+
+  test("sends escaped attributes and skips empty changes", async () => {
+    const device = serveDevice("");
+    const client = new AttributeDeviceClient(createTestDevice());
+
+    await client.setAttributes({ SwitchMode: "0" });
+    await client.setAttributes({});
+
+    expect(device.requests).toHaveLength(1);
+    expect(device.requests[0]?.body).toContain(
+      "<attributeList>&lt;attribute&gt;&lt;name&gt;SwitchMode&lt;/name&gt;&lt;value&gt;0&lt;/value&gt;&lt;/attribute&gt;</attributeList>"
+    );
+  });
+});
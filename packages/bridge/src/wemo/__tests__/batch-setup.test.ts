@@ -0,0 +1,124 @@
+/**
+ * Tests for setting up many devices in one session.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { type BatchCredentials, BatchSetupSession, assignBatchName } from "../batch-setup";
+import { EncryptionMethod, type SetupDetectionResult, type SetupDeviceInfo } from "../setup";
+
+const CREDENTIALS: BatchCredentials = {
+  ssid: "HomeNetwork",
+  password: "hunter22",
+  auth: "WPA2PSK",
+  encrypt: "AES",
+  channel: 6,
+};
+
+function detection(serial: string, overrides: Partial<SetupDeviceInfo> = {}): SetupDetectionResult {
+  return {
+    onWemoAp: true,
+    device: {
+      name: "Wemo Mini",
+      model: "Socket",
+      serial,
+      mac: "94103EA20B77",
+      rtos: false,
+      newAlgo: true,
+      binaryOption: false,
+      ...overrides,
+    },
+  };
+}
+
+const JOINED = {
+  success: true,
+  connected: true,
+  encryption: { method: EncryptionMethod.METHOD_2, addLengths: true },
+};
+
+describe("assignBatchName", () => {
+  test("uses the list first, then the pattern, then the device's name", () => {
+    const device = { name: "Wemo Mini", serial: "221517K0101769" };
+    const naming = { names: ["Porch", "Garage"], pattern: "Plug {n} ({serial})" };
+
+    expect(assignBatchName(1, device, naming)).toBe("Porch");
+    expect(assignBatchName(2, device, naming)).toBe("Garage");
+    expect(assignBatchName(3, device, naming)).toBe("Plug 3 (221517K0101769)");
+    expect(assignBatchName(3, device, { names: ["Porch"] })).toBe("Wemo Mini");
+  });
+});
+
+describe("BatchSetupSession", () => {
+  test("names each device once and reports its outcome", () => {
+    const session = new BatchSetupSession(CREDENTIALS, { names: ["Porch"], pattern: "Plug {n}" });
+
+    session.record(detection("A"), JOINED);
+    session.record(detection("B"), { success: false, error: "Timeout" }, true);
+    const retried = session.record(detection("B"), { success: true, connected: false });
+
+    expect(retried).toMatchObject({
+      index: 2,
+      name: "Plug 2",
+      status: "sent",
+      attempts: 2,
+      error: null,
+    });
+
+    const report = session.getReport();
+    expect(report.ssid).toBe("HomeNetwork");
+    expect(report.devices.map((entry) => [entry.name, entry.status])).toEqual([
+      ["Porch", "joined"],
+      ["Plug 2", "sent"],
+    ]);
+    expect(report.summary).toEqual({ joined: 1, sent: 1, failed: 0, interrupted: 0 });
+    expect(JSON.stringify(report)).not.toContain(CREDENTIALS.password);
+  });
+
+  test("keeps the encryptions tried from the diagnostics", () => {
+    const session = new BatchSetupSession(CREDENTIALS);
+    const attempt = { method: EncryptionMethod.METHOD_2, addLengths: true };
+
+    const entry = session.record(detection("A"), {
+      success: false,
+      error: "The device could not join the network.",
+      diagnostics: {
+        encryptedPassword: "",
+        soapPayload: "",
+        attempts: [
+          { attempt: 1, ...attempt, status: 500 },
+          { attempt: 2, ...attempt, status: 200 },
+          { attempt: 1, method: EncryptionMethod.METHOD_3, addLengths: true, status: 200 },
+        ],
+      },
+    });
+
+    expect(entry.status).toBe("failed");
+    expect(entry.encryptionsTried).toEqual([
+      attempt,
+      { method: EncryptionMethod.METHOD_3, addLengths: true },
+    ]);
+  });
+
+  test("continues from an earlier report", () => {
+    const first = new BatchSetupSession(CREDENTIALS, { pattern: "Plug {n}" });
+    first.record(detection("A"), JOINED);
+    first.record(detection("B"), { success: false, error: "Timeout" }, true);
+
+    const resumed = new BatchSetupSession(CREDENTIALS, {
+      pattern: "Plug {n}",
+      report: JSON.parse(JSON.stringify(first.getReport())),
+    });
+    resumed.record(detection("B"), JOINED);
+    const next = resumed.record(detection("C"), JOINED);
+
+    expect(next.name).toBe("Plug 3");
+    expect(resumed.getReport().summary).toEqual({ joined: 3, sent: 0, failed: 0, interrupted: 0 });
+    expect(resumed.getReport().startedAt).toBe(first.getReport().startedAt);
+  });
+
+  test("requires a detected device", () => {
+    const session = new BatchSetupSession(CREDENTIALS);
+
+    expect(() => session.record({ onWemoAp: false, device: null }, JOINED)).toThrow();
+  });
+});
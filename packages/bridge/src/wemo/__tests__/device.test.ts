@@ -0,0 +1,82 @@
+/**
+ * Tests for the basic WeMo device client.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { DeviceError, WemoDeviceClient } from "../device";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("WemoDeviceClient.reset", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  /**
+   * Serves basicevent1 ReSetup, answering with the given result.
+   */
+  function serveDevice(result: string): { bodies: string[] } {
+    const bodies: string[] = [];
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        bodies.push(await request.text());
+        return new Response(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:ReSetupResponse xmlns:u="urn:Belkin:service:basicevent:1"><Reset>${result}</Reset></u:ReSetupResponse></s:Body></s:Envelope>`
+        );
+      },
+    });
+
+    return { bodies };
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Socket-1_0-TEST",
+      name: "TV Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port: fakeDevice?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+  }
+
+  test("sends the ReSetup code for each mode", async () => {
+    const device = serveDevice("success");
+    const client = new WemoDeviceClient(createTestDevice());
+
+    await client.reset("clear-data");
+    await client.reset("factory");
+    await client.reset("clear-wifi");
+
+    expect(device.bodies.map((body) => body.match(/<Reset>(\d+)<\/Reset>/)?.[1])).toEqual([
+      "1",
+      "2",
+      "5",
+    ]);
+  });
+
+  test("accepts reset_remote", async () => {
+    serveDevice("reset_remote");
+    await new WemoDeviceClient(createTestDevice()).reset("clear-wifi");
+  });
+
+  test("rejects other results without retrying", async () => {
+    const device = serveDevice("failure");
+
+    await expect(new WemoDeviceClient(createTestDevice()).reset("factory")).rejects.toBeInstanceOf(
+      DeviceError
+    );
+    expect(device.bodies).toHaveLength(1);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for Dimmer device functionality.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { DimmerDeviceClient, normalizeBrightness, supportsDimming } from "../dimmer";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("normalizeBrightness", () => {
+  test("parses numeric strings", () => {
+    expect(normalizeBrightness("45")).toBe(45);
+  });
+
+  test("parses #text nodes", () => {
+    expect(normalizeBrightness({ "#text": "80" })).toBe(80);
+  });
+
+  test("clamps to 0-100", () => {
+    expect(normalizeBrightness(150)).toBe(100);
+    expect(normalizeBrightness(-5)).toBe(0);
+  });
+
+  test("rounds fractional values", () => {
+    expect(normalizeBrightness(33.6)).toBe(34);
+  });
+
+  test("returns 0 for invalid values", () => {
+    expect(normalizeBrightness("bright")).toBe(0);
+  });
+});
+
+describe("supportsDimming", () => {
+  test("is true only for Dimmer devices", () => {
+    expect(supportsDimming({ deviceType: WemoDeviceType.Dimmer })).toBe(true);
+    expect(supportsDimming({ deviceType: WemoDeviceType.LightSwitch })).toBe(false);
+    expect(supportsDimming({ deviceType: WemoDeviceType.Switch })).toBe(false);
+  });
+});
+
+describe("DimmerDeviceClient", () => {
+  let fakeDimmer: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDimmer?.stop(true);
+    fakeDimmer = null;
+  });
+
+  /**
+   * Serves basicevent for a dimmer at 40% and records SetBinaryState bodies.
+   */
+  function serveDimmer(): { setBodies: string[] } {
+    const setBodies: string[] = [];
+
+    fakeDimmer = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        const envelope = (inner: string) =>
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>${inner}</s:Body></s:Envelope>`;
+
+        if (action === "SetBinaryState") {
+          setBodies.push(await request.text());
+          return new Response(
+            envelope(
+              '<u:SetBinaryStateResponse xmlns:u="urn:Belkin:service:basicevent:1"><BinaryState>1</BinaryState></u:SetBinaryStateResponse>'
+            )
+          );
+        }
+        return new Response(
+          envelope(
+            '<u:GetBinaryStateResponse xmlns:u="urn:Belkin:service:basicevent:1"><BinaryState>1</BinaryState><brightness>40</brightness></u:GetBinaryStateResponse>'
+          )
+        );
+      },
+    });
+
+    return { setBodies };
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Dimmer-1_0-TEST",
+      name: "Dining Room",
+      deviceType: WemoDeviceType.Dimmer,
+      host: "127.0.0.1",
+      port: fakeDimmer?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Dimmer",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+  }
+
+  test("reads the state and brightness from GetBinaryState", async () => {
+    serveDimmer();
+    const dimmer = new DimmerDeviceClient(createTestDevice());
+
+    expect(await dimmer.getState()).toEqual({ binaryState: 1, brightness: 40 });
+    expect(await dimmer.getBrightness()).toBe(40);
+  });
+
+  test("sends the brightness with SetBinaryState", async () => {
+    const { setBodies } = serveDimmer();
+    const dimmer = new DimmerDeviceClient(createTestDevice());
+
+    await dimmer.setBrightness(150);
+    await dimmer.setBrightness(0);
+
+    expect(setBodies).toHaveLength(2);
+    expect(setBodies[0]).toContain("<BinaryState>1</BinaryState><brightness>100</brightness>");
+    expect(setBodies[1]).toContain("<BinaryState>0</BinaryState>");
+    expect(setBodies[1]).not.toContain("<brightness>");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for subnet sweep discovery, discovery filters and saved descriptions.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { WemoDeviceClient } from "../device";
+import { discoverDevices, expandCidr, getSavedDescription } from "../discovery";
+import { type SavedDevice, type WemoDevice, WemoDeviceType } from "../types";
+
+const SETUP_XML = `<?xml version="1.0"?>
+<root xmlns="urn:Belkin:device-1-0">
+  <device>
+    <deviceType>urn:Belkin:device:controllee:1</deviceType>
+    <friendlyName>TV Plug</friendlyName>
+    <manufacturer>Belkin International Inc.</manufacturer>
+    <modelName>Socket</modelName>
+    <UDN>uuid:Socket-1_0-221517K0101769</UDN>
+    <serialNumber>221517K0101769</serialNumber>
+    <serviceList />
+  </device>
+</root>`;
+
+describe("expandCidr", () => {
+  test("lists host addresses without network and broadcast", () => {
+    const hosts = expandCidr("192.168.1.77/24");
+
+    expect(hosts).toHaveLength(254);
+    expect(hosts[0]).toBe("192.168.1.1");
+    expect(hosts[253]).toBe("192.168.1.254");
+  });
+
+  test("keeps every address of /31 and /32 ranges", () => {
+    expect(expandCidr("10.0.0.7")).toEqual(["10.0.0.7"]);
+    expect(expandCidr("10.0.0.6/31")).toEqual(["10.0.0.6", "10.0.0.7"]);
+  });
+
+  test("rejects invalid and oversized ranges", () => {
+    expect(() => expandCidr("192.168.1.300/24")).toThrow("Invalid CIDR range");
+    expect(() => expandCidr("192.168.1.0/33")).toThrow("Invalid CIDR range");
+    expect(() => expandCidr("wemo.local/24")).toThrow("Invalid CIDR range");
+    expect(() => expandCidr("10.0.0.0/8")).toThrow("too large");
+  });
+});
+
+describe("sweep discovery", () => {
+  const servers: ReturnType<typeof Bun.serve>[] = [];
+
+  afterEach(() => {
+    for (const server of servers.splice(0)) {
+      server.stop(true);
+    }
+  });
+
+  function serve(body: string): number {
+    const server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) =>
+        new URL(request.url).pathname === "/setup.xml"
+          ? new Response(body)
+          : new Response("Not found", { status: 404 }),
+    });
+    servers.push(server);
+    return server.port as number;
+  }
+
+  test("finds devices on any of the given ports", async () => {
+    const otherPort = serve("<root><device><manufacturer>Acme</manufacturer></device></root>");
+    const wemoPort = serve(SETUP_XML);
+
+    const result = await discoverDevices({
+      mode: "sweep",
+      ranges: ["127.0.0.1/32"],
+      ports: [otherPort, wemoPort],
+      timeout: 5000,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.devices).toHaveLength(1);
+    expect(result.devices[0]?.id).toBe("uuid:Socket-1_0-221517K0101769");
+    expect(result.devices[0]?.port).toBe(wemoPort);
+  });
+
+  test("keeps only the requested device types", async () => {
+    const wemoPort = serve(SETUP_XML);
+    const sweep = (deviceTypes: WemoDeviceType[]) =>
+      discoverDevices({ mode: "sweep", ranges: ["127.0.0.1"], ports: [wemoPort], deviceTypes });
+
+    expect((await sweep([WemoDeviceType.Switch])).devices).toHaveLength(1);
+    expect((await sweep([WemoDeviceType.Dimmer])).devices).toEqual([]);
+  });
+
+  test("reports an unknown network interface without scanning", async () => {
+    const result = await discoverDevices({ mode: "sweep", networkInterface: "no-such-nic" });
+
+    expect(result.devices).toEqual([]);
+    expect(result.errors).toEqual(["Network interface no-such-nic not found"]);
+  });
+
+  test("reports invalid ranges", async () => {
+    const result = await discoverDevices({
+      mode: "sweep",
+      ranges: ["not-a-range"],
+      ports: [],
+    });
+
+    expect(result.devices).toEqual([]);
+    expect(result.errors).toEqual(["Invalid CIDR range: not-a-range"]);
+  });
+});
+
+describe("getSavedDescription", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  function savedDevice(port: number): SavedDevice {
+    return {
+      id: "uuid:Socket-1_0-221517K0101769",
+      name: "TV Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port,
+      createdAt: "",
+      updatedAt: "",
+    };
+  }
+
+  test("needs saved services", () => {
+    expect(getSavedDescription(savedDevice(49153))).toBeNull();
+  });
+
+  test("builds clients that use the saved control URLs", async () => {
+    const paths: string[] = [];
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) => {
+        paths.push(new URL(request.url).pathname);
+        return new Response(
+          '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:GetBinaryStateResponse xmlns:u="urn:Belkin:service:basicevent:1"><BinaryState>1</BinaryState></u:GetBinaryStateResponse></s:Body></s:Envelope>'
+        );
+      },
+    });
+    const description = getSavedDescription({
+      ...savedDevice(fakeDevice.port as number),
+      model: "Socket",
+      serialNumber: "221517K0101769",
+      services: [
+        {
+          serviceType: "urn:Belkin:service:basicevent:1",
+          serviceId: "urn:Belkin:serviceId:basicevent1",
+          controlURL: "/upnp/control/basicevent2",
+          eventSubURL: "/upnp/event/basicevent2",
+          SCPDURL: "/eventservice.xml",
+        },
+      ],
+    });
+
+    expect(description?.serialNumber).toBe("221517K0101769");
+    expect(await new WemoDeviceClient(description as WemoDevice).getBinaryState()).toBe(1);
+    expect(paths).toEqual(["/upnp/control/basicevent2"]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for UPnP event subscriptions.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { EventSubscriptionManager, parsePropertySet, toDeviceStateEvent } from "../events";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("parsePropertySet", () => {
+  test("parses a single property", () => {
+    const xml = `<e:propertyset xmlns:e="urn:schemas-upnp-org:event-1-0">
+      <e:property><BinaryState>1</BinaryState></e:property>
+    </e:propertyset>`;
+
+    expect(parsePropertySet(xml)).toEqual({ BinaryState: "1" });
+  });
+
+  test("parses multiple properties", () => {
+    const xml = `<e:propertyset xmlns:e="urn:schemas-upnp-org:event-1-0">
+      <e:property><BinaryState>0</BinaryState></e:property>
+      <e:property><Brightness>40</Brightness></e:property>
+    </e:propertyset>`;
+
+    expect(parsePropertySet(xml)).toEqual({ BinaryState: "0", Brightness: "40" });
+  });
+
+  test("returns empty object for unrelated XML", () => {
+    expect(parsePropertySet("<root></root>")).toEqual({});
+  });
+});
+
+describe("toDeviceStateEvent", () => {
+  test("normalizes binary state", () => {
+    expect(toDeviceStateEvent("d1", { BinaryState: "0" }).binaryState).toBe(0);
+    expect(toDeviceStateEvent("d1", { BinaryState: "1" }).binaryState).toBe(1);
+    expect(toDeviceStateEvent("d1", { BinaryState: "8" }).binaryState).toBe(8);
+  });
+
+  test("parses pipe-delimited Insight binary state", () => {
+    const event = toDeviceStateEvent("d1", {
+      BinaryState: "8|1704067200|100|200|300|0|0|500|1000|2000|8000",
+    });
+
+    expect(event.binaryState).toBe(8);
+    expect(event.insightParams?.instantPower).toBe(500);
+  });
+
+  test("parses brightness", () => {
+    expect(toDeviceStateEvent("d1", { Brightness: "75" }).brightness).toBe(75);
+  });
+});
+
+describe("EventSubscriptionManager", () => {
+  let manager: EventSubscriptionManager | null = null;
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(async () => {
+    await manager?.stop();
+    fakeDevice?.stop(true);
+    manager = null;
+    fakeDevice = null;
+  });
+
+  test("subscribes and receives NOTIFY from a fake device", async () => {
+    let callbackUrl = "";
+    const received: string[] = [];
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) => {
+        received.push(request.method);
+        callbackUrl = (request.headers.get("CALLBACK") ?? "").replace(/^<|>$/g, "");
+        return new Response("", {
+          headers: { SID: "uuid:fake-sid", TIMEOUT: "Second-300" },
+        });
+      },
+    });
+
+    manager = new EventSubscriptionManager({ port: 0, callbackHost: "127.0.0.1" });
+    await manager.start();
+
+    const device: WemoDevice = {
+      id: "uuid:Socket-1_0-TEST",
+      name: "Test Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port: fakeDevice.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [
+        {
+          serviceType: "urn:Belkin:service:basicevent:1",
+          serviceId: "urn:Belkin:serviceId:basicevent1",
+          controlURL: "/upnp/control/basicevent1",
+          eventSubURL: "/upnp/event/basicevent1",
+          SCPDURL: "/eventservice.xml",
+        },
+      ],
+      setupUrl: "",
+    };
+
+    const stateEvent = new Promise((resolve) => manager?.once("state", resolve));
+    await manager.subscribe(device);
+
+    expect(received).toEqual(["SUBSCRIBE"]);
+    expect(manager.isSubscribed(device.id)).toBe(true);
+    expect(manager.hasLiveSubscription(device.id)).toBe(true);
+
+    const response = await fetch(callbackUrl, {
+      method: "NOTIFY",
+      headers: { SID: "uuid:fake-sid", NT: "upnp:event", NTS: "upnp:propchange" },
+      body: `<e:propertyset xmlns:e="urn:schemas-upnp-org:event-1-0">
+        <e:property><BinaryState>1</BinaryState></e:property>
+      </e:propertyset>`,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await stateEvent).toMatchObject({ deviceId: device.id, binaryState: 1 });
+    expect(manager.getLatestState(device.id)?.binaryState).toBe(1);
+  });
+
+  test("retries a subscription the device refused until it accepts", async () => {
+    // Find a free port, then leave it closed
+    const probe = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response("") });
+    const port = probe.port ?? 0;
+    probe.stop(true);
+
+    manager = new EventSubscriptionManager({
+      port: 0,
+      callbackHost: "127.0.0.1",
+      retryDelay: 50,
+    });
+    await manager.start();
+
+    const failures: string[] = [];
+    manager.on("subscriptionError", (deviceId) => failures.push(deviceId));
+
+    const device: WemoDevice = {
+      id: "uuid:Socket-1_0-CLOSED",
+      name: "Unplugged Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "CLOSED",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [
+        {
+          serviceType: "urn:Belkin:service:basicevent:1",
+          serviceId: "urn:Belkin:serviceId:basicevent1",
+          controlURL: "/upnp/control/basicevent1",
+          eventSubURL: "/upnp/event/basicevent1",
+          SCPDURL: "/eventservice.xml",
+        },
+      ],
+      setupUrl: "",
+    };
+
+    await manager.subscribe(device);
+    expect(manager.hasLiveSubscription(device.id)).toBe(false);
+    expect(failures).toEqual([device.id]);
+
+    const subscribed = new Promise((resolve) => manager?.once("subscribed", resolve));
+    fakeDevice = Bun.serve({
+      port,
+      hostname: "127.0.0.1",
+      fetch: () => new Response("", { headers: { SID: "uuid:late-sid", TIMEOUT: "Second-300" } }),
+    });
+
+    await subscribed;
+    expect(manager.isSubscribed(device.id)).toBe(true);
+  });
+
+  test("rejects NOTIFY for unknown subscriptions", async () => {
+    manager = new EventSubscriptionManager({ port: 0, callbackHost: "127.0.0.1" });
+    await manager.start();
+
+    const response = await fetch(`http://127.0.0.1:${manager.port}/events/unknown`, {
+      method: "NOTIFY",
+      body: "<e:propertyset/>",
+    });
+
+    expect(response.status).toBe(412);
+  });
+});
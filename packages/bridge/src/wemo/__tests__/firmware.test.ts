@@ -0,0 +1,153 @@
+/**
+ * Tests for WeMo firmware version reporting and updates.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  FirmwareUpdateManager,
+  type FirmwareUpdateStatus,
+  parseFirmwareVersion,
+} from "../firmware";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("parseFirmwareVersion", () => {
+  test("splits version and SKU", () => {
+    expect(
+      parseFirmwareVersion("FirmwareVersion:WeMo_WW_2.00.11057.PVT-OWRT-SNSV2|SkuNo:Plugin Device")
+    ).toEqual({ version: "WeMo_WW_2.00.11057.PVT-OWRT-SNSV2", sku: "Plugin Device" });
+  });
+
+  test("accepts a bare version", () => {
+    expect(parseFirmwareVersion("WeMo_WW_2.00.10966.PVT-OWRT-LS")).toEqual({
+      version: "WeMo_WW_2.00.10966.PVT-OWRT-LS",
+      sku: null,
+    });
+  });
+});
+
+describe("FirmwareUpdateManager", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+  let manager: FirmwareUpdateManager | null = null;
+
+  afterEach(() => {
+    manager?.stop();
+    manager = null;
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  /**
+   * Serves firmwareupdate1 for a device that reboots into new firmware after
+   * the given number of version checks.
+   */
+  function serveDevice(versions: (string | null)[]): { updateBody: () => string } {
+    let updateBody = "";
+    let checks = 0;
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        const envelope = (inner: string) =>
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>${inner}</s:Body></s:Envelope>`;
+
+        if (action === "UpdateFirmware") {
+          updateBody = await request.text();
+          return new Response(
+            envelope(
+              '<u:UpdateFirmwareResponse xmlns:u="urn:Belkin:service:firmwareupdate:1"></u:UpdateFirmwareResponse>'
+            )
+          );
+        }
+
+        const version = versions[Math.min(checks++, versions.length - 1)];
+        if (version === null) {
+          return new Response("Service Unavailable", { status: 503 });
+        }
+        return new Response(
+          envelope(
+            `<u:GetFirmwareVersionResponse xmlns:u="urn:Belkin:service:firmwareupdate:1"><FirmwareVersion>FirmwareVersion:${version}|SkuNo:Plugin Device</FirmwareVersion></u:GetFirmwareVersionResponse>`
+          )
+        );
+      },
+    });
+
+    return { updateBody: () => updateBody };
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Socket-1_0-TEST",
+      name: "TV Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port: fakeDevice?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+  }
+
+  test("tracks an update through reboot to completion", async () => {
+    // Before update, during download, rebooting, new firmware
+    const device = serveDevice(["OLD", "OLD", null, null, "NEW"]);
+    manager = new FirmwareUpdateManager({ pollInterval: 10, missedPolls: 2 });
+
+    const statuses: FirmwareUpdateStatus[] = [];
+    manager.on("progress", (job) => statuses.push(job.status));
+    const completed = new Promise((resolve) => manager?.once("completed", resolve));
+
+    const job = await manager.start(createTestDevice(), {
+      url: "http://127.0.0.1:51515/api/firmware/images/abc",
+    });
+    expect(job).toMatchObject({ previousVersion: "OLD", status: "downloading" });
+    expect(device.updateBody()).toContain(
+      "<URL>http://127.0.0.1:51515/api/firmware/images/abc</URL>"
+    );
+    expect(device.updateBody()).toContain("<WithUnsignedImage>1</WithUnsignedImage>");
+
+    await completed;
+    expect(statuses).toEqual(["downloading", "rebooting", "completed"]);
+    expect(manager.getJob("uuid:Socket-1_0-TEST")).toMatchObject({
+      status: "completed",
+      currentVersion: "NEW",
+    });
+    expect(manager.isUpdating("uuid:Socket-1_0-TEST")).toBe(false);
+  });
+
+  test("fails when the device restarts on the same firmware", async () => {
+    serveDevice(["OLD", null, null, "OLD"]);
+    manager = new FirmwareUpdateManager({ pollInterval: 10, missedPolls: 2, timeout: 200 });
+    const finished = new Promise((resolve) =>
+      manager?.on("progress", (job) => job.status === "failed" && resolve(job))
+    );
+
+    await manager.start(createTestDevice(), { url: "http://127.0.0.1/image" });
+
+    expect(await finished).toMatchObject({
+      status: "failed",
+      error: "Device restarted without changing firmware",
+    });
+  });
+
+  test("keeps downloading when the device misses a single check", async () => {
+    // Slow to answer once while downloading, then the new firmware
+    serveDevice(["OLD", null, "OLD", "NEW"]);
+    manager = new FirmwareUpdateManager({ pollInterval: 10, missedPolls: 2 });
+
+    const statuses: FirmwareUpdateStatus[] = [];
+    manager.on("progress", (job) => statuses.push(job.status));
+    const completed = new Promise((resolve) => manager?.once("completed", resolve));
+
+    await manager.start(createTestDevice(), { url: "http://127.0.0.1/image" });
+    await completed;
+
+    expect(statuses).toEqual(["downloading", "completed"]);
+    expect(manager.getJob("uuid:Socket-1_0-TEST")).toMatchObject({ currentVersion: "NEW" });
+  });
+});
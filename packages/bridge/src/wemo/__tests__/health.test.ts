@@ -0,0 +1,81 @@
+/**
+ * Tests for device health scoring.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { type HealthSample, summarizeHealth } from "../health";
+
+function sample(overrides: Partial<HealthSample> = {}): HealthSample {
+  return {
+    deviceId: "uuid:Socket-1_0-XXXXX",
+    sampledAt: "2024-01-15T10:30:00.000Z",
+    reachable: true,
+    latencyMs: 100,
+    signalStrength: 100,
+    soapRequests: 2,
+    soapErrors: 0,
+    ...overrides,
+  };
+}
+
+describe("summarizeHealth", () => {
+  test("reports unknown health without samples", () => {
+    expect(summarizeHealth([])).toMatchObject({ score: null, status: "unknown", flaky: false });
+  });
+
+  test("scores a responsive device with a strong signal as good", () => {
+    const health = summarizeHealth(Array.from({ length: 6 }, () => sample()));
+
+    expect(health).toMatchObject({
+      score: 100,
+      status: "good",
+      flaky: false,
+      reachability: 1,
+      averageLatencyMs: 100,
+      signalStrength: 100,
+      errorRate: 0,
+      samples: 6,
+    });
+  });
+
+  test("flags a device that often misses samples as flaky", () => {
+    const unreachable = sample({ reachable: false, latencyMs: null, signalStrength: null });
+    const health = summarizeHealth([
+      sample({ signalStrength: 30 }),
+      unreachable,
+      sample({ signalStrength: 20 }),
+      unreachable,
+      sample({ signalStrength: 25 }),
+      sample({ reachable: false, latencyMs: null, signalStrength: null }),
+    ]);
+
+    expect(health.flaky).toBe(true);
+    expect(health.reachability).toBe(0.5);
+    expect(health.signalStrength).toBe(25);
+    expect(health.status).toBe("fair");
+  });
+
+  test("flags a device whose requests often fail as flaky", () => {
+    const health = summarizeHealth(
+      Array.from({ length: 6 }, () => sample({ soapRequests: 4, soapErrors: 2 }))
+    );
+
+    expect(health.errorRate).toBe(0.5);
+    expect(health.flaky).toBe(true);
+  });
+
+  test("waits for enough samples before calling a device flaky", () => {
+    const health = summarizeHealth([sample({ reachable: false, latencyMs: null })]);
+
+    expect(health.flaky).toBe(false);
+    expect(health.status).toBe("poor");
+  });
+
+  test("leaves out parts without data", () => {
+    const health = summarizeHealth([sample({ signalStrength: null, soapRequests: 0 })]);
+
+    expect(health.signalStrength).toBeNull();
+    expect(health.errorRate).toBeNull();
+    expect(health.score).toBe(100);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for device identity resolution and duplicate merging.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DatabaseManager } from "../../db";
+import {
+  findDuplicateDevices,
+  findMisfiledParents,
+  getDeviceIdAliases,
+  normalizeMac,
+  resolveDeviceId,
+} from "../identity";
+import { type SavedDevice, WemoDeviceType } from "../types";
+
+const UDN = "uuid:Socket-1_0-221517K0101769";
+const SERIAL = "221517K0101769";
+
+describe("resolveDeviceId", () => {
+  test("prefers the UDN, then the MAC, then the serial number", () => {
+    expect(resolveDeviceId({ udn: UDN, macAddress: "94103EA2B277", serialNumber: SERIAL })).toBe(
+      UDN
+    );
+    expect(
+      resolveDeviceId({ udn: "", macAddress: "94:10:3e:a2:b2:77", serialNumber: SERIAL })
+    ).toBe("mac:94103EA2B277");
+    expect(resolveDeviceId({ macAddress: "000000000000", serialNumber: SERIAL })).toBe(
+      `serial:${SERIAL}`
+    );
+    expect(resolveDeviceId({})).toBeNull();
+  });
+
+  test("normalizes MAC addresses", () => {
+    expect(normalizeMac("94-10-3E-A2-B2-77")).toBe("94103EA2B277");
+    expect(normalizeMac("not a mac")).toBeNull();
+  });
+
+  test("lists the IDs older versions saved a device under", () => {
+    const device = { id: UDN, macAddress: "94103EA2B277", serialNumber: SERIAL };
+
+    expect(getDeviceIdAliases(device)).toEqual(["mac:94103EA2B277", `serial:${SERIAL}`, SERIAL]);
+    expect(getDeviceIdAliases({ ...device, parentId: "uuid:Bridge-1_0-X" })).toEqual([]);
+  });
+});
+
+describe("findDuplicateDevices", () => {
+  test("groups rows by serial number and address-based rows by address", () => {
+    const groups = findDuplicateDevices([
+      { id: SERIAL, host: "10.0.0.5", port: 49153 },
+      { id: UDN, host: "10.0.0.6", port: 49153 },
+      { id: "device-1700000000000", host: "10.0.0.6", port: 49153 },
+      { id: `${UDN}:bulb`, host: "10.0.0.6", port: 49153, parentId: UDN },
+      { id: "uuid:Socket-1_0-OTHER", host: "10.0.0.7", port: 49153 },
+      { id: "manual:10.0.0.8:49153", host: "10.0.0.8", port: 49153 },
+    ]);
+
+    expect(groups).toEqual([{ id: UDN, duplicates: [SERIAL, "device-1700000000000"] }]);
+  });
+
+  test("leaves different devices at one address apart", () => {
+    expect(
+      findDuplicateDevices([
+        { id: UDN, host: "10.0.0.6", port: 49153 },
+        { id: "uuid:Socket-1_0-OTHER", host: "10.0.0.6", port: 49153 },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("findMisfiledParents", () => {
+  test("finds Links saved under the serial number their bulbs' parent ends in", () => {
+    const LINK_UDN = `uuid:Bridge-1_0-${SERIAL}`;
+
+    expect(
+      findMisfiledParents([
+        { id: SERIAL, host: "10.0.0.5", port: 49153 },
+        { id: `${LINK_UDN}:bulb1`, host: "10.0.0.5", port: 49153, parentId: LINK_UDN },
+        { id: `${LINK_UDN}:bulb2`, host: "10.0.0.5", port: 49153, parentId: LINK_UDN },
+        {
+          id: "uuid:Bridge-1_0-GONE:bulb",
+          host: "10.0.0.6",
+          port: 49153,
+          parentId: "uuid:Bridge-1_0-GONE",
+        },
+      ])
+    ).toEqual([{ id: SERIAL, parentId: LINK_UDN }]);
+  });
+});
+
+describe("duplicate merge", () => {
+  const dbPath = path.join(os.tmpdir(), `open-wemo-identity-${process.pid}.db`);
+
+  afterEach(() => {
+    for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  function device(id: string, name: string, host: string, parentId?: string): SavedDevice {
+    const saved: SavedDevice = {
+      id,
+      name,
+      deviceType: parentId ? WemoDeviceType.Bulb : WemoDeviceType.Link,
+      host,
+      port: 49153,
+      createdAt: "",
+      updatedAt: "",
+    };
+    if (parentId) saved.parentId = parentId;
+    return saved;
+  }
+
+  test("keeps the user's name, the newest address and moves bulbs and settings", async () => {
+    const legacyId = SERIAL;
+    let db = new DatabaseManager(dbPath);
+    db.saveDevice(device(legacyId, "Hallway Link", "10.0.0.5"));
+    db.saveDevice(device(`${legacyId}:bulb1`, "Hallway Bulb", "10.0.0.5", legacyId));
+    db.setSetting(`motion_occupancy_timeout:${legacyId}`, "120");
+    // created_at has a one second resolution
+    await Bun.sleep(1100);
+    db.saveDevice(device(UDN, "WeMo Link", "10.0.0.6"));
+    db.updateLastSeen(UDN);
+    db.close();
+
+    db = new DatabaseManager(dbPath);
+    const devices = db.getAllDevices();
+    const timeouts = [UDN, legacyId].map((id) => db.getSetting(`motion_occupancy_timeout:${id}`));
+    db.close();
+
+    expect(devices.map((d) => d.id).sort()).toEqual([UDN, `${UDN}:bulb1`]);
+    const link = devices.find((d) => d.id === UDN);
+    expect(link?.name).toBe("Hallway Link");
+    expect(link?.host).toBe("10.0.0.6");
+    expect(devices.find((d) => d.parentId)?.parentId).toBe(UDN);
+    expect(timeouts).toEqual(["120", null]);
+  });
+
+  test("moves a Link to the ID its bulbs refer to, so deleting it deletes them", () => {
+    const linkUdn = `uuid:Bridge-1_0-${SERIAL}`;
+    let db = new DatabaseManager(dbPath);
+    db.saveDevice(device(SERIAL, "Hallway Link", "10.0.0.5"));
+    db.saveDevice(device(`${linkUdn}:bulb1`, "Hallway Bulb", "10.0.0.5", linkUdn));
+    db.close();
+
+    db = new DatabaseManager(dbPath);
+    const link = db.getDeviceById(linkUdn);
+    const deleted = db.deleteDevice(linkUdn);
+    const remaining = db.getAllDevices();
+    db.close();
+
+    expect(link?.name).toBe("Hallway Link");
+    expect(deleted).toBe(true);
+    expect(remaining).toEqual([]);
+  });
+
+  test("moves a row saved under an older ID when the device is seen", () => {
+    const db = new DatabaseManager(dbPath);
+    db.saveDevice(device("manual:10.0.0.5:49153", "Kitchen", "10.0.0.5"));
+
+    const found = db.getDeviceByIdentity({
+      id: UDN,
+      host: "10.0.0.5",
+      port: 49153,
+      macAddress: "",
+      serialNumber: SERIAL,
+    });
+
+    expect(found?.id).toBe(UDN);
+    expect(found?.name).toBe("Kitchen");
+    expect(db.getAllDevices()).toHaveLength(1);
+    db.close();
+  });
+});
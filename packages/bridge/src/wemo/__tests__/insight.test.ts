@@ -2,8 +2,14 @@
  * Tests for Insight device functionality.
  */
 
-import { describe, expect, test } from "bun:test";
-import { convertToPowerData, formatDuration, parseInsightParams } from "../insight";
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  InsightDeviceClient,
+  convertToPowerData,
+  formatDuration,
+  parseInsightParams,
+} from "../insight";
+import { WemoDeviceType } from "../types";
 
 describe("parseInsightParams", () => {
   test("parses full params string", () => {
@@ -141,3 +147,69 @@ describe("convertToPowerData", () => {
     expect(power.onTodayFormatted).toBe("2h 2m");
   });
 });
+
+describe("InsightDeviceClient settings", () => {
+  let fakeInsight: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeInsight?.stop(true);
+    fakeInsight = null;
+  });
+
+  test("reads and writes threshold and home settings", async () => {
+    const requests: string[] = [];
+    let threshold = 8000;
+
+    fakeInsight = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        const body = await request.text();
+        requests.push(action);
+
+        let inner = "";
+        if (action === "SetPowerThreshold") {
+          threshold = Number(body.match(/<PowerThreshold>(\d+)</)?.[1]);
+        } else if (action === "GetPowerThreshold") {
+          inner = `<PowerThreshold>${threshold}</PowerThreshold>`;
+        } else if (action === "GetInsightHomeSettings") {
+          inner = "<EnergyPerUnitCost>125</EnergyPerUnitCost><Currency>USD</Currency>";
+        } else if (action === "SetInsightHomeSettings") {
+          requests.push(body.match(/<EnergyPerUnitCost>.*<\/Currency>/)?.[0] ?? "");
+        }
+
+        return new Response(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:${action}Response xmlns:u="urn:Belkin:service:insight:1">${inner}</u:${action}Response></s:Body></s:Envelope>`
+        );
+      },
+    });
+
+    const insight = new InsightDeviceClient({
+      id: "uuid:Insight-1_0-TEST",
+      name: "TV",
+      deviceType: WemoDeviceType.Insight,
+      host: "127.0.0.1",
+      port: fakeInsight.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Insight",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    });
+
+    await insight.setPowerThreshold(25_000);
+    expect(await insight.getPowerThreshold()).toBe(25_000);
+    expect(await insight.getHomeSettings()).toEqual({ energyPerUnitCost: 125, currency: "USD" });
+
+    await insight.setHomeSettings({ energyPerUnitCost: 310, currency: "EUR" });
+    await insight.resetUsage();
+
+    expect(requests).toContain(
+      "<EnergyPerUnitCost>310</EnergyPerUnitCost><Currency>EUR</Currency>"
+    );
+    expect(requests.at(-1)).toBe("ResetUsage");
+  });
+});
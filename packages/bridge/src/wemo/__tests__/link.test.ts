@@ -0,0 +1,205 @@
+/**
+ * Tests for WeMo Link / bridge1 support.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  BulbDeviceClient,
+  brightnessToLevel,
+  buildDeviceStatusXml,
+  getBulbCapabilities,
+  getEndDeviceId,
+  kelvinToMireds,
+  levelToBrightness,
+  makeBulbId,
+  miredsToKelvin,
+  parseDeviceStatusList,
+  parseEndDevices,
+} from "../link";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+const END_DEVICES_XML = `<?xml version="1.0" encoding="utf-8"?><DeviceLists><DeviceList>
+  <DeviceListType>Paired</DeviceListType>
+  <DeviceInfos>
+    <DeviceInfo>
+      <DeviceIndex>0</DeviceIndex>
+      <DeviceID>94103EA2B27751EE</DeviceID>
+      <FriendlyName>Desk Lamp</FriendlyName>
+      <FirmwareVersion>83</FirmwareVersion>
+      <CapabilityIDs>10006,10008,30008,30009,3000A,30301</CapabilityIDs>
+      <CurrentState>1,128:0,,,,370:0</CurrentState>
+      <Manufacturer>MRVL</Manufacturer>
+      <ModelCode>MZ100</ModelCode>
+    </DeviceInfo>
+    <DeviceInfo>
+      <DeviceIndex>1</DeviceIndex>
+      <DeviceID>0017880100000001</DeviceID>
+      <FriendlyName>Porch</FriendlyName>
+      <CapabilityIDs>10006,10008</CapabilityIDs>
+      <CurrentState>0,255:0</CurrentState>
+    </DeviceInfo>
+  </DeviceInfos>
+</DeviceList></DeviceLists>`;
+
+const escapeXml = (xml: string): string =>
+  xml.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+describe("parseEndDevices", () => {
+  test("parses paired bulbs with capabilities", () => {
+    const devices = parseEndDevices(END_DEVICES_XML);
+
+    expect(devices).toHaveLength(2);
+    expect(devices[0]).toMatchObject({
+      deviceId: "94103EA2B27751EE",
+      name: "Desk Lamp",
+      modelCode: "MZ100",
+      firmwareVersion: "83",
+      available: true,
+    });
+    expect(devices[0]?.capabilities["10006"]).toBe("1");
+    expect(devices[0]?.capabilities["30301"]).toBe("370:0");
+  });
+
+  test("keeps numeric-looking IDs as strings", () => {
+    expect(parseEndDevices(END_DEVICES_XML)[1]?.deviceId).toBe("0017880100000001");
+  });
+
+  test("accepts escaped XML", () => {
+    expect(parseEndDevices(escapeXml(END_DEVICES_XML))).toHaveLength(2);
+  });
+
+  test("returns empty array when nothing is paired", () => {
+    expect(parseEndDevices("<DeviceLists></DeviceLists>")).toEqual([]);
+  });
+});
+
+describe("parseDeviceStatusList", () => {
+  test("parses availability and capability values", () => {
+    const statuses = parseDeviceStatusList(`<DeviceStatusList><DeviceStatus>
+      <IsGroupAction>NO</IsGroupAction>
+      <DeviceID available="NO">94103EA2B27751EE</DeviceID>
+      <CapabilityID>10006,10008</CapabilityID>
+      <CapabilityValue>0,64:0</CapabilityValue>
+    </DeviceStatus></DeviceStatusList>`);
+
+    expect(statuses).toEqual([
+      {
+        deviceId: "94103EA2B27751EE",
+        available: false,
+        capabilities: { "10006": "0", "10008": "64:0" },
+      },
+    ]);
+  });
+});
+
+describe("buildDeviceStatusXml", () => {
+  test("builds a DeviceStatus document", () => {
+    const xml = buildDeviceStatusXml("ABC", { "10006": "1", "10008": "255:0" });
+
+    expect(xml).toContain('<DeviceID available="YES">ABC</DeviceID>');
+    expect(xml).toContain("<CapabilityID>10006,10008</CapabilityID>");
+    expect(xml).toContain("<CapabilityValue>1,255:0</CapabilityValue>");
+  });
+});
+
+describe("conversions", () => {
+  test("converts between brightness and Zigbee level", () => {
+    expect(brightnessToLevel(100)).toBe(255);
+    expect(brightnessToLevel(0)).toBe(0);
+    expect(levelToBrightness(128)).toBe(50);
+    expect(levelToBrightness(300)).toBe(100);
+  });
+
+  test("converts between Kelvin and mireds", () => {
+    expect(kelvinToMireds(2700)).toBe(370);
+    expect(miredsToKelvin(154)).toBe(6494);
+  });
+
+  test("maps capability IDs to API capabilities", () => {
+    expect(getBulbCapabilities({ "10006": "1", "10008": "255:0", "30301": "370:0" })).toEqual([
+      "onoff",
+      "brightness",
+      "colorTemperature",
+    ]);
+    expect(getBulbCapabilities({ "10006": "1" })).toEqual(["onoff"]);
+  });
+
+  test("round-trips bulb IDs", () => {
+    const id = makeBulbId("uuid:Bridge-1_0-231447B01006A0", "94103EA2B27751EE");
+    expect(getEndDeviceId(id, "uuid:Bridge-1_0-231447B01006A0")).toBe("94103EA2B27751EE");
+  });
+});
+
+describe("BulbDeviceClient", () => {
+  let fakeLink: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeLink?.stop(true);
+    fakeLink = null;
+  });
+
+  test("controls a bulb through bridge1", async () => {
+    const requests: string[] = [];
+
+    fakeLink = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        const body = await request.text();
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        requests.push(`${new URL(request.url).pathname} ${action}`);
+
+        const inner =
+          action === "GetDeviceStatus"
+            ? escapeXml(
+                '<DeviceStatusList><DeviceStatus><DeviceID available="YES">94103EA2B27751EE</DeviceID><CapabilityID>10006,10008,30301</CapabilityID><CapabilityValue>1,255:0,250:0</CapabilityValue></DeviceStatus></DeviceStatusList>'
+              )
+            : "";
+        if (action === "SetDeviceStatus") {
+          requests.push(body.includes("10008") ? "level" : "onoff");
+        }
+
+        return new Response(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:${action}Response xmlns:u="urn:Belkin:service:bridge:1"><DeviceStatusList>${inner}</DeviceStatusList></u:${action}Response></s:Body></s:Envelope>`
+        );
+      },
+    });
+
+    const link: WemoDevice = {
+      id: "uuid:Bridge-1_0-TEST",
+      name: "Link",
+      deviceType: WemoDeviceType.Link,
+      host: "127.0.0.1",
+      port: fakeLink.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Bridge",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+
+    const bulb = new BulbDeviceClient(link, "94103EA2B27751EE", "Desk Lamp");
+    expect(bulb.id).toBe("uuid:Bridge-1_0-TEST:94103EA2B27751EE");
+
+    const state = await bulb.getState();
+    expect(state).toEqual({
+      binaryState: 1,
+      brightness: 100,
+      colorTemperature: 4000,
+      capabilities: ["onoff", "brightness", "colorTemperature"],
+    });
+
+    await bulb.turnOff();
+    await bulb.setBrightness(50);
+
+    expect(requests).toEqual([
+      "/upnp/control/bridge1 GetDeviceStatus",
+      "/upnp/control/bridge1 SetDeviceStatus",
+      "onoff",
+      "/upnp/control/bridge1 SetDeviceStatus",
+      "level",
+    ]);
+  });
+});
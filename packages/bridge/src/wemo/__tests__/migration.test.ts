@@ -0,0 +1,201 @@
+/**
+ * Tests for moving saved devices to a new WiFi network.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { AdoptionWatcher } from "../adoption";
+import {
+  type NetworkMigrationJob,
+  NetworkMigrationManager,
+  type NetworkMigrationRequest,
+} from "../migration";
+import { EncryptionMethod } from "../setup";
+import { type SavedDevice, type WemoDevice, WemoDeviceType } from "../types";
+
+const SERIAL = "221517K0101769";
+const MAC = "94103EA20B77";
+
+const SETUP_XML = `<?xml version="1.0"?>
+<root xmlns="urn:Belkin:device-1-0">
+  <device>
+    <friendlyName>TV Plug</friendlyName>
+    <modelName>Socket</modelName>
+    <serialNumber>${SERIAL}</serialNumber>
+    <macAddress>${MAC}</macAddress>
+    <new_algo>1</new_algo>
+  </device>
+</root>`;
+
+const REQUEST: NetworkMigrationRequest = {
+  ssid: "NewRouter",
+  password: "hunter22",
+  auth: "WPA2PSK",
+  encrypt: "AES",
+};
+
+/**
+ * A device that answers until it is sent a new network.
+ */
+interface FakeDevice {
+  port: number;
+  /** ConnectHomeNetwork bodies received */
+  connects: string[];
+}
+
+describe("NetworkMigrationManager", () => {
+  const servers: ReturnType<typeof Bun.serve>[] = [];
+  let watcher: AdoptionWatcher | null = null;
+  let migration: NetworkMigrationManager | null = null;
+
+  afterEach(() => {
+    migration?.stop();
+    watcher?.stop();
+    for (const server of servers.splice(0)) {
+      server.stop(true);
+    }
+  });
+
+  function serveDevice(keepAnswering = false): FakeDevice {
+    const device: FakeDevice = { port: 0, connects: [] };
+    const server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const { pathname } = new URL(req.url);
+        if (pathname === "/upnp/control/WiFiSetup1") {
+          device.connects.push(await req.text());
+          return new Response("<PairingStatus>Connecting</PairingStatus>");
+        }
+        // Gone from the old network once it was sent the new one
+        if (pathname === "/setup.xml" && (keepAnswering || device.connects.length === 0)) {
+          return new Response(SETUP_XML);
+        }
+        return new Response("", { status: 503 });
+      },
+    });
+    servers.push(server);
+    device.port = server.port ?? 0;
+    return device;
+  }
+
+  function saved(id: string, port: number, overrides: Partial<SavedDevice> = {}): SavedDevice {
+    return {
+      id,
+      name: `Plug ${id}`,
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port,
+      createdAt: "2024-01-15T10:30:00.000Z",
+      updatedAt: "2024-01-15T10:30:00.000Z",
+      ...overrides,
+    };
+  }
+
+  function create(): NetworkMigrationManager {
+    watcher = new AdoptionWatcher({ pollInterval: 60000 });
+    migration = new NetworkMigrationManager(
+      { leaveTimeout: 200, checkInterval: 10, reappearTimeout: 60000 },
+      watcher
+    );
+    return migration;
+  }
+
+  function finished(manager: NetworkMigrationManager): Promise<NetworkMigrationJob> {
+    return new Promise((resolve) => manager.once("finished", resolve));
+  }
+
+  async function waitForStatus(manager: NetworkMigrationManager, status: string): Promise<void> {
+    while (manager.getJob()?.status !== status) {
+      await Bun.sleep(10);
+    }
+  }
+
+  test("checks every device without sending anything in a dry run", async () => {
+    const fake = serveDevice();
+    const manager = create();
+    const done = finished(manager);
+
+    manager.start([saved("a", fake.port), saved("bulb", fake.port, { parentId: "a" })], {
+      ...REQUEST,
+      dryRun: true,
+    });
+    const job = await done;
+
+    expect(job.status).toBe("completed");
+    expect(job.devices).toHaveLength(1);
+    expect(job.devices[0]).toMatchObject({
+      status: "ready",
+      encryption: { method: EncryptionMethod.METHOD_2, addLengths: true },
+    });
+    expect(fake.connects).toHaveLength(0);
+  });
+
+  test("sends the new network and waits for the device to reappear", async () => {
+    const fake = serveDevice();
+    const manager = create();
+    const done = finished(manager);
+
+    manager.start([saved("a", fake.port)], REQUEST);
+    await waitForStatus(manager, "waiting");
+
+    expect(fake.connects).toHaveLength(1);
+    expect(fake.connects[0]).toContain("<ssid>NewRouter</ssid>");
+    expect(fake.connects[0]).not.toContain(REQUEST.password);
+    expect(manager.getJob()?.devices[0]?.status).toBe("left");
+
+    const reappeared = {
+      id: `uuid:Socket-1_0-${SERIAL}`,
+      serialNumber: SERIAL,
+      macAddress: MAC,
+      host: "10.0.0.50",
+      port: 49153,
+    } as WemoDevice;
+    watcher?.offer(reappeared);
+    const job = await done;
+
+    expect(job.status).toBe("completed");
+    expect(job.devices[0]).toMatchObject({ status: "moved", newHost: "10.0.0.50", newPort: 49153 });
+    expect(job.stragglers).toEqual([]);
+  });
+
+  test("stops after the first failure when asked to", async () => {
+    const fake = serveDevice();
+    const manager = create();
+    const done = finished(manager);
+
+    // Nothing listens on port 1, so the first device can't be reached
+    manager.start([saved("gone", 1), saved("a", fake.port)], { ...REQUEST, stopOnFailure: true });
+    const job = await done;
+
+    expect(job.devices.map((device) => device.status)).toEqual(["failed", "skipped"]);
+    expect(job.stragglers).toEqual(["gone", "a"]);
+    expect(fake.connects).toHaveLength(0);
+  });
+
+  test("stops waiting for a device to leave once cancelled", async () => {
+    const fake = serveDevice(true);
+    const manager = create();
+
+    manager.start([saved("a", fake.port)], REQUEST);
+    while (manager.getJob()?.devices[0]?.status !== "sent") {
+      await Bun.sleep(10);
+    }
+    manager.cancel();
+    // Longer than the leave timeout
+    await Bun.sleep(300);
+
+    expect(manager.getJob()).toMatchObject({ status: "cancelled" });
+    expect(manager.getJob()?.devices[0]?.status).toBe("sent");
+  });
+
+  test("refuses to start while a migration is running", async () => {
+    const fake = serveDevice();
+    const manager = create();
+
+    manager.start([saved("a", fake.port)], REQUEST);
+
+    expect(() => manager.start([saved("a", fake.port)], REQUEST)).toThrow();
+    manager.cancel();
+    expect(manager.getJob()?.status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for WeMo Motion sensor support.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { MotionDeviceClient, MotionTracker, isSensorOnly } from "../motion";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("MotionTracker", () => {
+  const start = Date.parse("2024-01-15T10:00:00.000Z");
+
+  test("reports idle with no history", () => {
+    const tracker = new MotionTracker();
+
+    expect(tracker.getSnapshot("m1", 300, start)).toEqual({
+      motion: false,
+      lastMotionAt: null,
+      occupancy: "idle",
+    });
+  });
+
+  test("stays occupied until the timeout after motion stops", () => {
+    const tracker = new MotionTracker();
+    tracker.record("m1", true, start);
+    tracker.record("m1", false, start + 5_000);
+
+    const during = tracker.getSnapshot("m1", 60, start + 30_000);
+    expect(during.motion).toBe(false);
+    expect(during.occupancy).toBe("occupied");
+    expect(during.lastMotionAt).toBe("2024-01-15T10:00:00.000Z");
+
+    expect(tracker.getSnapshot("m1", 60, start + 61_000).occupancy).toBe("idle");
+  });
+
+  test("is occupied while motion is reported regardless of timeout", () => {
+    const tracker = new MotionTracker();
+    tracker.record("m1", true, start);
+
+    expect(tracker.getSnapshot("m1", 10, start + 3_600_000).occupancy).toBe("occupied");
+  });
+
+  test("forgets history", () => {
+    const tracker = new MotionTracker();
+    tracker.record("m1", true, start);
+    tracker.forget("m1");
+
+    expect(tracker.getSnapshot("m1", 300, start).lastMotionAt).toBeNull();
+  });
+});
+
+describe("isSensorOnly", () => {
+  test("only motion sensors are sensor-only", () => {
+    expect(isSensorOnly({ deviceType: WemoDeviceType.Motion })).toBe(true);
+    expect(isSensorOnly({ deviceType: WemoDeviceType.Switch })).toBe(false);
+  });
+});
+
+describe("MotionDeviceClient", () => {
+  let fakeSensor: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeSensor?.stop(true);
+    fakeSensor = null;
+  });
+
+  test("reports unsupported settings as null", async () => {
+    fakeSensor = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) => {
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        const envelope = (inner: string) =>
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>${inner}</s:Body></s:Envelope>`;
+
+        if (action === "GetSensitivity") {
+          return new Response(
+            envelope(
+              '<u:GetSensitivityResponse xmlns:u="urn:Belkin:service:basicevent:1"><Sensitivity>2</Sensitivity></u:GetSensitivityResponse>'
+            )
+          );
+        }
+        if (action === "GetBinaryState") {
+          return new Response(
+            envelope(
+              '<u:GetBinaryStateResponse xmlns:u="urn:Belkin:service:basicevent:1"><BinaryState>1</BinaryState></u:GetBinaryStateResponse>'
+            )
+          );
+        }
+        return new Response(
+          envelope(
+            "<s:Fault><faultcode>s:Client</faultcode><faultstring>UPnPError</faultstring></s:Fault>"
+          ),
+          { status: 500 }
+        );
+      },
+    });
+
+    const device: WemoDevice = {
+      id: "uuid:Sensor-1_0-TEST",
+      name: "Hallway",
+      deviceType: WemoDeviceType.Motion,
+      host: "127.0.0.1",
+      port: fakeSensor.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Sensor",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+
+    const sensor = new MotionDeviceClient(device);
+
+    expect(await sensor.getMotion()).toBe(true);
+    expect(await sensor.getSettings()).toEqual({ sensitivity: 2, delay: null });
+    expect(await sensor.setSettings({ delay: 30 })).toEqual(["delay"]);
+  });
+});
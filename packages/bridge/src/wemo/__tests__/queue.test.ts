@@ -0,0 +1,169 @@
+/**
+ * Tests for the per-host SOAP request queue.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { SoapRequestQueue, withSoapPriority } from "../queue";
+
+/**
+ * A request that finishes when told to.
+ */
+function deferred<T>(value: T): { run: () => Promise<T>; finish: () => void; started: boolean } {
+  let finish = () => {};
+  const request = {
+    started: false,
+    finish: () => finish(),
+    run: () => {
+      request.started = true;
+      return new Promise<T>((resolve) => {
+        finish = () => resolve(value);
+      });
+    },
+  };
+  return request;
+}
+
+/**
+ * Lets queued promise callbacks run.
+ */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("SoapRequestQueue", () => {
+  test("sends one request per host at a time", async () => {
+    const queue = new SoapRequestQueue();
+    const first = deferred("first");
+    const second = deferred("second");
+    const otherHost = deferred("other");
+
+    const results = [
+      queue.enqueue("10.0.0.5", first.run),
+      queue.enqueue("10.0.0.5", second.run),
+      queue.enqueue("10.0.0.6", otherHost.run),
+    ];
+
+    expect(first.started).toBe(true);
+    expect(second.started).toBe(false);
+    expect(otherHost.started).toBe(true);
+
+    first.finish();
+    await tick();
+    expect(second.started).toBe(true);
+
+    second.finish();
+    otherHost.finish();
+    expect(await Promise.all(results)).toEqual(["first", "second", "other"]);
+  });
+
+  test("sends commands ahead of queued polls", async () => {
+    const queue = new SoapRequestQueue();
+    const order: string[] = [];
+    const blocker = deferred("blocker");
+
+    const track = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    const results = [
+      queue.enqueue("10.0.0.5", blocker.run),
+      queue.enqueue("10.0.0.5", track("poll-1"), { priority: "poll" }),
+      queue.enqueue("10.0.0.5", track("poll-2"), { priority: "poll" }),
+      queue.enqueue("10.0.0.5", track("command"), { priority: "command" }),
+    ];
+
+    blocker.finish();
+    await Promise.all(results);
+
+    expect(order).toEqual(["command", "poll-1", "poll-2"]);
+  });
+
+  test("lets withSoapPriority override request priorities", async () => {
+    const queue = new SoapRequestQueue();
+    const order: string[] = [];
+    const blocker = deferred("blocker");
+
+    const track = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    const results = [
+      queue.enqueue("10.0.0.5", blocker.run),
+      withSoapPriority("poll", () => queue.enqueue("10.0.0.5", track("background"))),
+      queue.enqueue("10.0.0.5", track("command")),
+    ];
+
+    blocker.finish();
+    await Promise.all(results);
+
+    expect(order).toEqual(["command", "background"]);
+  });
+
+  test("shares identical reads that are queued or in flight", async () => {
+    const queue = new SoapRequestQueue();
+    const read = deferred({ BinaryState: 1 });
+    let sent = 0;
+    const run = () => {
+      sent++;
+      return read.run();
+    };
+
+    const first = queue.enqueue("10.0.0.5", run, { coalesceKey: "GetBinaryState" });
+    const second = queue.enqueue("10.0.0.5", run, { coalesceKey: "GetBinaryState" });
+
+    read.finish();
+    expect(await first).toBe(await second);
+    expect(sent).toBe(1);
+
+    // Finished reads are not reused
+    const later = deferred({ BinaryState: 0 });
+    const third = queue.enqueue("10.0.0.5", later.run, { coalesceKey: "GetBinaryState" });
+    later.finish();
+    expect(await third).toEqual({ BinaryState: 0 });
+  });
+
+  test("keeps going after a request fails", async () => {
+    const queue = new SoapRequestQueue();
+
+    const failed = queue.enqueue("10.0.0.5", async () => {
+      throw new Error("socket hang up");
+    });
+    const next = queue.enqueue("10.0.0.5", async () => "ok");
+
+    await expect(failed).rejects.toThrow("socket hang up");
+    expect(await next).toBe("ok");
+  });
+
+  test("reports queue metrics per host", async () => {
+    const queue = new SoapRequestQueue();
+    const blocker = deferred("blocker");
+
+    const results = [
+      queue.enqueue("10.0.0.5", blocker.run),
+      queue.enqueue("10.0.0.5", async () => "a", { coalesceKey: "read" }),
+      queue.enqueue("10.0.0.5", async () => "b", { coalesceKey: "read" }),
+    ];
+
+    expect(queue.getMetrics()).toEqual([
+      {
+        host: "10.0.0.5",
+        queued: 1,
+        inFlight: true,
+        maxQueued: 1,
+        sent: 1,
+        coalesced: 1,
+        averageWaitMs: 0,
+        lastRequestAt: null,
+      },
+    ]);
+
+    blocker.finish();
+    await Promise.all(results);
+
+    const [metrics] = queue.getMetrics();
+    expect(metrics?.queued).toBe(0);
+    expect(metrics?.inFlight).toBe(false);
+    expect(metrics?.sent).toBe(2);
+    expect(metrics?.lastRequestAt).not.toBeNull();
+  });
+});
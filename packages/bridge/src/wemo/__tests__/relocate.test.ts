@@ -0,0 +1,140 @@
+/**
+ * Tests for port drift recovery.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { type DeviceMove, PortRecovery, isSameDevice } from "../relocate";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+const SETUP_XML = `<?xml version="1.0"?>
+<root xmlns="urn:Belkin:device-1-0">
+  <device>
+    <deviceType>urn:Belkin:device:controllee:1</deviceType>
+    <friendlyName>TV Plug</friendlyName>
+    <manufacturer>Belkin International Inc.</manufacturer>
+    <modelName>Socket</modelName>
+    <UDN>uuid:Socket-1_0-221517K0101769</UDN>
+    <serialNumber>221517K0101769</serialNumber>
+    <firmwareVersion>WeMo_WW_2.00.11452.PVT-OWRT-SNSV2</firmwareVersion>
+    <serviceList />
+  </device>
+</root>`;
+
+function createDevice(overrides: Partial<WemoDevice> = {}): WemoDevice {
+  return {
+    id: "uuid:Socket-1_0-221517K0101769",
+    name: "TV Plug",
+    deviceType: WemoDeviceType.Switch,
+    host: "127.0.0.1",
+    port: 49153,
+    manufacturer: "Belkin International Inc.",
+    model: "Socket",
+    serialNumber: "221517K0101769",
+    firmwareVersion: "",
+    macAddress: "",
+    services: [],
+    setupUrl: "",
+    ...overrides,
+  };
+}
+
+describe("isSameDevice", () => {
+  test("matches saved serial numbers and UDNs", () => {
+    const candidate = createDevice();
+
+    expect(isSameDevice(candidate, { id: "221517K0101769", host: "", port: 0 })).toBe(true);
+    expect(
+      isSameDevice(candidate, { id: "uuid:Socket-1_0-221517K0101769", host: "", port: 0 })
+    ).toBe(true);
+    expect(
+      isSameDevice(candidate, {
+        id: "saved-id",
+        host: "",
+        port: 0,
+        serialNumber: "221517K0101769",
+      })
+    ).toBe(true);
+  });
+
+  test("rejects other devices", () => {
+    expect(isSameDevice(createDevice(), { id: "221517K0109999", host: "", port: 0 })).toBe(false);
+    expect(isSameDevice(createDevice({ serialNumber: "" }), { id: "", host: "", port: 0 })).toBe(
+      false
+    );
+  });
+});
+
+describe("PortRecovery", () => {
+  const servers: ReturnType<typeof Bun.serve>[] = [];
+
+  afterEach(() => {
+    for (const server of servers.splice(0)) {
+      server.stop(true);
+    }
+  });
+
+  /**
+   * Serves a device description and returns its port.
+   */
+  function serveDevice(xml: string): number {
+    const server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: () => new Response(xml, { headers: { "Content-Type": "text/xml" } }),
+    });
+    servers.push(server);
+    return server.port ?? 0;
+  }
+
+  /**
+   * Gets a port nothing listens on.
+   */
+  function closedPort(): number {
+    const server = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response() });
+    const port = server.port ?? 0;
+    server.stop(true);
+    return port;
+  }
+
+  test("finds the device on another port and reports the move", async () => {
+    const oldPort = closedPort();
+    const newPort = serveDevice(SETUP_XML);
+    const recovery = new PortRecovery([oldPort, newPort]);
+    const moves: DeviceMove[] = [];
+    recovery.on("moved", (move) => moves.push(move));
+
+    const device = await recovery.recover({
+      id: "221517K0101769",
+      host: "127.0.0.1",
+      port: oldPort,
+    });
+
+    expect(device?.port).toBe(newPort);
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toMatchObject({
+      deviceId: "221517K0101769",
+      host: "127.0.0.1",
+      previousPort: oldPort,
+      port: newPort,
+    });
+  });
+
+  test("ignores a different device on the other port", async () => {
+    const oldPort = closedPort();
+    const otherPort = serveDevice(SETUP_XML.replaceAll("221517K0101769", "221517K0109999"));
+    const recovery = new PortRecovery([oldPort, otherPort]);
+    let moved = false;
+    recovery.on("moved", () => {
+      moved = true;
+    });
+
+    const device = await recovery.recover({
+      id: "221517K0101769",
+      host: "127.0.0.1",
+      port: oldPort,
+    });
+
+    expect(device).toBeNull();
+    expect(moved).toBe(false);
+  });
+});
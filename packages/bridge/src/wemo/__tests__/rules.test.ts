@@ -0,0 +1,329 @@
+/**
+ * Tests for reading and writing on-device WeMo rules.
+ */
+
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  RulesConflictError,
+  RulesDeviceClient,
+  type TimerRuleInput,
+  addTimerRule,
+  classifyRule,
+  deleteRule,
+  extractRulesDatabase,
+  parseRulesDatabase,
+  updateTimerRule,
+  validateRulesDatabase,
+} from "../rules";
+import { type WemoDevice, WemoDeviceType } from "../types";
+import { ZipError, createZip, readZip } from "../zip";
+
+const DEVICE_UDN = "uuid:Socket-1_0-TEST";
+
+/**
+ * Builds a rules database with the tables and columns WeMo firmware uses.
+ */
+function createRulesDb(): Database {
+  const db = new Database(":memory:");
+  db.run(`CREATE TABLE RULES (RuleID PRIMARY KEY, Name TEXT, Type TEXT, RuleOrder INTEGER,
+    StartDate TEXT, EndDate TEXT, State TEXT, Sync INTEGER)`);
+  db.run(`CREATE TABLE RULEDEVICES (RuleDevicePK INTEGER PRIMARY KEY, RuleID INTEGER,
+    DeviceID TEXT, GroupID INTEGER, DayID INTEGER, StartTime INTEGER, RuleDuration INTEGER,
+    StartAction REAL, EndAction REAL, SensorDuration INTEGER, Type INTEGER, Value INTEGER,
+    Level INTEGER, ZBCapabilityStart TEXT, ZBCapabilityEnd TEXT, OnModeOffset INTEGER,
+    OffModeOffset INTEGER, CountdownTime INTEGER, EndTime INTEGER)`);
+  db.run(`CREATE TABLE TARGETDEVICES (TargetDevicesPK INTEGER PRIMARY KEY, RuleID INTEGER,
+    DeviceID TEXT, DeviceIndex INTEGER)`);
+
+  const insertRule = db.prepare(
+    "INSERT INTO RULES VALUES (?, ?, ?, ?, '12201982', '07301982', ?, 'NOSYNC')"
+  );
+  const insertSchedule = db.prepare(
+    `INSERT INTO RULEDEVICES (RuleID, DeviceID, GroupID, DayID, StartTime, RuleDuration,
+      StartAction, EndAction, OnModeOffset, OffModeOffset, CountdownTime, EndTime)
+     VALUES (?, ?, -1, ?, ?, 0, ?, ?, ?, -1, -1, ?)`
+  );
+
+  insertRule.run(2, "Porch Sunset", "Time Interval", 1, "1");
+  insertSchedule.run(2, DEVICE_UDN, -1, 64800, 1, 0, 1800, 82800);
+
+  insertRule.run(1, "Morning", "Time Interval", 0, "1");
+  insertSchedule.run(1, DEVICE_UDN, 1, 25200, 1, -1, -1, -1);
+  insertSchedule.run(1, DEVICE_UDN, 3, 25200, 1, -1, -1, -1);
+
+  insertRule.run(3, "Long Press Rule", "Long Press", 2, "0");
+  insertSchedule.run(3, DEVICE_UDN, -1, 60, 2, -1, -1, 86400);
+  db.run("INSERT INTO TARGETDEVICES (RuleID, DeviceID, DeviceIndex) VALUES (3, 'uuid:Lamp', 0)");
+
+  return db;
+}
+
+/**
+ * Builds a device pointing at a fake device server.
+ */
+function createTestDevice(port: number): WemoDevice {
+  return {
+    id: DEVICE_UDN,
+    name: "Porch",
+    deviceType: WemoDeviceType.Switch,
+    host: "127.0.0.1",
+    port,
+    manufacturer: "Belkin International Inc.",
+    model: "Socket",
+    serialNumber: "TEST",
+    firmwareVersion: "",
+    macAddress: "",
+    services: [],
+    setupUrl: "",
+  };
+}
+
+describe("parseRulesDatabase", () => {
+  test("parses rules in order with schedules and targets", () => {
+    const db = createRulesDb();
+    const rules = parseRulesDatabase(db);
+    db.close();
+
+    expect(rules.map((r) => r.name)).toEqual(["Morning", "Porch Sunset", "Long Press Rule"]);
+
+    const [morning, sunset, longPress] = rules;
+    expect(morning?.type).toBe("timer");
+    expect(morning?.schedules.map((s) => s.day)).toEqual(["monday", "wednesday"]);
+    expect(morning?.schedules[0]).toMatchObject({
+      startTime: 25200,
+      endTime: null,
+      startAction: "on",
+      endAction: "none",
+      solarOffset: null,
+    });
+
+    expect(sunset?.type).toBe("sunset");
+    expect(sunset?.schedules[0]?.solarOffset).toBe(1800);
+
+    expect(longPress).toMatchObject({
+      type: "longPress",
+      enabled: false,
+      targetDeviceIds: ["uuid:Lamp"],
+    });
+    expect(longPress?.schedules[0]?.startAction).toBe("toggle");
+  });
+
+  test("tolerates databases without optional tables", () => {
+    const db = new Database(":memory:");
+    db.run("CREATE TABLE RULES (RuleID INTEGER, Name TEXT, Type TEXT, State TEXT)");
+    db.run("INSERT INTO RULES VALUES (1, 'Away', 'Away Mode', '1')");
+
+    expect(parseRulesDatabase(db)).toMatchObject([
+      { id: 1, type: "away", schedules: [], targetDeviceIds: [] },
+    ]);
+    db.close();
+  });
+});
+
+describe("editing rules", () => {
+  const evening: TimerRuleInput = {
+    name: "Evening",
+    enabled: true,
+    days: ["weekdays"],
+    startTime: 79200,
+    startAction: "on",
+    endTime: 3600,
+    endAction: "off",
+  };
+
+  test("adds a timer rule after existing rules", () => {
+    const db = createRulesDb();
+    const ruleId = addTimerRule(db, DEVICE_UDN, evening);
+    const added = parseRulesDatabase(db).at(-1);
+
+    expect(ruleId).toBe(4);
+    expect(added).toMatchObject({ id: 4, name: "Evening", type: "timer", enabled: true });
+    expect(added?.schedules).toEqual([
+      {
+        deviceId: DEVICE_UDN,
+        day: "weekdays",
+        dayId: 8,
+        startTime: 79200,
+        endTime: 3600,
+        startAction: "on",
+        endAction: "off",
+        solarOffset: null,
+        countdownTime: null,
+      },
+    ]);
+    expect(db.query("SELECT RuleDuration FROM RULEDEVICES WHERE RuleID = 4").get()).toEqual({
+      RuleDuration: 10800,
+    });
+    expect(validateRulesDatabase(db)).toEqual([]);
+    db.close();
+  });
+
+  test("replaces a rule's schedule and removes rules", () => {
+    const db = createRulesDb();
+    updateTimerRule(db, 1, DEVICE_UDN, {
+      ...evening,
+      days: ["saturday", "sunday"],
+      endTime: null,
+      endAction: "none",
+    });
+    deleteRule(db, 3);
+    const rules = parseRulesDatabase(db);
+
+    expect(rules.map((r) => r.name)).toEqual(["Evening", "Porch Sunset"]);
+    expect(rules[0]?.schedules.map((s) => [s.day, s.endAction])).toEqual([
+      ["saturday", "none"],
+      ["sunday", "none"],
+    ]);
+    expect(db.query("SELECT COUNT(*) AS n FROM TARGETDEVICES").get()).toEqual({ n: 0 });
+    db.close();
+  });
+
+  test("reports databases firmware would reject", () => {
+    const db = createRulesDb();
+    db.run("INSERT INTO RULEDEVICES (RuleID, DayID, StartTime) VALUES (99, 7, 90000)");
+
+    expect(validateRulesDatabase(db)).toEqual([
+      "Schedule entry references missing rule 99",
+      "Rule 99 has an invalid DayID: 7",
+      "Rule 99 has an invalid StartTime: 90000",
+    ]);
+    db.close();
+
+    const empty = new Database(":memory:");
+    expect(validateRulesDatabase(empty)).toEqual([
+      "Missing table RULES",
+      "Missing table RULEDEVICES",
+    ]);
+    empty.close();
+  });
+});
+
+describe("classifyRule", () => {
+  test("classifies by type name", () => {
+    expect(classifyRule("Countdown Rule", [])).toBe("countdown");
+    expect(classifyRule("Simple Switch", [])).toBe("timer");
+    expect(classifyRule("Motion Controlled", [])).toBe("other");
+  });
+});
+
+describe("zip", () => {
+  test("round-trips entries", () => {
+    const data = new TextEncoder().encode("hello rules ".repeat(100));
+    const [entry] = readZip(createZip([{ name: "temppluginRules.db", data }]));
+
+    expect(entry?.name).toBe("temppluginRules.db");
+    expect(entry?.data).toEqual(data);
+  });
+
+  test("rejects corrupted data", () => {
+    const archive = createZip([{ name: "a.db", data: new Uint8Array(64) }]);
+    archive[40] = (archive[40] ?? 0) ^ 0xff;
+
+    expect(() => readZip(archive)).toThrow(ZipError);
+  });
+
+  test("rejects non-zip data", () => {
+    expect(() => readZip(new Uint8Array(100))).toThrow(ZipError);
+  });
+});
+
+describe("RulesDeviceClient", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  test("downloads and parses rules", async () => {
+    const db = createRulesDb();
+    const archive = createZip([{ name: "temppluginRules.db", data: db.serialize() }]);
+    db.close();
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) => {
+        if (new URL(request.url).pathname === "/rules.db") {
+          return new Response(archive);
+        }
+        return new Response(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:FetchRulesResponse xmlns:u="urn:Belkin:service:rules:1"><ruleDbVersion>7</ruleDbVersion><ruleDbPath>/rules.db</ruleDbPath></u:FetchRulesResponse></s:Body></s:Envelope>`
+        );
+      },
+    });
+
+    const client = new RulesDeviceClient(createTestDevice(fakeDevice.port ?? 0));
+    const { version, rules } = await client.fetchRules();
+
+    expect(version).toBe(7);
+    expect(rules).toHaveLength(3);
+  });
+
+  test("uploads edits with a bumped version", async () => {
+    const db = createRulesDb();
+    const archive = createZip([{ name: "temppluginRules.db", data: db.serialize() }]);
+    db.close();
+
+    let storeBody = "";
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        if (new URL(request.url).pathname === "/rules.db") {
+          return new Response(archive);
+        }
+        const action = (request.headers.get("SOAPACTION") ?? "").replace(/^.*#|"$/g, "");
+        const envelope = (inner: string) =>
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>${inner}</s:Body></s:Envelope>`;
+
+        if (action === "StoreRules") {
+          storeBody = await request.text();
+          return new Response(
+            envelope(
+              '<u:StoreRulesResponse xmlns:u="urn:Belkin:service:rules:1"><errorInfo>Successfull</errorInfo></u:StoreRulesResponse>'
+            )
+          );
+        }
+        return new Response(
+          envelope(
+            '<u:FetchRulesResponse xmlns:u="urn:Belkin:service:rules:1"><ruleDbVersion>7</ruleDbVersion><ruleDbPath>/rules.db</ruleDbPath></u:FetchRulesResponse>'
+          )
+        );
+      },
+    });
+
+    const client = new RulesDeviceClient(createTestDevice(fakeDevice.port ?? 0));
+
+    await expect(client.updateRules(6, () => undefined)).rejects.toThrow(RulesConflictError);
+    expect(storeBody).toBe("");
+
+    const { version, rules } = await client.updateRules(7, (rulesDb) => deleteRule(rulesDb, 2));
+    expect(version).toBe(8);
+    expect(rules.map((r) => r.id)).toEqual([1, 3]);
+
+    expect(storeBody).toContain("<ruleDbVersion>8</ruleDbVersion>");
+    const encoded = storeBody.match(/&lt;!\[CDATA\[(.*)\]\]&gt;/)?.[1] ?? "";
+    const { fileName, database } = extractRulesDatabase(
+      new Uint8Array(Buffer.from(encoded, "base64"))
+    );
+    expect(fileName).toBe("temppluginRules.db");
+    const stored = Database.deserialize(database);
+    expect(parseRulesDatabase(stored).map((r) => r.id)).toEqual([1, 3]);
+    stored.close();
+  });
+
+  test("extracts the database file from the archive", () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const archive = createZip([
+      { name: "readme.txt", data: new Uint8Array() },
+      { name: "temppluginRules.db", data },
+    ]);
+
+    expect(extractRulesDatabase(archive)).toEqual({
+      fileName: "temppluginRules.db",
+      database: data,
+    });
+  });
+});
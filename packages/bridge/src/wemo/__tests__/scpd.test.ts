@@ -0,0 +1,264 @@
+/**
+ * Tests for SCPD parsing and the service catalog.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  ServiceCatalog,
+  buildActionBody,
+  findService,
+  findUnknownArguments,
+  parseScpd,
+} from "../scpd";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+const EVENT_SERVICE_SCPD = `<?xml version="1.0"?>
+<scpd xmlns="urn:Belkin:service-1-0">
+  <specVersion><major>1</major><minor>0</minor></specVersion>
+  <actionList>
+    <action>
+      <name>SetBinaryState</name>
+      <argumentList>
+        <argument>
+          <retval />
+          <name>BinaryState</name>
+          <relatedStateVariable>BinaryState</relatedStateVariable>
+          <direction>in</direction>
+        </argument>
+        <argument>
+          <name>Duration</name>
+          <relatedStateVariable>Duration</relatedStateVariable>
+          <direction>in</direction>
+        </argument>
+      </argumentList>
+    </action>
+    <action>
+      <name>GetFriendlyName</name>
+      <argumentList>
+        <argument>
+          <name>FriendlyName</name>
+          <relatedStateVariable>FriendlyName</relatedStateVariable>
+          <direction>out</direction>
+        </argument>
+      </argumentList>
+    </action>
+    <action>
+      <name>GetLogFileURL</name>
+    </action>
+  </actionList>
+  <serviceStateTable>
+    <stateVariable sendEvents="yes">
+      <name>BinaryState</name>
+      <dataType>Boolean</dataType>
+      <defaultValue>0</defaultValue>
+    </stateVariable>
+    <stateVariable sendEvents="no">
+      <name>Duration</name>
+      <dataType>ui4</dataType>
+      <allowedValueRange><minimum>0</minimum><maximum>86400</maximum></allowedValueRange>
+    </stateVariable>
+    <stateVariable sendEvents="no">
+      <name>FriendlyName</name>
+      <dataType>string</dataType>
+      <allowedValueList><allowedValue>Lamp</allowedValue></allowedValueList>
+    </stateVariable>
+  </serviceStateTable>
+</scpd>`;
+
+describe("parseScpd", () => {
+  test("parses actions and their arguments", () => {
+    const { actions } = parseScpd(EVENT_SERVICE_SCPD);
+
+    expect(actions.map((a) => a.name)).toEqual([
+      "SetBinaryState",
+      "GetFriendlyName",
+      "GetLogFileURL",
+    ]);
+    expect(actions[0]?.arguments).toEqual([
+      { name: "BinaryState", direction: "in", relatedStateVariable: "BinaryState" },
+      { name: "Duration", direction: "in", relatedStateVariable: "Duration" },
+    ]);
+    expect(actions[1]?.arguments[0]?.direction).toBe("out");
+    expect(actions[2]?.arguments).toEqual([]);
+  });
+
+  test("parses state variables", () => {
+    const { stateVariables } = parseScpd(EVENT_SERVICE_SCPD);
+
+    expect(stateVariables).toEqual([
+      {
+        name: "BinaryState",
+        dataType: "Boolean",
+        sendEvents: true,
+        defaultValue: "0",
+        allowedValues: null,
+        allowedRange: null,
+      },
+      {
+        name: "Duration",
+        dataType: "ui4",
+        sendEvents: false,
+        defaultValue: null,
+        allowedValues: null,
+        allowedRange: { minimum: "0", maximum: "86400", step: null },
+      },
+      {
+        name: "FriendlyName",
+        dataType: "string",
+        sendEvents: false,
+        defaultValue: null,
+        allowedValues: ["Lamp"],
+        allowedRange: null,
+      },
+    ]);
+  });
+
+  test("rejects documents that are not SCPDs", () => {
+    expect(() => parseScpd("<root><device /></root>")).toThrow("Not an SCPD document");
+  });
+});
+
+describe("action helpers", () => {
+  const services = [
+    {
+      serviceId: "urn:Belkin:serviceId:basicevent1",
+      serviceType: "urn:Belkin:service:basicevent:1",
+    },
+    { serviceId: "urn:Belkin:serviceId:metainfo1", serviceType: "urn:Belkin:service:metainfo:1" },
+  ];
+
+  test("finds services by full ID, short ID or type", () => {
+    expect(findService(services, "urn:Belkin:serviceId:basicevent1")).toBe(services[0]);
+    expect(findService(services, "MetaInfo1")).toBe(services[1]);
+    expect(findService(services, "urn:Belkin:service:metainfo:1")).toBe(services[1]);
+    expect(findService(services, "rules1")).toBeUndefined();
+  });
+
+  test("reports only undeclared argument names", () => {
+    const action = parseScpd(EVENT_SERVICE_SCPD).actions[0];
+    if (!action) throw new Error("missing action");
+
+    expect(findUnknownArguments(action, ["BinaryState"])).toEqual([]);
+    expect(findUnknownArguments(action, ["BinaryState", "Brightness"])).toEqual(["Brightness"]);
+  });
+
+  test("orders and escapes arguments as declared", () => {
+    const action = parseScpd(EVENT_SERVICE_SCPD).actions[0];
+    if (!action) throw new Error("missing action");
+
+    expect(buildActionBody(action, { Duration: "<5>", BinaryState: "1" })).toBe(
+      "<BinaryState>1</BinaryState><Duration>&lt;5&gt;</Duration>"
+    );
+  });
+});
+
+describe("ServiceCatalog", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  /**
+   * Serves the basicevent SCPD and answers SOAP calls.
+   */
+  function serveDevice(): { scpdRequests: number; soapBodies: string[] } {
+    const requests = { scpdRequests: 0, soapBodies: [] as string[] };
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        const path = new URL(request.url).pathname;
+        if (path.endsWith(".xml")) {
+          requests.scpdRequests++;
+        }
+        if (path === "/eventservice.xml") {
+          return new Response(EVENT_SERVICE_SCPD);
+        }
+        if (path === "/upnp/control/basicevent1") {
+          requests.soapBodies.push(await request.text());
+          return new Response(
+            `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:SetBinaryStateResponse xmlns:u="urn:Belkin:service:basicevent:1"><BinaryState>1</BinaryState></u:SetBinaryStateResponse></s:Body></s:Envelope>`
+          );
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+    return requests;
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Socket-1_0-TEST",
+      name: "TV Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port: fakeDevice?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "TEST",
+      firmwareVersion: "WeMo_WW_2.00.11452.PVT-OWRT-SNSV2",
+      macAddress: "",
+      services: [
+        {
+          serviceType: "urn:Belkin:service:basicevent:1",
+          serviceId: "urn:Belkin:serviceId:basicevent1",
+          controlURL: "/upnp/control/basicevent1",
+          eventSubURL: "/upnp/event/basicevent1",
+          SCPDURL: "/eventservice.xml",
+        },
+      ],
+      setupUrl: "",
+    };
+  }
+
+  test("downloads descriptions once and caches them", async () => {
+    const requests = serveDevice();
+    const catalog = new ServiceCatalog();
+    const device = createTestDevice();
+
+    const services = await catalog.getServices(device);
+    await catalog.getServices(device);
+
+    expect(services[0]?.error).toBeNull();
+    expect(services[0]?.actions).toHaveLength(3);
+    expect(requests.scpdRequests).toBe(1);
+
+    await catalog.getServices(device, true);
+    expect(requests.scpdRequests).toBe(2);
+  });
+
+  test("reports unreadable descriptions without caching them", async () => {
+    const requests = serveDevice();
+    const catalog = new ServiceCatalog();
+    const device = createTestDevice();
+    const [service] = device.services;
+    if (!service) throw new Error("missing service");
+    service.SCPDURL = "/missing.xml";
+
+    const services = await catalog.getServices(device);
+    await catalog.getServices(device);
+
+    expect(services[0]?.error).toBe("HTTP 404: Not Found");
+    expect(services[0]?.actions).toEqual([]);
+    expect(requests.scpdRequests).toBe(2);
+  });
+
+  test("invokes described actions", async () => {
+    const requests = serveDevice();
+    const catalog = new ServiceCatalog();
+    const device = createTestDevice();
+    const [service] = await catalog.getServices(device);
+    const action = service?.actions.find((a) => a.name === "SetBinaryState");
+    if (!service || !action) throw new Error("missing action");
+
+    const result = await catalog.invoke(device, service, action, { BinaryState: "1" });
+
+    expect(result).toEqual({ BinaryState: 1 });
+    expect(requests.soapBodies[0]).toContain("<BinaryState>1</BinaryState>");
+    expect(requests.soapBodies[0]).not.toContain("<Duration>");
+  });
+});
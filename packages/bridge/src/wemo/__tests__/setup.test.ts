@@ -0,0 +1,79 @@
+/**
+ * Tests for WiFi setup password encryption selection.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_ENCRYPTION,
+  EncryptionMethod,
+  encryptWifiPassword,
+  getEncryptionCandidates,
+  parseJoinStatus,
+  selectEncryption,
+  withSetupLogger,
+} from "../setup";
+
+const NO_FLAGS = { rtos: false, newAlgo: false, binaryOption: false };
+
+describe("selectEncryption", () => {
+  test("picks the method and length suffix from the setup.xml flags", () => {
+    expect(selectEncryption({ ...NO_FLAGS, binaryOption: true, rtos: true })).toEqual({
+      method: EncryptionMethod.METHOD_3,
+      addLengths: true,
+    });
+    expect(selectEncryption({ ...NO_FLAGS, rtos: true })).toEqual({
+      method: EncryptionMethod.METHOD_2,
+      addLengths: false,
+    });
+    expect(selectEncryption({ ...NO_FLAGS, newAlgo: true })).toEqual({
+      method: EncryptionMethod.METHOD_2,
+      addLengths: true,
+    });
+    expect(selectEncryption(NO_FLAGS)).toEqual({
+      method: EncryptionMethod.METHOD_1,
+      addLengths: true,
+    });
+  });
+});
+
+describe("getEncryptionCandidates", () => {
+  test("tries the preferred encryption first and each other one once", () => {
+    const preferred = { method: EncryptionMethod.METHOD_3, addLengths: true };
+    const candidates = getEncryptionCandidates(preferred);
+
+    expect(candidates[0]).toEqual(preferred);
+    expect(candidates[1]).toEqual(DEFAULT_ENCRYPTION);
+    expect(candidates).toHaveLength(4);
+    expect(new Set(candidates.map((c) => `${c.method}:${c.addLengths}`)).size).toBe(4);
+  });
+});
+
+describe("parseJoinStatus", () => {
+  const response = (status: string) =>
+    `<s:Envelope><s:Body><u:GetNetworkStatusResponse><NetworkStatus>${status}</NetworkStatus></u:GetNetworkStatusResponse></s:Body></s:Envelope>`;
+
+  test("reads whether the device joined the network", () => {
+    expect(parseJoinStatus(response("1"))).toBe("connected");
+    expect(parseJoinStatus(response("2"))).toBe("failed");
+    expect(parseJoinStatus(response("3"))).toBe("failed");
+    expect(parseJoinStatus(response("0"))).toBe("pending");
+    expect(parseJoinStatus("<s:Envelope></s:Envelope>")).toBe("pending");
+  });
+});
+
+describe("withSetupLogger", () => {
+  test("sends setup progress to the given logger", async () => {
+    const lines: unknown[][] = [];
+
+    await withSetupLogger(
+      (...args) => lines.push(args),
+      async () => {
+        await Bun.sleep(1);
+        encryptWifiPassword("hunter22", "94103EA20B77", "221517K0101769");
+      }
+    );
+
+    expect(lines.length).toBeGreaterThan(0);
+    expect(lines.every((args) => String(args[0]).startsWith("[Encrypt]"))).toBe(true);
+  });
+});
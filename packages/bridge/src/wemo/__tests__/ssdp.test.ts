@@ -0,0 +1,177 @@
+/**
+ * Tests for the passive SSDP listener.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import * as dgram from "node:dgram";
+import { SsdpListener, parseNotify } from "../ssdp";
+import type { WemoDevice } from "../types";
+
+const UDN = "uuid:Socket-1_0-221517K0101769";
+
+const SETUP_XML = `<?xml version="1.0"?>
+<root xmlns="urn:Belkin:device-1-0">
+  <device>
+    <deviceType>urn:Belkin:device:controllee:1</deviceType>
+    <friendlyName>TV Plug</friendlyName>
+    <manufacturer>Belkin International Inc.</manufacturer>
+    <modelName>Socket</modelName>
+    <UDN>${UDN}</UDN>
+    <serialNumber>221517K0101769</serialNumber>
+    <serviceList />
+  </device>
+</root>`;
+
+function notify(nts: string, headers: Record<string, string> = {}): string {
+  return [
+    "NOTIFY * HTTP/1.1",
+    "HOST: 239.255.255.250:1900",
+    "NT: urn:Belkin:service:basicevent:1",
+    `NTS: ${nts}`,
+    `USN: ${UDN}::urn:Belkin:service:basicevent:1`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    "",
+    "",
+  ].join("\r\n");
+}
+
+describe("parseNotify", () => {
+  test("parses alive announcements", () => {
+    const parsed = parseNotify(
+      notify("ssdp:alive", { LOCATION: "http://10.0.0.5:49153/setup.xml" })
+    );
+
+    expect(parsed).toEqual({
+      nts: "ssdp:alive",
+      nt: "urn:Belkin:service:basicevent:1",
+      usn: `${UDN}::urn:Belkin:service:basicevent:1`,
+      udn: UDN,
+      location: "http://10.0.0.5:49153/setup.xml",
+      isBelkin: true,
+    });
+  });
+
+  test("recognises WeMo root device announcements by their user agent", () => {
+    const rootDevice = [
+      "NOTIFY * HTTP/1.1",
+      "NT: upnp:rootdevice",
+      "NTS: ssdp:alive",
+      `USN: ${UDN}::upnp:rootdevice`,
+      "X-User-Agent: redsonic",
+      "",
+    ].join("\r\n");
+    const other = rootDevice.replace("X-User-Agent: redsonic", "SERVER: Linux UPnP/1.0 Sonos");
+
+    expect(parseNotify(rootDevice)?.isBelkin).toBe(true);
+    expect(parseNotify(other)?.isBelkin).toBe(false);
+  });
+
+  test("ignores searches and responses", () => {
+    expect(parseNotify('M-SEARCH * HTTP/1.1\r\nMAN: "ssdp:discover"\r\n\r\n')).toBeNull();
+    expect(parseNotify("HTTP/1.1 200 OK\r\nUSN: uuid:x\r\n\r\n")).toBeNull();
+    expect(parseNotify(notify("ssdp:update"))).toBeNull();
+  });
+});
+
+describe("SsdpListener", () => {
+  let listener: SsdpListener | null = null;
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+  let sender: dgram.Socket | null = null;
+
+  afterEach(() => {
+    listener?.stop();
+    fakeDevice?.stop(true);
+    sender?.close();
+    listener = null;
+    fakeDevice = null;
+    sender = null;
+  });
+
+  async function startListener(): Promise<SsdpListener> {
+    listener = new SsdpListener({ port: 0 });
+    await listener.start();
+    return listener;
+  }
+
+  function send(message: string): void {
+    sender ??= dgram.createSocket("udp4");
+    sender.send(message, listener?.port ?? 0, "127.0.0.1");
+  }
+
+  function serveDevice(): { url: string; requests: () => number } {
+    let requests = 0;
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: () => {
+        requests++;
+        return new Response(SETUP_XML);
+      },
+    });
+    return { url: `http://127.0.0.1:${fakeDevice.port}/setup.xml`, requests: () => requests };
+  }
+
+  function nextEvent<T extends unknown[]>(name: "online" | "offline"): Promise<T> {
+    return new Promise((resolve) =>
+      listener?.once(name, (...args) => resolve(args as unknown as T))
+    );
+  }
+
+  test("reports devices that announce themselves, once per burst", async () => {
+    await startListener();
+    const device = serveDevice();
+
+    const online = nextEvent<[WemoDevice, unknown]>("online");
+    send(notify("ssdp:alive", { LOCATION: device.url }));
+    send(notify("ssdp:alive", { LOCATION: device.url }));
+    const [announced, previous] = await online;
+
+    expect(announced.id).toBe(UDN);
+    expect(announced.host).toBe("127.0.0.1");
+    expect(previous).toBeNull();
+
+    // Repeats of a known location are not fetched again
+    send(notify("ssdp:alive", { LOCATION: device.url }));
+    await Bun.sleep(50);
+    expect(device.requests()).toBe(1);
+    expect(listener?.getOnlineDevices().map((d) => d.id)).toEqual([UDN]);
+  });
+
+  test("reports devices that leave", async () => {
+    await startListener();
+    const device = serveDevice();
+
+    const online = nextEvent("online");
+    send(notify("ssdp:alive", { LOCATION: device.url }));
+    await online;
+
+    const offline = nextEvent<[string, WemoDevice | null]>("offline");
+    let departures = 0;
+    listener?.on("offline", () => {
+      departures++;
+    });
+    send(notify("ssdp:byebye"));
+    send(notify("ssdp:byebye"));
+    const [udn, left] = await offline;
+    await Bun.sleep(50);
+
+    expect(udn).toBe(UDN);
+    expect(left?.name).toBe("TV Plug");
+    expect(departures).toBe(1);
+    expect(listener?.getOnlineDevices()).toEqual([]);
+  });
+
+  test("ignores locations on another host than the sender", async () => {
+    await startListener();
+    serveDevice();
+    let announced = false;
+    listener?.on("online", () => {
+      announced = true;
+    });
+
+    send(notify("ssdp:alive", { LOCATION: `http://10.255.255.1:${fakeDevice?.port}/setup.xml` }));
+    await Bun.sleep(50);
+
+    expect(announced).toBe(false);
+  });
+});
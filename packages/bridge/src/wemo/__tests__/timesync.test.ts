@@ -0,0 +1,122 @@
+/**
+ * Tests for WeMo device time synchronization.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  TimeSyncDeviceClient,
+  TimeSyncManager,
+  formatTimeZone,
+  getHostTimeSettings,
+} from "../timesync";
+import { type WemoDevice, WemoDeviceType } from "../types";
+
+describe("formatTimeZone", () => {
+  test("formats offsets as decimal hours", () => {
+    expect(formatTimeZone(-480)).toBe("-8.00");
+    expect(formatTimeZone(330)).toBe("5.50");
+    expect(formatTimeZone(0)).toBe("0.00");
+  });
+});
+
+describe("getHostTimeSettings", () => {
+  test("reports the current time in Unix seconds", () => {
+    const now = new Date("2024-03-01T12:00:00.750Z");
+    expect(getHostTimeSettings(now).utc).toBe(1709294400);
+  });
+
+  test("reports DST only in zones that observe it", () => {
+    const settings = getHostTimeSettings();
+    if (!settings.dstSupported) {
+      expect(settings.dst).toBe(false);
+    }
+  });
+});
+
+describe("TimeSyncManager", () => {
+  let fakeDevice: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    fakeDevice?.stop(true);
+    fakeDevice = null;
+  });
+
+  /**
+   * Serves timesync1 and a setup.xml whose Date header is off by the given drift.
+   */
+  function serveDevice(driftSeconds = 0): { syncBodies: string[] } {
+    const syncBodies: string[] = [];
+
+    fakeDevice = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (request) => {
+        if (request.method === "GET") {
+          const date = new Date(Date.now() + driftSeconds * 1000).toUTCString();
+          return new Response("<root/>", { headers: { Date: date } });
+        }
+
+        syncBodies.push(await request.text());
+        return new Response(
+          '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><u:TimeSyncResponse xmlns:u="urn:Belkin:service:timesync:1"></u:TimeSyncResponse></s:Body></s:Envelope>'
+        );
+      },
+    });
+
+    return { syncBodies };
+  }
+
+  function createTestDevice(): WemoDevice {
+    return {
+      id: "uuid:Socket-1_0-TEST",
+      name: "TV Plug",
+      deviceType: WemoDeviceType.Switch,
+      host: "127.0.0.1",
+      port: fakeDevice?.port ?? 0,
+      manufacturer: "Belkin International Inc.",
+      model: "Socket",
+      serialNumber: "TEST",
+      firmwareVersion: "",
+      macAddress: "",
+      services: [],
+      setupUrl: "",
+    };
+  }
+
+  test("pushes the host time and time zone", async () => {
+    const device = serveDevice();
+    const manager = new TimeSyncManager();
+
+    const result = await manager.sync(createTestDevice());
+    const settings = getHostTimeSettings();
+
+    expect(device.syncBodies).toHaveLength(1);
+    expect(device.syncBodies[0]).toContain(`<TimeZone>${settings.timeZone}</TimeZone>`);
+    expect(device.syncBodies[0]).toContain(`<dst>${settings.dst ? 1 : 0}</dst>`);
+    expect(device.syncBodies[0]).toMatch(/<UTC>\d+<\/UTC>/);
+    expect(result).toMatchObject({ deviceId: "uuid:Socket-1_0-TEST", timeZone: settings.timeZone });
+    expect(manager.getLastSync("uuid:Socket-1_0-TEST")).toEqual(result);
+  });
+
+  test("skips devices synced recently unless forced", async () => {
+    const device = serveDevice();
+    const manager = new TimeSyncManager({ minInterval: 60000 });
+
+    await manager.sync(createTestDevice());
+    expect(await manager.sync(createTestDevice())).toBeNull();
+    expect(device.syncBodies).toHaveLength(1);
+
+    expect(await manager.sync(createTestDevice(), true)).not.toBeNull();
+    expect(device.syncBodies).toHaveLength(2);
+  });
+
+  test("reads clock drift from the Date header", async () => {
+    serveDevice(-120);
+
+    const clock = await new TimeSyncDeviceClient(createTestDevice()).readClock();
+
+    // The header has one-second resolution
+    expect(clock.driftSeconds).toBeGreaterThanOrEqual(-121);
+    expect(clock.driftSeconds).toBeLessThanOrEqual(-119);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * WeMo Device Adoption
+ *
+ * After a device is sent its WiFi credentials it leaves its setup network
+ * and joins the home network under an address nobody knows yet. Once the
+ * host is back on the home network, the device is looked for by its serial
+ * number and MAC address: with SSDP, in announcements passed in with
+ * offer(), and by probing the address the ARP cache has for its MAC.
+ */
+
+import { EventEmitter } from "node:events";
+import { readFile } from "node:fs/promises";
+import { platform } from "node:os";
+import { WEMO_PORTS, discoverDevices, getDeviceByAddress } from "./discovery";
+import { normalizeMac } from "./identity";
+import { isOnWemoApNetwork } from "./setup";
+import type { WemoDevice } from "./types";
+
+/**
+ * How often to look for devices being adopted.
+ */
+const DEFAULT_POLL_INTERVAL = 10000;
+
+/**
+ * How long to look before giving up. The host has to rejoin the home
+ * network first, which the user may take a while to do.
+ */
+const DEFAULT_ADOPTION_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * How long each SSDP search listens for responses.
+ */
+const SEARCH_TIMEOUT = 3000;
+
+/**
+ * How long `arp` may run before the ARP cache is skipped for this search.
+ */
+const ARP_TIMEOUT = 2000;
+
+/**
+ * Status of an adoption.
+ * - waiting: the device has not been found on the home network yet
+ * - online: the device was found and saved
+ * - expired: the device was not found in time
+ */
+export type AdoptionStatus = "waiting" | "online" | "expired";
+
+/**
+ * A device set up through the setup flow, to be found on the home network.
+ */
+export interface AdoptionRequest {
+  /** Serial number from setup.xml */
+  serial: string;
+  /** MAC address from setup.xml */
+  mac: string;
+  /** Name to save the device under */
+  name: string;
+}
+
+/**
+ * An adoption in progress or finished.
+ */
+export interface AdoptionJob extends AdoptionRequest {
+  /** Current status */
+  status: AdoptionStatus;
+  /** Address the device was found at */
+  host: string | null;
+  port: number | null;
+  /** ID the device was saved under */
+  deviceId: string | null;
+  /** When the adoption was started (ISO) */
+  startedAt: string;
+  /** When the status last changed (ISO) */
+  updatedAt: string;
+}
+
+/**
+ * Options for the adoption watcher.
+ */
+export interface AdoptionOptions {
+  /** Milliseconds between searches (default: 10000) */
+  pollInterval?: number;
+  /** Milliseconds before an adoption expires (default: 10 minutes) */
+  timeout?: number;
+}
+
+/**
+ * Events emitted by the adoption watcher.
+ */
+export interface AdoptionEvents {
+  /** A job changed status */
+  progress: [AdoptionJob];
+  /** A device was found on the home network and should be saved */
+  found: [AdoptionJob, WemoDevice];
+}
+
+/**
+ * Checks whether a device description belongs to a device being adopted.
+ */
+export function matchesAdoption(
+  device: Pick<WemoDevice, "serialNumber" | "macAddress">,
+  request: Pick<AdoptionRequest, "serial" | "mac">
+): boolean {
+  if (request.serial && device.serialNumber === request.serial) {
+    return true;
+  }
+  const mac = normalizeMac(request.mac);
+  return mac !== null && normalizeMac(device.macAddress) === mac;
+}
+
+/**
+ * Parses the host's ARP cache into a map of MAC addresses to IPv4
+ * addresses. Reads /proc/net/arp, the `arp -an` output of macOS (which
+ * drops leading zeros) and the `arp -a` output of Windows (which separates
+ * with dashes).
+ */
+export function parseArpTable(output: string): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (const line of output.split("\n")) {
+    const ip = line.match(/\b(\d{1,3}(?:\.\d{1,3}){3})\b/)?.[1];
+    const rawMac = line.match(/\b([0-9a-f]{1,2}(?:[:-][0-9a-f]{1,2}){5})\b/i)?.[1];
+    if (!ip || !rawMac) {
+      continue;
+    }
+
+    const mac = normalizeMac(
+      rawMac
+        .split(/[:-]/)
+        .map((octet) => octet.padStart(2, "0"))
+        .join("")
+    );
+    if (mac) {
+      entries.set(mac, ip);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Reads the host's ARP cache, or an empty string if it can't be read.
+ */
+async function readArpTable(): Promise<string> {
+  try {
+    if (platform() === "linux") {
+      return await readFile("/proc/net/arp", "utf-8");
+    }
+
+    // -n skips the reverse DNS lookup macOS does for every entry; Windows
+    // doesn't look names up and has no such flag
+    const command = platform() === "win32" ? ["arp", "-a"] : ["arp", "-an"];
+    const proc = Bun.spawn(command, {
+      stdout: "pipe",
+      stderr: "ignore",
+      timeout: ARP_TIMEOUT,
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    return proc.signalCode ? "" : output;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Internal bookkeeping for an adoption.
+ */
+interface RunningAdoption {
+  job: AdoptionJob;
+  deadline: number;
+}
+
+/**
+ * Watches for devices that were just set up to appear on the home network.
+ *
+ * @example
+ * ```ts
+ * const adoptions = new AdoptionWatcher();
+ * adoptions.on("found", (job, device) => save(job.name, device));
+ * adoptions.watch({ serial: info.serial, mac: info.mac, name: "Porch Light" });
+ * ```
+ */
+export class AdoptionWatcher extends EventEmitter<AdoptionEvents> {
+  private readonly options: Required<AdoptionOptions>;
+  private readonly adoptions = new Map<string, RunningAdoption>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private searching = false;
+
+  constructor(options: AdoptionOptions = {}) {
+    super();
+    this.options = {
+      pollInterval: options.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      timeout: options.timeout ?? DEFAULT_ADOPTION_TIMEOUT,
+    };
+  }
+
+  /**
+   * Gets all adoptions, newest first. Finished ones are kept until the
+   * watcher stops.
+   */
+  getJobs(): AdoptionJob[] {
+    return [...this.adoptions.values()]
+      .map((adoption) => ({ ...adoption.job }))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Gets the adoption of a device by serial number, if any.
+   */
+  getJob(serial: string): AdoptionJob | null {
+    const adoption = this.adoptions.get(serial);
+    return adoption ? { ...adoption.job } : null;
+  }
+
+  /**
+   * Starts looking for a device. Watching a device again restarts its job.
+   *
+   * @param timeout - Milliseconds before the job expires (default: the watcher's timeout)
+   * @returns The new job
+   */
+  watch(request: AdoptionRequest, timeout = this.options.timeout): AdoptionJob {
+    const now = new Date().toISOString();
+    const adoption: RunningAdoption = {
+      job: {
+        ...request,
+        status: "waiting",
+        host: null,
+        port: null,
+        deviceId: null,
+        startedAt: now,
+        updatedAt: now,
+      },
+      deadline: Date.now() + timeout,
+    };
+
+    this.adoptions.set(request.serial, adoption);
+    this.emit("progress", { ...adoption.job });
+    this.schedulePoll();
+
+    return { ...adoption.job };
+  }
+
+  /**
+   * Checks a device seen on the network, e.g. in an SSDP announcement,
+   * against the devices being adopted.
+   *
+   * @returns Whether the device was being adopted
+   */
+  offer(device: WemoDevice): boolean {
+    for (const adoption of this.adoptions.values()) {
+      if (adoption.job.status === "waiting" && matchesAdoption(device, adoption.job)) {
+        this.adopt(adoption, device);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Stops watching and forgets all adoptions.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.adoptions.clear();
+  }
+
+  /**
+   * Schedules the next search while any device is still waiting.
+   */
+  private schedulePoll(): void {
+    if (this.timer || this.waiting().length === 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, this.options.pollInterval);
+  }
+
+  private waiting(): RunningAdoption[] {
+    return [...this.adoptions.values()].filter((adoption) => adoption.job.status === "waiting");
+  }
+
+  /**
+   * Expires overdue adoptions and searches for the rest.
+   */
+  private async poll(): Promise<void> {
+    for (const adoption of this.waiting()) {
+      if (Date.now() >= adoption.deadline) {
+        this.setStatus(adoption, "expired");
+      }
+    }
+
+    // Nothing on the home network can be reached until the host rejoins it
+    if (!this.searching && this.waiting().length > 0 && !isOnWemoApNetwork()) {
+      this.searching = true;
+      try {
+        await this.search();
+      } catch (error) {
+        console.warn("[Adoption] Search failed:", error);
+      } finally {
+        this.searching = false;
+      }
+    }
+
+    this.schedulePoll();
+  }
+
+  /**
+   * Looks for waiting devices with SSDP, then probes the addresses the ARP
+   * cache has for the ones SSDP did not find.
+   */
+  private async search(): Promise<void> {
+    const { devices } = await discoverDevices({ timeout: SEARCH_TIMEOUT });
+    for (const device of devices) {
+      this.offer(device);
+    }
+
+    const remaining = this.waiting();
+    if (remaining.length === 0) {
+      return;
+    }
+
+    const arp = parseArpTable(await readArpTable());
+    await Promise.all(
+      remaining.map(async (adoption) => {
+        const mac = normalizeMac(adoption.job.mac);
+        const host = mac ? arp.get(mac) : undefined;
+        if (!host) {
+          return;
+        }
+
+        const candidates = await Promise.all(
+          WEMO_PORTS.map((port) => getDeviceByAddress(host, port).catch(() => null))
+        );
+        const device = candidates.find(
+          (candidate): candidate is WemoDevice =>
+            candidate !== null && matchesAdoption(candidate, adoption.job)
+        );
+        if (device && adoption.job.status === "waiting") {
+          this.adopt(adoption, device);
+        }
+      })
+    );
+  }
+
+  /**
+   * Marks a device as found and hands it over to be saved.
+   */
+  private adopt(adoption: RunningAdoption, device: WemoDevice): void {
+    adoption.job.host = device.host;
+    adoption.job.port = device.port;
+    adoption.job.deviceId = device.id;
+    console.log(`[Adoption] ${adoption.job.name} is online at ${device.host}:${device.port}`);
+
+    this.emit("found", { ...adoption.job }, device);
+    this.setStatus(adoption, "online");
+  }
+
+  /**
+   * Updates a job's status and notifies listeners.
+   */
+  private setStatus(adoption: RunningAdoption, status: AdoptionStatus): void {
+    adoption.job.status = status;
+    adoption.job.updatedAt = new Date().toISOString();
+    this.emit("progress", { ...adoption.job });
+  }
+}
+
+/**
+ * Singleton watcher instance.
+ */
+let watcherInstance: AdoptionWatcher | null = null;
+
+/**
+ * Gets the adoption watcher instance (singleton).
+ */
+export function getAdoptionWatcher(): AdoptionWatcher {
+  if (!watcherInstance) {
+    watcherInstance = new AdoptionWatcher();
+  }
+  return watcherInstance;
+}
@@ -0,0 +1,170 @@
+/**
+ * WeMo Device Attributes
+ *
+ * Maker, Heater and Humidifier devices describe their state as a list of
+ * named attributes on the deviceevent1 service instead of dedicated actions.
+ * The list is XML sent as escaped text inside the SOAP argument:
+ *
+ * ```xml
+ * <attributeList>&lt;attribute&gt;&lt;name&gt;Switch&lt;/name&gt;&lt;value&gt;1&lt;/value&gt;&lt;/attribute&gt;</attributeList>
+ * ```
+ */
+
+import { type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { extractTextValue } from "./soap";
+import type { WemoDevice } from "./types";
+
+/**
+ * deviceevent1 service endpoint.
+ */
+const DEVICE_EVENT_SERVICE = "urn:Belkin:service:deviceevent:1";
+const DEVICE_EVENT_CONTROL_URL = "/upnp/control/deviceevent1";
+
+/**
+ * Attribute values by name, as strings.
+ */
+export type DeviceAttributes = Record<string, string>;
+
+/**
+ * Decodes XML entities. Some firmware escapes the list twice, so the parsed
+ * SOAP value may still be escaped.
+ */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Escapes text for use inside XML.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Parses an attribute list.
+ *
+ * @example
+ * ```ts
+ * parseAttributeList("<attribute><name>Switch</name><value>1</value></attribute>");
+ * // { Switch: "1" }
+ * ```
+ */
+export function parseAttributeList(raw: string): DeviceAttributes {
+  let xml = raw;
+  // Unescape until the tags are visible (at most twice in practice)
+  for (let i = 0; i < 3 && !xml.includes("<attribute") && xml.includes("&"); i++) {
+    xml = unescapeXml(xml);
+  }
+
+  const attributes: DeviceAttributes = {};
+  const pattern =
+    /<attribute>\s*<name>([^<]*)<\/name>\s*<value>([^<]*)<\/value>[\s\S]*?<\/attribute>/g;
+  for (const match of xml.matchAll(pattern)) {
+    const name = (match[1] ?? "").trim();
+    if (name) {
+      attributes[name] = unescapeXml((match[2] ?? "").trim());
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Formats attributes as the escaped list SetAttributes expects.
+ */
+export function formatAttributeList(attributes: DeviceAttributes): string {
+  const xml = Object.entries(attributes)
+    .map(
+      ([name, value]) =>
+        `<attribute><name>${escapeXml(name)}</name><value>${escapeXml(value)}</value></attribute>`
+    )
+    .join("");
+  return escapeXml(xml);
+}
+
+/**
+ * Reads an attribute as a number.
+ *
+ * @returns The number, or null if the attribute is missing or not numeric
+ */
+export function numericAttribute(attributes: DeviceAttributes, name: string): number | null {
+  const value = attributes[name];
+  if (value === undefined || value.trim() === "") {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Client for the deviceevent1 attribute actions.
+ *
+ * @example
+ * ```ts
+ * const client = new AttributeDeviceClient(device);
+ * const attributes = await client.getAttributes();
+ * await client.setAttributes({ FanMode: "3" });
+ * ```
+ */
+export class AttributeDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the deviceevent1 service endpoint for this device.
+   */
+  private get deviceEventEndpoint(): ServiceEndpoint {
+    const service = this.info.services.find((s) => s.serviceType === DEVICE_EVENT_SERVICE);
+    return {
+      serviceType: DEVICE_EVENT_SERVICE,
+      controlURL: service?.controlURL ?? DEVICE_EVENT_CONTROL_URL,
+    };
+  }
+
+  /**
+   * Gets all attributes the device reports.
+   */
+  async getAttributes(): Promise<DeviceAttributes> {
+    interface GetAttributesResponse {
+      attributeList?: unknown;
+    }
+
+    const response = await this.executeWithRetry<GetAttributesResponse>(
+      "GetAttributes",
+      undefined,
+      undefined,
+      this.deviceEventEndpoint
+    );
+    return parseAttributeList(extractTextValue(response.attributeList));
+  }
+
+  /**
+   * Sets attributes. Attributes that are not given keep their values.
+   */
+  async setAttributes(attributes: DeviceAttributes): Promise<void> {
+    if (Object.keys(attributes).length === 0) {
+      return;
+    }
+    await this.executeWithRetry(
+      "SetAttributes",
+      `<attributeList>${formatAttributeList(attributes)}</attributeList>`,
+      undefined,
+      this.deviceEventEndpoint
+    );
+  }
+}
+
+/**
+ * Checks if a device exposes the deviceevent1 attribute actions.
+ *
+ * @param device - The device to check
+ * @returns true if attributes can be read and written
+ */
+export function supportsAttributes(device: Pick<WemoDevice, "services">): boolean {
+  return device.services.some((s) => s.serviceType === DEVICE_EVENT_SERVICE);
+}
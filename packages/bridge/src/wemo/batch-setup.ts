@@ -0,0 +1,352 @@
+/**
+ * Batch WiFi Setup
+ *
+ * Sets up many factory-fresh devices with the same home network. A session
+ * keeps the network and password in memory, names each device from a list
+ * or pattern when it is first detected, and keeps a report of how each one
+ * went. Devices are taken one at a time: the host joins a device's setup
+ * network (Wemo.XXX.XXX), the session provisions it, and the host moves on
+ * to the next one.
+ *
+ * If the host loses the setup network before a device has joined, the
+ * device is marked interrupted and is set up again, under the same name,
+ * the next time it is detected. The report can be saved and passed back in
+ * to resume a session in a new process; it never contains the password.
+ */
+
+import {
+  type SetupDetectionResult,
+  type SetupDeviceInfo,
+  type WifiConnectParams,
+  type WifiConnectResultExtended,
+  type WifiEncryption,
+  closeSetup,
+  detectSetupDevice,
+  isOnWemoApNetwork,
+  logSetup,
+  selectEncryption,
+  sendWifiConnectCommand,
+  waitForJoinStatus,
+} from "./setup";
+
+/**
+ * How long to keep waiting for a device to join after the credentials were
+ * accepted, on top of the wait in sendWifiConnectCommand.
+ */
+const DEFAULT_JOIN_TIMEOUT = 30000;
+
+/**
+ * Outcome for a device in a batch.
+ * - joined: the device reported joining the home network
+ * - sent: the credentials were accepted but joining was not confirmed
+ * - failed: the device could not join, e.g. because of a wrong password
+ * - interrupted: the host lost the device's setup network midway; the
+ *   device is set up again when it is next detected
+ */
+export type BatchDeviceStatus = "joined" | "sent" | "failed" | "interrupted";
+
+/**
+ * Home network every device in the batch is sent to.
+ */
+export type BatchCredentials = Omit<WifiConnectParams, "mac" | "serial" | "encryption">;
+
+/**
+ * How devices are named. Names from the list are used in order; once it
+ * runs out the pattern is used, and without a pattern the device's own
+ * setup.xml name.
+ */
+export interface BatchNaming {
+  /** Names for the devices, in the order they are set up */
+  names?: string[];
+  /** Name pattern; `{n}` is the device's position and `{serial}` its serial number */
+  pattern?: string;
+}
+
+/**
+ * Options for a batch session.
+ */
+export interface BatchSetupOptions extends BatchNaming {
+  /** Milliseconds to keep waiting for each device to join (default: 30000) */
+  joinTimeout?: number;
+  /** Encryption to use for a device, e.g. one its model accepted before (default: from setup.xml) */
+  encryptionFor?: (device: SetupDeviceInfo) => WifiEncryption | null;
+  /** Report of an earlier session to continue */
+  report?: BatchSetupReport;
+}
+
+/**
+ * A device in a batch.
+ */
+export interface BatchDeviceEntry {
+  /** Position in the batch, from 1 */
+  index: number;
+  /** Name the device is saved under */
+  name: string;
+  /** Device info from setup.xml */
+  device: SetupDeviceInfo;
+  /** Outcome of the last attempt */
+  status: BatchDeviceStatus;
+  /** How many times the device was set up */
+  attempts: number;
+  /** Encryption the device accepted */
+  encryption: WifiEncryption | null;
+  /** Encryptions tried in the last attempt */
+  encryptionsTried: WifiEncryption[];
+  /** Why the last attempt failed */
+  error: string | null;
+  /** When the device was first detected (ISO) */
+  startedAt: string;
+  /** When the last attempt finished (ISO) */
+  updatedAt: string;
+}
+
+/**
+ * Report of a batch session.
+ */
+export interface BatchSetupReport {
+  /** Home network the devices are sent to */
+  ssid: string;
+  /** When the session was started (ISO) */
+  startedAt: string;
+  /** When a device was last set up (ISO) */
+  updatedAt: string;
+  /** Devices in the order they were first detected */
+  devices: BatchDeviceEntry[];
+  /** Number of devices per status */
+  summary: Record<BatchDeviceStatus, number>;
+}
+
+/**
+ * Result of setting up the next device.
+ */
+export interface BatchStep {
+  /** The device's entry, or null if no device was detected */
+  entry: BatchDeviceEntry | null;
+  /** Whether the device was left alone because it already joined or failed in this session */
+  skipped: boolean;
+  /** Why no device was detected */
+  error?: string;
+}
+
+/**
+ * Picks the name for the device at a position in the batch.
+ */
+export function assignBatchName(
+  index: number,
+  device: Pick<SetupDeviceInfo, "name" | "serial">,
+  naming: BatchNaming
+): string {
+  const listed = naming.names?.[index - 1]?.trim();
+  if (listed) {
+    return listed;
+  }
+  if (naming.pattern?.trim()) {
+    return naming.pattern
+      .trim()
+      .replaceAll("{n}", String(index))
+      .replaceAll("{serial}", device.serial);
+  }
+  return device.name || "Wemo Device";
+}
+
+/**
+ * Gets a device's batch status from the result of sending it the credentials.
+ */
+function toBatchStatus(result: WifiConnectResultExtended, interrupted: boolean): BatchDeviceStatus {
+  if (result.success) {
+    return result.connected ? "joined" : "sent";
+  }
+  return interrupted ? "interrupted" : "failed";
+}
+
+/**
+ * Sets up devices one after another with the same home network.
+ *
+ * @example
+ * ```ts
+ * const batch = new BatchSetupSession(credentials, { pattern: "Plug {n}" });
+ * // With the host on a device's setup network:
+ * const step = await batch.provisionNext();
+ * console.log(step.entry?.name, step.entry?.status);
+ * ```
+ */
+export class BatchSetupSession {
+  private readonly credentials: BatchCredentials;
+  private readonly naming: BatchNaming;
+  private readonly joinTimeout: number;
+  private readonly encryptionFor: (device: SetupDeviceInfo) => WifiEncryption | null;
+  private readonly entries: BatchDeviceEntry[];
+  private readonly startedAt: string;
+  private updatedAt: string;
+  private busy = false;
+
+  constructor(credentials: BatchCredentials, options: BatchSetupOptions = {}) {
+    this.credentials = { ...credentials };
+    this.naming = {
+      ...(options.names ? { names: [...options.names] } : {}),
+      ...(options.pattern ? { pattern: options.pattern } : {}),
+    };
+    this.joinTimeout = options.joinTimeout ?? DEFAULT_JOIN_TIMEOUT;
+    this.encryptionFor = options.encryptionFor ?? (() => null);
+
+    const now = new Date().toISOString();
+    this.entries = options.report?.devices.map((entry) => ({ ...entry })) ?? [];
+    this.startedAt = options.report?.startedAt ?? now;
+    this.updatedAt = options.report?.updatedAt ?? now;
+  }
+
+  /**
+   * Whether a device is being set up right now.
+   */
+  isBusy(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Gets the session report.
+   */
+  getReport(): BatchSetupReport {
+    const summary: Record<BatchDeviceStatus, number> = {
+      joined: 0,
+      sent: 0,
+      failed: 0,
+      interrupted: 0,
+    };
+    for (const entry of this.entries) {
+      summary[entry.status]++;
+    }
+
+    return {
+      ssid: this.credentials.ssid,
+      startedAt: this.startedAt,
+      updatedAt: this.updatedAt,
+      devices: this.entries.map((entry) => ({ ...entry })),
+      summary,
+    };
+  }
+
+  /**
+   * Sets up the device whose setup network the host is on.
+   *
+   * @param retryFailed - Set up the device again if it failed before
+   * @throws Error if another device is still being set up
+   */
+  async provisionNext(retryFailed = false): Promise<BatchStep> {
+    if (this.busy) {
+      throw new Error("A device is already being set up");
+    }
+    this.busy = true;
+
+    try {
+      const detection = await detectSetupDevice();
+      const info = detection.device;
+      if (!info) {
+        return { entry: null, skipped: false, error: detection.error ?? "No WeMo device found" };
+      }
+
+      // A device that could not join would fail the same way with the same password
+      const existing = this.entries.find((entry) => entry.device.serial === info.serial);
+      if (existing?.status === "joined" || (existing?.status === "failed" && !retryFailed)) {
+        return { entry: { ...existing }, skipped: true };
+      }
+
+      logSetup(`[Batch Setup] Setting up ${info.name} (${info.serial})`);
+
+      const params: WifiConnectParams = {
+        ...this.credentials,
+        mac: info.mac,
+        serial: info.serial,
+        encryption: this.encryptionFor(info) ?? selectEncryption(info),
+      };
+
+      let result = await sendWifiConnectCommand(params);
+      if (result.success && !result.connected) {
+        const joinStatus = await waitForJoinStatus(this.joinTimeout);
+        if (joinStatus === "connected") {
+          result = { ...result, connected: true };
+        } else if (joinStatus === "failed") {
+          result = {
+            ...result,
+            success: false,
+            error: "The device could not join the network. Check the WiFi password.",
+          };
+        }
+      }
+
+      if (result.connected) {
+        // Ends setup mode so the device drops its setup network
+        const closed = await closeSetup();
+        if (!closed.success) {
+          logSetup("[Batch Setup] CloseSetup failed:", closed.error ?? closed.responseStatus);
+        }
+      }
+
+      const interrupted = !result.success && !isOnWemoApNetwork();
+      const entry = this.record(detection, result, interrupted);
+      logSetup(`[Batch Setup] ${entry.name}: ${entry.status}`);
+
+      return { entry, skipped: false };
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Records the outcome of setting up a detected device. A device seen for
+   * the first time is added and named; a device seen before keeps its name.
+   *
+   * @param interrupted - Whether the host lost the setup network, so a
+   *   failure should be retried rather than reported as final
+   * @returns The device's entry
+   * @throws Error if no device was detected
+   */
+  record(
+    detection: SetupDetectionResult,
+    result: WifiConnectResultExtended,
+    interrupted = false
+  ): BatchDeviceEntry {
+    const info = detection.device;
+    if (!info) {
+      throw new Error("No device was detected");
+    }
+
+    const now = new Date().toISOString();
+    let entry = this.entries.find((candidate) => candidate.device.serial === info.serial);
+    if (!entry) {
+      const index = this.entries.length + 1;
+      entry = {
+        index,
+        name: assignBatchName(index, info, this.naming),
+        device: info,
+        status: "failed",
+        attempts: 0,
+        encryption: null,
+        encryptionsTried: [],
+        error: null,
+        startedAt: now,
+        updatedAt: now,
+      };
+      this.entries.push(entry);
+    }
+
+    entry.device = info;
+    entry.attempts++;
+    entry.status = toBatchStatus(result, interrupted);
+    entry.encryption = result.success ? (result.encryption ?? null) : null;
+    entry.encryptionsTried = [];
+    for (const attempt of result.diagnostics?.attempts ?? []) {
+      const tried = entry.encryptionsTried.some(
+        (encryption) =>
+          encryption.method === attempt.method && encryption.addLengths === attempt.addLengths
+      );
+      if (!tried) {
+        entry.encryptionsTried.push({ method: attempt.method, addLengths: attempt.addLengths });
+      }
+    }
+    entry.error = result.success ? null : (result.error ?? "Unknown error");
+    entry.updatedAt = now;
+    this.updatedAt = now;
+
+    return { ...entry };
+  }
+}
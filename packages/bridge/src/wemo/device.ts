@@ -18,21 +18,60 @@ const BASIC_EVENT_SERVICE = "urn:Belkin:service:basicevent:1";
 const DEFAULT_RETRY_COUNT = 2;
 const DEFAULT_RETRY_DELAY = 500;
 
+/**
+ * What a remote reset clears.
+ * - clear-data: name, rules and other personal settings; stays on the network
+ * - clear-wifi: network credentials; the device restarts in setup mode
+ * - factory: everything; the device restarts in setup mode as if new
+ */
+export type ResetMode = "clear-data" | "clear-wifi" | "factory";
+
+/**
+ * ReSetup codes for each reset mode.
+ */
+const RESET_CODES: Record<ResetMode, number> = {
+  "clear-data": 1,
+  factory: 2,
+  "clear-wifi": 5,
+};
+
+/**
+ * ReSetup results that mean the reset was accepted.
+ */
+const RESET_ACCEPTED = ["success", "reset_remote"];
+
 /**
  * Error thrown when a device operation fails.
  */
 export class DeviceError extends Error {
   public readonly deviceId: string;
   public readonly operation: string;
-
-  constructor(message: string, deviceId: string, operation: string, cause?: Error) {
+  /** Whether the device never answered (as opposed to answering with an error) */
+  public readonly unreachable: boolean;
+
+  constructor(
+    message: string,
+    deviceId: string,
+    operation: string,
+    cause?: Error,
+    unreachable = false
+  ) {
     super(message, { cause });
     this.name = "DeviceError";
     this.deviceId = deviceId;
     this.operation = operation;
+    this.unreachable = unreachable;
   }
 }
 
+/**
+ * Service a SOAP action is sent to.
+ */
+export interface ServiceEndpoint {
+  serviceType: string;
+  controlURL: string;
+}
+
 /**
  * Client for controlling a WeMo device.
  *
@@ -53,7 +92,7 @@ export class DeviceError extends Error {
  * ```
  */
 export class WemoDeviceClient {
-  private readonly device: WemoDevice;
+  private device: WemoDevice;
   private readonly basicEventService: WemoService | undefined;
 
   constructor(device: WemoDevice) {
@@ -105,20 +144,29 @@ export class WemoDeviceClient {
 
   /**
    * Executes a SOAP request with retry logic.
+   * Targets the basic event service unless another endpoint is given.
+   * If the device refuses the connection, it may have moved to another port;
+   * it is looked for there once and the request is sent again.
    */
-  private async executeWithRetry<T>(
+  protected async executeWithRetry<T>(
     action: string,
     body?: string,
-    retries = DEFAULT_RETRY_COUNT
+    retries = DEFAULT_RETRY_COUNT,
+    endpoint: ServiceEndpoint = {
+      serviceType: BASIC_EVENT_SERVICE,
+      controlURL: this.controlURL,
+    }
   ): Promise<T> {
     let lastError: Error | undefined;
+    let answered = false;
+    let relocated = false;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       const response = await soapRequest<T>(
         this.device.host,
         this.device.port,
-        this.controlURL,
-        BASIC_EVENT_SERVICE,
+        endpoint.controlURL,
+        endpoint.serviceType,
         action,
         body
       );
@@ -128,6 +176,16 @@ export class WemoDeviceClient {
       }
 
       lastError = new Error(response.error ?? "Unknown error");
+      answered ||= response.statusCode !== undefined;
+
+      if (response.connectionFailed && !relocated) {
+        relocated = true;
+        if (await this.relocate()) {
+          // The request never reached the device, so this attempt does not count
+          attempt--;
+          continue;
+        }
+      }
 
       // Don't retry on last attempt
       if (attempt < retries) {
@@ -139,10 +197,29 @@ export class WemoDeviceClient {
       `Failed to ${action} after ${retries + 1} attempts: ${lastError?.message}`,
       this.device.id,
       action,
-      lastError
+      lastError,
+      !answered
     );
   }
 
+  /**
+   * Looks for the device on the other WeMo ports of its host and switches
+   * to the port it answers on.
+   *
+   * @returns true if the device was found on a new port
+   */
+  private async relocate(): Promise<boolean> {
+    // Loaded lazily: relocate imports discovery, which imports clients built on this one
+    const { getPortRecovery } = await import("./relocate");
+    const moved = await getPortRecovery().recover(this.device);
+    if (!moved) {
+      return false;
+    }
+
+    this.device = { ...this.device, host: moved.host, port: moved.port };
+    return true;
+  }
+
   /**
    * Delays execution for a specified duration.
    */
@@ -190,7 +267,7 @@ export class WemoDeviceClient {
       binaryState,
     };
 
-    // TODO: Add brightness support for dimmer devices
+    // Brightness is added by DimmerDeviceClient for dimmable devices
 
     return state;
   }
@@ -266,6 +343,48 @@ export class WemoDeviceClient {
     );
   }
 
+  /**
+   * Resets the device remotely, as holding its button would.
+   *
+   * @param mode - What to clear
+   * @throws DeviceError if the device rejects the reset
+   */
+  async reset(mode: ResetMode): Promise<void> {
+    interface ReSetupResponse {
+      Reset?: unknown;
+    }
+
+    // Not retried: the device may drop off the network before answering
+    const response = await this.executeWithRetry<ReSetupResponse>(
+      "ReSetup",
+      `<Reset>${RESET_CODES[mode]}</Reset>`,
+      0
+    );
+
+    const result = extractTextValue(response.Reset);
+    if (!RESET_ACCEPTED.includes(result)) {
+      throw new DeviceError(
+        `Device rejected reset: ${result || "no result"}`,
+        this.device.id,
+        "ReSetup"
+      );
+    }
+  }
+
+  /**
+   * Gets the WiFi signal strength the device reports.
+   *
+   * @returns Signal strength in percent (0-100)
+   */
+  async getSignalStrength(): Promise<number> {
+    interface SignalStrengthResponse {
+      SignalStrength?: unknown;
+    }
+
+    const response = await this.executeWithRetry<SignalStrengthResponse>("GetSignalStrength");
+    return Math.min(100, Math.max(0, extractNumericValue(response.SignalStrength)));
+  }
+
   /**
    * Checks if the device is reachable.
    *
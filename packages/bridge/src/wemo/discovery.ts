@@ -2,15 +2,21 @@
  * SSDP Discovery for WeMo Devices
  *
  * Uses Simple Service Discovery Protocol (SSDP) to find WeMo devices
- * on the local network via UDP multicast.
+ * on the local network via UDP multicast. Networks that block multicast
+ * can be swept instead: setup.xml is requested from every address in a
+ * range on each WeMo port.
  */
 
 import * as dgram from "node:dgram";
-import { networkInterfaces } from "node:os";
 import { XMLParser } from "fast-xml-parser";
+import { type NetworkInterface, findInterfaceForHost, selectNetworkInterfaces } from "../network";
+import { resolveDeviceId } from "./identity";
+import { getLinkEndDevices, isLinkDevice } from "./link";
 import type {
+  DiscoveryMode,
   DiscoveryOptions,
   DiscoveryResult,
+  SavedDevice,
   WemoDevice,
   WemoDeviceType,
   WemoService,
@@ -19,8 +25,8 @@ import type {
 /**
  * SSDP multicast address and port.
  */
-const SSDP_ADDRESS = "239.255.255.250";
-const SSDP_PORT = 1900;
+export const SSDP_ADDRESS = "239.255.255.250";
+export const SSDP_PORT = 1900;
 
 /**
  * WeMo-specific search target.
@@ -35,43 +41,28 @@ const WEMO_SEARCH_TARGET = "urn:Belkin:service:basicevent:1";
 const DEFAULT_TIMEOUT = 5000;
 
 /**
- * Gets all IPv4 addresses for local network interfaces.
- * Filters out loopback and internal addresses.
+ * Ports WeMo devices listen on.
  */
-function getInterfaceAddresses(): string[] {
-  const interfaces = networkInterfaces();
-  const addresses: string[] = [];
-
-  for (const [name, addrs] of Object.entries(interfaces)) {
-    if (!addrs) continue;
-
-    // Skip virtual/VPN interfaces
-    const lowerName = name.toLowerCase();
-    if (
-      lowerName.includes("virtual") ||
-      lowerName.includes("vethernet") ||
-      lowerName.includes("vmware") ||
-      lowerName.includes("vmnet") ||
-      lowerName.includes("vbox") ||
-      lowerName.includes("docker") ||
-      lowerName.includes("br-") ||
-      lowerName.includes("veth") ||
-      lowerName.includes("wsl") ||
-      lowerName.includes("loopback")
-    ) {
-      continue;
-    }
+export const WEMO_PORTS = [49152, 49153, 49154, 49155] as const;
 
-    for (const addr of addrs) {
-      // Only IPv4, non-internal addresses
-      if (addr.family === "IPv4" && !addr.internal) {
-        addresses.push(addr.address);
-      }
-    }
-  }
+/**
+ * Port most WeMo devices use, probed first in a sweep.
+ */
+const DEFAULT_PORT = 49153;
 
-  return addresses;
-}
+/**
+ * How long to wait for a device description.
+ */
+const DESCRIPTION_TIMEOUT = 5000;
+
+/**
+ * Sweep settings: whole-sweep default timeout, per-address timeout, how many
+ * addresses are probed at once, and the most addresses one sweep may cover.
+ */
+const SWEEP_TIMEOUT = 20000;
+const SWEEP_PROBE_TIMEOUT = 1000;
+const SWEEP_CONCURRENCY = 64;
+const MAX_SWEEP_HOSTS = 4096;
 
 /**
  * XML parser for device descriptions.
@@ -129,6 +120,19 @@ function determineDeviceType(deviceType: string, modelName: string): WemoDeviceT
   if (type.includes("insight")) {
     return "Insight" as WemoDeviceType;
   }
+  if (type.includes("maker")) {
+    return "Maker" as WemoDeviceType;
+  }
+  if (type.includes("crockpot")) {
+    return "Crockpot" as WemoDeviceType;
+  }
+  // HeaterA and HeaterB
+  if (type.includes("heater")) {
+    return "Heater" as WemoDeviceType;
+  }
+  if (type.includes("humidifier")) {
+    return "Humidifier" as WemoDeviceType;
+  }
   if (type.includes("lightswitch")) {
     return "LightSwitch" as WemoDeviceType;
   }
@@ -139,7 +143,7 @@ function determineDeviceType(deviceType: string, modelName: string): WemoDeviceT
     return "Motion" as WemoDeviceType;
   }
   if (type.includes("bridge")) {
-    return "Bulb" as WemoDeviceType;
+    return "Link" as WemoDeviceType;
   }
 
   // Check model name for Mini
@@ -188,10 +192,13 @@ function parseServices(serviceList: unknown): WemoService[] {
 /**
  * Fetches and parses the device description XML from a location URL.
  */
-async function fetchDeviceDescription(locationUrl: string): Promise<WemoDevice | null> {
+async function fetchDeviceDescription(
+  locationUrl: string,
+  timeout = DESCRIPTION_TIMEOUT
+): Promise<WemoDevice | null> {
   try {
     const response = await fetch(locationUrl, {
-      signal: AbortSignal.timeout(5000),
+      signal: AbortSignal.timeout(timeout),
     });
 
     if (!response.ok) {
@@ -227,7 +234,12 @@ async function fetchDeviceDescription(locationUrl: string): Promise<WemoDevice |
     const modelName = String(device.modelName ?? "");
 
     const wemoDevice: WemoDevice = {
-      id: String(device.UDN ?? `wemo-${host}-${port}`),
+      id:
+        resolveDeviceId({
+          udn: String(device.UDN ?? ""),
+          macAddress: String(device.macAddress ?? ""),
+          serialNumber: String(device.serialNumber ?? ""),
+        }) ?? `wemo-${host}-${port}`,
       name: String(device.friendlyName ?? "Unknown WeMo Device"),
       deviceType: determineDeviceType(deviceType, modelName),
       host,
@@ -240,6 +252,9 @@ async function fetchDeviceDescription(locationUrl: string): Promise<WemoDevice |
       services: parseServices(device.serviceList),
       setupUrl: locationUrl,
     };
+    if (device.UDN) {
+      wemoDevice.udn = String(device.UDN);
+    }
 
     return wemoDevice;
   } catch {
@@ -249,7 +264,201 @@ async function fetchDeviceDescription(locationUrl: string): Promise<WemoDevice |
 }
 
 /**
- * Discovers WeMo devices on the local network using SSDP.
+ * Deduplicates found devices, adds the bulbs of any Links among them and
+ * keeps the requested device types. Failures to list bulbs are added to errors.
+ */
+async function collectDevices(
+  devices: WemoDevice[],
+  errors: string[],
+  deviceTypes?: WemoDeviceType[]
+): Promise<WemoDevice[]> {
+  // Deduplicate by ID (same device might respond to multiple search targets)
+  const uniqueDevices = new Map<string, WemoDevice>();
+  for (const device of devices) {
+    if (!uniqueDevices.has(device.id)) {
+      uniqueDevices.set(device.id, device);
+    }
+  }
+
+  // Bulbs don't answer SSDP or serve setup.xml; list them through their Link
+  const links = Array.from(uniqueDevices.values()).filter(isLinkDevice);
+  for (const link of links) {
+    try {
+      for (const bulb of await getLinkEndDevices(link)) {
+        if (link.networkInterface) {
+          bulb.networkInterface = link.networkInterface;
+        }
+        uniqueDevices.set(bulb.id, bulb);
+      }
+    } catch (err) {
+      errors.push(
+        `Failed to list bulbs for ${link.name}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  const found = Array.from(uniqueDevices.values());
+  if (!deviceTypes || deviceTypes.length === 0) {
+    return found;
+  }
+  return found.filter((device) => deviceTypes.includes(device.deviceType));
+}
+
+/**
+ * Converts a dotted IPv4 address to a number, or null if it is not one.
+ */
+function ipToNumber(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  if (octets.some((octet) => octet > 255)) {
+    return null;
+  }
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+/**
+ * Converts a number to a dotted IPv4 address.
+ */
+function numberToIp(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join(".");
+}
+
+/**
+ * Lists the host addresses in an IPv4 CIDR range (e.g., "192.168.1.0/24").
+ * A bare address is treated as /32. The network and broadcast addresses are
+ * left out of ranges larger than /31.
+ *
+ * @throws Error if the range is invalid or larger than a sweep may cover
+ */
+export function expandCidr(range: string): string[] {
+  const [address = "", prefixText = "32", ...rest] = range.trim().split("/");
+  const base = ipToNumber(address);
+  const prefix = /^\d{1,2}$/.test(prefixText) ? Number(prefixText) : Number.NaN;
+  if (base === null || rest.length > 0 || !(prefix >= 0 && prefix <= 32)) {
+    throw new Error(`Invalid CIDR range: ${range}`);
+  }
+
+  const size = 2 ** (32 - prefix);
+  if (size > MAX_SWEEP_HOSTS) {
+    throw new Error(`Range ${range} is too large to sweep (max ${MAX_SWEEP_HOSTS} addresses)`);
+  }
+
+  const network = base - (base % size);
+  const first = size > 2 ? network + 1 : network;
+  const last = size > 2 ? network + size - 2 : network + size - 1;
+  const hosts: string[] = [];
+  for (let value = first; value <= last; value++) {
+    hosts.push(numberToIp(value));
+  }
+  return hosts;
+}
+
+/**
+ * Gets the /24 range of each interface address.
+ */
+function getDefaultSweepRanges(interfaces: NetworkInterface[]): string[] {
+  const ranges = interfaces.map(
+    ({ address }) => `${address.split(".").slice(0, 3).join(".")}.0/24`
+  );
+  return [...new Set(ranges)];
+}
+
+/**
+ * Runs a task for each item with at most `limit` tasks running at once.
+ */
+async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++] as T);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Discovers devices by requesting setup.xml from every address in the
+ * sweep ranges. The default port is probed first, and addresses that
+ * answered are skipped on the remaining ports.
+ */
+async function sweepDevices(
+  options: DiscoveryOptions,
+  interfaces: NetworkInterface[]
+): Promise<DiscoveryResult> {
+  const timeout = options.timeout ?? SWEEP_TIMEOUT;
+  const startTime = Date.now();
+  const deadline = startTime + timeout;
+  const errors: string[] = [];
+
+  const ranges = options.ranges ?? getDefaultSweepRanges(interfaces);
+  if (ranges.length === 0) {
+    errors.push("No network ranges to sweep");
+  }
+
+  const hosts = new Set<string>();
+  for (const range of ranges) {
+    try {
+      for (const host of expandCidr(range)) {
+        hosts.add(host);
+      }
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (hosts.size > MAX_SWEEP_HOSTS) {
+    errors.push(`Sweep limited to the first ${MAX_SWEEP_HOSTS} addresses`);
+  }
+  const addresses = [...hosts].slice(0, MAX_SWEEP_HOSTS);
+
+  const ports = [...(options.ports ?? WEMO_PORTS)].sort(
+    (a, b) => Number(b === DEFAULT_PORT) - Number(a === DEFAULT_PORT)
+  );
+
+  const found = new Map<string, WemoDevice>();
+  let timedOut = false;
+  for (const port of ports) {
+    const remaining = addresses.filter((host) => !found.has(host));
+    await forEachConcurrent(remaining, SWEEP_CONCURRENCY, async (host) => {
+      const timeLeft = deadline - Date.now();
+      if (timeLeft <= 0) {
+        timedOut = true;
+        return;
+      }
+      const device = await fetchDeviceDescription(
+        setupUrlForAddress(host, port),
+        Math.min(SWEEP_PROBE_TIMEOUT, timeLeft)
+      );
+      if (device) {
+        const networkInterface = findInterfaceForHost(host, interfaces)?.name;
+        if (networkInterface) {
+          device.networkInterface = networkInterface;
+        }
+        found.set(host, device);
+      }
+    });
+  }
+
+  if (timedOut) {
+    errors.push(`Sweep stopped after ${timeout}ms before every address was probed`);
+  }
+
+  return {
+    devices: await collectDevices([...found.values()], errors, options.deviceTypes),
+    scanDuration: Date.now() - startTime,
+    errors,
+  };
+}
+
+/**
+ * Discovers WeMo devices on the local network, using SSDP unless a sweep
+ * is requested.
  *
  * @param options - Discovery options
  * @returns Discovery result with found devices
@@ -259,26 +468,39 @@ async function fetchDeviceDescription(locationUrl: string): Promise<WemoDevice |
  * const result = await discoverDevices({ timeout: 5000 });
  * console.log(`Found ${result.devices.length} devices`);
  *
+ * // Where multicast is blocked
+ * const swept = await discoverDevices({ mode: "sweep", ranges: ["192.168.1.0/24"] });
+ *
  * for (const device of result.devices) {
  *   console.log(`- ${device.name} (${device.deviceType}) at ${device.host}`);
  * }
  * ```
  */
 export async function discoverDevices(options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+  const interfaces = selectNetworkInterfaces(options.networkInterface);
+  if (options.networkInterface && interfaces.length === 0) {
+    return {
+      devices: [],
+      scanDuration: 0,
+      errors: [`Network interface ${options.networkInterface} not found`],
+    };
+  }
+
+  const mode: DiscoveryMode = options.mode ?? "ssdp";
+  if (mode === "sweep") {
+    return sweepDevices(options, interfaces);
+  }
+
   const timeout = options.timeout ?? DEFAULT_TIMEOUT;
   const startTime = Date.now();
   const errors: string[] = [];
 
-  // Set to track unique location URLs (dedup responses)
-  const locationUrls = new Set<string>();
+  // Unique location URLs (dedup responses), with the interface each arrived on
+  const locationUrls = new Map<string, string | undefined>();
 
-  // Get all interface addresses to bind sockets to
-  const interfaceAddresses = getInterfaceAddresses();
-
-  // If no interfaces found, fall back to binding to 0.0.0.0
-  if (interfaceAddresses.length === 0) {
-    interfaceAddresses.push("0.0.0.0");
-  }
+  // Bind a socket to each interface; if none were found, fall back to 0.0.0.0
+  const bindings: { address: string; name?: string }[] =
+    interfaces.length > 0 ? interfaces : [{ address: "0.0.0.0" }];
 
   return new Promise((resolve) => {
     const sockets: dgram.Socket[] = [];
@@ -288,7 +510,7 @@ export async function discoverDevices(options: DiscoveryOptions = {}): Promise<D
     const message = buildMSearchMessage(WEMO_SEARCH_TARGET);
 
     // Create a socket for each interface and send M-SEARCH from each
-    for (const addr of interfaceAddresses) {
+    for (const { address: addr, name } of bindings) {
       try {
         const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
 
@@ -311,12 +533,20 @@ export async function discoverDevices(options: DiscoveryOptions = {}): Promise<D
           const location = parseSsdpResponse(response);
 
           if (location && !locationUrls.has(location)) {
-            locationUrls.add(location);
+            locationUrls.set(location, name);
           }
         });
 
         // Bind to this specific interface address
         socket.bind(0, addr, () => {
+          // Send from this interface rather than the default route's
+          if (name) {
+            try {
+              socket.setMulticastInterface(addr);
+            } catch {
+              // Fall back to the default multicast interface
+            }
+          }
           // Send M-SEARCH to multicast group
           socket.send(message, 0, message.length, ssdpTarget.port, ssdpTarget.address);
         });
@@ -365,23 +595,21 @@ export async function discoverDevices(options: DiscoveryOptions = {}): Promise<D
       }
 
       // Fetch device descriptions for all discovered locations
-      const devicePromises = Array.from(locationUrls).map((url) => fetchDeviceDescription(url));
+      const devicePromises = Array.from(locationUrls).map(async ([url, networkInterface]) => {
+        const device = await fetchDeviceDescription(url);
+        if (device && networkInterface) {
+          device.networkInterface = networkInterface;
+        }
+        return device;
+      });
 
       const deviceResults = await Promise.all(devicePromises);
 
       // Filter out nulls and non-WeMo devices
       const devices = deviceResults.filter((d): d is WemoDevice => d !== null);
 
-      // Deduplicate by ID (same device might respond to multiple search targets)
-      const uniqueDevices = new Map<string, WemoDevice>();
-      for (const device of devices) {
-        if (!uniqueDevices.has(device.id)) {
-          uniqueDevices.set(device.id, device);
-        }
-      }
-
       resolve({
-        devices: Array.from(uniqueDevices.values()),
+        devices: await collectDevices(devices, errors, options.deviceTypes),
         scanDuration: Date.now() - startTime,
         errors,
       });
@@ -397,7 +625,7 @@ export async function discoverDevices(options: DiscoveryOptions = {}): Promise<D
  * @param port - Device port (default: 49153)
  * @returns Setup URL for the device
  */
-export function setupUrlForAddress(host: string, port = 49153): string {
+export function setupUrlForAddress(host: string, port = DEFAULT_PORT): string {
   return `http://${host}:${port}/setup.xml`;
 }
 
@@ -408,7 +636,42 @@ export function setupUrlForAddress(host: string, port = 49153): string {
  * @param port - Device port (default: 49153)
  * @returns WemoDevice if found, null otherwise
  */
-export async function getDeviceByAddress(host: string, port = 49153): Promise<WemoDevice | null> {
+export async function getDeviceByAddress(
+  host: string,
+  port = DEFAULT_PORT
+): Promise<WemoDevice | null> {
   const url = setupUrlForAddress(host, port);
   return fetchDeviceDescription(url);
 }
+
+/**
+ * Builds a device description from a saved device's metadata, so clients
+ * can be made without reading setup.xml again.
+ *
+ * @returns The description, or null if the services were never saved
+ */
+export function getSavedDescription(saved: SavedDevice): WemoDevice | null {
+  if (!saved.services || saved.services.length === 0) {
+    return null;
+  }
+
+  const device: WemoDevice = {
+    // The UDN is what a fresh description reports as the ID
+    id: saved.udn || saved.id,
+    name: saved.name,
+    deviceType: saved.deviceType,
+    host: saved.host,
+    port: saved.port,
+    manufacturer: "Belkin International Inc.",
+    model: saved.model ?? "",
+    serialNumber: saved.serialNumber ?? "",
+    firmwareVersion: saved.firmwareVersion ?? "",
+    macAddress: saved.macAddress ?? "",
+    services: saved.services,
+    setupUrl: setupUrlForAddress(saved.host, saved.port),
+  };
+  if (saved.udn) {
+    device.udn = saved.udn;
+  }
+  return device;
+}
@@ -0,0 +1,587 @@
+/**
+ * UPnP Event Subscriptions (GENA) for WeMo Devices
+ *
+ * Instead of polling GetBinaryState, the bridge subscribes to each device's
+ * basicevent (and insight) eventSubURL. Devices then push NOTIFY requests to a
+ * small local callback server whenever their state changes.
+ */
+
+import { EventEmitter } from "node:events";
+import { networkInterfaces } from "node:os";
+import { XMLParser } from "fast-xml-parser";
+import { parseInsightParams } from "./insight";
+import type { InsightParams, WemoDevice, WemoService } from "./types";
+
+/**
+ * Default port for the NOTIFY callback server (0 = pick a free port).
+ */
+const DEFAULT_CALLBACK_PORT = 0;
+
+/**
+ * Requested subscription lifetime in seconds.
+ * Devices may grant a different value, which is honoured when renewing.
+ */
+const DEFAULT_SUBSCRIPTION_TIMEOUT = 300;
+
+/**
+ * Delay before retrying a subscription that could not be established.
+ */
+const RESUBSCRIBE_RETRY_DELAY = 30000;
+
+/**
+ * Timeout for SUBSCRIBE/UNSUBSCRIBE requests in milliseconds.
+ */
+const REQUEST_TIMEOUT = 5000;
+
+/**
+ * Service types we subscribe to on each device.
+ */
+const EVENT_SERVICE_TYPES = ["basicevent", "insight"];
+
+/**
+ * XML parser for NOTIFY property sets.
+ * Tag values are kept as strings so pipe-delimited values survive untouched.
+ */
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  trimValues: true,
+  removeNSPrefix: true,
+});
+
+/**
+ * A state update pushed by a device through a NOTIFY request.
+ */
+export interface DeviceStateEvent {
+  /** ID of the device that sent the event */
+  deviceId: string;
+  /** Binary state, if the event contained one */
+  binaryState?: 0 | 1 | 8;
+  /** Insight power parameters, if the event contained them */
+  insightParams?: InsightParams;
+  /** Brightness (0-100), if the event contained one */
+  brightness?: number;
+  /** All raw properties from the event */
+  properties: Record<string, string>;
+  /** When the event was received (ms since epoch) */
+  receivedAt: number;
+}
+
+/**
+ * Options for the subscription manager.
+ */
+export interface EventSubscriptionOptions {
+  /** Port for the NOTIFY callback server (default: random free port) */
+  port?: number;
+  /** Address devices should call back on (default: auto-detected per device) */
+  callbackHost?: string;
+  /** Requested subscription lifetime in seconds (default: 300) */
+  timeoutSeconds?: number;
+  /** Milliseconds before retrying a failed subscription (default: 30000) */
+  retryDelay?: number;
+}
+
+/**
+ * Events emitted by the subscription manager.
+ */
+export interface EventSubscriptionEvents {
+  /** A device pushed a state change */
+  state: [DeviceStateEvent];
+  /**
+   * A subscription was established or renewed. `renewed` is false for new
+   * subscriptions, including after the device rebooted or came back online.
+   */
+  subscribed: [deviceId: string, serviceType: string, renewed: boolean];
+  /**
+   * A subscription could not be established or renewed; it is retried.
+   * Not named "error", which EventEmitter throws when nothing listens.
+   */
+  subscriptionError: [deviceId: string, error: Error];
+}
+
+/**
+ * Internal bookkeeping for one (device, service) subscription.
+ */
+interface Subscription {
+  key: string;
+  device: WemoDevice;
+  service: WemoService;
+  sid: string | null;
+  timeoutSeconds: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  lastRenewedAt: number | null;
+}
+
+/**
+ * Parses a GENA NOTIFY property set into a flat map of property names to values.
+ *
+ * @example
+ * ```ts
+ * parsePropertySet(`<e:propertyset xmlns:e="urn:schemas-upnp-org:event-1-0">
+ *   <e:property><BinaryState>1</BinaryState></e:property>
+ * </e:propertyset>`);
+ * // => { BinaryState: "1" }
+ * ```
+ */
+export function parsePropertySet(xml: string): Record<string, string> {
+  const parsed = xmlParser.parse(xml);
+  const propertySet = parsed?.propertyset;
+  if (!propertySet || typeof propertySet !== "object") {
+    return {};
+  }
+
+  let properties = (propertySet as Record<string, unknown>).property;
+  if (!Array.isArray(properties)) {
+    properties = properties ? [properties] : [];
+  }
+
+  const result: Record<string, string> = {};
+  for (const property of properties as unknown[]) {
+    if (!property || typeof property !== "object") continue;
+
+    for (const [name, value] of Object.entries(property as Record<string, unknown>)) {
+      result[name] = value === undefined || value === null ? "" : String(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts raw NOTIFY properties into a typed state event.
+ *
+ * Insight devices report BinaryState as the full pipe-delimited InsightParams
+ * string, so a BinaryState containing "|" is parsed as Insight params.
+ */
+export function toDeviceStateEvent(
+  deviceId: string,
+  properties: Record<string, string>
+): DeviceStateEvent {
+  const event: DeviceStateEvent = {
+    deviceId,
+    properties,
+    receivedAt: Date.now(),
+  };
+
+  const rawState = properties.BinaryState;
+  if (rawState !== undefined && rawState !== "") {
+    if (rawState.includes("|")) {
+      event.insightParams = parseInsightParams(rawState);
+      event.binaryState = event.insightParams.state;
+    } else {
+      const state = Number.parseInt(rawState, 10);
+      if (!Number.isNaN(state)) {
+        event.binaryState = state === 0 ? 0 : state === 8 ? 8 : 1;
+      }
+    }
+  }
+
+  if (properties.InsightParams) {
+    event.insightParams = parseInsightParams(properties.InsightParams);
+    event.binaryState ??= event.insightParams.state;
+  }
+
+  const rawBrightness = properties.Brightness ?? properties.brightness;
+  if (rawBrightness !== undefined && rawBrightness !== "") {
+    const brightness = Number.parseInt(rawBrightness, 10);
+    if (!Number.isNaN(brightness)) {
+      event.brightness = brightness;
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Picks the local address a device should use to reach us.
+ * Prefers an interface on the same /24 as the device.
+ */
+export function getCallbackAddress(deviceHost: string): string {
+  const devicePrefix = deviceHost.split(".").slice(0, 3).join(".");
+  let fallback: string | null = null;
+
+  for (const addrs of Object.values(networkInterfaces())) {
+    if (!addrs) continue;
+
+    for (const addr of addrs) {
+      if (addr.family !== "IPv4" || addr.internal) continue;
+
+      if (addr.address.startsWith(`${devicePrefix}.`)) {
+        return addr.address;
+      }
+      fallback ??= addr.address;
+    }
+  }
+
+  return fallback ?? "127.0.0.1";
+}
+
+/**
+ * Parses a GENA TIMEOUT header ("Second-300" or "Second-infinite").
+ */
+function parseTimeoutHeader(header: string | null, fallback: number): number {
+  const match = header?.match(/Second-(\d+)/i);
+  if (!match?.[1]) {
+    return fallback;
+  }
+  const seconds = Number.parseInt(match[1], 10);
+  return Number.isNaN(seconds) || seconds <= 0 ? fallback : seconds;
+}
+
+/**
+ * Manages GENA event subscriptions for WeMo devices.
+ *
+ * Runs a NOTIFY callback server, subscribes to each device's event services,
+ * renews subscriptions before they expire and resubscribes when renewal fails
+ * or the device moves to a different address.
+ *
+ * @example
+ * ```ts
+ * const manager = new EventSubscriptionManager();
+ * await manager.start();
+ *
+ * manager.on("state", (event) => {
+ *   console.log(`${event.deviceId} is now ${event.binaryState}`);
+ * });
+ *
+ * await manager.subscribe(device);
+ * ```
+ */
+export class EventSubscriptionManager extends EventEmitter<EventSubscriptionEvents> {
+  private readonly options: EventSubscriptionOptions;
+  private readonly subscriptions = new Map<string, Subscription>();
+  private readonly latestStates = new Map<string, DeviceStateEvent>();
+  private server: ReturnType<typeof Bun.serve> | null = null;
+
+  constructor(options: EventSubscriptionOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Whether the callback server is running.
+   */
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * The port the callback server is listening on.
+   */
+  get port(): number | null {
+    return this.server?.port ?? null;
+  }
+
+  /**
+   * IDs of devices with at least one subscription.
+   */
+  get deviceIds(): string[] {
+    return [...new Set([...this.subscriptions.values()].map((s) => s.device.id))];
+  }
+
+  /**
+   * Starts the NOTIFY callback server.
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    this.server = Bun.serve({
+      port: this.options.port ?? DEFAULT_CALLBACK_PORT,
+      hostname: "0.0.0.0",
+      fetch: (request) => this.handleRequest(request),
+    });
+
+    console.log(`[Events] Callback server listening on port ${this.server.port}`);
+  }
+
+  /**
+   * Unsubscribes from all devices and stops the callback server.
+   */
+  async stop(): Promise<void> {
+    const subscriptions = [...this.subscriptions.values()];
+    this.subscriptions.clear();
+
+    await Promise.all(subscriptions.map((sub) => this.cancel(sub)));
+
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Gets the most recent pushed state for a device.
+   *
+   * @param deviceId - Device ID
+   * @param maxAgeMs - Ignore states older than this (default: no limit)
+   */
+  getLatestState(deviceId: string, maxAgeMs?: number): DeviceStateEvent | null {
+    const state = this.latestStates.get(deviceId);
+    if (!state) {
+      return null;
+    }
+    if (maxAgeMs !== undefined && Date.now() - state.receivedAt > maxAgeMs) {
+      return null;
+    }
+    return state;
+  }
+
+  /**
+   * Whether the device currently has an active (granted) subscription.
+   */
+  isSubscribed(deviceId: string): boolean {
+    for (const sub of this.subscriptions.values()) {
+      if (sub.device.id === deviceId && sub.sid) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether the device has a subscription that was granted or renewed
+   * within its lifetime, so its pushed state can be trusted. A device that
+   * stops answering fails its next renewal and loses the subscription.
+   */
+  hasLiveSubscription(deviceId: string): boolean {
+    const now = Date.now();
+    for (const sub of this.subscriptions.values()) {
+      if (
+        sub.device.id === deviceId &&
+        sub.sid &&
+        sub.lastRenewedAt !== null &&
+        now - sub.lastRenewedAt <= sub.timeoutSeconds * 1000
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Subscribes to all event services of a device.
+   *
+   * If the device is already subscribed at a different address, the old
+   * subscriptions are dropped and new ones are created (IP change).
+   */
+  async subscribe(device: WemoDevice): Promise<void> {
+    if (!this.server) {
+      throw new Error("Event subscription server is not running");
+    }
+
+    const services = device.services.filter(
+      (s) => s.eventSubURL && EVENT_SERVICE_TYPES.some((type) => s.serviceType.includes(type))
+    );
+
+    for (const service of services) {
+      const key = `${device.id}|${service.serviceType}`;
+      const existing = this.subscriptions.get(key);
+
+      if (existing) {
+        const moved = existing.device.host !== device.host || existing.device.port !== device.port;
+        if (!moved) {
+          continue;
+        }
+
+        console.log(
+          `[Events] ${device.name} moved to ${device.host}:${device.port}, resubscribing`
+        );
+        this.subscriptions.delete(key);
+        await this.cancel(existing);
+      }
+
+      const subscription: Subscription = {
+        key,
+        device,
+        service,
+        sid: null,
+        timeoutSeconds: this.options.timeoutSeconds ?? DEFAULT_SUBSCRIPTION_TIMEOUT,
+        timer: null,
+        lastRenewedAt: null,
+      };
+      this.subscriptions.set(key, subscription);
+
+      await this.renew(subscription);
+    }
+  }
+
+  /**
+   * Removes all subscriptions for a device.
+   */
+  async unsubscribe(deviceId: string): Promise<void> {
+    const subscriptions = [...this.subscriptions.values()].filter((s) => s.device.id === deviceId);
+
+    for (const sub of subscriptions) {
+      this.subscriptions.delete(sub.key);
+      await this.cancel(sub);
+    }
+
+    this.latestStates.delete(deviceId);
+  }
+
+  /**
+   * Builds the callback URL for a subscription.
+   */
+  private callbackUrl(sub: Subscription): string {
+    const host = this.options.callbackHost ?? getCallbackAddress(sub.device.host);
+    return `http://${host}:${this.port}/events/${encodeURIComponent(sub.key)}`;
+  }
+
+  /**
+   * Creates or renews a subscription and schedules the next renewal.
+   */
+  private async renew(sub: Subscription): Promise<void> {
+    const url = `http://${sub.device.host}:${sub.device.port}${sub.service.eventSubURL}`;
+    const requestedTimeout = this.options.timeoutSeconds ?? DEFAULT_SUBSCRIPTION_TIMEOUT;
+
+    // Renewals only carry the SID; initial subscriptions carry CALLBACK and NT
+    const headers: Record<string, string> = sub.sid
+      ? { SID: sub.sid, TIMEOUT: `Second-${requestedTimeout}` }
+      : {
+          CALLBACK: `<${this.callbackUrl(sub)}>`,
+          NT: "upnp:event",
+          TIMEOUT: `Second-${requestedTimeout}`,
+        };
+
+    try {
+      const response = await fetch(url, {
+        method: "SUBSCRIBE",
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+
+      // 412 Precondition Failed: the device forgot our SID (e.g. after a reboot)
+      if (response.status === 412 && sub.sid) {
+        sub.sid = null;
+        return this.renew(sub);
+      }
+
+      if (!response.ok) {
+        throw new Error(`SUBSCRIBE failed: HTTP ${response.status}`);
+      }
+
+      const sid = response.headers.get("SID");
+      if (!sid) {
+        throw new Error("SUBSCRIBE response missing SID header");
+      }
+
+      const renewed = sub.sid !== null;
+      sub.sid = sid;
+      sub.timeoutSeconds = parseTimeoutHeader(response.headers.get("TIMEOUT"), requestedTimeout);
+      sub.lastRenewedAt = Date.now();
+      this.emit("subscribed", sub.device.id, sub.service.serviceType, renewed);
+
+      // Renew at 75% of the granted lifetime
+      this.schedule(sub, Math.max(sub.timeoutSeconds * 750, 1000));
+    } catch (error) {
+      sub.sid = null;
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[Events] Subscription to ${sub.device.name} failed: ${err.message}`);
+      this.schedule(sub, this.options.retryDelay ?? RESUBSCRIBE_RETRY_DELAY);
+      this.emit("subscriptionError", sub.device.id, err);
+    }
+  }
+
+  /**
+   * Schedules a renewal, replacing any pending one.
+   */
+  private schedule(sub: Subscription, delayMs: number): void {
+    if (sub.timer) {
+      clearTimeout(sub.timer);
+    }
+
+    sub.timer = setTimeout(() => {
+      sub.timer = null;
+      // Subscription may have been removed while waiting
+      if (this.subscriptions.get(sub.key) === sub) {
+        void this.renew(sub);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Cancels a subscription on the device (best effort).
+   */
+  private async cancel(sub: Subscription): Promise<void> {
+    if (sub.timer) {
+      clearTimeout(sub.timer);
+      sub.timer = null;
+    }
+
+    if (!sub.sid) {
+      return;
+    }
+
+    const url = `http://${sub.device.host}:${sub.device.port}${sub.service.eventSubURL}`;
+    try {
+      await fetch(url, {
+        method: "UNSUBSCRIBE",
+        headers: { SID: sub.sid },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+    } catch {
+      // Device may already be gone
+    }
+    sub.sid = null;
+  }
+
+  /**
+   * Handles an incoming NOTIFY request.
+   */
+  private async handleRequest(request: Request): Promise<Response> {
+    if (request.method !== "NOTIFY") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const path = new URL(request.url).pathname;
+    const key = decodeURIComponent(path.replace(/^\/events\//, ""));
+    const sub = this.subscriptions.get(key);
+
+    if (!sub) {
+      return new Response("Precondition Failed", { status: 412 });
+    }
+
+    // Devices may send the initial event before we have processed the SUBSCRIBE
+    // response, so only reject SIDs that are known to be different.
+    const sid = request.headers.get("SID");
+    if (sub.sid && sid && sid !== sub.sid) {
+      return new Response("Precondition Failed", { status: 412 });
+    }
+
+    try {
+      const properties = parsePropertySet(await request.text());
+      const event = toDeviceStateEvent(sub.device.id, properties);
+
+      const previous = this.latestStates.get(sub.device.id);
+      this.latestStates.set(sub.device.id, {
+        ...previous,
+        ...event,
+        binaryState: event.binaryState ?? previous?.binaryState,
+        insightParams: event.insightParams ?? previous?.insightParams,
+        brightness: event.brightness ?? previous?.brightness,
+        properties: { ...previous?.properties, ...event.properties },
+      });
+
+      this.emit("state", event);
+    } catch (error) {
+      console.warn(`[Events] Failed to parse NOTIFY from ${sub.device.name}:`, error);
+    }
+
+    return new Response("OK");
+  }
+}
+
+/**
+ * Singleton subscription manager instance.
+ */
+let managerInstance: EventSubscriptionManager | null = null;
+
+/**
+ * Gets the subscription manager instance (singleton).
+ */
+export function getEventSubscriptions(): EventSubscriptionManager {
+  if (!managerInstance) {
+    managerInstance = new EventSubscriptionManager();
+  }
+  return managerInstance;
+}
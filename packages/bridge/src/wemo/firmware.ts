@@ -0,0 +1,433 @@
+/**
+ * WeMo Firmware Updates
+ *
+ * The firmwareupdate1 service reports the running firmware and can be told
+ * to download and flash an image from a URL. With Belkin's update servers
+ * gone, the image has to be served from the local network.
+ */
+
+import { EventEmitter } from "node:events";
+import { type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { withSoapPriority } from "./queue";
+import { extractTextValue } from "./soap";
+import type { WemoDevice } from "./types";
+
+/**
+ * firmwareupdate1 service endpoint.
+ */
+const FIRMWARE_SERVICE = "urn:Belkin:service:firmwareupdate:1";
+const FIRMWARE_CONTROL_URL = "/upnp/control/firmwareupdate1";
+
+/**
+ * How often to check on a running update.
+ */
+const DEFAULT_POLL_INTERVAL = 15000;
+
+/**
+ * How long an update may take before it is reported as failed.
+ * Devices download, flash and reboot, which can take several minutes.
+ */
+const DEFAULT_UPDATE_TIMEOUT = 15 * 60 * 1000;
+
+/**
+ * How many checks in a row a device must miss before it is considered to be
+ * rebooting. Devices can be slow to answer while they download the image.
+ */
+const DEFAULT_MISSED_POLLS = 3;
+
+/**
+ * Firmware version as reported by GetFirmwareVersion.
+ */
+export interface FirmwareInfo {
+  /** Firmware version (e.g., "WeMo_WW_2.00.11057.PVT-OWRT-SNSV2") */
+  version: string;
+  /** SKU the firmware was built for (e.g., "Plugin Device"), if reported */
+  sku: string | null;
+}
+
+/**
+ * Image and metadata to pass to UpdateFirmware.
+ */
+export interface FirmwareUpdateRequest {
+  /** URL the device downloads the image from */
+  url: string;
+  /** Version the image contains, if known */
+  version?: string;
+  /** Image signature, if the image is signed */
+  signature?: string;
+}
+
+/**
+ * Status of a firmware update.
+ * - downloading: the device accepted the update and is fetching/flashing the image
+ * - rebooting: the device stopped answering for several checks in a row, as it
+ *   does while flashing and restarting
+ * - completed: the device answers with a different firmware version
+ * - failed: the device rejected the update, came back unchanged, or timed out
+ */
+export type FirmwareUpdateStatus = "downloading" | "rebooting" | "completed" | "failed";
+
+/**
+ * A firmware update in progress or finished.
+ */
+export interface FirmwareUpdateJob {
+  /** Device being updated */
+  deviceId: string;
+  /** URL of the image */
+  imageUrl: string;
+  /** Version the image contains, if known */
+  targetVersion: string | null;
+  /** Firmware version before the update */
+  previousVersion: string;
+  /** Last firmware version reported during the update */
+  currentVersion: string;
+  /** Current status */
+  status: FirmwareUpdateStatus;
+  /** Failure reason */
+  error: string | null;
+  /** When the update was started (ISO) */
+  startedAt: string;
+  /** When the status last changed (ISO) */
+  updatedAt: string;
+}
+
+/**
+ * Options for the update manager.
+ */
+export interface FirmwareUpdateOptions {
+  /** Milliseconds between progress checks (default: 15000) */
+  pollInterval?: number;
+  /** Milliseconds before an update is reported as failed (default: 15 minutes) */
+  timeout?: number;
+  /** Checks in a row the device must miss to count as rebooting (default: 3) */
+  missedPolls?: number;
+}
+
+/**
+ * Events emitted by the update manager.
+ */
+export interface FirmwareUpdateEvents {
+  /** A job changed status */
+  progress: [FirmwareUpdateJob];
+  /** A job completed; the device runs the new firmware */
+  completed: [FirmwareUpdateJob];
+}
+
+/**
+ * Parses a GetFirmwareVersion value.
+ *
+ * @example
+ * ```ts
+ * parseFirmwareVersion("FirmwareVersion:WeMo_WW_2.00.11057.PVT-OWRT-SNSV2|SkuNo:Plugin Device");
+ * // { version: "WeMo_WW_2.00.11057.PVT-OWRT-SNSV2", sku: "Plugin Device" }
+ * ```
+ */
+export function parseFirmwareVersion(raw: string): FirmwareInfo {
+  const fields = new Map<string, string>();
+  for (const part of raw.split("|")) {
+    const separator = part.indexOf(":");
+    if (separator > 0) {
+      fields.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+    }
+  }
+
+  return {
+    version: fields.get("FirmwareVersion") ?? raw.trim(),
+    sku: fields.get("SkuNo") || null,
+  };
+}
+
+/**
+ * Escapes text for use inside a SOAP argument.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Client for the firmwareupdate1 service.
+ *
+ * @example
+ * ```ts
+ * const client = new FirmwareDeviceClient(device);
+ * const { version } = await client.getFirmwareVersion();
+ * await client.updateFirmware({ url: "http://192.168.1.10:51515/api/firmware/images/abc" });
+ * ```
+ */
+export class FirmwareDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the firmwareupdate1 service endpoint for this device.
+   */
+  private get firmwareEndpoint(): ServiceEndpoint {
+    const service = this.info.services.find((s) => s.serviceType === FIRMWARE_SERVICE);
+    return {
+      serviceType: FIRMWARE_SERVICE,
+      controlURL: service?.controlURL ?? FIRMWARE_CONTROL_URL,
+    };
+  }
+
+  /**
+   * Gets the running firmware version.
+   *
+   * @param retries - Retries if the device does not answer (default: 2)
+   */
+  async getFirmwareVersion(retries?: number): Promise<FirmwareInfo> {
+    interface FirmwareVersionResponse {
+      FirmwareVersion?: unknown;
+    }
+
+    const response = await this.executeWithRetry<FirmwareVersionResponse>(
+      "GetFirmwareVersion",
+      undefined,
+      retries,
+      this.firmwareEndpoint
+    );
+    return parseFirmwareVersion(extractTextValue(response.FirmwareVersion));
+  }
+
+  /**
+   * Tells the device to download and install a firmware image.
+   * The device answers immediately and installs in the background.
+   */
+  async updateFirmware(request: FirmwareUpdateRequest): Promise<void> {
+    const body = [
+      `<NewFirmwareVersion>${escapeXml(request.version ?? "")}</NewFirmwareVersion>`,
+      "<ReleaseDate></ReleaseDate>",
+      `<URL>${escapeXml(request.url)}</URL>`,
+      `<Signature>${escapeXml(request.signature ?? "")}</Signature>`,
+      "<DownloadStartTime>0</DownloadStartTime>",
+      `<WithUnsignedImage>${request.signature ? 0 : 1}</WithUnsignedImage>`,
+    ].join("");
+
+    // Not retried: a second request could restart a download already underway
+    await this.executeWithRetry("UpdateFirmware", body, 0, this.firmwareEndpoint);
+  }
+}
+
+/**
+ * Internal bookkeeping for a running update.
+ */
+interface RunningUpdate {
+  job: FirmwareUpdateJob;
+  client: FirmwareDeviceClient;
+  deadline: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Checks in a row the device did not answer */
+  missedPolls: number;
+  /** Whether the device rebooted and came back on the old firmware */
+  restarted: boolean;
+}
+
+/**
+ * Starts firmware updates and tracks them until the device reports a new
+ * version, by polling GetFirmwareVersion.
+ *
+ * @example
+ * ```ts
+ * const updates = new FirmwareUpdateManager();
+ * updates.on("completed", (job) => console.log(`${job.deviceId} now runs ${job.currentVersion}`));
+ * await updates.start(device, { url });
+ * ```
+ */
+export class FirmwareUpdateManager extends EventEmitter<FirmwareUpdateEvents> {
+  private readonly options: Required<FirmwareUpdateOptions>;
+  private readonly updates = new Map<string, RunningUpdate>();
+
+  constructor(options: FirmwareUpdateOptions = {}) {
+    super();
+    this.options = {
+      pollInterval: options.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      timeout: options.timeout ?? DEFAULT_UPDATE_TIMEOUT,
+      missedPolls: options.missedPolls ?? DEFAULT_MISSED_POLLS,
+    };
+  }
+
+  /**
+   * Gets the latest update for a device, if any.
+   */
+  getJob(deviceId: string): FirmwareUpdateJob | null {
+    const update = this.updates.get(deviceId);
+    return update ? { ...update.job } : null;
+  }
+
+  /**
+   * Whether an update is running for a device.
+   */
+  isUpdating(deviceId: string): boolean {
+    const status = this.updates.get(deviceId)?.job.status;
+    return status === "downloading" || status === "rebooting";
+  }
+
+  /**
+   * Starts a firmware update.
+   *
+   * @param device - Device to update
+   * @param request - Image to install
+   * @returns The new job
+   * @throws Error if an update is already running for the device
+   * @throws DeviceError if the device cannot be reached or rejects the update
+   */
+  async start(device: WemoDevice, request: FirmwareUpdateRequest): Promise<FirmwareUpdateJob> {
+    if (this.isUpdating(device.id)) {
+      throw new Error(`A firmware update is already running for ${device.name}`);
+    }
+
+    const client = new FirmwareDeviceClient(device);
+    const { version } = await client.getFirmwareVersion();
+    await client.updateFirmware(request);
+
+    const now = new Date().toISOString();
+    const update: RunningUpdate = {
+      job: {
+        deviceId: device.id,
+        imageUrl: request.url,
+        targetVersion: request.version ?? null,
+        previousVersion: version,
+        currentVersion: version,
+        status: "downloading",
+        error: null,
+        startedAt: now,
+        updatedAt: now,
+      },
+      client,
+      deadline: Date.now() + this.options.timeout,
+      timer: null,
+      missedPolls: 0,
+      restarted: false,
+    };
+
+    this.cancel(device.id);
+    this.updates.set(device.id, update);
+    this.emit("progress", { ...update.job });
+    this.schedulePoll(update);
+
+    return { ...update.job };
+  }
+
+  /**
+   * Stops tracking an update. The device itself cannot be stopped.
+   */
+  cancel(deviceId: string): void {
+    const update = this.updates.get(deviceId);
+    if (update?.timer) {
+      clearTimeout(update.timer);
+    }
+    this.updates.delete(deviceId);
+  }
+
+  /**
+   * Stops tracking all updates.
+   */
+  stop(): void {
+    for (const deviceId of [...this.updates.keys()]) {
+      this.cancel(deviceId);
+    }
+  }
+
+  /**
+   * Schedules the next progress check.
+   */
+  private schedulePoll(update: RunningUpdate): void {
+    update.timer = setTimeout(() => {
+      update.timer = null;
+      void this.poll(update);
+    }, this.options.pollInterval);
+  }
+
+  /**
+   * Checks on an update and moves it to its next status.
+   */
+  private async poll(update: RunningUpdate): Promise<void> {
+    const { job } = update;
+
+    try {
+      // No retries: the next poll is the retry
+      const { version } = await withSoapPriority("poll", () => update.client.getFirmwareVersion(0));
+      job.currentVersion = version;
+      update.missedPolls = 0;
+
+      if (version !== job.previousVersion) {
+        this.finish(update, "completed");
+        return;
+      }
+      // Some devices reboot more than once, so the old version is only a
+      // failure if it is still there at the deadline
+      if (job.status === "rebooting") {
+        update.restarted = true;
+        this.setStatus(update, "downloading");
+      }
+    } catch {
+      // Devices stop answering while they flash and reboot, but can also
+      // miss a check while they download
+      update.missedPolls++;
+      if (job.status !== "rebooting" && update.missedPolls >= this.options.missedPolls) {
+        this.setStatus(update, "rebooting");
+      }
+    }
+
+    if (Date.now() >= update.deadline) {
+      this.finish(
+        update,
+        "failed",
+        update.restarted
+          ? "Device restarted without changing firmware"
+          : "Timed out waiting for the device to report new firmware"
+      );
+      return;
+    }
+
+    // Cancelled while the request was in flight
+    if (this.updates.get(job.deviceId) === update) {
+      this.schedulePoll(update);
+    }
+  }
+
+  /**
+   * Updates a job's status and notifies listeners.
+   */
+  private setStatus(update: RunningUpdate, status: FirmwareUpdateStatus, error?: string): void {
+    update.job.status = status;
+    update.job.error = error ?? null;
+    update.job.updatedAt = new Date().toISOString();
+    this.emit("progress", { ...update.job });
+  }
+
+  /**
+   * Ends a job; finished jobs stay available through getJob.
+   */
+  private finish(update: RunningUpdate, status: "completed" | "failed", error?: string): void {
+    this.setStatus(update, status, error);
+    if (status === "completed") {
+      this.emit("completed", { ...update.job });
+    }
+  }
+}
+
+/**
+ * Singleton update manager instance.
+ */
+let managerInstance: FirmwareUpdateManager | null = null;
+
+/**
+ * Gets the firmware update manager instance (singleton).
+ */
+export function getFirmwareUpdates(): FirmwareUpdateManager {
+  if (!managerInstance) {
+    managerInstance = new FirmwareUpdateManager();
+  }
+  return managerInstance;
+}
+
+/**
+ * Checks if a device exposes the firmwareupdate1 service.
+ *
+ * @param device - The device to check
+ * @returns true if firmware can be updated over the network
+ */
+export function supportsFirmwareUpdate(device: Pick<WemoDevice, "services">): boolean {
+  return device.services.some((s) => s.serviceType === FIRMWARE_SERVICE);
+}
@@ -0,0 +1,197 @@
+/**
+ * Device Health Telemetry
+ *
+ * Some plugs drop off the network now and then, usually because of a weak
+ * WiFi signal. Each device is sampled periodically (whether it answers, how
+ * long it takes, the signal strength it reports and how many SOAP requests
+ * to it failed) and recent samples are scored so flaky devices stand out.
+ */
+
+import { DeviceError, WemoDeviceClient } from "./device";
+import { takeSoapStats } from "./soap";
+import type { WemoDevice } from "./types";
+
+/**
+ * Window of samples a health summary covers (24 hours).
+ */
+export const HEALTH_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Fewest samples before a device can be called flaky.
+ */
+const MIN_FLAKY_SAMPLES = 6;
+
+/**
+ * Share of samples a device must answer to not be flaky.
+ */
+const FLAKY_REACHABILITY = 0.9;
+
+/**
+ * Share of failed SOAP requests above which a device is flaky.
+ */
+const FLAKY_ERROR_RATE = 0.2;
+
+/**
+ * Response times scored as perfect and as worthless, in milliseconds.
+ */
+const GOOD_LATENCY = 200;
+const BAD_LATENCY = 2000;
+
+/**
+ * Devices that answered GetSignalStrength with an error.
+ */
+const withoutSignalStrength = new Set<string>();
+
+/**
+ * One health sample of a device.
+ */
+export interface HealthSample {
+  /** Saved device ID */
+  deviceId: string;
+  /** When the sample was taken (ISO 8601) */
+  sampledAt: string;
+  /** Whether the device answered */
+  reachable: boolean;
+  /** How long the device took to answer, or null if it did not */
+  latencyMs: number | null;
+  /** WiFi signal strength in percent, or null if not reported */
+  signalStrength: number | null;
+  /** SOAP requests sent to the device since the previous sample */
+  soapRequests: number;
+  /** How many of those failed */
+  soapErrors: number;
+}
+
+/**
+ * Overall health rating.
+ */
+export type HealthStatus = "good" | "fair" | "poor" | "unknown";
+
+/**
+ * Health computed from recent samples.
+ */
+export interface HealthSummary {
+  /** Score from 0 (unusable) to 100 (healthy), or null without samples */
+  score: number | null;
+  status: HealthStatus;
+  /** Whether the device often misses samples or fails requests */
+  flaky: boolean;
+  /** Share of samples the device answered (0-1) */
+  reachability: number | null;
+  /** Average response time of answered samples */
+  averageLatencyMs: number | null;
+  /** Most recently reported signal strength */
+  signalStrength: number | null;
+  /** Share of SOAP requests that failed (0-1) */
+  errorRate: number | null;
+  /** Number of samples summarized */
+  samples: number;
+}
+
+/**
+ * Averages numbers, or null for none.
+ */
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Scores health samples, oldest first.
+ *
+ * The score weighs reachability (50%), signal strength (20%), SOAP error
+ * rate (20%) and response time (10%); parts without data are left out.
+ */
+export function summarizeHealth(samples: HealthSample[]): HealthSummary {
+  if (samples.length === 0) {
+    return {
+      score: null,
+      status: "unknown",
+      flaky: false,
+      reachability: null,
+      averageLatencyMs: null,
+      signalStrength: null,
+      errorRate: null,
+      samples: 0,
+    };
+  }
+
+  const reachability = samples.filter((s) => s.reachable).length / samples.length;
+  const latencies = samples.flatMap((s) => (s.latencyMs === null ? [] : [s.latencyMs]));
+  const averageLatencyMs = average(latencies);
+  const signals = samples.flatMap((s) => (s.signalStrength === null ? [] : [s.signalStrength]));
+  const signalStrength = signals[signals.length - 1] ?? null;
+  const requests = samples.reduce((sum, s) => sum + s.soapRequests, 0);
+  const errorRate =
+    requests > 0 ? samples.reduce((sum, s) => sum + s.soapErrors, 0) / requests : null;
+
+  const parts: [weight: number, value: number | null][] = [
+    [0.5, reachability * 100],
+    [0.2, signalStrength],
+    [0.2, errorRate === null ? null : (1 - errorRate) * 100],
+    [
+      0.1,
+      averageLatencyMs === null
+        ? null
+        : Math.min(
+            100,
+            Math.max(0, ((BAD_LATENCY - averageLatencyMs) / (BAD_LATENCY - GOOD_LATENCY)) * 100)
+          ),
+    ],
+  ];
+  const scored = parts.filter((part): part is [number, number] => part[1] !== null);
+  const weights = scored.reduce((sum, [weight]) => sum + weight, 0);
+  const score = Math.round(
+    scored.reduce((sum, [weight, value]) => sum + weight * value, 0) / weights
+  );
+
+  return {
+    score,
+    status: score >= 80 ? "good" : score >= 50 ? "fair" : "poor",
+    flaky:
+      samples.length >= MIN_FLAKY_SAMPLES &&
+      (reachability < FLAKY_REACHABILITY || (errorRate ?? 0) > FLAKY_ERROR_RATE),
+    reachability,
+    averageLatencyMs: averageLatencyMs === null ? null : Math.round(averageLatencyMs),
+    signalStrength,
+    errorRate,
+    samples: samples.length,
+  };
+}
+
+/**
+ * Samples a device's health. The SOAP counts cover every request sent to the
+ * device since the previous sample, including this one's.
+ *
+ * @param device - Device to sample, with its saved ID
+ */
+export async function sampleDeviceHealth(device: WemoDevice): Promise<HealthSample> {
+  const client = new WemoDeviceClient(device);
+  const sampledAt = new Date().toISOString();
+
+  const started = performance.now();
+  const reachable = await client.isReachable();
+  const latencyMs = reachable ? Math.round(performance.now() - started) : null;
+
+  let signalStrength: number | null = null;
+  if (reachable && !withoutSignalStrength.has(device.id)) {
+    try {
+      signalStrength = await client.getSignalStrength();
+    } catch (error) {
+      // Older firmware has no GetSignalStrength; don't count that failure every time
+      if (error instanceof DeviceError && !error.unreachable) {
+        withoutSignalStrength.add(device.id);
+      }
+    }
+  }
+
+  const { requests, errors } = takeSoapStats(device.host);
+  return {
+    deviceId: device.id,
+    sampledAt,
+    reachable,
+    latencyMs,
+    signalStrength,
+    soapRequests: requests,
+    soapErrors: errors,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * WeMo Heater Support
+ *
+ * Holmes space heaters with WeMo report their mode and temperatures as
+ * deviceevent attributes.
+ */
+
+import { AttributeDeviceClient, type DeviceAttributes, numericAttribute } from "./attributes";
+import { type WemoDevice, WemoDeviceType } from "./types";
+
+/**
+ * Heater modes.
+ */
+export type HeaterMode = "off" | "frostProtect" | "high" | "low" | "eco";
+
+/**
+ * Mode attribute values.
+ */
+const MODE_VALUES: Record<HeaterMode, string> = {
+  off: "0",
+  frostProtect: "1",
+  high: "2",
+  low: "3",
+  eco: "4",
+};
+
+/**
+ * Heater modes, in device order.
+ */
+export const HEATER_MODES = Object.keys(MODE_VALUES) as HeaterMode[];
+
+/**
+ * Heater state.
+ */
+export interface HeaterState {
+  /** Current mode */
+  mode: HeaterMode;
+  /** Room temperature, in temperatureUnit */
+  currentTemperature: number | null;
+  /** Target temperature, in temperatureUnit */
+  targetTemperature: number | null;
+  /** Unit the heater displays and accepts temperatures in */
+  temperatureUnit: "C" | "F";
+}
+
+/**
+ * Converts heater attributes to a typed state.
+ */
+export function parseHeaterAttributes(attributes: DeviceAttributes): HeaterState {
+  const mode = HEATER_MODES.find((m) => MODE_VALUES[m] === attributes.Mode) ?? "off";
+  return {
+    mode,
+    currentTemperature: numericAttribute(attributes, "Temperature"),
+    targetTemperature: numericAttribute(attributes, "SetTemperature"),
+    temperatureUnit: attributes.TempUnit === "1" ? "F" : "C",
+  };
+}
+
+/**
+ * Client for WeMo heaters.
+ *
+ * @example
+ * ```ts
+ * const heater = new HeaterDeviceClient(device);
+ * await heater.updateHeater({ mode: "eco", targetTemperature: 20 });
+ * ```
+ */
+export class HeaterDeviceClient extends AttributeDeviceClient {
+  /**
+   * Gets the mode and temperatures.
+   */
+  async getHeaterState(): Promise<HeaterState> {
+    return parseHeaterAttributes(await this.getAttributes());
+  }
+
+  /**
+   * Changes the mode and/or target temperature.
+   */
+  async updateHeater(changes: { mode?: HeaterMode; targetTemperature?: number }): Promise<void> {
+    const attributes: DeviceAttributes = {};
+    if (changes.mode !== undefined) {
+      attributes.Mode = MODE_VALUES[changes.mode];
+    }
+    if (changes.targetTemperature !== undefined) {
+      attributes.SetTemperature = String(Math.round(changes.targetTemperature));
+    }
+    await this.setAttributes(attributes);
+  }
+}
+
+/**
+ * Checks if a device is a heater.
+ *
+ * @param device - The device to check
+ * @returns true if device is a heater
+ */
+export function isHeater(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Heater;
+}
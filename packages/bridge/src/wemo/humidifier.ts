@@ -0,0 +1,121 @@
+/**
+ * WeMo Humidifier Support
+ *
+ * Holmes humidifiers with WeMo report fan speed, humidity, water level and
+ * filter life as deviceevent attributes.
+ */
+
+import { AttributeDeviceClient, type DeviceAttributes, numericAttribute } from "./attributes";
+import { type WemoDevice, WemoDeviceType } from "./types";
+
+/**
+ * Fan speeds, in device order (FanMode 0-5).
+ */
+export const FAN_MODES = ["off", "minimum", "low", "medium", "high", "maximum"] as const;
+
+/**
+ * Humidifier fan speed.
+ */
+export type FanMode = (typeof FAN_MODES)[number];
+
+/**
+ * Target humidity levels, in device order (DesiredHumidity 0-4).
+ * 100 means run continuously.
+ */
+export const TARGET_HUMIDITY_LEVELS = [45, 50, 55, 60, 100] as const;
+
+/**
+ * Target humidity in percent.
+ */
+export type TargetHumidity = (typeof TARGET_HUMIDITY_LEVELS)[number];
+
+/**
+ * FilterLife value of a new filter.
+ */
+const FILTER_LIFE_MAX = 60480;
+
+/**
+ * Humidifier state.
+ */
+export interface HumidifierState {
+  /** Fan speed */
+  fanMode: FanMode;
+  /** Humidity the humidifier runs until, in percent */
+  targetHumidity: TargetHumidity;
+  /** Measured humidity in percent */
+  currentHumidity: number | null;
+  /** Water tank level */
+  waterLevel: "good" | "low" | "empty";
+  /** Remaining filter life in percent */
+  filterLife: number | null;
+  /** Whether the filter needs replacing */
+  filterExpired: boolean;
+}
+
+/**
+ * Converts humidifier attributes to a typed state.
+ */
+export function parseHumidifierAttributes(attributes: DeviceAttributes): HumidifierState {
+  const fanMode = FAN_MODES[numericAttribute(attributes, "FanMode") ?? 0] ?? "off";
+  const targetHumidity =
+    TARGET_HUMIDITY_LEVELS[numericAttribute(attributes, "DesiredHumidity") ?? 0] ?? 45;
+  const filterLife = numericAttribute(attributes, "FilterLife");
+
+  return {
+    fanMode,
+    targetHumidity,
+    currentHumidity: numericAttribute(attributes, "CurrentHumidity"),
+    waterLevel:
+      attributes.NoWater === "1" ? "empty" : attributes.WaterAdvise === "1" ? "low" : "good",
+    filterLife:
+      filterLife === null
+        ? null
+        : Math.max(0, Math.min(100, Math.round((filterLife / FILTER_LIFE_MAX) * 100))),
+    filterExpired: attributes.ExpiredFilterTime === "1",
+  };
+}
+
+/**
+ * Client for WeMo humidifiers.
+ *
+ * @example
+ * ```ts
+ * const humidifier = new HumidifierDeviceClient(device);
+ * await humidifier.updateHumidifier({ fanMode: "medium", targetHumidity: 50 });
+ * ```
+ */
+export class HumidifierDeviceClient extends AttributeDeviceClient {
+  /**
+   * Gets fan speed, humidity, water level and filter life.
+   */
+  async getHumidifierState(): Promise<HumidifierState> {
+    return parseHumidifierAttributes(await this.getAttributes());
+  }
+
+  /**
+   * Changes the fan speed and/or target humidity.
+   */
+  async updateHumidifier(changes: {
+    fanMode?: FanMode;
+    targetHumidity?: TargetHumidity;
+  }): Promise<void> {
+    const attributes: DeviceAttributes = {};
+    if (changes.fanMode !== undefined) {
+      attributes.FanMode = String(FAN_MODES.indexOf(changes.fanMode));
+    }
+    if (changes.targetHumidity !== undefined) {
+      attributes.DesiredHumidity = String(TARGET_HUMIDITY_LEVELS.indexOf(changes.targetHumidity));
+    }
+    await this.setAttributes(attributes);
+  }
+}
+
+/**
+ * Checks if a device is a humidifier.
+ *
+ * @param device - The device to check
+ * @returns true if device is a humidifier
+ */
+export function isHumidifier(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Humidifier;
+}
@@ -0,0 +1,233 @@
+/**
+ * Device Identity
+ *
+ * A device can be identified by the UDN in its description, its MAC address
+ * or its serial number. Earlier versions saved devices under whichever one
+ * the code path at hand used, and under host- or timestamp-based IDs when
+ * none was available, which left several rows for one plug. Devices are now
+ * saved under a single resolved ID: the UDN, then the MAC, then the serial.
+ */
+
+import type { WemoDevice } from "./types";
+
+/**
+ * Identifiers read from a device description.
+ */
+export interface DeviceIdentifiers {
+  udn?: string;
+  macAddress?: string;
+  serialNumber?: string;
+}
+
+/**
+ * A saved row as seen by the duplicate check.
+ */
+export interface DeviceIdRow {
+  id: string;
+  host: string;
+  port: number;
+  parentId?: string | null;
+}
+
+/**
+ * A set of rows that refer to one device.
+ */
+export interface DuplicateDevices {
+  /** ID to keep (the strongest identifier among the rows) */
+  id: string;
+  /** IDs to merge into it */
+  duplicates: string[];
+}
+
+/**
+ * A Link saved under another ID than the one its bulbs carry as parentId.
+ */
+export interface MisfiledParent {
+  /** ID the Link is saved under */
+  id: string;
+  /** ID its bulbs refer to it by */
+  parentId: string;
+}
+
+/** Prefixes of IDs built from an address or a timestamp rather than the device */
+const ADDRESS_ID_PATTERN = /^(manual:|wemo-|device-)/;
+
+/**
+ * Normalizes a MAC address to 12 uppercase hex digits.
+ *
+ * @returns The MAC, or null if the value is not one
+ */
+export function normalizeMac(mac: string): string | null {
+  const hex = mac.replace(/[:\-.\s]/g, "").toUpperCase();
+  return /^[0-9A-F]{12}$/.test(hex) && !/^0+$/.test(hex) ? hex : null;
+}
+
+/**
+ * Resolves the ID a device is saved under: its UDN, else `mac:<MAC>`, else
+ * `serial:<serial number>`.
+ *
+ * @returns The ID, or null if the description has none of the identifiers
+ */
+export function resolveDeviceId(identifiers: DeviceIdentifiers): string | null {
+  const udn = identifiers.udn?.trim();
+  if (udn) {
+    return udn;
+  }
+
+  const mac = normalizeMac(identifiers.macAddress ?? "");
+  if (mac) {
+    return `mac:${mac}`;
+  }
+
+  const serial = identifiers.serialNumber?.trim();
+  return serial ? `serial:${serial}` : null;
+}
+
+/**
+ * Lists the other IDs a device may have been saved under by older versions,
+ * strongest first. Bulbs are only ever saved under their namespaced ID.
+ */
+export function getDeviceIdAliases(
+  device: Pick<WemoDevice, "id" | "macAddress" | "serialNumber" | "parentId">
+): string[] {
+  if (device.parentId) {
+    return [];
+  }
+
+  const mac = normalizeMac(device.macAddress);
+  const serial = device.serialNumber.trim();
+  const aliases = [
+    mac ? `mac:${mac}` : "",
+    serial ? `serial:${serial}` : "",
+    // Background discovery used to save devices under the bare serial number
+    serial,
+  ];
+  return aliases.filter(
+    (alias, index) => alias && alias !== device.id && aliases.indexOf(alias) === index
+  );
+}
+
+/**
+ * Checks whether an ID was built from an address or timestamp, so it says
+ * nothing about which device it belongs to.
+ */
+export function isAddressId(id: string): boolean {
+  return ADDRESS_ID_PATTERN.test(id);
+}
+
+/**
+ * Ranks an ID by how reliably it identifies a device: UDN, MAC, serial
+ * number, then address-based IDs.
+ */
+export function rankDeviceId(id: string): number {
+  if (id.startsWith("uuid:")) return 3;
+  if (id.startsWith("mac:")) return 2;
+  if (isAddressId(id)) return 0;
+  return 1;
+}
+
+/**
+ * Gets the serial number an ID carries. WeMo UDNs end in the serial number
+ * (e.g., "uuid:Socket-1_0-221517K0101769"); IDs without a prefix are bare
+ * serial numbers saved by older versions.
+ */
+function serialOf(id: string): string | null {
+  if (id.startsWith("uuid:")) {
+    const serial = id.slice(id.lastIndexOf("-") + 1);
+    return serial && serial !== id ? serial : null;
+  }
+  if (id.startsWith("serial:")) {
+    return id.slice("serial:".length) || null;
+  }
+  if (id.startsWith("mac:") || isAddressId(id)) {
+    return null;
+  }
+  return id;
+}
+
+/**
+ * Finds saved rows that refer to the same device.
+ *
+ * Rows match when their IDs carry the same serial number, or when a row with
+ * an address-based ID sits at the same host and port as another row. Bulbs
+ * are left out; they follow their Link.
+ */
+export function findDuplicateDevices(rows: DeviceIdRow[]): DuplicateDevices[] {
+  const devices = rows.filter((row) => !row.parentId);
+  const groupOf = new Map<string, string>(devices.map((row) => [row.id, row.id]));
+
+  const find = (id: string): string => {
+    let root = id;
+    while (groupOf.get(root) !== root) {
+      root = groupOf.get(root) ?? root;
+    }
+    return root;
+  };
+  const join = (a: string, b: string): void => {
+    groupOf.set(find(a), find(b));
+  };
+
+  const bySerial = new Map<string, string>();
+  const byAddress = new Map<string, string>();
+  for (const row of devices) {
+    const serial = serialOf(row.id);
+    if (serial) {
+      const match = bySerial.get(serial);
+      if (match) join(row.id, match);
+      else bySerial.set(serial, row.id);
+    }
+  }
+
+  // Address-based rows join whatever else is saved at their address
+  const address = (row: DeviceIdRow) => `${row.host}:${row.port}`;
+  for (const row of devices) {
+    if (!isAddressId(row.id)) {
+      byAddress.set(address(row), byAddress.get(address(row)) ?? row.id);
+    }
+  }
+  for (const row of devices) {
+    if (isAddressId(row.id)) {
+      const match = byAddress.get(address(row));
+      if (match) join(row.id, match);
+      else byAddress.set(address(row), row.id);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const row of devices) {
+    const root = find(row.id);
+    groups.set(root, [...(groups.get(root) ?? []), row.id]);
+  }
+
+  return [...groups.values()]
+    .filter((ids) => ids.length > 1)
+    .map((ids) => {
+      const [id = "", ...duplicates] = [...ids].sort((a, b) => rankDeviceId(b) - rankDeviceId(a));
+      return { id, duplicates };
+    });
+}
+
+/**
+ * Finds Links saved under another ID than the one their bulbs refer to.
+ * Background discovery once saved Links under their bare serial number
+ * while their bulbs pointed at the Link's UDN, so the bulbs had no parent.
+ */
+export function findMisfiledParents(rows: DeviceIdRow[]): MisfiledParent[] {
+  const ids = new Set(rows.map((row) => row.id));
+  const missing = new Set<string>();
+  for (const row of rows) {
+    if (row.parentId && !ids.has(row.parentId)) {
+      missing.add(row.parentId);
+    }
+  }
+
+  const misfiled: MisfiledParent[] = [];
+  for (const parentId of missing) {
+    const serial = serialOf(parentId);
+    const saved = rows.find((row) => !row.parentId && serial && serialOf(row.id) === serial);
+    if (saved) {
+      misfiled.push({ id: saved.id, parentId });
+    }
+  }
+  return misfiled;
+}
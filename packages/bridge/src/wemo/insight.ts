@@ -5,8 +5,8 @@
  * specific to WeMo Insight switches.
  */
 
-import { WemoDeviceClient } from "./device";
-import { extractTextValue, soapRequest } from "./soap";
+import { type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { extractNumericValue, extractTextValue, soapRequest } from "./soap";
 import type { InsightParams, PowerData, WemoDevice } from "./types";
 
 /**
@@ -19,6 +19,21 @@ const INSIGHT_SERVICE = "urn:Belkin:service:insight:1";
  */
 const INSIGHT_CONTROL_URL = "/upnp/control/insight1";
 
+/**
+ * Standby threshold firmware uses until one is set, in milliwatts.
+ */
+export const DEFAULT_STANDBY_THRESHOLD = 8000;
+
+/**
+ * Energy price and currency stored on an Insight for cost estimates.
+ */
+export interface InsightHomeSettings {
+  /** Price per kWh in thousandths of the currency unit (e.g., 125 = 0.125) */
+  energyPerUnitCost: number;
+  /** Currency code (e.g., "USD") */
+  currency: string;
+}
+
 /**
  * Parses the pipe-delimited InsightParams response from WeMo Insight devices.
  *
@@ -52,7 +67,7 @@ export function parseInsightParams(paramsString: string): InsightParams {
     instantPower: getValue(7),
     todayEnergy: getValue(8),
     totalEnergy: getValue(9),
-    standbyThreshold: getValue(10, 8000), // Default 8W threshold
+    standbyThreshold: getValue(10, DEFAULT_STANDBY_THRESHOLD), // Default 8W threshold
   };
 }
 
@@ -154,6 +169,86 @@ export class InsightDeviceClient extends WemoDeviceClient {
     return parseInsightParams(paramsString);
   }
 
+  /**
+   * Gets the insight service endpoint for this device.
+   */
+  private get insightEndpoint(): ServiceEndpoint {
+    return { serviceType: INSIGHT_SERVICE, controlURL: INSIGHT_CONTROL_URL };
+  }
+
+  /**
+   * Gets the power draw below which the device reports standby.
+   *
+   * @returns Threshold in milliwatts
+   */
+  async getPowerThreshold(): Promise<number> {
+    interface PowerThresholdResponse {
+      PowerThreshold?: unknown;
+    }
+
+    const response = await this.executeWithRetry<PowerThresholdResponse>(
+      "GetPowerThreshold",
+      undefined,
+      undefined,
+      this.insightEndpoint
+    );
+    return extractNumericValue(response.PowerThreshold);
+  }
+
+  /**
+   * Sets the power draw below which the device reports standby.
+   *
+   * @param milliwatts - Threshold in milliwatts
+   */
+  async setPowerThreshold(milliwatts: number): Promise<void> {
+    await this.executeWithRetry(
+      "SetPowerThreshold",
+      `<PowerThreshold>${Math.round(milliwatts)}</PowerThreshold>`,
+      undefined,
+      this.insightEndpoint
+    );
+  }
+
+  /**
+   * Clears the usage counters (on time and energy totals).
+   */
+  async resetUsage(): Promise<void> {
+    await this.executeWithRetry("ResetUsage", undefined, undefined, this.insightEndpoint);
+  }
+
+  /**
+   * Gets the energy price and currency used for cost estimates.
+   */
+  async getHomeSettings(): Promise<InsightHomeSettings> {
+    interface HomeSettingsResponse {
+      EnergyPerUnitCost?: unknown;
+      Currency?: unknown;
+    }
+
+    const response = await this.executeWithRetry<HomeSettingsResponse>(
+      "GetInsightHomeSettings",
+      undefined,
+      undefined,
+      this.insightEndpoint
+    );
+    return {
+      energyPerUnitCost: extractNumericValue(response.EnergyPerUnitCost),
+      currency: extractTextValue(response.Currency),
+    };
+  }
+
+  /**
+   * Sets the energy price and currency used for cost estimates.
+   */
+  async setHomeSettings(settings: InsightHomeSettings): Promise<void> {
+    await this.executeWithRetry(
+      "SetInsightHomeSettings",
+      `<EnergyPerUnitCost>${Math.round(settings.energyPerUnitCost)}</EnergyPerUnitCost><Currency>${settings.currency.replace(/[^A-Za-z]/g, "")}</Currency>`,
+      undefined,
+      this.insightEndpoint
+    );
+  }
+
   /**
    * Gets human-readable power data from the device.
    *
@@ -0,0 +1,531 @@
+/**
+ * WeMo Link Support
+ *
+ * The WeMo Link is a Zigbee bridge for LED bulbs. Bulbs are not on the
+ * IP network themselves; they are listed and controlled through the Link's
+ * bridge1 service (GetEndDevices, GetDeviceStatus, SetDeviceStatus).
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { DeviceError, type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { MAX_BRIGHTNESS, MIN_BRIGHTNESS } from "./dimmer";
+import { extractTextValue } from "./soap";
+import { type DeviceState, type WemoDevice, WemoDeviceType } from "./types";
+
+/**
+ * bridge1 service endpoint.
+ */
+const BRIDGE_SERVICE = "urn:Belkin:service:bridge:1";
+const BRIDGE_CONTROL_URL = "/upnp/control/bridge1";
+
+/**
+ * Zigbee capability IDs used by Link end devices.
+ */
+export const LinkCapability = {
+  /** On/off, value "0" or "1" */
+  OnOff: "10006",
+  /** Level control, value "level:transition" with level 0-255 */
+  Level: "10008",
+  /** Color temperature, value "mireds:transition" */
+  ColorTemperature: "30301",
+} as const;
+
+/**
+ * Raw level range used by the Zigbee level control capability.
+ */
+const MAX_LEVEL = 255;
+
+/**
+ * Color temperature range supported by WeMo / Osram bulbs, in Kelvin.
+ */
+export const MIN_COLOR_TEMPERATURE = 2700;
+export const MAX_COLOR_TEMPERATURE = 6500;
+
+/**
+ * Transition time sent with level and color changes (tenths of a second).
+ */
+const DEFAULT_TRANSITION = 0;
+
+/**
+ * Capabilities exposed through the API for bulbs.
+ */
+export type BulbCapability = "onoff" | "brightness" | "colorTemperature";
+
+/**
+ * Current state of a bulb, including what it can be controlled with.
+ */
+export interface BulbState extends DeviceState {
+  capabilities: BulbCapability[];
+}
+
+/**
+ * State of a single Link end device.
+ */
+export interface LinkDeviceStatus {
+  /** End device ID as reported by the Link (e.g., "94103EA2B27751EE") */
+  deviceId: string;
+  /** Whether the Link can currently reach the bulb */
+  available: boolean;
+  /** Raw capability values keyed by capability ID */
+  capabilities: Record<string, string>;
+}
+
+/**
+ * A bulb paired with a Link, as returned by GetEndDevices.
+ */
+export interface LinkEndDevice extends LinkDeviceStatus {
+  /** Name assigned in the WeMo app */
+  name: string;
+  /** Model code (e.g., "MZ100") */
+  modelCode: string;
+  /** Manufacturer reported by the bulb */
+  manufacturer: string;
+  /** Bulb firmware version */
+  firmwareVersion: string;
+}
+
+/**
+ * Parser for the XML documents embedded in bridge1 responses.
+ * Values are kept as strings since device IDs can look numeric.
+ */
+const innerParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+});
+
+/**
+ * Escapes a string for embedding as text inside a SOAP argument.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Decodes an embedded XML document that may still be entity-escaped.
+ */
+function unescapeXml(value: string): string {
+  if (!value.includes("&lt;")) {
+    return value;
+  }
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Normalizes a parsed XML node into an array.
+ */
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Zips comma-separated capability IDs and values into a map.
+ */
+export function parseCapabilities(ids: string, values: string): Record<string, string> {
+  const idList = ids.split(",").map((id) => id.trim());
+  const valueList = values.split(",");
+  const capabilities: Record<string, string> = {};
+
+  idList.forEach((id, index) => {
+    if (id) {
+      capabilities[id] = (valueList[index] ?? "").trim();
+    }
+  });
+
+  return capabilities;
+}
+
+/**
+ * Parses the DeviceLists document returned by GetEndDevices.
+ * Only individual paired bulbs are returned; groups are ignored.
+ *
+ * @param xml - DeviceLists XML (escaped or unescaped)
+ * @returns Paired end devices
+ */
+export function parseEndDevices(xml: string): LinkEndDevice[] {
+  const parsed = innerParser.parse(unescapeXml(xml));
+  const lists = toArray(parsed?.DeviceLists?.DeviceList);
+  const devices: LinkEndDevice[] = [];
+
+  for (const list of lists) {
+    for (const info of toArray(list?.DeviceInfos?.DeviceInfo)) {
+      const deviceId = extractTextValue(info.DeviceID);
+      if (!deviceId) {
+        continue;
+      }
+
+      devices.push({
+        deviceId,
+        name: extractTextValue(info.FriendlyName) || deviceId,
+        modelCode: extractTextValue(info.ModelCode),
+        manufacturer: extractTextValue(info.Manufacturer),
+        firmwareVersion: extractTextValue(info.FirmwareVersion),
+        available: extractTextValue(info.CurrentState) !== "",
+        capabilities: parseCapabilities(
+          extractTextValue(info.CapabilityIDs),
+          extractTextValue(info.CurrentState)
+        ),
+      });
+    }
+  }
+
+  return devices;
+}
+
+/**
+ * Parses the DeviceStatusList document returned by GetDeviceStatus.
+ *
+ * @param xml - DeviceStatusList XML (escaped or unescaped)
+ * @returns Status for each requested device
+ */
+export function parseDeviceStatusList(xml: string): LinkDeviceStatus[] {
+  const parsed = innerParser.parse(unescapeXml(xml));
+
+  return toArray(parsed?.DeviceStatusList?.DeviceStatus).map((status) => {
+    const available = status.DeviceID?.["@_available"];
+    const values = extractTextValue(status.CapabilityValue);
+
+    return {
+      deviceId: extractTextValue(status.DeviceID),
+      available: available !== undefined ? available !== "NO" : values !== "",
+      capabilities: parseCapabilities(extractTextValue(status.CapabilityID), values),
+    };
+  });
+}
+
+/**
+ * Builds the DeviceStatus document sent to SetDeviceStatus.
+ *
+ * @param deviceId - End device ID
+ * @param capabilities - Capability values keyed by capability ID
+ * @returns Unescaped DeviceStatus XML
+ */
+export function buildDeviceStatusXml(
+  deviceId: string,
+  capabilities: Record<string, string>
+): string {
+  const ids = Object.keys(capabilities).join(",");
+  const values = Object.values(capabilities).join(",");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<DeviceStatus><IsGroupAction>NO</IsGroupAction>",
+    `<DeviceID available="YES">${deviceId}</DeviceID>`,
+    `<CapabilityID>${ids}</CapabilityID>`,
+    `<CapabilityValue>${values}</CapabilityValue>`,
+    "</DeviceStatus>",
+  ].join("");
+}
+
+/**
+ * Converts a Zigbee level (0-255) to a brightness percentage.
+ */
+export function levelToBrightness(level: number): number {
+  return Math.round((Math.min(Math.max(level, 0), MAX_LEVEL) / MAX_LEVEL) * MAX_BRIGHTNESS);
+}
+
+/**
+ * Converts a brightness percentage to a Zigbee level (0-255).
+ */
+export function brightnessToLevel(brightness: number): number {
+  const clamped = Math.min(Math.max(brightness, MIN_BRIGHTNESS), MAX_BRIGHTNESS);
+  return Math.round((clamped / MAX_BRIGHTNESS) * MAX_LEVEL);
+}
+
+/**
+ * Converts a color temperature in Kelvin to mireds.
+ */
+export function kelvinToMireds(kelvin: number): number {
+  return Math.round(1_000_000 / kelvin);
+}
+
+/**
+ * Converts a color temperature in mireds to Kelvin.
+ */
+export function miredsToKelvin(mireds: number): number {
+  return Math.round(1_000_000 / mireds);
+}
+
+/**
+ * Lists the API-level capabilities of a bulb from its capability IDs.
+ */
+export function getBulbCapabilities(capabilities: Record<string, string>): BulbCapability[] {
+  const result: BulbCapability[] = [];
+
+  if (LinkCapability.OnOff in capabilities) {
+    result.push("onoff");
+  }
+  if (LinkCapability.Level in capabilities) {
+    result.push("brightness");
+  }
+  if (LinkCapability.ColorTemperature in capabilities) {
+    result.push("colorTemperature");
+  }
+
+  return result;
+}
+
+/**
+ * Builds the saved-device ID for a bulb behind a Link.
+ * Bulb IDs are only unique per Link, so they are namespaced by the Link ID.
+ */
+export function makeBulbId(linkId: string, endDeviceId: string): string {
+  return `${linkId}:${endDeviceId}`;
+}
+
+/**
+ * Extracts the end device ID from a bulb ID created by makeBulbId.
+ */
+export function getEndDeviceId(bulbId: string, linkId: string): string {
+  return bulbId.startsWith(`${linkId}:`) ? bulbId.slice(linkId.length + 1) : bulbId;
+}
+
+/**
+ * Client for the bridge1 service of a WeMo Link.
+ *
+ * @example
+ * ```ts
+ * const link = new LinkDeviceClient(device);
+ * for (const bulb of await link.getEndDevices()) {
+ *   console.log(bulb.name, bulb.capabilities);
+ * }
+ * ```
+ */
+export class LinkDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the bridge1 service endpoint for this Link.
+   */
+  protected get bridgeEndpoint(): ServiceEndpoint {
+    const service = this.info.services.find((s) => s.serviceType === BRIDGE_SERVICE);
+    return {
+      serviceType: BRIDGE_SERVICE,
+      controlURL: service?.controlURL ?? BRIDGE_CONTROL_URL,
+    };
+  }
+
+  /**
+   * Executes a bridge1 action with retry logic.
+   */
+  protected executeBridgeAction<T>(action: string, body?: string): Promise<T> {
+    return this.executeWithRetry<T>(action, body, undefined, this.bridgeEndpoint);
+  }
+
+  /**
+   * Lists the bulbs paired with this Link.
+   *
+   * @param linkUdn - UDN of the Link (defaults to the device ID)
+   */
+  async getEndDevices(linkUdn = this.id): Promise<LinkEndDevice[]> {
+    interface EndDevicesResponse {
+      DeviceLists?: unknown;
+    }
+
+    const response = await this.executeBridgeAction<EndDevicesResponse>(
+      "GetEndDevices",
+      `<DevUDN>${escapeXml(linkUdn)}</DevUDN><ReqListType>PAIRED_LIST</ReqListType>`
+    );
+
+    return parseEndDevices(extractTextValue(response.DeviceLists));
+  }
+
+  /**
+   * Gets the current status of one or more end devices.
+   *
+   * @param deviceIds - End device IDs
+   */
+  async getDeviceStatus(deviceIds: string[]): Promise<LinkDeviceStatus[]> {
+    interface DeviceStatusResponse {
+      DeviceStatusList?: unknown;
+    }
+
+    const response = await this.executeBridgeAction<DeviceStatusResponse>(
+      "GetDeviceStatus",
+      `<DeviceIDs>${escapeXml(deviceIds.join(","))}</DeviceIDs>`
+    );
+
+    return parseDeviceStatusList(extractTextValue(response.DeviceStatusList));
+  }
+
+  /**
+   * Sets capability values on an end device.
+   *
+   * @param deviceId - End device ID
+   * @param capabilities - Capability values keyed by capability ID
+   */
+  async setDeviceStatus(deviceId: string, capabilities: Record<string, string>): Promise<void> {
+    await this.executeBridgeAction(
+      "SetDeviceStatus",
+      `<DeviceStatusList>${escapeXml(buildDeviceStatusXml(deviceId, capabilities))}</DeviceStatusList>`
+    );
+  }
+}
+
+/**
+ * Client for a single bulb behind a WeMo Link.
+ *
+ * Implements the base on/off API on top of bridge1 so bulbs can be used
+ * anywhere a WemoDeviceClient is expected.
+ *
+ * @example
+ * ```ts
+ * const link = await getDeviceByAddress("192.168.1.50");
+ * const bulb = new BulbDeviceClient(link, "94103EA2B27751EE", "Desk Lamp");
+ *
+ * await bulb.setBrightness(60);
+ * await bulb.setColorTemperature(3000);
+ * ```
+ */
+export class BulbDeviceClient extends LinkDeviceClient {
+  private readonly endDeviceId: string;
+
+  /**
+   * @param link - The Link the bulb is paired with
+   * @param endDeviceId - End device ID reported by the Link
+   * @param name - Bulb name (defaults to the end device ID)
+   */
+  constructor(link: WemoDevice, endDeviceId: string, name = endDeviceId) {
+    super({
+      ...link,
+      id: makeBulbId(link.id, endDeviceId),
+      name,
+      deviceType: WemoDeviceType.Bulb,
+      serialNumber: endDeviceId,
+      parentId: link.id,
+    });
+    this.endDeviceId = endDeviceId;
+  }
+
+  /**
+   * Gets the raw status of this bulb.
+   *
+   * @throws DeviceError if the Link does not report the bulb or it is unreachable
+   */
+  async getStatus(): Promise<LinkDeviceStatus> {
+    const [status] = await this.getDeviceStatus([this.endDeviceId]);
+
+    if (!status || !status.available) {
+      throw new DeviceError(
+        `Bulb ${this.endDeviceId} is not reachable through the Link`,
+        this.id,
+        "GetDeviceStatus"
+      );
+    }
+
+    return status;
+  }
+
+  override async getBinaryState(): Promise<0 | 1> {
+    const { capabilities } = await this.getStatus();
+    return capabilities[LinkCapability.OnOff] === "1" ? 1 : 0;
+  }
+
+  override async setBinaryState(state: 0 | 1): Promise<void> {
+    await this.setDeviceStatus(this.endDeviceId, { [LinkCapability.OnOff]: String(state) });
+  }
+
+  /**
+   * Gets the current state including brightness, color temperature
+   * and the capabilities the bulb reports.
+   */
+  override async getState(): Promise<BulbState> {
+    const { capabilities } = await this.getStatus();
+    // Level and color values are "value:transition"; parseInt drops the suffix
+    const level = Number.parseInt(capabilities[LinkCapability.Level] ?? "", 10);
+    const mireds = Number.parseInt(capabilities[LinkCapability.ColorTemperature] ?? "", 10);
+
+    return {
+      binaryState: capabilities[LinkCapability.OnOff] === "1" ? 1 : 0,
+      brightness: Number.isNaN(level) ? undefined : levelToBrightness(level),
+      colorTemperature: mireds > 0 ? miredsToKelvin(mireds) : undefined,
+      capabilities: getBulbCapabilities(capabilities),
+    };
+  }
+
+  /**
+   * Sets the brightness level.
+   * A brightness of 0 turns the bulb off; any other value turns it on.
+   *
+   * @param brightness - Brightness between 0 and 100
+   */
+  async setBrightness(brightness: number): Promise<void> {
+    const level = brightnessToLevel(brightness);
+
+    if (level === 0) {
+      await this.setBinaryState(0);
+      return;
+    }
+
+    await this.setDeviceStatus(this.endDeviceId, {
+      [LinkCapability.OnOff]: "1",
+      [LinkCapability.Level]: `${level}:${DEFAULT_TRANSITION}`,
+    });
+  }
+
+  /**
+   * Sets the color temperature.
+   *
+   * @param kelvin - Color temperature, clamped to 2700-6500K
+   */
+  async setColorTemperature(kelvin: number): Promise<void> {
+    const clamped = Math.min(Math.max(kelvin, MIN_COLOR_TEMPERATURE), MAX_COLOR_TEMPERATURE);
+
+    await this.setDeviceStatus(this.endDeviceId, {
+      [LinkCapability.ColorTemperature]: `${kelvinToMireds(clamped)}:${DEFAULT_TRANSITION}`,
+    });
+  }
+}
+
+/**
+ * Lists the bulbs behind a Link as standalone devices.
+ * Bulbs share the Link's address and services and carry its ID as parentId.
+ *
+ * @param link - A discovered Link device
+ * @returns Bulb devices paired with the Link
+ * @throws DeviceError if the Link cannot be queried
+ */
+export async function getLinkEndDevices(link: WemoDevice): Promise<WemoDevice[]> {
+  const endDevices = await new LinkDeviceClient(link).getEndDevices();
+
+  return endDevices.map((endDevice) => ({
+    ...link,
+    id: makeBulbId(link.id, endDevice.deviceId),
+    name: endDevice.name,
+    deviceType: WemoDeviceType.Bulb,
+    manufacturer: endDevice.manufacturer || link.manufacturer,
+    model: endDevice.modelCode || "Bulb",
+    serialNumber: endDevice.deviceId,
+    firmwareVersion: endDevice.firmwareVersion,
+    macAddress: "",
+    parentId: link.id,
+  }));
+}
+
+/**
+ * Checks if a device is a WeMo Link.
+ */
+export function isLinkDevice(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Link;
+}
+
+/**
+ * Checks if a device supports color temperature control.
+ */
+export function supportsColorTemperature(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Bulb;
+}
@@ -0,0 +1,83 @@
+/**
+ * WeMo Maker Support
+ *
+ * The Maker has a relay and an optional sensor input, and is commonly wired
+ * to garage door openers. In momentary mode the relay closes briefly and
+ * opens again on its own, like pressing a button.
+ */
+
+import { AttributeDeviceClient, type DeviceAttributes } from "./attributes";
+import { type WemoDevice, WemoDeviceType } from "./types";
+
+/**
+ * Maker relay and sensor state.
+ */
+export interface MakerState {
+  /** Whether the relay is closed */
+  relay: boolean;
+  /** Whether the relay opens again on its own shortly after closing */
+  momentary: boolean;
+  /** Whether a sensor is connected to the sensor input */
+  sensorPresent: boolean;
+  /**
+   * Whether the sensor input is triggered (the device reports 0).
+   * Null when no sensor is connected.
+   */
+  sensorTriggered: boolean | null;
+}
+
+/**
+ * Converts Maker attributes to a typed state.
+ */
+export function parseMakerAttributes(attributes: DeviceAttributes): MakerState {
+  const sensorPresent = attributes.SensorPresent === "1";
+  return {
+    relay: attributes.Switch === "1",
+    momentary: attributes.SwitchMode === "1",
+    sensorPresent,
+    sensorTriggered: sensorPresent ? attributes.Sensor === "0" : null,
+  };
+}
+
+/**
+ * Client for WeMo Maker devices.
+ *
+ * @example
+ * ```ts
+ * const maker = new MakerDeviceClient(device);
+ * const { relay, sensorTriggered } = await maker.getMakerState();
+ * await maker.setRelay(true); // In momentary mode, "presses" the button
+ * ```
+ */
+export class MakerDeviceClient extends AttributeDeviceClient {
+  /**
+   * Gets the relay and sensor state.
+   */
+  async getMakerState(): Promise<MakerState> {
+    return parseMakerAttributes(await this.getAttributes());
+  }
+
+  /**
+   * Closes or opens the relay.
+   */
+  async setRelay(on: boolean): Promise<void> {
+    await this.setBinaryState(on ? 1 : 0);
+  }
+
+  /**
+   * Switches between toggle and momentary relay mode.
+   */
+  async setMomentary(momentary: boolean): Promise<void> {
+    await this.setAttributes({ SwitchMode: momentary ? "1" : "0" });
+  }
+}
+
+/**
+ * Checks if a device is a Maker.
+ *
+ * @param device - The device to check
+ * @returns true if device is a Maker
+ */
+export function isMaker(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Maker;
+}
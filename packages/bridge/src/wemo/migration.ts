@@ -0,0 +1,573 @@
+/**
+ * WiFi Network Migration
+ *
+ * Moves saved devices to a new WiFi network, e.g. when the router is
+ * replaced, without factory resetting them. While the devices are still
+ * reachable on the old network, each one in turn is sent the new network's
+ * credentials with the WiFiSetup service's ConnectHomeNetwork action, the
+ * same way devices are set up on their setup network. A device that drops
+ * off the old network is then looked for on the new one by the adoption
+ * watcher, which saves its new address once this computer has joined the
+ * new network too. Devices that don't make it are reported as stragglers.
+ */
+
+import { EventEmitter } from "node:events";
+import { type AdoptionJob, type AdoptionWatcher, getAdoptionWatcher } from "./adoption";
+import { setupUrlForAddress } from "./discovery";
+import { getPortRecovery } from "./relocate";
+import {
+  type SetupDeviceInfo,
+  WIFI_SETUP_CONTROL_URL,
+  WIFI_SETUP_SERVICE_TYPE,
+  type WifiConnectParams,
+  type WifiEncryption,
+  buildConnectHomeNetworkPayload,
+  encryptWifiPassword,
+  fetchSetupDeviceInfo,
+  selectEncryption,
+  sendRawSoapCommand,
+} from "./setup";
+import type { SavedDevice } from "./types";
+
+/**
+ * How long a device may keep answering on the old network after it was
+ * sent the new one before it counts as not having switched.
+ */
+const DEFAULT_LEAVE_TIMEOUT = 60000;
+
+/**
+ * How often to check whether a device left the old network.
+ */
+const DEFAULT_CHECK_INTERVAL = 2000;
+
+/**
+ * How long to look for devices on the new network. This computer has to
+ * join it first, which may wait until the old router is unplugged.
+ */
+const DEFAULT_REAPPEAR_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Status of a migration.
+ * - sending: devices are being sent the new network one by one
+ * - waiting: waiting for the devices that switched to show up on the new network
+ * - completed: every device was handled; see the stragglers for those that didn't move
+ * - cancelled: stopped before every device was handled
+ */
+export type NetworkMigrationStatus = "sending" | "waiting" | "completed" | "cancelled";
+
+/**
+ * Status of a device in a migration.
+ * - pending: not handled yet
+ * - ready: dry run; the device would be sent the new network
+ * - sent: the device accepted the new network; waiting for it to switch
+ * - left: the device left the old network; waiting for it on the new one
+ * - moved: the device was found on the new network
+ * - missing: the device left the old network but was not found on the new one
+ * - failed: the device could not be sent the new network, or did not switch
+ * - skipped: the device was not handled
+ */
+export type MigrationDeviceStatus =
+  | "pending"
+  | "ready"
+  | "sent"
+  | "left"
+  | "moved"
+  | "missing"
+  | "failed"
+  | "skipped";
+
+/**
+ * New network to move the devices to.
+ */
+export interface NetworkMigrationRequest
+  extends Omit<WifiConnectParams, "mac" | "serial" | "encryption"> {
+  /** Check every device and work out what would be sent, without sending it */
+  dryRun?: boolean;
+  /** Stop after the first device that fails */
+  stopOnFailure?: boolean;
+}
+
+/**
+ * A device in a migration.
+ */
+export interface MigrationDevice {
+  /** Saved device ID */
+  deviceId: string;
+  /** Saved device name */
+  name: string;
+  /** Address on the old network */
+  host: string;
+  port: number;
+  /** Current status */
+  status: MigrationDeviceStatus;
+  /** Why the device failed or was skipped */
+  error: string | null;
+  /** Encryption the password was (or would be) sent with */
+  encryption: WifiEncryption | null;
+  /** Address on the new network */
+  newHost: string | null;
+  newPort: number | null;
+  /** When the status last changed (ISO) */
+  updatedAt: string;
+}
+
+/**
+ * A migration in progress or finished.
+ */
+export interface NetworkMigrationJob {
+  /** Network the devices are moved to */
+  ssid: string;
+  /** Whether nothing is sent */
+  dryRun: boolean;
+  /** Whether the migration stops after the first failure */
+  stopOnFailure: boolean;
+  /** Current status */
+  status: NetworkMigrationStatus;
+  /** Devices in the order they are handled */
+  devices: MigrationDevice[];
+  /** IDs of the devices that failed, were skipped or went missing */
+  stragglers: string[];
+  /** When the migration was started (ISO) */
+  startedAt: string;
+  /** When the status last changed (ISO) */
+  updatedAt: string;
+}
+
+/**
+ * Options for the migration manager.
+ */
+export interface NetworkMigrationOptions {
+  /** Milliseconds a device may stay on the old network after it was sent the new one (default: 60000) */
+  leaveTimeout?: number;
+  /** Milliseconds between checks whether a device left (default: 2000) */
+  checkInterval?: number;
+  /** Milliseconds to look for devices on the new network (default: 30 minutes) */
+  reappearTimeout?: number;
+}
+
+/**
+ * Events emitted by the migration manager.
+ */
+export interface NetworkMigrationEvents {
+  /** The migration or one of its devices changed status */
+  progress: [NetworkMigrationJob];
+  /** The migration completed or was cancelled */
+  finished: [NetworkMigrationJob];
+}
+
+/**
+ * Internal bookkeeping for the running migration.
+ */
+interface RunningMigration {
+  job: NetworkMigrationJob;
+  request: NetworkMigrationRequest;
+  targets: Map<string, SavedDevice>;
+  encryptionFor: (device: SetupDeviceInfo) => WifiEncryption | null;
+  /** Devices being looked for on the new network, by serial number */
+  adoptions: Map<string, MigrationDevice>;
+}
+
+/**
+ * Checks whether anything answers at a setup.xml URL.
+ */
+async function isAnswering(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(3000) });
+    await response.body?.cancel();
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Moves saved devices to a new WiFi network, one at a time.
+ *
+ * @example
+ * ```ts
+ * const migration = new NetworkMigrationManager();
+ * migration.on("finished", (job) => console.log("Not moved:", job.stragglers));
+ * migration.start(db.getAllDevices(), { ssid: "NewRouter", password, auth: "WPA2PSK", encrypt: "AES" });
+ * ```
+ */
+export class NetworkMigrationManager extends EventEmitter<NetworkMigrationEvents> {
+  private readonly options: Required<NetworkMigrationOptions>;
+  private readonly watcher: AdoptionWatcher;
+  private current: RunningMigration | null = null;
+
+  /**
+   * @param watcher - Watcher that finds devices on the new network (default: the shared one)
+   */
+  constructor(
+    options: NetworkMigrationOptions = {},
+    watcher: AdoptionWatcher = getAdoptionWatcher()
+  ) {
+    super();
+    this.options = {
+      leaveTimeout: options.leaveTimeout ?? DEFAULT_LEAVE_TIMEOUT,
+      checkInterval: options.checkInterval ?? DEFAULT_CHECK_INTERVAL,
+      reappearTimeout: options.reappearTimeout ?? DEFAULT_REAPPEAR_TIMEOUT,
+    };
+    this.watcher = watcher;
+  }
+
+  /**
+   * Gets the running or last migration, if any.
+   */
+  getJob(): NetworkMigrationJob | null {
+    return this.current ? this.snapshot(this.current) : null;
+  }
+
+  /**
+   * Whether a migration is sending or waiting for devices.
+   */
+  isRunning(): boolean {
+    const status = this.current?.job.status;
+    return status === "sending" || status === "waiting";
+  }
+
+  /**
+   * Starts moving devices to a new network. Bulbs move with their Link and
+   * are left out; devices waiting for setup are skipped.
+   *
+   * @param encryptionFor - Encryption to use for a device, e.g. one its
+   *   model accepted before (default: from its setup.xml flags)
+   * @returns The new job; devices are handled in the background
+   * @throws Error if a migration is already running
+   */
+  start(
+    devices: SavedDevice[],
+    request: NetworkMigrationRequest,
+    encryptionFor: (device: SetupDeviceInfo) => WifiEncryption | null = () => null
+  ): NetworkMigrationJob {
+    if (this.isRunning()) {
+      throw new Error("A network migration is already running");
+    }
+
+    const now = new Date().toISOString();
+    const targets = devices.filter((device) => !device.parentId);
+    const run: RunningMigration = {
+      job: {
+        ssid: request.ssid,
+        dryRun: request.dryRun ?? false,
+        stopOnFailure: request.stopOnFailure ?? false,
+        status: "sending",
+        devices: targets.map((device) => ({
+          deviceId: device.id,
+          name: device.name,
+          host: device.host,
+          port: device.port,
+          status: device.needsSetup ? "skipped" : "pending",
+          error: device.needsSetup ? "Waiting for setup; not on the old network" : null,
+          encryption: null,
+          newHost: null,
+          newPort: null,
+          updatedAt: now,
+        })),
+        stragglers: [],
+        startedAt: now,
+        updatedAt: now,
+      },
+      request,
+      targets: new Map(targets.map((device) => [device.id, device])),
+      encryptionFor,
+      adoptions: new Map(),
+    };
+
+    this.current = run;
+    this.watcher.on("progress", this.onAdoption);
+    console.log(
+      `[Migration] Moving ${targets.length} devices to ${request.ssid}${run.job.dryRun ? " (dry run)" : ""}`
+    );
+    this.emit("progress", this.snapshot(run));
+
+    void this.run(run);
+    return this.snapshot(run);
+  }
+
+  /**
+   * Stops the migration. Devices not handled yet are skipped; devices that
+   * already switched are still saved if they show up on the new network.
+   */
+  cancel(): void {
+    const run = this.current;
+    if (!run || !this.isRunning()) {
+      return;
+    }
+
+    for (const device of run.job.devices) {
+      if (device.status === "pending") {
+        this.setDeviceStatus(run, device, "skipped", "Migration cancelled");
+      }
+    }
+    this.finish(run, "cancelled");
+  }
+
+  /**
+   * Cancels the migration and forgets it.
+   */
+  stop(): void {
+    this.cancel();
+    this.current = null;
+  }
+
+  /**
+   * Handles the devices one by one, then waits for them on the new network.
+   */
+  private async run(run: RunningMigration): Promise<void> {
+    for (const device of run.job.devices) {
+      if (!this.isSending(run)) {
+        return;
+      }
+      // Devices waiting for setup are skipped from the start
+      if (device.status === "skipped") {
+        continue;
+      }
+
+      try {
+        await this.migrateDevice(run, device);
+      } catch (error) {
+        this.setDeviceStatus(
+          run,
+          device,
+          "failed",
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      if (device.status === "failed" && run.job.stopOnFailure) {
+        for (const remaining of run.job.devices) {
+          if (remaining.status === "pending") {
+            this.setDeviceStatus(run, remaining, "skipped", `Stopped after ${device.name} failed`);
+          }
+        }
+        break;
+      }
+    }
+
+    if (!this.isSending(run)) {
+      return;
+    }
+    if (run.adoptions.size === 0) {
+      this.finish(run, "completed");
+      return;
+    }
+    this.setStatus(run, "waiting");
+    this.checkFinished(run);
+  }
+
+  private isSending(run: RunningMigration): boolean {
+    return this.current === run && run.job.status === "sending";
+  }
+
+  /**
+   * Sends one device the new network and waits for it to leave the old one.
+   */
+  private async migrateDevice(run: RunningMigration, device: MigrationDevice): Promise<void> {
+    const saved = run.targets.get(device.deviceId);
+    if (!saved) {
+      return;
+    }
+
+    // The flags in setup.xml pick the encryption; follow the device if it moved port
+    let info = await fetchSetupDeviceInfo(setupUrlForAddress(device.host, device.port));
+    if (!info) {
+      const moved = await getPortRecovery().recover({
+        id: saved.id,
+        host: device.host,
+        port: device.port,
+        ...(saved.serialNumber ? { serialNumber: saved.serialNumber } : {}),
+      });
+      if (moved) {
+        device.port = moved.port;
+        info = await fetchSetupDeviceInfo(setupUrlForAddress(device.host, device.port));
+      }
+    }
+    if (!info) {
+      this.setDeviceStatus(run, device, "failed", "Not reachable on the old network");
+      return;
+    }
+    if (!info.mac || !info.serial) {
+      this.setDeviceStatus(run, device, "failed", "setup.xml has no MAC address or serial number");
+      return;
+    }
+
+    const service = saved.services?.find((s) => s.serviceType === WIFI_SETUP_SERVICE_TYPE);
+    if (saved.services?.length && !service) {
+      this.setDeviceStatus(run, device, "failed", "Device has no WiFiSetup service");
+      return;
+    }
+
+    const encryption = run.encryptionFor(info) ?? selectEncryption(info);
+    device.encryption = encryption;
+
+    const { ssid, password, auth, encrypt, channel } = run.request;
+    const payload = buildConnectHomeNetworkPayload({
+      ssid,
+      password: encryptWifiPassword(
+        password,
+        info.mac,
+        info.serial,
+        encryption.method,
+        encryption.addLengths
+      ),
+      auth,
+      encrypt,
+      ...(channel !== undefined ? { channel } : {}),
+    });
+
+    // Nothing is sent once the migration was cancelled
+    if (!this.isSending(run)) {
+      return;
+    }
+    if (run.job.dryRun) {
+      this.setDeviceStatus(run, device, "ready");
+      return;
+    }
+
+    const controlUrl = service?.controlURL ?? WIFI_SETUP_CONTROL_URL;
+    const result = await sendRawSoapCommand(
+      `http://${device.host}:${device.port}${controlUrl}`,
+      `"${WIFI_SETUP_SERVICE_TYPE}#ConnectHomeNetwork"`,
+      payload
+    );
+    if (!result.success) {
+      this.setDeviceStatus(
+        run,
+        device,
+        "failed",
+        result.error ?? `Device answered HTTP ${result.responseStatus}`
+      );
+      return;
+    }
+    this.setDeviceStatus(run, device, "sent");
+
+    // The device drops off the old network while it switches
+    const setupUrl = setupUrlForAddress(device.host, device.port);
+    const deadline = Date.now() + this.options.leaveTimeout;
+    let answering = true;
+    while (answering && Date.now() < deadline && this.isSending(run)) {
+      await Bun.sleep(this.options.checkInterval);
+      answering = await isAnswering(setupUrl);
+    }
+    // A cancelled migration reports nothing more for the device
+    if (!this.isSending(run)) {
+      return;
+    }
+    if (answering) {
+      this.setDeviceStatus(
+        run,
+        device,
+        "failed",
+        "Still on the old network after being sent the new one"
+      );
+      return;
+    }
+
+    run.adoptions.set(info.serial, device);
+    this.setDeviceStatus(run, device, "left");
+    this.watcher.watch(
+      { serial: info.serial, mac: info.mac, name: saved.name },
+      this.options.reappearTimeout
+    );
+  }
+
+  /**
+   * Follows the devices being looked for on the new network.
+   */
+  private readonly onAdoption = (adoption: AdoptionJob): void => {
+    const run = this.current;
+    const device = run?.adoptions.get(adoption.serial);
+    if (!run || !device || device.status !== "left") {
+      return;
+    }
+
+    if (adoption.status === "online") {
+      device.newHost = adoption.host;
+      device.newPort = adoption.port;
+      this.setDeviceStatus(run, device, "moved");
+    } else if (adoption.status === "expired") {
+      this.setDeviceStatus(run, device, "missing", "Not found on the new network");
+    }
+    this.checkFinished(run);
+  };
+
+  /**
+   * Completes the migration once no device is left to wait for.
+   */
+  private checkFinished(run: RunningMigration): void {
+    const unsettled = run.job.devices.some(
+      (device) =>
+        device.status === "pending" || device.status === "sent" || device.status === "left"
+    );
+    if (run.job.status === "waiting" && !unsettled) {
+      this.finish(run, "completed");
+    }
+  }
+
+  private finish(run: RunningMigration, status: "completed" | "cancelled"): void {
+    this.watcher.off("progress", this.onAdoption);
+    this.setStatus(run, status);
+
+    const job = this.snapshot(run);
+    console.log(
+      `[Migration] ${status}: ${job.devices.filter((d) => d.status === "moved").length} moved, ` +
+        `${job.stragglers.length} stragglers`
+    );
+    this.emit("finished", job);
+  }
+
+  private setStatus(run: RunningMigration, status: NetworkMigrationStatus): void {
+    run.job.status = status;
+    run.job.updatedAt = new Date().toISOString();
+    this.emit("progress", this.snapshot(run));
+  }
+
+  private setDeviceStatus(
+    run: RunningMigration,
+    device: MigrationDevice,
+    status: MigrationDeviceStatus,
+    error: string | null = null
+  ): void {
+    device.status = status;
+    device.error = error;
+    device.updatedAt = new Date().toISOString();
+    run.job.updatedAt = device.updatedAt;
+    if (error) {
+      console.warn(`[Migration] ${device.name}: ${status} - ${error}`);
+    }
+    this.emit("progress", this.snapshot(run));
+  }
+
+  /**
+   * Copies the job so callers can't change it.
+   */
+  private snapshot(run: RunningMigration): NetworkMigrationJob {
+    const devices = run.job.devices.map((device) => ({ ...device }));
+    return {
+      ...run.job,
+      devices,
+      stragglers: devices
+        .filter(
+          (device) =>
+            device.status === "failed" || device.status === "skipped" || device.status === "missing"
+        )
+        .map((device) => device.deviceId),
+    };
+  }
+}
+
+/**
+ * Singleton migration instance.
+ */
+let migrationInstance: NetworkMigrationManager | null = null;
+
+/**
+ * Gets the network migration manager instance (singleton).
+ */
+export function getNetworkMigration(): NetworkMigrationManager {
+  if (!migrationInstance) {
+    migrationInstance = new NetworkMigrationManager();
+  }
+  return migrationInstance;
+}
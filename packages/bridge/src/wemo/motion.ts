@@ -0,0 +1,278 @@
+/**
+ * WeMo Motion Sensor Support
+ *
+ * Motion sensors report motion through BinaryState instead of power state,
+ * so they are read-only. Occupancy is derived from the last time motion was
+ * seen and a configurable timeout.
+ */
+
+import { DeviceError, WemoDeviceClient } from "./device";
+import { extractNumericValue, soapRequest } from "./soap";
+import { type WemoDevice, WemoDeviceType } from "./types";
+
+/**
+ * Basic event service used for motion sensor settings.
+ */
+const BASIC_EVENT_SERVICE = "urn:Belkin:service:basicevent:1";
+const BASIC_EVENT_CONTROL_URL = "/upnp/control/basicevent1";
+
+/**
+ * Default time after the last motion before a room is considered idle.
+ */
+export const DEFAULT_OCCUPANCY_TIMEOUT = 300;
+
+/**
+ * Allowed occupancy timeout range in seconds.
+ */
+export const MIN_OCCUPANCY_TIMEOUT = 10;
+export const MAX_OCCUPANCY_TIMEOUT = 86400;
+
+/**
+ * Occupancy derived from motion history.
+ */
+export type Occupancy = "occupied" | "idle";
+
+/**
+ * Motion sensor settings exposed by some firmware versions.
+ * A null value means the firmware does not expose that setting.
+ */
+export interface MotionSettings {
+  /** Detection sensitivity as reported by the device */
+  sensitivity: number | null;
+  /** Seconds the sensor holds its motion state after motion stops */
+  delay: number | null;
+}
+
+/**
+ * Point-in-time motion and occupancy state for a sensor.
+ */
+export interface MotionSnapshot {
+  /** Whether the sensor currently reports motion */
+  motion: boolean;
+  /** ISO timestamp of the last time motion was seen, if any */
+  lastMotionAt: string | null;
+  /** Occupied while motion is reported or within the timeout after it */
+  occupancy: Occupancy;
+}
+
+/**
+ * Maps settings to the basicevent actions and response fields that carry them.
+ */
+const SETTING_ACTIONS: Record<keyof MotionSettings, { name: string; field: string }> = {
+  sensitivity: { name: "Sensitivity", field: "Sensitivity" },
+  delay: { name: "Delay", field: "Delay" },
+};
+
+/**
+ * Client for WeMo Motion sensors.
+ *
+ * @example
+ * ```ts
+ * const sensor = new MotionDeviceClient(device);
+ * const motion = await sensor.getMotion();
+ * const { sensitivity, delay } = await sensor.getSettings();
+ * ```
+ */
+export class MotionDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the basicevent control URL for this sensor.
+   */
+  private get basicEventControlURL(): string {
+    const service = this.info.services.find((s) => s.serviceType.includes("basicevent"));
+    return service?.controlURL ?? BASIC_EVENT_CONTROL_URL;
+  }
+
+  /**
+   * Checks whether the sensor currently reports motion.
+   */
+  async getMotion(): Promise<boolean> {
+    return (await this.getBinaryState()) !== 0;
+  }
+
+  /**
+   * Reads sensitivity and delay.
+   * Settings the firmware does not expose are returned as null.
+   */
+  async getSettings(): Promise<MotionSettings> {
+    return {
+      sensitivity: await this.readSetting("sensitivity"),
+      delay: await this.readSetting("delay"),
+    };
+  }
+
+  /**
+   * Updates sensitivity and/or delay.
+   *
+   * @param settings - Settings to change
+   * @returns Names of settings the firmware does not expose (left unchanged)
+   */
+  async setSettings(
+    settings: Partial<Record<keyof MotionSettings, number>>
+  ): Promise<(keyof MotionSettings)[]> {
+    const unsupported: (keyof MotionSettings)[] = [];
+
+    for (const key of Object.keys(settings) as (keyof MotionSettings)[]) {
+      const value = settings[key];
+      if (value === undefined) continue;
+
+      const { name, field } = SETTING_ACTIONS[key];
+      const supported = await this.callSettingAction(
+        `Set${name}`,
+        `<${field}>${Math.round(value)}</${field}>`
+      );
+      if (supported === null) {
+        unsupported.push(key);
+      }
+    }
+
+    return unsupported;
+  }
+
+  /**
+   * Reads a single setting, or null if the firmware does not expose it.
+   */
+  private async readSetting(key: keyof MotionSettings): Promise<number | null> {
+    const { name, field } = SETTING_ACTIONS[key];
+    const data = await this.callSettingAction(`Get${name}`);
+    if (!data || data[field] === undefined) {
+      return null;
+    }
+    return extractNumericValue(data[field]);
+  }
+
+  /**
+   * Calls a settings action without retries.
+   * Returns null when the device answers but rejects the action, which is
+   * how firmware without the setting responds.
+   *
+   * @throws DeviceError if the device cannot be reached
+   */
+  private async callSettingAction(
+    action: string,
+    body?: string
+  ): Promise<Record<string, unknown> | null> {
+    const response = await soapRequest<Record<string, unknown>>(
+      this.host,
+      this.port,
+      this.basicEventControlURL,
+      BASIC_EVENT_SERVICE,
+      action,
+      body
+    );
+
+    if (response.success) {
+      return response.data ?? {};
+    }
+    if (response.statusCode !== undefined) {
+      return null;
+    }
+
+    throw new DeviceError(
+      `Failed to ${action}: ${response.error}`,
+      this.id,
+      action,
+      new Error(response.error)
+    );
+  }
+}
+
+/**
+ * Tracks motion history per sensor so occupancy can be derived.
+ *
+ * Fed from event notifications and state polls; history is kept in memory
+ * and starts empty on every launch.
+ */
+export class MotionTracker {
+  private readonly motion = new Map<string, boolean>();
+  private readonly lastMotionAt = new Map<string, number>();
+
+  /**
+   * Records a motion reading from a sensor.
+   *
+   * @param deviceId - Sensor ID
+   * @param motion - Whether motion is currently reported
+   * @param at - Time of the reading (ms since epoch)
+   */
+  record(deviceId: string, motion: boolean, at = Date.now()): void {
+    this.motion.set(deviceId, motion);
+    if (motion) {
+      this.lastMotionAt.set(deviceId, at);
+    }
+  }
+
+  /**
+   * Gets the motion and occupancy state for a sensor.
+   *
+   * @param deviceId - Sensor ID
+   * @param timeoutSeconds - Seconds after the last motion before the area is idle
+   * @param now - Current time (ms since epoch)
+   */
+  getSnapshot(
+    deviceId: string,
+    timeoutSeconds = DEFAULT_OCCUPANCY_TIMEOUT,
+    now = Date.now()
+  ): MotionSnapshot {
+    const motion = this.motion.get(deviceId) ?? false;
+    const lastMotion = this.lastMotionAt.get(deviceId);
+    const recent = lastMotion !== undefined && now - lastMotion < timeoutSeconds * 1000;
+
+    return {
+      motion,
+      lastMotionAt: lastMotion !== undefined ? new Date(lastMotion).toISOString() : null,
+      occupancy: motion || recent ? "occupied" : "idle",
+    };
+  }
+
+  /**
+   * Drops history for a sensor.
+   */
+  forget(deviceId: string): void {
+    this.motion.delete(deviceId);
+    this.lastMotionAt.delete(deviceId);
+  }
+}
+
+/**
+ * Singleton tracker shared by the API and event handlers.
+ */
+let trackerInstance: MotionTracker | null = null;
+
+/**
+ * Gets the shared motion tracker.
+ */
+export function getMotionTracker(): MotionTracker {
+  if (!trackerInstance) {
+    trackerInstance = new MotionTracker();
+  }
+  return trackerInstance;
+}
+
+/**
+ * Creates a Motion sensor client from a WemoDevice object.
+ *
+ * @param device - The WemoDevice to create a client for
+ * @returns A new MotionDeviceClient instance
+ */
+export function createMotionClient(device: WemoDevice): MotionDeviceClient {
+  return new MotionDeviceClient(device);
+}
+
+/**
+ * Checks if a device is a motion sensor.
+ *
+ * @param device - The device to check
+ * @returns true if device is a motion sensor
+ */
+export function isMotionSensor(device: Pick<WemoDevice, "deviceType">): boolean {
+  return device.deviceType === WemoDeviceType.Motion;
+}
+
+/**
+ * Checks if a device only reports state and cannot be switched on or off.
+ *
+ * @param device - The device to check
+ * @returns true if on/off control is meaningless for the device
+ */
+export function isSensorOnly(device: Pick<WemoDevice, "deviceType">): boolean {
+  return isMotionSensor(device);
+}
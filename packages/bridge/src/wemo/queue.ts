@@ -0,0 +1,235 @@
+/**
+ * Per-Host SOAP Request Queue
+ *
+ * WeMo firmware can hang or reboot when it receives several SOAP requests at
+ * once, so requests to each host are sent one at a time. User commands go
+ * ahead of background polls, and identical reads that are already queued or
+ * in flight share one request.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Request priority.
+ * - command: a request made for a user, read or write (sent first)
+ * - poll: background work that can wait, marked with withSoapPriority
+ */
+export type SoapPriority = "command" | "poll";
+
+/**
+ * Order in which priorities are served.
+ */
+const PRIORITY_ORDER: Record<SoapPriority, number> = {
+  command: 0,
+  poll: 1,
+};
+
+/**
+ * Queue metrics for one host.
+ */
+export interface SoapQueueMetrics {
+  /** Device host */
+  host: string;
+  /** Requests waiting to be sent */
+  queued: number;
+  /** Whether a request is being sent now */
+  inFlight: boolean;
+  /** Most requests that have waited at once */
+  maxQueued: number;
+  /** Requests sent */
+  sent: number;
+  /** Requests answered by sharing an identical read */
+  coalesced: number;
+  /** Average time requests waited before being sent, in ms */
+  averageWaitMs: number;
+  /** When a request to this host last finished (ISO), or null */
+  lastRequestAt: string | null;
+}
+
+/**
+ * A request waiting to be sent.
+ */
+interface QueuedRequest {
+  priority: SoapPriority;
+  coalesceKey: string | null;
+  enqueuedAt: number;
+  run: () => Promise<unknown>;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Requests and counters for one host.
+ */
+interface HostQueue {
+  pending: QueuedRequest[];
+  active: QueuedRequest | null;
+  maxQueued: number;
+  sent: number;
+  coalesced: number;
+  totalWaitMs: number;
+  lastRequestAt: number | null;
+}
+
+/**
+ * Options for a queued request.
+ */
+export interface EnqueueOptions {
+  /** Request priority (default: command); withSoapPriority overrides it */
+  priority?: SoapPriority;
+  /** Requests with the same key share one result while queued or in flight */
+  coalesceKey?: string;
+}
+
+const priorityContext = new AsyncLocalStorage<SoapPriority>();
+
+/**
+ * Runs work with all its SOAP requests at one priority, e.g. to keep
+ * background syncs behind user commands.
+ *
+ * @example
+ * ```ts
+ * await withSoapPriority("poll", () => getTimeSync().sync(device));
+ * ```
+ */
+export function withSoapPriority<T>(priority: SoapPriority, fn: () => T): T {
+  return priorityContext.run(priority, fn);
+}
+
+/**
+ * Serializes requests per host.
+ */
+export class SoapRequestQueue {
+  private hosts = new Map<string, HostQueue>();
+
+  /**
+   * Queues a request to a host and settles with its result, which is shared
+   * with coalesced callers.
+   */
+  enqueue<T>(host: string, run: () => Promise<T>, options: EnqueueOptions = {}): Promise<T> {
+    const queue = this.getHostQueue(host);
+    const priority = priorityContext.getStore() ?? options.priority ?? "command";
+    const coalesceKey = options.coalesceKey ?? null;
+
+    if (coalesceKey !== null) {
+      const existing =
+        queue.active?.coalesceKey === coalesceKey
+          ? queue.active
+          : queue.pending.find((r) => r.coalesceKey === coalesceKey);
+      if (existing) {
+        queue.coalesced++;
+        // A command waiting on a queued poll moves the poll up
+        if (PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.priority]) {
+          existing.priority = priority;
+        }
+        return existing.promise as Promise<T>;
+      }
+    }
+
+    let resolve: (value: unknown) => void = () => {};
+    let reject: (error: unknown) => void = () => {};
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    queue.pending.push({
+      priority,
+      coalesceKey,
+      enqueuedAt: Date.now(),
+      run,
+      promise,
+      resolve,
+      reject,
+    });
+    queue.maxQueued = Math.max(queue.maxQueued, queue.pending.length);
+
+    this.drain(queue);
+    return promise as Promise<T>;
+  }
+
+  /**
+   * Gets metrics for every host that has been contacted.
+   */
+  getMetrics(): SoapQueueMetrics[] {
+    return [...this.hosts.entries()].map(([host, queue]) => ({
+      host,
+      queued: queue.pending.length,
+      inFlight: queue.active !== null,
+      maxQueued: queue.maxQueued,
+      sent: queue.sent,
+      coalesced: queue.coalesced,
+      averageWaitMs: queue.sent > 0 ? Math.round(queue.totalWaitMs / queue.sent) : 0,
+      lastRequestAt: queue.lastRequestAt ? new Date(queue.lastRequestAt).toISOString() : null,
+    }));
+  }
+
+  private getHostQueue(host: string): HostQueue {
+    let queue = this.hosts.get(host);
+    if (!queue) {
+      queue = {
+        pending: [],
+        active: null,
+        maxQueued: 0,
+        sent: 0,
+        coalesced: 0,
+        totalWaitMs: 0,
+        lastRequestAt: null,
+      };
+      this.hosts.set(host, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Sends the next request for a host if none is in flight.
+   */
+  private drain(queue: HostQueue): void {
+    if (queue.active || queue.pending.length === 0) {
+      return;
+    }
+
+    // Highest priority first, oldest first within a priority
+    let next = 0;
+    for (let i = 1; i < queue.pending.length; i++) {
+      const candidate = queue.pending[i] as QueuedRequest;
+      const best = queue.pending[next] as QueuedRequest;
+      if (PRIORITY_ORDER[candidate.priority] < PRIORITY_ORDER[best.priority]) {
+        next = i;
+      }
+    }
+
+    const [request] = queue.pending.splice(next, 1);
+    if (!request) {
+      return;
+    }
+
+    queue.active = request;
+    queue.sent++;
+    queue.totalWaitMs += Date.now() - request.enqueuedAt;
+
+    request
+      .run()
+      .then(request.resolve, request.reject)
+      .finally(() => {
+        queue.active = null;
+        queue.lastRequestAt = Date.now();
+        this.drain(queue);
+      });
+  }
+}
+
+/**
+ * Singleton queue instance.
+ */
+let queueInstance: SoapRequestQueue | null = null;
+
+/**
+ * Gets the SOAP request queue instance (singleton).
+ */
+export function getSoapQueue(): SoapRequestQueue {
+  if (!queueInstance) {
+    queueInstance = new SoapRequestQueue();
+  }
+  return queueInstance;
+}
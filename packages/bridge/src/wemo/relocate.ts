@@ -0,0 +1,143 @@
+/**
+ * WeMo Port Drift Recovery
+ *
+ * WeMo devices listen on one of ports 49152-49155 and may pick a different
+ * one after a reboot. When a saved port stops answering, the other ports on
+ * the last-known host are probed, and a device there is accepted only if its
+ * serial number or UDN matches.
+ */
+
+import { EventEmitter } from "node:events";
+import { WEMO_PORTS, getDeviceByAddress } from "./discovery";
+import { getDeviceIdAliases } from "./identity";
+import type { WemoDevice } from "./types";
+
+/**
+ * What is known about a device that stopped answering.
+ */
+export interface KnownDevice {
+  /** Saved device ID */
+  id: string;
+  /** Last-known host */
+  host: string;
+  /** Port that stopped answering */
+  port: number;
+  /** Serial number, if known */
+  serialNumber?: string;
+}
+
+/**
+ * A device found on a new port.
+ */
+export interface DeviceMove {
+  /** ID the device was looked up by */
+  deviceId: string;
+  /** Host the device was found on */
+  host: string;
+  /** Port that stopped answering */
+  previousPort: number;
+  /** Port the device answers on now */
+  port: number;
+  /** Device description read from the new port */
+  device: WemoDevice;
+}
+
+/**
+ * Events emitted by PortRecovery.
+ */
+interface PortRecoveryEvents {
+  /** A device was found on a new port */
+  moved: [move: DeviceMove];
+}
+
+/**
+ * Checks whether a device description belongs to a known device.
+ * Rows saved by older versions may use another of the device's IDs.
+ */
+export function isSameDevice(candidate: WemoDevice, known: KnownDevice): boolean {
+  const ids = [known.id, known.serialNumber].filter((id): id is string => Boolean(id));
+  const candidateIds = [candidate.id, candidate.serialNumber, ...getDeviceIdAliases(candidate)];
+  return ids.some((id) => candidateIds.includes(id));
+}
+
+/**
+ * Finds devices that moved to another port.
+ *
+ * @example
+ * ```ts
+ * const recovery = getPortRecovery();
+ * recovery.on("moved", (move) => console.log(`${move.deviceId} moved to ${move.port}`));
+ * const device = await recovery.recover({ id: saved.id, host: saved.host, port: saved.port });
+ * ```
+ */
+export class PortRecovery extends EventEmitter<PortRecoveryEvents> {
+  private readonly ports: readonly number[];
+  private pending = new Map<string, Promise<WemoDevice | null>>();
+
+  /**
+   * @param ports - Ports to probe (default: WEMO_PORTS)
+   */
+  constructor(ports: readonly number[] = WEMO_PORTS) {
+    super();
+    this.ports = ports;
+  }
+
+  /**
+   * Probes the other WeMo ports on the device's last-known host.
+   * Concurrent calls for the same device share one probe.
+   *
+   * @returns The device at its new port, or null if it was not found
+   */
+  recover(known: KnownDevice): Promise<WemoDevice | null> {
+    const key = `${known.id}@${known.host}:${known.port}`;
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const probe = this.probe(known).finally(() => this.pending.delete(key));
+    this.pending.set(key, probe);
+    return probe;
+  }
+
+  private async probe(known: KnownDevice): Promise<WemoDevice | null> {
+    const ports = this.ports.filter((port) => port !== known.port);
+    const candidates = await Promise.all(
+      ports.map((port) => getDeviceByAddress(known.host, port).catch(() => null))
+    );
+
+    const device = candidates.find(
+      (candidate): candidate is WemoDevice => candidate !== null && isSameDevice(candidate, known)
+    );
+    if (!device) {
+      return null;
+    }
+
+    console.log(
+      `[PortRecovery] ${device.name} moved from ${known.host}:${known.port} to port ${device.port}`
+    );
+    this.emit("moved", {
+      deviceId: known.id,
+      host: known.host,
+      previousPort: known.port,
+      port: device.port,
+      device,
+    });
+    return device;
+  }
+}
+
+/**
+ * Singleton recovery instance.
+ */
+let recoveryInstance: PortRecovery | null = null;
+
+/**
+ * Gets the port recovery instance (singleton).
+ */
+export function getPortRecovery(): PortRecovery {
+  if (!recoveryInstance) {
+    recoveryInstance = new PortRecovery();
+  }
+  return recoveryInstance;
+}
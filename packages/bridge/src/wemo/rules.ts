@@ -0,0 +1,763 @@
+/**
+ * WeMo On-Device Rules
+ *
+ * WeMo devices run their own schedules (timers, sunrise/sunset, away mode,
+ * long press) from a SQLite database. The rules1 service hands out a URL to
+ * a ZIP archive containing that database, and accepts an edited copy back
+ * through StoreRules.
+ */
+
+import { Database } from "bun:sqlite";
+import { DeviceError, type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { extractNumericValue, extractTextValue } from "./soap";
+import type { WemoDevice } from "./types";
+import { createZip, readZip } from "./zip";
+
+/**
+ * rules1 service endpoint.
+ */
+const RULES_SERVICE = "urn:Belkin:service:rules:1";
+const RULES_CONTROL_URL = "/upnp/control/rules1";
+
+/**
+ * Timeout for downloading the rules archive.
+ */
+const DOWNLOAD_TIMEOUT = 10000;
+
+/**
+ * Seconds in a day; times of day in the rules database are seconds after midnight.
+ */
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Rule type firmware uses for schedules created in the WeMo app.
+ */
+const TIMER_RULE_TYPE = "Time Interval";
+
+/**
+ * Placeholder start/end dates the WeMo app writes for rules without a date range.
+ */
+const NO_START_DATE = "12201982";
+const NO_END_DATE = "07301982";
+
+/**
+ * Columns firmware requires before it will load a rules database.
+ */
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  RULES: ["RuleID", "Name", "Type", "RuleOrder", "StartDate", "EndDate", "State", "Sync"],
+  RULEDEVICES: [
+    "RuleID",
+    "DeviceID",
+    "GroupID",
+    "DayID",
+    "StartTime",
+    "RuleDuration",
+    "StartAction",
+    "EndAction",
+  ],
+};
+
+/**
+ * Kind of rule, derived from the rule type and its schedule.
+ */
+export type RuleKind =
+  | "timer"
+  | "sunrise"
+  | "sunset"
+  | "away"
+  | "longPress"
+  | "countdown"
+  | "other";
+
+/**
+ * Action a rule performs at the start or end of its window.
+ */
+export type RuleAction = "on" | "off" | "toggle" | "none";
+
+/**
+ * Day a schedule entry applies to.
+ */
+export type RuleDay =
+  | "daily"
+  | "weekdays"
+  | "weekends"
+  | "sunday"
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "unknown";
+
+/**
+ * One schedule entry of a rule (a RULEDEVICES row).
+ */
+export interface RuleSchedule {
+  /** UDN of the device the entry applies to */
+  deviceId: string;
+  /** Day the entry applies to */
+  day: RuleDay;
+  /** Raw DayID from the database */
+  dayId: number;
+  /** Start time in seconds after midnight */
+  startTime: number;
+  /** End time in seconds after midnight, if the rule has one */
+  endTime: number | null;
+  /** Action at the start time */
+  startAction: RuleAction;
+  /** Action at the end time */
+  endAction: RuleAction;
+  /** Offset from sunrise/sunset in seconds, for solar rules */
+  solarOffset: number | null;
+  /** Countdown duration in seconds, for countdown rules */
+  countdownTime: number | null;
+}
+
+/**
+ * A rule stored on the device.
+ */
+export interface WemoRule {
+  /** Rule ID */
+  id: number;
+  /** Rule name as shown in the WeMo app */
+  name: string;
+  /** Normalized rule kind */
+  type: RuleKind;
+  /** Rule type as stored on the device (e.g., "Time Interval") */
+  rawType: string;
+  /** Whether the rule is active */
+  enabled: boolean;
+  /** First day the rule applies, if limited */
+  startDate: string | null;
+  /** Last day the rule applies, if limited */
+  endDate: string | null;
+  /** Schedule entries */
+  schedules: RuleSchedule[];
+  /** UDNs of devices the rule controls */
+  targetDeviceIds: string[];
+}
+
+/**
+ * Rules read from a device.
+ */
+export interface RulesSnapshot {
+  /** Rules database version */
+  version: number;
+  /** Parsed rules */
+  rules: WemoRule[];
+}
+
+/**
+ * Raw rules database downloaded from a device.
+ */
+export interface RulesDatabaseFile {
+  /** Rules database version */
+  version: number;
+  /** File name of the database inside the archive */
+  fileName: string;
+  /** SQLite database bytes */
+  database: Uint8Array;
+}
+
+/**
+ * A timer rule to write to the device.
+ */
+export interface TimerRuleInput {
+  /** Rule name as shown in the WeMo app */
+  name: string;
+  /** Whether the rule is active */
+  enabled: boolean;
+  /** Days the rule runs on */
+  days: Exclude<RuleDay, "unknown">[];
+  /** Start time in seconds after midnight */
+  startTime: number;
+  /** Action at the start time */
+  startAction: "on" | "off";
+  /** End time in seconds after midnight, or null for a single action */
+  endTime: number | null;
+  /** Action at the end time; ignored without an end time */
+  endAction: "on" | "off" | "none";
+}
+
+/**
+ * Error thrown when the rules database on the device changed since it was read.
+ */
+export class RulesConflictError extends Error {
+  public readonly expectedVersion: number;
+  public readonly actualVersion: number;
+
+  constructor(expectedVersion: number, actualVersion: number) {
+    super(
+      `Rules changed on the device (expected version ${expectedVersion}, found ${actualVersion})`
+    );
+    this.name = "RulesConflictError";
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+/**
+ * Maps DayID values to days.
+ */
+const DAYS: Record<number, RuleDay> = {
+  [-1]: "daily",
+  0: "sunday",
+  1: "monday",
+  2: "tuesday",
+  3: "wednesday",
+  4: "thursday",
+  5: "friday",
+  6: "saturday",
+  8: "weekdays",
+  9: "weekends",
+};
+
+/**
+ * Maps days to DayID values.
+ */
+const DAY_IDS = Object.fromEntries(
+  Object.entries(DAYS).map(([dayId, day]) => [day, Number(dayId)])
+) as Record<Exclude<RuleDay, "unknown">, number>;
+
+/**
+ * Maps actions to StartAction/EndAction values.
+ */
+const ACTION_VALUES: Record<RuleAction, number> = {
+  off: 0,
+  on: 1,
+  toggle: 2,
+  none: -1,
+};
+
+/**
+ * Converts a StartAction/EndAction value to an action.
+ */
+function toRuleAction(value: unknown): RuleAction {
+  switch (Math.round(Number(value))) {
+    case 0:
+      return "off";
+    case 1:
+      return "on";
+    case 2:
+      return "toggle";
+    default:
+      return "none";
+  }
+}
+
+/**
+ * Converts a numeric column to a number, treating -1 and missing values as null.
+ */
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isNaN(num) || num < 0 ? null : num;
+}
+
+/**
+ * Converts a text column to a string, treating blanks and "NONE" as null.
+ */
+function optionalText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const text = String(value).trim();
+  return text === "" || text.toUpperCase() === "NONE" ? null : text;
+}
+
+/**
+ * Derives a rule kind from the stored type and schedule.
+ *
+ * Sunrise/sunset rules store the computed time of day along with an offset.
+ * Which solar event they follow is not stored, so it is inferred from whether
+ * the time falls before or after noon.
+ */
+export function classifyRule(rawType: string, schedules: RuleSchedule[]): RuleKind {
+  const type = rawType.toLowerCase();
+
+  if (type.includes("long press")) return "longPress";
+  if (type.includes("away")) return "away";
+  if (type.includes("countdown")) return "countdown";
+
+  if (type.includes("time interval") || type.includes("simple switch") || type.includes("timer")) {
+    const solar = schedules.find((s) => s.solarOffset !== null);
+    if (solar) {
+      return solar.startTime < SECONDS_PER_DAY / 2 ? "sunrise" : "sunset";
+    }
+    return "timer";
+  }
+
+  return "other";
+}
+
+/**
+ * Reads all rows of a table, or none if the firmware's schema lacks it.
+ */
+function readTable(db: Database, table: string): Record<string, unknown>[] {
+  const exists = db
+    .query<{ name: string }, [string]>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?"
+    )
+    .get(table);
+  return exists ? db.query<Record<string, unknown>, []>(`SELECT * FROM ${table}`).all() : [];
+}
+
+/**
+ * Parses an open rules database.
+ *
+ * @param db - Rules database
+ * @returns Rules ordered by RuleOrder, then ID
+ */
+export function parseRulesDatabase(db: Database): WemoRule[] {
+  const schedulesByRule = new Map<number, RuleSchedule[]>();
+  for (const row of readTable(db, "RULEDEVICES")) {
+    const ruleId = Number(row.RuleID);
+    const dayId = Number(row.DayID ?? -1);
+    const schedule: RuleSchedule = {
+      deviceId: String(row.DeviceID ?? ""),
+      day: DAYS[dayId] ?? "unknown",
+      dayId,
+      startTime: optionalNumber(row.StartTime) ?? 0,
+      endTime: optionalNumber(row.EndTime),
+      startAction: toRuleAction(row.StartAction),
+      endAction: toRuleAction(row.EndAction),
+      solarOffset: Number(row.OnModeOffset ?? -1) === -1 ? null : Number(row.OnModeOffset),
+      countdownTime: optionalNumber(row.CountdownTime),
+    };
+    schedulesByRule.set(ruleId, [...(schedulesByRule.get(ruleId) ?? []), schedule]);
+  }
+
+  const targetsByRule = new Map<number, string[]>();
+  for (const row of readTable(db, "TARGETDEVICES")) {
+    const ruleId = Number(row.RuleID);
+    targetsByRule.set(ruleId, [...(targetsByRule.get(ruleId) ?? []), String(row.DeviceID ?? "")]);
+  }
+
+  return readTable(db, "RULES")
+    .map((row) => ({ row, order: Number(row.RuleOrder ?? 0) }))
+    .sort((a, b) => a.order - b.order || Number(a.row.RuleID) - Number(b.row.RuleID))
+    .map(({ row }) => {
+      const id = Number(row.RuleID);
+      const rawType = String(row.Type ?? "");
+      const schedules = schedulesByRule.get(id) ?? [];
+
+      return {
+        id,
+        name: String(row.Name ?? ""),
+        type: classifyRule(rawType, schedules),
+        rawType,
+        enabled: String(row.State ?? "1") === "1",
+        startDate: optionalText(row.StartDate),
+        endDate: optionalText(row.EndDate),
+        schedules,
+        targetDeviceIds: targetsByRule.get(id) ?? [],
+      };
+    });
+}
+
+/**
+ * Parses rules from raw SQLite database bytes.
+ *
+ * @param database - SQLite database file contents
+ * @returns Parsed rules
+ */
+export function parseRulesDatabaseBytes(database: Uint8Array): WemoRule[] {
+  const db = Database.deserialize(database);
+  try {
+    return parseRulesDatabase(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Extracts the rules database from the archive served by the device.
+ *
+ * @param archive - ZIP archive bytes
+ * @returns File name and database bytes
+ * @throws Error if the archive contains no files
+ */
+export function extractRulesDatabase(archive: Uint8Array): {
+  fileName: string;
+  database: Uint8Array;
+} {
+  const entries = readZip(archive);
+  const entry = entries.find((e) => e.name.endsWith(".db")) ?? entries[0];
+  if (!entry) {
+    throw new Error("Rules archive is empty");
+  }
+  return { fileName: entry.name, database: entry.data };
+}
+
+/**
+ * Gets the column names of a table.
+ */
+function getColumns(db: Database, table: string): string[] {
+  return db
+    .query<{ name: string }, []>(`PRAGMA table_info(${table})`)
+    .all()
+    .map((c) => c.name);
+}
+
+/**
+ * Inserts a row, skipping columns the firmware's schema does not have.
+ */
+function insertRow(db: Database, table: string, values: Record<string, string | number>): void {
+  const columns = new Set(getColumns(db, table));
+  const entries = Object.entries(values).filter(([column]) => columns.has(column));
+  db.query(
+    `INSERT INTO ${table} (${entries.map(([column]) => column).join(", ")}) VALUES (${entries.map(() => "?").join(", ")})`
+  ).run(...entries.map(([, value]) => value));
+}
+
+/**
+ * Writes the schedule entries of a timer rule, one per day.
+ */
+function insertTimerSchedules(
+  db: Database,
+  ruleId: number,
+  deviceId: string,
+  rule: TimerRuleInput
+): void {
+  const hasEnd = rule.endTime !== null && rule.endAction !== "none";
+  // Windows that end before they start run past midnight
+  const duration = hasEnd
+    ? ((rule.endTime as number) - rule.startTime + SECONDS_PER_DAY) % SECONDS_PER_DAY
+    : 0;
+
+  for (const day of rule.days) {
+    insertRow(db, "RULEDEVICES", {
+      RuleID: ruleId,
+      DeviceID: deviceId,
+      GroupID: 0,
+      DayID: DAY_IDS[day],
+      StartTime: rule.startTime,
+      RuleDuration: duration,
+      StartAction: ACTION_VALUES[rule.startAction],
+      EndAction: hasEnd ? ACTION_VALUES[rule.endAction] : -1,
+      SensorDuration: -1,
+      Type: -1,
+      Value: -1,
+      Level: -1,
+      ZBCapabilityStart: "",
+      ZBCapabilityEnd: "",
+      OnModeOffset: -1,
+      OffModeOffset: -1,
+      CountdownTime: -1,
+      EndTime: hasEnd ? (rule.endTime as number) : -1,
+    });
+  }
+}
+
+/**
+ * Adds a timer rule to a rules database.
+ *
+ * @param db - Rules database
+ * @param deviceId - UDN of the device the rule switches
+ * @param rule - Rule to add
+ * @returns ID of the new rule
+ */
+export function addTimerRule(db: Database, deviceId: string, rule: TimerRuleInput): number {
+  const next = db
+    .query<{ id: number | null; ord: number | null }, []>(
+      "SELECT MAX(CAST(RuleID AS INTEGER)) AS id, MAX(RuleOrder) AS ord FROM RULES"
+    )
+    .get();
+  const ruleId = (next?.id ?? 0) + 1;
+
+  insertRow(db, "RULES", {
+    RuleID: ruleId,
+    Name: rule.name,
+    Type: TIMER_RULE_TYPE,
+    RuleOrder: (next?.ord ?? -1) + 1,
+    StartDate: NO_START_DATE,
+    EndDate: NO_END_DATE,
+    State: rule.enabled ? "1" : "0",
+    Sync: "NOSYNC",
+  });
+  insertTimerSchedules(db, ruleId, deviceId, rule);
+
+  return ruleId;
+}
+
+/**
+ * Replaces a timer rule's name, state and schedule, keeping its ID and order.
+ *
+ * @param db - Rules database
+ * @param ruleId - Rule to update
+ * @param deviceId - UDN of the device the rule switches
+ * @param rule - New rule contents
+ */
+export function updateTimerRule(
+  db: Database,
+  ruleId: number,
+  deviceId: string,
+  rule: TimerRuleInput
+): void {
+  db.query("UPDATE RULES SET Name = ?, Type = ?, State = ? WHERE RuleID = ?").run(
+    rule.name,
+    TIMER_RULE_TYPE,
+    rule.enabled ? "1" : "0",
+    ruleId
+  );
+  db.query("DELETE FROM RULEDEVICES WHERE RuleID = ?").run(ruleId);
+  insertTimerSchedules(db, ruleId, deviceId, rule);
+}
+
+/**
+ * Removes a rule and everything that references it.
+ *
+ * @param db - Rules database
+ * @param ruleId - Rule to remove
+ */
+export function deleteRule(db: Database, ruleId: number): void {
+  for (const table of ["RULEDEVICES", "TARGETDEVICES", "RULES"]) {
+    if (getColumns(db, table).length > 0) {
+      db.query(`DELETE FROM ${table} WHERE RuleID = ?`).run(ruleId);
+    }
+  }
+}
+
+/**
+ * Checks a rules database against what firmware accepts.
+ *
+ * @param db - Rules database
+ * @returns Problems found; empty if the database can be uploaded
+ */
+export function validateRulesDatabase(db: Database): string[] {
+  const problems: string[] = [];
+
+  const integrity = db.query<{ integrity_check: string }, []>("PRAGMA integrity_check").get();
+  if (integrity?.integrity_check !== "ok") {
+    problems.push(`Integrity check failed: ${integrity?.integrity_check ?? "no result"}`);
+  }
+
+  for (const [table, required] of Object.entries(REQUIRED_COLUMNS)) {
+    const columns = getColumns(db, table);
+    if (columns.length === 0) {
+      problems.push(`Missing table ${table}`);
+      continue;
+    }
+    const missing = required.filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      problems.push(`Table ${table} is missing columns: ${missing.join(", ")}`);
+    }
+  }
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const ruleIds = new Set(readTable(db, "RULES").map((row) => Number(row.RuleID)));
+  for (const row of readTable(db, "RULEDEVICES")) {
+    const ruleId = Number(row.RuleID);
+    if (!ruleIds.has(ruleId)) {
+      problems.push(`Schedule entry references missing rule ${ruleId}`);
+    }
+    if (DAYS[Number(row.DayID)] === undefined) {
+      problems.push(`Rule ${ruleId} has an invalid DayID: ${row.DayID}`);
+    }
+    for (const column of ["StartTime", "EndTime"]) {
+      const value = Number(row[column] ?? -1);
+      if (!Number.isInteger(value) || value < -1 || value > SECONDS_PER_DAY) {
+        problems.push(`Rule ${ruleId} has an invalid ${column}: ${row[column]}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Client for the rules1 service.
+ *
+ * @example
+ * ```ts
+ * const client = new RulesDeviceClient(device);
+ * const { version, rules } = await client.fetchRules();
+ * ```
+ */
+export class RulesDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the rules1 service endpoint for this device.
+   */
+  protected get rulesEndpoint(): ServiceEndpoint {
+    const service = this.info.services.find((s) => s.serviceType === RULES_SERVICE);
+    return {
+      serviceType: RULES_SERVICE,
+      controlURL: service?.controlURL ?? RULES_CONTROL_URL,
+    };
+  }
+
+  /**
+   * Gets the version of the rules database stored on the device.
+   */
+  async getRulesDbVersion(): Promise<number> {
+    interface VersionResponse {
+      RulesDBVersion?: unknown;
+    }
+
+    const response = await this.executeWithRetry<VersionResponse>(
+      "GetRulesDBVersion",
+      undefined,
+      undefined,
+      this.rulesEndpoint
+    );
+    return extractNumericValue(response.RulesDBVersion);
+  }
+
+  /**
+   * Downloads the raw rules database.
+   *
+   * @throws DeviceError if the device does not provide or serve the database
+   */
+  async downloadRulesDatabase(): Promise<RulesDatabaseFile> {
+    interface FetchRulesResponse {
+      ruleDbVersion?: unknown;
+      ruleDbPath?: unknown;
+    }
+
+    const response = await this.executeWithRetry<FetchRulesResponse>(
+      "FetchRules",
+      undefined,
+      undefined,
+      this.rulesEndpoint
+    );
+
+    const path = extractTextValue(response.ruleDbPath);
+    if (!path) {
+      throw new DeviceError("Device did not return a rules database path", this.id, "FetchRules");
+    }
+
+    // Older firmware returns a path relative to the device
+    const url = path.startsWith("http") ? path : `http://${this.host}:${this.port}${path}`;
+
+    try {
+      const download = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) });
+      if (!download.ok) {
+        throw new Error(`HTTP ${download.status}: ${download.statusText}`);
+      }
+
+      const archive = new Uint8Array(await download.arrayBuffer());
+      return {
+        version: extractNumericValue(response.ruleDbVersion),
+        ...extractRulesDatabase(archive),
+      };
+    } catch (error) {
+      throw new DeviceError(
+        `Failed to download rules database: ${error instanceof Error ? error.message : String(error)}`,
+        this.id,
+        "FetchRules",
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Uploads a rules database and makes the device load it.
+   *
+   * @param file - Database to upload; its file name is kept inside the archive
+   * @param version - Version to store the database as
+   * @throws Error if the database fails validation
+   * @throws DeviceError if the device rejects the upload
+   */
+  async storeRulesDatabase(
+    file: Pick<RulesDatabaseFile, "fileName" | "database">,
+    version: number
+  ): Promise<void> {
+    interface StoreRulesResponse {
+      errorInfo?: unknown;
+    }
+
+    const db = Database.deserialize(file.database);
+    let problems: string[];
+    try {
+      problems = validateRulesDatabase(db);
+    } finally {
+      db.close();
+    }
+    if (problems.length > 0) {
+      throw new Error(`Invalid rules database: ${problems.join("; ")}`);
+    }
+
+    const archive = createZip([{ name: file.fileName, data: file.database }]);
+    // Firmware expects the base64 archive in a CDATA section, escaped inside the argument
+    const body = [
+      `<ruleDbVersion>${version}</ruleDbVersion>`,
+      "<processDb>1</processDb>",
+      `<ruleDbBody>&lt;![CDATA[${Buffer.from(archive).toString("base64")}]]&gt;</ruleDbBody>`,
+    ].join("");
+
+    // Not retried: a repeated upload after a timeout could be applied twice
+    const response = await this.executeWithRetry<StoreRulesResponse>(
+      "StoreRules",
+      body,
+      0,
+      this.rulesEndpoint
+    );
+
+    // Firmware answers "Successfull" (sic) on success
+    const info = extractTextValue(response.errorInfo);
+    if (info && !info.toLowerCase().startsWith("success")) {
+      throw new DeviceError(`Device rejected rules: ${info}`, this.id, "StoreRules");
+    }
+  }
+
+  /**
+   * Edits the rules database on the device.
+   *
+   * Downloads the current database, applies the edit, and uploads the result
+   * with the version bumped by one.
+   *
+   * @param expectedVersion - Version the caller last read; the edit is refused
+   *   if the device has a different one
+   * @param edit - Changes to apply; may throw to abort without uploading
+   * @returns The edit's result and the rules as stored
+   * @throws RulesConflictError if the device's database version changed
+   */
+  async updateRules<T>(
+    expectedVersion: number,
+    edit: (db: Database) => T
+  ): Promise<RulesSnapshot & { result: T }> {
+    const current = await this.downloadRulesDatabase();
+    if (current.version !== expectedVersion) {
+      throw new RulesConflictError(expectedVersion, current.version);
+    }
+
+    const db = Database.deserialize(current.database);
+    let result: T;
+    let database: Uint8Array;
+    let rules: WemoRule[];
+    try {
+      result = edit(db);
+      rules = parseRulesDatabase(db);
+      database = db.serialize();
+    } finally {
+      db.close();
+    }
+
+    const version = current.version + 1;
+    await this.storeRulesDatabase({ fileName: current.fileName, database }, version);
+    return { version, rules, result };
+  }
+
+  /**
+   * Downloads and parses the rules stored on the device.
+   */
+  async fetchRules(): Promise<RulesSnapshot> {
+    const { version, database } = await this.downloadRulesDatabase();
+    return { version, rules: parseRulesDatabaseBytes(database) };
+  }
+}
+
+/**
+ * Checks if a device exposes the rules1 service.
+ *
+ * @param device - The device to check
+ * @returns true if rules can be read from the device
+ */
+export function supportsRules(device: Pick<WemoDevice, "services">): boolean {
+  return device.services.some((s) => s.serviceType === RULES_SERVICE);
+}
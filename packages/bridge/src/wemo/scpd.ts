@@ -0,0 +1,350 @@
+/**
+ * WeMo Service Descriptions (SCPD)
+ *
+ * Every service in setup.xml links to a service control protocol description
+ * listing its actions, their arguments and the state variables behind them.
+ * Firmware versions differ in what they expose, so the catalog is read from
+ * the device rather than assumed.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { DeviceError } from "./device";
+import { soapRequest } from "./soap";
+import type { WemoDevice, WemoService } from "./types";
+
+/**
+ * How long to wait for an SCPD document.
+ */
+const SCPD_TIMEOUT = 5000;
+
+/**
+ * An action argument.
+ */
+export interface ScpdArgument {
+  /** Argument name, as used for the SOAP element */
+  name: string;
+  /** Whether the argument is sent ("in") or returned ("out") */
+  direction: "in" | "out";
+  /** State variable that describes the argument's type */
+  relatedStateVariable: string;
+}
+
+/**
+ * An action a service accepts.
+ */
+export interface ScpdAction {
+  /** Action name (e.g., "GetBinaryState") */
+  name: string;
+  /** Arguments in document order */
+  arguments: ScpdArgument[];
+}
+
+/**
+ * A state variable of a service.
+ */
+export interface ScpdStateVariable {
+  /** Variable name */
+  name: string;
+  /** UPnP data type (e.g., "string", "ui4", "boolean") */
+  dataType: string;
+  /** Whether changes are sent as events */
+  sendEvents: boolean;
+  /** Default value, if declared */
+  defaultValue: string | null;
+  /** Allowed values, if the variable is an enumeration */
+  allowedValues: string[] | null;
+  /** Allowed range, if the variable is numeric and bounded */
+  allowedRange: { minimum: string; maximum: string; step: string | null } | null;
+}
+
+/**
+ * Actions and state variables parsed from an SCPD document.
+ */
+export interface ServiceScpd {
+  actions: ScpdAction[];
+  stateVariables: ScpdStateVariable[];
+}
+
+/**
+ * A service with its parsed description.
+ */
+export interface ServiceDescription extends ServiceScpd {
+  /** Service type URN */
+  serviceType: string;
+  /** Service ID URN (e.g., "urn:Belkin:serviceId:basicevent1") */
+  serviceId: string;
+  /** Relative URL for SOAP control requests */
+  controlURL: string;
+  /** Relative URL of the SCPD document */
+  SCPDURL: string;
+  /** Why the SCPD could not be read, or null if it was */
+  error: string | null;
+}
+
+const scpdParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  removeNSPrefix: true,
+  isArray: (name) => ["action", "argument", "stateVariable", "allowedValue"].includes(name),
+});
+
+/**
+ * Reads a parsed element as text.
+ */
+function text(value: unknown): string {
+  if (value === undefined || value === null || typeof value === "object") {
+    return "";
+  }
+  return String(value).trim();
+}
+
+/**
+ * Parses an SCPD document.
+ *
+ * @throws Error if the document has no scpd root element
+ */
+export function parseScpd(xml: string): ServiceScpd {
+  const parsed = scpdParser.parse(xml) as { scpd?: Record<string, unknown> };
+  const scpd = parsed.scpd;
+  if (!scpd || typeof scpd !== "object") {
+    throw new Error("Not an SCPD document");
+  }
+
+  const actionList = (scpd.actionList ?? {}) as { action?: Record<string, unknown>[] };
+  const actions: ScpdAction[] = (actionList.action ?? [])
+    .map((action) => {
+      const argumentList = (action.argumentList ?? {}) as {
+        argument?: Record<string, unknown>[];
+      };
+      return {
+        name: text(action.name),
+        arguments: (argumentList.argument ?? [])
+          .map((argument) => ({
+            name: text(argument.name),
+            direction: (text(argument.direction).toLowerCase() === "out" ? "out" : "in") as
+              | "in"
+              | "out",
+            relatedStateVariable: text(argument.relatedStateVariable),
+          }))
+          .filter((argument) => argument.name !== ""),
+      };
+    })
+    .filter((action) => action.name !== "");
+
+  const stateTable = (scpd.serviceStateTable ?? {}) as {
+    stateVariable?: Record<string, unknown>[];
+  };
+  const stateVariables: ScpdStateVariable[] = (stateTable.stateVariable ?? [])
+    .map((variable) => {
+      const allowedValueList = variable.allowedValueList as
+        | { allowedValue?: unknown[] }
+        | undefined;
+      const range = variable.allowedValueRange as Record<string, unknown> | undefined;
+      return {
+        name: text(variable.name),
+        dataType: text(variable.dataType),
+        sendEvents: text(variable["@_sendEvents"]).toLowerCase() !== "no",
+        defaultValue: variable.defaultValue === undefined ? null : text(variable.defaultValue),
+        allowedValues: allowedValueList?.allowedValue?.map(text) ?? null,
+        allowedRange: range
+          ? {
+              minimum: text(range.minimum),
+              maximum: text(range.maximum),
+              step: range.step === undefined ? null : text(range.step),
+            }
+          : null,
+      };
+    })
+    .filter((variable) => variable.name !== "");
+
+  return { actions, stateVariables };
+}
+
+/**
+ * Downloads and parses a service's SCPD document.
+ *
+ * @throws Error if the document cannot be fetched or parsed
+ */
+export async function fetchServiceScpd(
+  device: Pick<WemoDevice, "host" | "port">,
+  service: Pick<WemoService, "SCPDURL">,
+  timeout = SCPD_TIMEOUT
+): Promise<ServiceScpd> {
+  if (!service.SCPDURL) {
+    throw new Error("Service has no SCPD URL");
+  }
+
+  const path = service.SCPDURL.startsWith("/") ? service.SCPDURL : `/${service.SCPDURL}`;
+  const response = await fetch(`http://${device.host}:${device.port}${path}`, {
+    signal: AbortSignal.timeout(timeout),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return parseScpd(await response.text());
+}
+
+/**
+ * Finds a service by its full service ID, its short ID (e.g., "basicevent1")
+ * or its service type.
+ */
+export function findService<T extends Pick<WemoService, "serviceId" | "serviceType">>(
+  services: T[],
+  serviceId: string
+): T | undefined {
+  const wanted = serviceId.toLowerCase();
+  return services.find(
+    (s) =>
+      s.serviceId.toLowerCase() === wanted ||
+      s.serviceId.toLowerCase().split(":").pop() === wanted ||
+      s.serviceType.toLowerCase() === wanted
+  );
+}
+
+/**
+ * Finds argument names an action does not declare as inputs.
+ * Declared inputs may be left out; WeMo firmware fills in defaults for many
+ * of them (e.g., SetBinaryState's Duration and UDN).
+ */
+export function findUnknownArguments(action: ScpdAction, names: string[]): string[] {
+  const inputs = action.arguments.filter((a) => a.direction === "in").map((a) => a.name);
+  return names.filter((name) => !inputs.includes(name));
+}
+
+/**
+ * Escapes an argument value for a SOAP body.
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Builds the SOAP body for an action, with arguments in SCPD order.
+ */
+export function buildActionBody(action: ScpdAction, args: Record<string, string>): string {
+  return action.arguments
+    .filter((argument) => argument.direction === "in" && argument.name in args)
+    .map(
+      (argument) => `<${argument.name}>${escapeXml(args[argument.name] ?? "")}</${argument.name}>`
+    )
+    .join("");
+}
+
+/**
+ * Caches SCPD catalogs per device and calls actions they describe.
+ *
+ * Catalogs are keyed by device and firmware, since a firmware update can
+ * add or remove actions.
+ */
+export class ServiceCatalog {
+  private catalogs = new Map<string, { key: string; services: ServiceDescription[] }>();
+  private pending = new Map<string, Promise<ServiceDescription[]>>();
+
+  /**
+   * Gets a device's services with their actions and state variables.
+   * Services whose SCPD cannot be read are listed with an error.
+   *
+   * @param refresh - Download the SCPDs again instead of using the cache
+   */
+  async getServices(device: WemoDevice, refresh = false): Promise<ServiceDescription[]> {
+    const key = `${device.host}:${device.port}:${device.firmwareVersion}`;
+    const cached = this.catalogs.get(device.id);
+    if (!refresh && cached?.key === key) {
+      return cached.services;
+    }
+
+    const inFlight = this.pending.get(device.id);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const load = this.load(device, key).finally(() => this.pending.delete(device.id));
+    this.pending.set(device.id, load);
+    return load;
+  }
+
+  /**
+   * Downloads every SCPD of a device.
+   */
+  private async load(device: WemoDevice, key: string): Promise<ServiceDescription[]> {
+    const services = await Promise.all(
+      device.services.map(async (service): Promise<ServiceDescription> => {
+        const base = {
+          serviceType: service.serviceType,
+          serviceId: service.serviceId,
+          controlURL: service.controlURL,
+          SCPDURL: service.SCPDURL,
+        };
+        try {
+          return { ...base, ...(await fetchServiceScpd(device, service)), error: null };
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(`[SCPD] Could not read ${service.serviceId} of ${device.name}: ${reason}`);
+          return { ...base, actions: [], stateVariables: [], error: reason };
+        }
+      })
+    );
+
+    // Retry failed documents next time instead of caching a partial catalog
+    if (services.every((service) => service.error === null)) {
+      this.catalogs.set(device.id, { key, services });
+    } else {
+      this.catalogs.delete(device.id);
+    }
+    return services;
+  }
+
+  /**
+   * Calls an action on a device.
+   * Arguments should be checked with findUnknownArguments first.
+   *
+   * @returns The parsed action response
+   * @throws DeviceError if the device rejects the call
+   */
+  async invoke(
+    device: WemoDevice,
+    service: Pick<ServiceDescription, "serviceType" | "controlURL">,
+    action: ScpdAction,
+    args: Record<string, string>
+  ): Promise<unknown> {
+    const response = await soapRequest(
+      device.host,
+      device.port,
+      service.controlURL,
+      service.serviceType,
+      action.name,
+      buildActionBody(action, args)
+    );
+
+    if (!response.success) {
+      throw new DeviceError(response.error ?? "SOAP request failed", device.id, action.name);
+    }
+    return response.data ?? null;
+  }
+
+  /**
+   * Drops a device's cached catalog.
+   */
+  forget(deviceId: string): void {
+    this.catalogs.delete(deviceId);
+  }
+}
+
+/**
+ * Singleton catalog instance.
+ */
+let catalogInstance: ServiceCatalog | null = null;
+
+/**
+ * Gets the service catalog instance (singleton).
+ */
+export function getServiceCatalog(): ServiceCatalog {
+  if (!catalogInstance) {
+    catalogInstance = new ServiceCatalog();
+  }
+  return catalogInstance;
+}
@@ -8,6 +8,7 @@
  * 3. Sends encrypted WiFi credentials via SOAP
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import { createCipheriv, createHash } from "node:crypto";
 import { networkInterfaces } from "node:os";
 import { XMLParser } from "fast-xml-parser";
@@ -19,12 +20,41 @@ export const WEMO_AP_SUBNET = "10.22.22";
 export const WEMO_AP_DEVICE_IP = "10.22.22.1";
 export const WEMO_AP_PORT = 49152;
 export const WEMO_SETUP_URL = `http://${WEMO_AP_DEVICE_IP}:${WEMO_AP_PORT}/setup.xml`;
-export const WEMO_WIFI_SETUP_URL = `http://${WEMO_AP_DEVICE_IP}:${WEMO_AP_PORT}/upnp/control/WiFiSetup1`;
 
 /**
- * WiFi Setup service constants.
+ * WiFi Setup service constants. The control URL is the one devices list in
+ * setup.xml; it is the same on the setup network and the home network.
  */
-const WIFI_SETUP_SERVICE_TYPE = "urn:Belkin:service:WiFiSetup:1";
+export const WIFI_SETUP_SERVICE_TYPE = "urn:Belkin:service:WiFiSetup:1";
+export const WIFI_SETUP_CONTROL_URL = "/upnp/control/WiFiSetup1";
+export const WEMO_WIFI_SETUP_URL = `http://${WEMO_AP_DEVICE_IP}:${WEMO_AP_PORT}${WIFI_SETUP_CONTROL_URL}`;
+
+/**
+ * Writes setup progress and diagnostics.
+ */
+export type SetupLogger = (...args: unknown[]) => void;
+
+const loggerContext = new AsyncLocalStorage<SetupLogger>();
+
+/**
+ * Runs setup work with its progress written somewhere other than stdout,
+ * e.g. so a command line tool keeps stdout for its result.
+ *
+ * @example
+ * ```ts
+ * await withSetupLogger(() => {}, () => sendWifiConnectCommand(params));
+ * ```
+ */
+export function withSetupLogger<T>(logger: SetupLogger, fn: () => T): T {
+  return loggerContext.run(logger, fn);
+}
+
+/**
+ * Writes setup progress (default: console.log).
+ */
+export function logSetup(...args: unknown[]): void {
+  (loggerContext.getStore() ?? console.log)(...args);
+}
 
 /**
  * Device info returned from setup detection.
@@ -36,6 +66,12 @@ export interface SetupDeviceInfo {
   name: string;
   firmwareVersion?: string;
   binaryState?: number;
+  /** Runs the RTOS firmware (rtos=1) */
+  rtos: boolean;
+  /** Uses the newer password key derivation (new_algo=1) */
+  newAlgo: boolean;
+  /** Uses the binary option key derivation (binaryOption=1) */
+  binaryOption: boolean;
 }
 
 /**
@@ -59,6 +95,8 @@ export interface WifiConnectParams {
   mac: string;
   serial: string;
   channel?: number;
+  /** Encryption to try first (default: method 2 with lengths) */
+  encryption?: WifiEncryption;
 }
 
 /**
@@ -81,6 +119,24 @@ export interface WifiConnectResult {
   success: boolean;
   status?: string;
   error?: string;
+  /** Encryption the device accepted the password with */
+  encryption?: WifiEncryption;
+  /** Whether the device reported joining the network before setup returned */
+  connected?: boolean;
+}
+
+/**
+ * Maps auth and encrypt values, as GetApList or a user gives them, to the
+ * ones ConnectHomeNetwork accepts. Unknown values mean WPA2/AES.
+ */
+export function toConnectSecurity(
+  auth?: string,
+  encrypt?: string
+): Pick<WifiConnectParams, "auth" | "encrypt"> {
+  return {
+    auth: auth === "OPEN" ? "OPEN" : auth === "WPA" || auth === "WPAPSK" ? "WPAPSK" : "WPA2PSK",
+    encrypt: encrypt === "NONE" ? "NONE" : encrypt === "TKIP" ? "TKIP" : "AES",
+  };
 }
 
 /**
@@ -136,10 +192,12 @@ export function getWemoApLocalIp(): string | null {
 
 /**
  * Fetches and parses device info from setup.xml.
+ *
+ * @param url - setup.xml URL (default: the device on its setup network)
  */
-export async function fetchSetupDeviceInfo(): Promise<SetupDeviceInfo | null> {
+export async function fetchSetupDeviceInfo(url = WEMO_SETUP_URL): Promise<SetupDeviceInfo | null> {
   try {
-    const response = await fetch(WEMO_SETUP_URL, {
+    const response = await fetch(url, {
       signal: AbortSignal.timeout(5000),
     });
 
@@ -158,6 +216,8 @@ export async function fetchSetupDeviceInfo(): Promise<SetupDeviceInfo | null> {
     }
 
     const device = root.device;
+    // The flags sit on the device element, or on the root in some firmware
+    const flag = (name: string): boolean => Number(device[name] ?? root[name] ?? 0) === 1;
 
     return {
       serial: String(device.serialNumber ?? ""),
@@ -166,6 +226,9 @@ export async function fetchSetupDeviceInfo(): Promise<SetupDeviceInfo | null> {
       name: String(device.friendlyName ?? "Wemo Device"),
       firmwareVersion: device.firmwareVersion ? String(device.firmwareVersion) : undefined,
       binaryState: device.binaryState != null ? Number(device.binaryState) : undefined,
+      rtos: flag("rtos"),
+      newAlgo: flag("new_algo"),
+      binaryOption: flag("binaryOption"),
     };
   } catch (error) {
     console.error("[Setup] Error fetching device info:", error);
@@ -236,6 +299,62 @@ export enum EncryptionMethod {
   METHOD_3 = 3,
 }
 
+/**
+ * How a WiFi password is encrypted for a device.
+ */
+export interface WifiEncryption {
+  method: EncryptionMethod;
+  /** Whether the encrypted and original lengths are appended in hex */
+  addLengths: boolean;
+}
+
+/**
+ * Encryption used when nothing is known about the device.
+ */
+export const DEFAULT_ENCRYPTION: WifiEncryption = {
+  method: EncryptionMethod.METHOD_2,
+  addLengths: true,
+};
+
+/**
+ * Encryptions tried, in order, after the preferred one fails.
+ */
+const ENCRYPTION_FALLBACKS: WifiEncryption[] = [
+  DEFAULT_ENCRYPTION,
+  { method: EncryptionMethod.METHOD_2, addLengths: false },
+  { method: EncryptionMethod.METHOD_3, addLengths: true },
+  { method: EncryptionMethod.METHOD_1, addLengths: true },
+];
+
+/**
+ * Picks the password encryption from the setup.xml flags.
+ * RTOS firmware reads the password without the length suffix.
+ */
+export function selectEncryption(
+  flags: Pick<SetupDeviceInfo, "rtos" | "newAlgo" | "binaryOption">
+): WifiEncryption {
+  if (flags.binaryOption) {
+    return { method: EncryptionMethod.METHOD_3, addLengths: true };
+  }
+  if (flags.rtos || flags.newAlgo) {
+    return { method: EncryptionMethod.METHOD_2, addLengths: !flags.rtos };
+  }
+  return { method: EncryptionMethod.METHOD_1, addLengths: true };
+}
+
+/**
+ * Lists the encryptions to try: the preferred one, then the other fallbacks.
+ */
+export function getEncryptionCandidates(preferred: WifiEncryption): WifiEncryption[] {
+  return [
+    preferred,
+    ...ENCRYPTION_FALLBACKS.filter(
+      (candidate) =>
+        candidate.method !== preferred.method || candidate.addLengths !== preferred.addLengths
+    ),
+  ];
+}
+
 /**
  * Generates the keydata string from MAC address and serial number.
  * This keydata is used as the password for OpenSSL-style encryption.
@@ -314,10 +433,10 @@ export function encryptWifiPassword(
   const salt = Buffer.from(keydata.slice(0, 8), "utf-8");
   const iv = Buffer.from(keydata.slice(0, 16), "utf-8");
 
-  console.log("[Encrypt] Keydata:", keydata);
-  console.log("[Encrypt] Keydata length:", keydata.length);
-  console.log("[Encrypt] Salt (hex):", salt.toString("hex"));
-  console.log("[Encrypt] IV (hex):", iv.toString("hex"));
+  logSetup("[Encrypt] Keydata:", keydata);
+  logSetup("[Encrypt] Keydata length:", keydata.length);
+  logSetup("[Encrypt] Salt (hex):", salt.toString("hex"));
+  logSetup("[Encrypt] IV (hex):", iv.toString("hex"));
 
   // Derive the AES key using OpenSSL's EVP_BytesToKey with MD5
   // OpenSSL command: openssl enc -aes-128-cbc -md md5 -S <salt> -iv <iv> -pass pass:<keydata>
@@ -326,7 +445,7 @@ export function encryptWifiPassword(
     .update(Buffer.concat([Buffer.from(keydata, "utf-8"), salt]))
     .digest();
 
-  console.log("[Encrypt] Derived key (hex):", key.toString("hex"));
+  logSetup("[Encrypt] Derived key (hex):", key.toString("hex"));
 
   // Encrypt with AES-128-CBC
   const cipher = createCipheriv("aes-128-cbc", key, iv);
@@ -335,13 +454,13 @@ export function encryptWifiPassword(
   const passwordBuffer = Buffer.from(password, "utf-8");
   const encrypted = Buffer.concat([cipher.update(passwordBuffer), cipher.final()]);
 
-  console.log("[Encrypt] Encrypted (hex):", encrypted.toString("hex"));
+  logSetup("[Encrypt] Encrypted (hex):", encrypted.toString("hex"));
 
   // Base64 encode just the encrypted data (no Salted__ prefix)
   let result = encrypted.toString("base64");
 
-  console.log("[Encrypt] Base64:", result);
-  console.log("[Encrypt] Base64 length:", result.length);
+  logSetup("[Encrypt] Base64:", result);
+  logSetup("[Encrypt] Base64 length:", result.length);
 
   // Optionally add length bytes as hex
   // Format: <encrypted_base64><encrypted_len_hex><original_len_hex>
@@ -351,9 +470,9 @@ export function encryptWifiPassword(
     const encLenHex = encLen.toString(16).padStart(2, "0");
     const origLenHex = origLen.toString(16).padStart(2, "0");
     result = result + encLenHex + origLenHex;
-    console.log("[Encrypt] With lengths:", result);
-    console.log("[Encrypt] Encrypted length (dec):", encLen, "-> hex:", encLenHex);
-    console.log("[Encrypt] Original length (dec):", origLen, "-> hex:", origLenHex);
+    logSetup("[Encrypt] With lengths:", result);
+    logSetup("[Encrypt] Encrypted length (dec):", encLen, "-> hex:", encLenHex);
+    logSetup("[Encrypt] Original length (dec):", origLen, "-> hex:", origLenHex);
   }
 
   return result;
@@ -412,6 +531,8 @@ export interface WifiConnectResultExtended extends WifiConnectResult {
     responseHeaders?: Record<string, string>;
     attempts: Array<{
       attempt: number;
+      method: EncryptionMethod;
+      addLengths: boolean;
       status?: number;
       error?: string;
       response?: string;
@@ -420,168 +541,253 @@ export interface WifiConnectResultExtended extends WifiConnectResult {
 }
 
 /**
- * Sends the ConnectHomeNetwork SOAP command to configure WiFi.
+ * How long to wait for the device to report whether it joined the network,
+ * and how often to ask.
  */
-export async function sendWifiConnectCommand(
-  params: WifiConnectParams,
-  verbose = true
-): Promise<WifiConnectResultExtended> {
-  const { ssid, password, auth, encrypt, mac, serial, channel = 0 } = params;
+const JOIN_STATUS_TIMEOUT = 30000;
+const JOIN_STATUS_INTERVAL = 2000;
 
-  const diagnostics: WifiConnectResultExtended["diagnostics"] = {
-    encryptedPassword: "",
-    soapPayload: "",
-    attempts: [],
-  };
+/**
+ * Outcome of joining the home network, as reported by GetNetworkStatus.
+ */
+export type JoinStatus = "connected" | "failed" | "pending";
 
-  try {
-    // Log input params
-    console.log("[Setup] ============================================");
-    console.log("[Setup] WiFi Connect Command - Input Parameters");
-    console.log("[Setup] ============================================");
-    console.log("[Setup] SSID:", ssid);
-    console.log("[Setup] Auth:", auth);
-    console.log("[Setup] Encrypt:", encrypt);
-    console.log("[Setup] Channel:", channel);
-    console.log("[Setup] MAC:", mac);
-    console.log("[Setup] Serial:", serial);
-    console.log("[Setup] Password length:", password.length);
-
-    // Encrypt the password
-    // Use METHOD_2 by default - this works for most devices including Insight (rtos-based)
-    // Method 2 is for devices with rtos=1 or new_algo=1
-    // Method 3 is for devices with binaryOption=1 (less common)
-    const encryptedPassword = encryptWifiPassword(
-      password,
-      mac,
-      serial,
-      EncryptionMethod.METHOD_2,
-      true // Add length bytes for all methods
-    );
+/**
+ * Reads the join outcome from a GetNetworkStatus response. The device
+ * reports 1 once connected and 2 or 3 when it could not join, which usually
+ * means it decrypted the password wrong.
+ */
+export function parseJoinStatus(body: string): JoinStatus {
+  const status = body.match(/<NetworkStatus>\s*(\d+)\s*<\/NetworkStatus>/)?.[1];
+  if (status === "1") return "connected";
+  if (status === "2" || status === "3") return "failed";
+  return "pending";
+}
 
-    diagnostics.encryptedPassword = encryptedPassword;
-
-    console.log("[Setup] ============================================");
-    console.log("[Setup] Encryption Details");
-    console.log("[Setup] ============================================");
-    console.log("[Setup] Method:", EncryptionMethod.METHOD_2, "(rtos/new_algo devices)");
-    console.log("[Setup] Add lengths:", true);
-    console.log("[Setup] Original password length:", password.length);
-    console.log("[Setup] Encrypted password (base64):", encryptedPassword);
-    console.log("[Setup] Encrypted password length:", encryptedPassword.length);
-
-    // Build SOAP payload
-    const payload = buildConnectHomeNetworkPayload({
-      ssid,
-      password: encryptedPassword,
-      auth,
-      encrypt,
-      channel,
-    });
+/**
+ * Polls GetNetworkStatus until the device has joined or given up.
+ * Returns "pending" if it is still trying when the wait runs out.
+ *
+ * @param timeout - Milliseconds to wait (default: 30000)
+ */
+export async function waitForJoinStatus(timeout = JOIN_STATUS_TIMEOUT): Promise<JoinStatus> {
+  const deadline = Date.now() + timeout;
 
-    diagnostics.soapPayload = payload;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, JOIN_STATUS_INTERVAL));
 
-    console.log("[Setup] ============================================");
-    console.log("[Setup] SOAP Payload");
-    console.log("[Setup] ============================================");
-    console.log("[Setup] URL:", WEMO_WIFI_SETUP_URL);
-    console.log("[Setup] Payload:");
-    console.log(payload);
+    const result = await getNetworkStatus();
+    const status = result.responseBody ? parseJoinStatus(result.responseBody) : "pending";
+    if (status !== "pending") {
+      return status;
+    }
+  }
 
-    const soapAction = `"${WIFI_SETUP_SERVICE_TYPE}#ConnectHomeNetwork"`;
-    console.log("[Setup] SOAPACTION header:", soapAction);
+  return "pending";
+}
 
-    // Send twice for reliability (per pywemo recommendation)
-    for (let attempt = 0; attempt < 2; attempt++) {
-      const attemptInfo: (typeof diagnostics.attempts)[0] = {
-        attempt: attempt + 1,
-      };
+/**
+ * Sends ConnectHomeNetwork once with the given password encryption.
+ */
+async function sendConnectHomeNetwork(
+  params: WifiConnectParams,
+  encryption: WifiEncryption,
+  diagnostics: NonNullable<WifiConnectResultExtended["diagnostics"]>
+): Promise<WifiConnectResult> {
+  const { ssid, password, auth, encrypt, mac, serial, channel = 0 } = params;
 
-      console.log("[Setup] ============================================");
-      console.log(`[Setup] Attempt ${attempt + 1}/2`);
-      console.log("[Setup] ============================================");
-
-      try {
-        const startTime = Date.now();
-        const response = await fetch(WEMO_WIFI_SETUP_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "text/xml; charset=utf-8",
-            SOAPACTION: soapAction,
-          },
-          body: payload,
-          signal: AbortSignal.timeout(10000),
-        });
-        const elapsed = Date.now() - startTime;
+  // Log input params
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] WiFi Connect Command - Input Parameters");
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] SSID:", ssid);
+  logSetup("[Setup] Auth:", auth);
+  logSetup("[Setup] Encrypt:", encrypt);
+  logSetup("[Setup] Channel:", channel);
+  logSetup("[Setup] MAC:", mac);
+  logSetup("[Setup] Serial:", serial);
+  logSetup("[Setup] Password length:", password.length);
+
+  // Encrypt the password
+  const encryptedPassword = encryptWifiPassword(
+    password,
+    mac,
+    serial,
+    encryption.method,
+    encryption.addLengths
+  );
 
-        attemptInfo.status = response.status;
-        console.log(`[Setup] Response status: ${response.status} (${elapsed}ms)`);
+  diagnostics.encryptedPassword = encryptedPassword;
+
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] Encryption Details");
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] Method:", encryption.method);
+  logSetup("[Setup] Add lengths:", encryption.addLengths);
+  logSetup("[Setup] Original password length:", password.length);
+  logSetup("[Setup] Encrypted password (base64):", encryptedPassword);
+  logSetup("[Setup] Encrypted password length:", encryptedPassword.length);
+
+  // Build SOAP payload
+  const payload = buildConnectHomeNetworkPayload({
+    ssid,
+    password: encryptedPassword,
+    auth,
+    encrypt,
+    channel,
+  });
+
+  diagnostics.soapPayload = payload;
+
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] SOAP Payload");
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] URL:", WEMO_WIFI_SETUP_URL);
+  logSetup("[Setup] Payload:");
+  logSetup(payload);
+
+  const soapAction = `"${WIFI_SETUP_SERVICE_TYPE}#ConnectHomeNetwork"`;
+  logSetup("[Setup] SOAPACTION header:", soapAction);
+
+  // Send twice for reliability (per pywemo recommendation)
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const attemptInfo: (typeof diagnostics.attempts)[0] = {
+      attempt: diagnostics.attempts.length + 1,
+      method: encryption.method,
+      addLengths: encryption.addLengths,
+    };
 
-        // Log all response headers
-        const headers: Record<string, string> = {};
-        response.headers.forEach((value, key) => {
-          headers[key] = value;
-          console.log(`[Setup] Response header: ${key}: ${value}`);
-        });
-        diagnostics.responseHeaders = headers;
-
-        const text = await response.text();
-        attemptInfo.response = text;
-        diagnostics.rawResponse = text;
-
-        console.log("[Setup] Response body:");
-        console.log(text);
-
-        if (response.ok) {
-          // Try to parse PairingStatus from response
-          const statusMatch = text.match(/<PairingStatus>([^<]+)<\/PairingStatus>/);
-          const status = statusMatch?.[1] ?? "Sent";
-
-          // Also look for any error
-          const errorMatch = text.match(/<errorDescription>([^<]+)<\/errorDescription>/);
-          if (errorMatch) {
-            console.log("[Setup] SOAP error in response:", errorMatch[1]);
-          }
-
-          diagnostics.attempts.push(attemptInfo);
-          diagnostics.responseStatus = response.status;
-
-          console.log("[Setup] ============================================");
-          console.log("[Setup] Result: SUCCESS");
-          console.log("[Setup] PairingStatus:", status);
-          console.log("[Setup] ============================================");
-
-          return {
-            success: true,
-            status,
-            diagnostics: verbose ? diagnostics : undefined,
-          };
+    logSetup("[Setup] ============================================");
+    logSetup(`[Setup] Attempt ${attempt + 1}/2`);
+    logSetup("[Setup] ============================================");
+
+    try {
+      const startTime = Date.now();
+      const response = await fetch(WEMO_WIFI_SETUP_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/xml; charset=utf-8",
+          SOAPACTION: soapAction,
+        },
+        body: payload,
+        signal: AbortSignal.timeout(10000),
+      });
+      const elapsed = Date.now() - startTime;
+
+      attemptInfo.status = response.status;
+      logSetup(`[Setup] Response status: ${response.status} (${elapsed}ms)`);
+
+      // Log all response headers
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+        logSetup(`[Setup] Response header: ${key}: ${value}`);
+      });
+      diagnostics.responseHeaders = headers;
+
+      const text = await response.text();
+      attemptInfo.response = text;
+      diagnostics.rawResponse = text;
+
+      logSetup("[Setup] Response body:");
+      logSetup(text);
+
+      if (response.ok) {
+        // Try to parse PairingStatus from response
+        const statusMatch = text.match(/<PairingStatus>([^<]+)<\/PairingStatus>/);
+        const status = statusMatch?.[1] ?? "Sent";
+
+        // Also look for any error
+        const errorMatch = text.match(/<errorDescription>([^<]+)<\/errorDescription>/);
+        if (errorMatch) {
+          logSetup("[Setup] SOAP error in response:", errorMatch[1]);
         }
 
-        console.warn(`[Setup] Attempt ${attempt + 1} got non-OK status ${response.status}`);
-        attemptInfo.error = `HTTP ${response.status}`;
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        attemptInfo.error = errorMsg;
-        console.warn(`[Setup] Attempt ${attempt + 1} failed:`, errorMsg);
-      }
+        diagnostics.attempts.push(attemptInfo);
+        diagnostics.responseStatus = response.status;
 
-      diagnostics.attempts.push(attemptInfo);
+        logSetup("[Setup] ============================================");
+        logSetup("[Setup] Result: SENT");
+        logSetup("[Setup] PairingStatus:", status);
+        logSetup("[Setup] ============================================");
 
-      // Small delay between attempts
-      if (attempt < 1) {
-        console.log("[Setup] Waiting 500ms before retry...");
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        return { success: true, status };
       }
+
+      console.warn(`[Setup] Attempt ${attempt + 1} got non-OK status ${response.status}`);
+      attemptInfo.error = `HTTP ${response.status}`;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      attemptInfo.error = errorMsg;
+      console.warn(`[Setup] Attempt ${attempt + 1} failed:`, errorMsg);
     }
 
-    console.log("[Setup] ============================================");
-    console.log("[Setup] Result: FAILED after 2 attempts");
-    console.log("[Setup] ============================================");
+    diagnostics.attempts.push(attemptInfo);
+
+    // Small delay between attempts
+    if (attempt < 1) {
+      logSetup("[Setup] Waiting 500ms before retry...");
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+
+  logSetup("[Setup] ============================================");
+  logSetup("[Setup] Result: FAILED after 2 attempts");
+  logSetup("[Setup] ============================================");
+
+  return { success: false, error: "Failed to send setup command after 2 attempts" };
+}
+
+/**
+ * Sends the ConnectHomeNetwork SOAP command to configure WiFi.
+ *
+ * After each send the device is asked whether it joined. When it reports a
+ * failure the password is sent again with the next encryption method, so
+ * devices whose setup.xml flags are missing or misleading still get set up.
+ */
+export async function sendWifiConnectCommand(
+  params: WifiConnectParams,
+  verbose = true
+): Promise<WifiConnectResultExtended> {
+  const diagnostics: WifiConnectResultExtended["diagnostics"] = {
+    encryptedPassword: "",
+    soapPayload: "",
+    attempts: [],
+  };
+
+  const preferred = params.encryption ?? DEFAULT_ENCRYPTION;
+  // An open network has no password, so every method sends the same thing
+  const candidates = params.auth === "OPEN" ? [preferred] : getEncryptionCandidates(preferred);
+
+  try {
+    for (const encryption of candidates) {
+      const sent = await sendConnectHomeNetwork(params, encryption, diagnostics);
+      if (!sent.success) {
+        return { ...sent, diagnostics: verbose ? diagnostics : undefined };
+      }
+
+      const joinStatus = await waitForJoinStatus();
+      logSetup("[Setup] Join status:", joinStatus);
+
+      if (joinStatus !== "failed") {
+        return {
+          success: true,
+          status: sent.status,
+          encryption,
+          connected: joinStatus === "connected",
+          diagnostics: verbose ? diagnostics : undefined,
+        };
+      }
+
+      console.warn(
+        `[Setup] Device could not join with method ${encryption.method}` +
+          ` (lengths: ${encryption.addLengths}), trying the next`
+      );
+    }
 
     return {
       success: false,
-      error: "Failed to send setup command after 2 attempts",
+      error: "The device could not join the network. Check the WiFi password and try again.",
       diagnostics: verbose ? diagnostics : undefined,
     };
   } catch (error) {
@@ -622,13 +828,13 @@ export async function sendRawSoapCommand(
   payload: string,
   timeout = 10000
 ): Promise<SoapDiagnosticResult> {
-  console.log("[Diagnostic] ============================================");
-  console.log("[Diagnostic] Raw SOAP Request");
-  console.log("[Diagnostic] URL:", url);
-  console.log("[Diagnostic] SOAPACTION:", action);
-  console.log("[Diagnostic] Payload:");
-  console.log(payload);
-  console.log("[Diagnostic] ============================================");
+  logSetup("[Diagnostic] ============================================");
+  logSetup("[Diagnostic] Raw SOAP Request");
+  logSetup("[Diagnostic] URL:", url);
+  logSetup("[Diagnostic] SOAPACTION:", action);
+  logSetup("[Diagnostic] Payload:");
+  logSetup(payload);
+  logSetup("[Diagnostic] ============================================");
 
   try {
     const startTime = Date.now();
@@ -650,11 +856,11 @@ export async function sendRawSoapCommand(
 
     const body = await response.text();
 
-    console.log("[Diagnostic] Response status:", response.status);
-    console.log("[Diagnostic] Response headers:", JSON.stringify(headers, null, 2));
-    console.log("[Diagnostic] Response body:");
-    console.log(body);
-    console.log("[Diagnostic] Duration:", duration, "ms");
+    logSetup("[Diagnostic] Response status:", response.status);
+    logSetup("[Diagnostic] Response headers:", JSON.stringify(headers, null, 2));
+    logSetup("[Diagnostic] Response body:");
+    logSetup(body);
+    logSetup("[Diagnostic] Duration:", duration, "ms");
 
     return {
       success: response.ok,
@@ -776,7 +982,7 @@ export async function fetchApList(): Promise<ApListResult> {
     // Extract ApList content from response
     const apListMatch = result.responseBody.match(/<ApList>([^<]*)<\/ApList>/);
     if (!apListMatch || !apListMatch[1]) {
-      console.log("[Setup] No ApList found in response");
+      logSetup("[Setup] No ApList found in response");
       return {
         success: true,
         networks: [],
@@ -804,8 +1010,8 @@ export async function fetchApList(): Promise<ApListResult> {
 
     const lines = normalizedContent.split("\n").filter((line) => line.trim());
 
-    console.log("[Setup] AP List raw content:", apListContent.substring(0, 500));
-    console.log("[Setup] AP List lines found:", lines.length);
+    logSetup("[Setup] AP List raw content:", apListContent.substring(0, 500));
+    logSetup("[Setup] AP List lines found:", lines.length);
 
     for (const line of lines) {
       const parts = line.split("|");
@@ -835,7 +1041,7 @@ export async function fetchApList(): Promise<ApListResult> {
     // Sort by signal strength (strongest first - less negative is stronger)
     networks.sort((a, b) => b.signalStrength - a.signalStrength);
 
-    console.log(
+    logSetup(
       `[Setup] Found ${networks.length} networks:`,
       networks.map((n) => n.ssid)
     );
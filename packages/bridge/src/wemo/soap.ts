@@ -6,6 +6,7 @@
  */
 
 import { XMLParser } from "fast-xml-parser";
+import { getSoapQueue } from "./queue";
 import type { SoapResponse } from "./types";
 
 /**
@@ -54,6 +55,41 @@ const SOAP_NAMESPACES = {
  */
 const DEFAULT_TIMEOUT = 10000;
 
+/**
+ * SOAP requests sent to a host and how many of them failed.
+ */
+export interface SoapStats {
+  requests: number;
+  errors: number;
+}
+
+/**
+ * Counts per host since they were last taken.
+ */
+const soapStats = new Map<string, SoapStats>();
+
+/**
+ * Gets the SOAP requests sent to a host and failed since the last call,
+ * and starts counting again. Reads shared by several callers count once.
+ */
+export function takeSoapStats(host: string): SoapStats {
+  const stats = soapStats.get(host) ?? { requests: 0, errors: 0 };
+  soapStats.delete(host);
+  return stats;
+}
+
+/**
+ * Counts a request that was sent.
+ */
+function recordSoapResult(host: string, success: boolean): void {
+  const stats = soapStats.get(host) ?? { requests: 0, errors: 0 };
+  stats.requests++;
+  if (!success) {
+    stats.errors++;
+  }
+  soapStats.set(host, stats);
+}
+
 /**
  * XML parser instance configured for WeMo responses.
  */
@@ -108,6 +144,10 @@ export function buildSoapEnvelope(serviceType: string, action: string, body?: st
 /**
  * Sends a SOAP request to a WeMo device.
  *
+ * Requests are queued per host and sent one at a time. Commands go ahead of
+ * reads (Get* actions), and identical reads already queued or in flight share
+ * one response.
+ *
  * @param host - Device IP address
  * @param port - Device port (typically 49153)
  * @param controlURL - The control URL path (e.g., "/upnp/control/basicevent1")
@@ -140,6 +180,45 @@ export async function soapRequest<T = unknown>(
   action: string,
   body?: string,
   timeout: number = DEFAULT_TIMEOUT
+): Promise<SoapResponse<T>> {
+  // Reads have no side effects, so identical ones can share a response
+  // Requests go out as commands; background work lowers them with withSoapPriority
+  const isRead = action.startsWith("Get");
+
+  return getSoapQueue().enqueue(
+    host,
+    async () => {
+      const response = await sendSoapRequest<T>(
+        host,
+        port,
+        controlURL,
+        serviceType,
+        action,
+        body,
+        timeout
+      );
+      recordSoapResult(host, response.success);
+      return response;
+    },
+    {
+      coalesceKey: isRead
+        ? `${port}${controlURL}#${serviceType}#${action}#${body ?? ""}`
+        : undefined,
+    }
+  );
+}
+
+/**
+ * Sends a SOAP request without queueing.
+ */
+async function sendSoapRequest<T>(
+  host: string,
+  port: number,
+  controlURL: string,
+  serviceType: string,
+  action: string,
+  body: string | undefined,
+  timeout: number
 ): Promise<SoapResponse<T>> {
   const url = `http://${host}:${port}${controlURL}`;
   const soapEnvelope = buildSoapEnvelope(serviceType, action, body);
@@ -209,6 +288,7 @@ export async function soapRequest<T = unknown>(
         return {
           success: false,
           error: `Connection failed: ${error.message}`,
+          connectionFailed: true,
         };
       }
 
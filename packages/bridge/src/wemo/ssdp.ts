@@ -0,0 +1,293 @@
+/**
+ * Passive SSDP Listener for WeMo Devices
+ *
+ * Devices announce themselves with NOTIFY messages sent to the SSDP multicast
+ * group: "ssdp:alive" when they join the network (and periodically after),
+ * "ssdp:byebye" when they leave. Listening for them notices devices that come
+ * online or change address after the startup M-SEARCH without searching again.
+ */
+
+import * as dgram from "node:dgram";
+import { EventEmitter } from "node:events";
+import { SSDP_ADDRESS, SSDP_PORT, getDeviceByAddress } from "./discovery";
+import type { WemoDevice } from "./types";
+
+/**
+ * A parsed NOTIFY announcement.
+ */
+export interface SsdpNotify {
+  /** Notification sub-type */
+  nts: "ssdp:alive" | "ssdp:byebye";
+  /** Notification type (e.g., "urn:Belkin:service:basicevent:1") */
+  nt: string;
+  /** Unique service name (e.g., "uuid:Socket-1_0-XXXXX::upnp:rootdevice") */
+  usn: string;
+  /** Device UDN, taken from the USN */
+  udn: string;
+  /** Description URL (alive only) */
+  location: string | null;
+  /** Whether the announcement names a Belkin type or comes from WeMo firmware */
+  isBelkin: boolean;
+}
+
+/**
+ * Where a device was before it announced a new address.
+ */
+export interface PreviousAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Options for the listener.
+ */
+export interface SsdpListenerOptions {
+  /** UDP port to listen on (default: 1900; 0 picks a free port) */
+  port?: number;
+  /** Multicast group to join (default: 239.255.255.250) */
+  multicastAddress?: string;
+  /** Interface addresses to join the group on (default: the system's choice) */
+  interfaceAddresses?: string[];
+}
+
+/**
+ * Events emitted by the listener.
+ */
+interface SsdpListenerEvents {
+  /**
+   * A device announced itself for the first time since the listener started
+   * or since it left, or announced a new address. `previous` is set when the
+   * address changed.
+   */
+  online: [device: WemoDevice, previous: PreviousAddress | null];
+  /** A device announced it is leaving. `device` is null if it was never seen. */
+  offline: [udn: string, device: WemoDevice | null];
+}
+
+/**
+ * Parses an SSDP NOTIFY message.
+ *
+ * @returns The announcement, or null if the message is not an alive or
+ *   byebye NOTIFY
+ */
+export function parseNotify(message: string): SsdpNotify | null {
+  const [requestLine = "", ...lines] = message.split(/\r?\n/);
+  if (!/^NOTIFY\s+\*\s+HTTP\/1\.[01]$/i.test(requestLine.trim())) {
+    return null;
+  }
+
+  const headers = new Map<string, string>();
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.set(line.slice(0, separator).trim().toUpperCase(), line.slice(separator + 1).trim());
+    }
+  }
+
+  const nts = headers.get("NTS")?.toLowerCase();
+  const usn = headers.get("USN") ?? "";
+  if ((nts !== "ssdp:alive" && nts !== "ssdp:byebye") || !usn) {
+    return null;
+  }
+
+  const nt = headers.get("NT") ?? "";
+  return {
+    nts,
+    nt,
+    usn,
+    udn: usn.split("::")[0] ?? usn,
+    location: headers.get("LOCATION") || null,
+    isBelkin:
+      /urn:Belkin:/i.test(nt) ||
+      /urn:Belkin:/i.test(usn) ||
+      // WeMo firmware tags every announcement, including upnp:rootdevice ones
+      headers.get("X-USER-AGENT")?.toLowerCase() === "redsonic",
+  };
+}
+
+/**
+ * Listens for WeMo NOTIFY announcements.
+ *
+ * Devices send several announcements per burst (one per service), so the
+ * description behind a location is fetched once and later announcements from
+ * the same address are ignored until the device leaves or moves.
+ *
+ * @example
+ * ```ts
+ * const listener = getSsdpListener();
+ * listener.on("online", (device, previous) => console.log(`${device.name} is online`));
+ * listener.on("offline", (udn) => console.log(`${udn} left`));
+ * await listener.start();
+ * ```
+ */
+export class SsdpListener extends EventEmitter<SsdpListenerEvents> {
+  private readonly options: SsdpListenerOptions;
+  private socket: dgram.Socket | null = null;
+  private readonly known = new Map<string, { location: string; device: WemoDevice }>();
+  private readonly pending = new Map<string, Promise<void>>();
+  /** UDNs that said byebye, so the rest of a byebye burst is ignored */
+  private readonly departed = new Set<string>();
+
+  constructor(options: SsdpListenerOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Whether the listener is running.
+   */
+  get isRunning(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * The UDP port the listener is bound to.
+   */
+  get port(): number | null {
+    return this.socket?.address().port ?? null;
+  }
+
+  /**
+   * Binds the UDP socket and joins the multicast group.
+   *
+   * @throws Error if the socket cannot be bound
+   */
+  async start(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("message", (msg, remote) => this.handleMessage(msg.toString("utf-8"), remote));
+    socket.on("error", (error) => console.warn("[SSDP] Listener error:", error.message));
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(this.options.port ?? SSDP_PORT, () => {
+        socket.off("error", reject);
+        resolve();
+      });
+    });
+
+    // Multi-homed hosts join on each interface, or announcements on all but
+    // the default route's network are missed
+    const group = this.options.multicastAddress ?? SSDP_ADDRESS;
+    const interfaceAddresses = this.options.interfaceAddresses ?? [];
+    for (const address of interfaceAddresses.length > 0 ? interfaceAddresses : [undefined]) {
+      try {
+        socket.addMembership(group, address);
+      } catch (error) {
+        // Unicast announcements (and tests) still arrive without the group
+        console.warn(
+          `[SSDP] Could not join multicast group${address ? ` on ${address}` : ""}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    this.socket = socket;
+    console.log(`[SSDP] Listening for announcements on port ${socket.address().port}`);
+  }
+
+  /**
+   * Closes the socket and forgets announced devices.
+   */
+  stop(): void {
+    try {
+      this.socket?.close();
+    } catch {
+      // Ignore close errors
+    }
+    this.socket = null;
+    this.known.clear();
+    this.departed.clear();
+  }
+
+  /**
+   * Gets the devices announced as online.
+   */
+  getOnlineDevices(): WemoDevice[] {
+    return [...this.known.values()].map((entry) => entry.device);
+  }
+
+  private handleMessage(message: string, remote: dgram.RemoteInfo): void {
+    const notify = parseNotify(message);
+    if (!notify || (!notify.isBelkin && !this.known.has(notify.udn))) {
+      return;
+    }
+
+    if (notify.nts === "ssdp:byebye") {
+      if (this.departed.has(notify.udn)) {
+        return;
+      }
+      const entry = this.known.get(notify.udn);
+      this.known.delete(notify.udn);
+      this.departed.add(notify.udn);
+      this.emit("offline", notify.udn, entry?.device ?? null);
+      return;
+    }
+
+    const location = notify.location;
+    if (!location || this.known.get(notify.udn)?.location === location) {
+      return;
+    }
+    if (this.pending.has(notify.udn)) {
+      return;
+    }
+
+    const load = this.handleAlive(notify.udn, location, remote.address).finally(() =>
+      this.pending.delete(notify.udn)
+    );
+    this.pending.set(notify.udn, load);
+  }
+
+  /**
+   * Reads the description behind a new location and reports the device.
+   */
+  private async handleAlive(udn: string, location: string, sender: string): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(location);
+    } catch {
+      return;
+    }
+
+    // Only trust locations on the host that sent the announcement
+    if (url.hostname !== sender) {
+      return;
+    }
+
+    const device = await getDeviceByAddress(url.hostname, Number.parseInt(url.port, 10) || 80);
+    if (!device || device.id !== udn || !this.socket) {
+      return;
+    }
+
+    const previous = this.known.get(udn)?.device;
+    this.known.set(udn, { location, device });
+    this.departed.delete(udn);
+    this.emit(
+      "online",
+      device,
+      previous && (previous.host !== device.host || previous.port !== device.port)
+        ? { host: previous.host, port: previous.port }
+        : null
+    );
+  }
+}
+
+/**
+ * Singleton listener instance.
+ */
+let listenerInstance: SsdpListener | null = null;
+
+/**
+ * Gets the SSDP listener instance (singleton).
+ *
+ * @param options - Used when the instance is first created
+ */
+export function getSsdpListener(options?: SsdpListenerOptions): SsdpListener {
+  if (!listenerInstance) {
+    listenerInstance = new SsdpListener(options);
+  }
+  return listenerInstance;
+}
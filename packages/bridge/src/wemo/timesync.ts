@@ -0,0 +1,312 @@
+/**
+ * WeMo Time Synchronization
+ *
+ * Devices keep their own clock for schedules and sunrise/sunset rules, and
+ * used to set it from Belkin's cloud. Without the cloud the clock drifts or
+ * resets after a power cut, so the bridge pushes the host's time through the
+ * timesync1 service instead.
+ */
+
+import { DeviceError, type ServiceEndpoint, WemoDeviceClient } from "./device";
+import { getDeviceByAddress } from "./discovery";
+import type { SavedDevice, WemoDevice } from "./types";
+
+/**
+ * timesync1 service endpoint.
+ */
+const TIMESYNC_SERVICE = "urn:Belkin:service:timesync:1";
+const TIMESYNC_CONTROL_URL = "/upnp/control/timesync1";
+
+/**
+ * Timeout for reading the device clock.
+ */
+const CLOCK_REQUEST_TIMEOUT = 5000;
+
+/**
+ * Minimum time between syncs of the same device. Reconnects subscribe to
+ * several services at once, and each would otherwise trigger a sync.
+ */
+const DEFAULT_MIN_SYNC_INTERVAL = 60000;
+
+/**
+ * Drift, in seconds, up to which a device clock counts as in sync.
+ * The device reports whole seconds, so smaller differences are noise.
+ */
+export const MAX_CLOCK_DRIFT = 5;
+
+/**
+ * Arguments of the TimeSync action.
+ */
+export interface TimeSyncParams {
+  /** Current time as Unix seconds (UTC) */
+  utc: number;
+  /** Standard (non-DST) offset from UTC in hours, e.g. "-8.00" or "5.50" */
+  timeZone: string;
+  /** Whether daylight saving time is in effect now */
+  dst: boolean;
+  /** Whether the time zone observes daylight saving time at all */
+  dstSupported: boolean;
+}
+
+/**
+ * Result of a successful sync.
+ */
+export interface TimeSyncResult {
+  /** Device that was synced */
+  deviceId: string;
+  /** When the time was pushed (ISO) */
+  syncedAt: string;
+  /** Time zone that was pushed */
+  timeZone: string;
+  /** DST flag that was pushed */
+  dst: boolean;
+}
+
+/**
+ * Device clock compared with the host clock.
+ */
+export interface DeviceClockReading {
+  /** Time reported by the device (ISO) */
+  deviceTime: string;
+  /** Host time when the device answered (ISO) */
+  hostTime: string;
+  /** Device time minus host time, in whole seconds */
+  driftSeconds: number;
+}
+
+/**
+ * Options for the sync manager.
+ */
+export interface TimeSyncOptions {
+  /** Milliseconds before the same device is synced again (default: 60000) */
+  minInterval?: number;
+}
+
+/**
+ * Formats a UTC offset in minutes as decimal hours, as TimeSync expects.
+ *
+ * @example
+ * ```ts
+ * formatTimeZone(-480); // "-8.00"
+ * formatTimeZone(330);  // "5.50"
+ * ```
+ */
+export function formatTimeZone(offsetMinutes: number): string {
+  return (offsetMinutes / 60).toFixed(2);
+}
+
+/**
+ * Gets the host's time and time zone as TimeSync arguments.
+ * The standard offset is the smaller of the January and July offsets, so it
+ * is correct in both hemispheres.
+ */
+export function getHostTimeSettings(now: Date = new Date()): TimeSyncParams {
+  const year = now.getFullYear();
+  const januaryOffset = -new Date(year, 0, 1).getTimezoneOffset();
+  const julyOffset = -new Date(year, 6, 1).getTimezoneOffset();
+  const standardOffset = Math.min(januaryOffset, julyOffset);
+
+  return {
+    utc: Math.floor(now.getTime() / 1000),
+    timeZone: formatTimeZone(standardOffset),
+    dst: -now.getTimezoneOffset() > standardOffset,
+    dstSupported: januaryOffset !== julyOffset,
+  };
+}
+
+/**
+ * Client for the timesync1 service.
+ *
+ * @example
+ * ```ts
+ * const client = new TimeSyncDeviceClient(device);
+ * await client.syncTime();
+ * const { driftSeconds } = await client.readClock();
+ * ```
+ */
+export class TimeSyncDeviceClient extends WemoDeviceClient {
+  /**
+   * Gets the timesync1 service endpoint for this device.
+   */
+  private get timeSyncEndpoint(): ServiceEndpoint {
+    const service = this.info.services.find((s) => s.serviceType === TIMESYNC_SERVICE);
+    return {
+      serviceType: TIMESYNC_SERVICE,
+      controlURL: service?.controlURL ?? TIMESYNC_CONTROL_URL,
+    };
+  }
+
+  /**
+   * Sets the device clock and time zone.
+   *
+   * @param params - Time to push (default: the host's current time)
+   */
+  async syncTime(params: TimeSyncParams = getHostTimeSettings()): Promise<void> {
+    const body = [
+      `<UTC>${params.utc}</UTC>`,
+      `<TimeZone>${params.timeZone}</TimeZone>`,
+      `<dst>${params.dst ? 1 : 0}</dst>`,
+      `<DstSupported>${params.dstSupported ? 1 : 0}</DstSupported>`,
+    ].join("");
+
+    await this.executeWithRetry("TimeSync", body, undefined, this.timeSyncEndpoint);
+  }
+
+  /**
+   * Reads the device clock from the Date header of its HTTP responses and
+   * compares it with the host clock. Resolution is one second.
+   *
+   * @throws DeviceError if the device does not answer or sends no Date header
+   */
+  async readClock(): Promise<DeviceClockReading> {
+    const url = this.info.setupUrl || `http://${this.host}:${this.port}/setup.xml`;
+    const sentAt = Date.now();
+
+    let dateHeader: string | null;
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(CLOCK_REQUEST_TIMEOUT) });
+      dateHeader = response.headers.get("Date");
+      await response.arrayBuffer();
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new DeviceError(`Failed to read clock: ${cause.message}`, this.id, "ReadClock", cause);
+    }
+
+    const deviceTime = dateHeader ? Date.parse(dateHeader) : Number.NaN;
+    if (Number.isNaN(deviceTime)) {
+      throw new DeviceError("Device did not report its time", this.id, "ReadClock");
+    }
+
+    // The header was written somewhere during the round trip; assume the middle
+    const hostTime = Math.round((sentAt + Date.now()) / 2);
+
+    return {
+      deviceTime: new Date(deviceTime).toISOString(),
+      hostTime: new Date(hostTime).toISOString(),
+      driftSeconds: Math.round((deviceTime - hostTime) / 1000),
+    };
+  }
+}
+
+/**
+ * Pushes the host time to devices and remembers when each was last synced.
+ *
+ * @example
+ * ```ts
+ * const timeSync = new TimeSyncManager();
+ * await timeSync.syncSavedDevice(saved);
+ * timeSync.getLastSync(saved.id); // { syncedAt, timeZone, dst, ... }
+ * ```
+ */
+export class TimeSyncManager {
+  private readonly minInterval: number;
+  private readonly results = new Map<string, TimeSyncResult>();
+  private readonly pending = new Map<string, Promise<TimeSyncResult>>();
+
+  constructor(options: TimeSyncOptions = {}) {
+    this.minInterval = options.minInterval ?? DEFAULT_MIN_SYNC_INTERVAL;
+  }
+
+  /**
+   * Gets the last successful sync of a device, if any.
+   */
+  getLastSync(deviceId: string): TimeSyncResult | null {
+    const result = this.results.get(deviceId);
+    return result ? { ...result } : null;
+  }
+
+  /**
+   * Syncs a device's clock unless it was synced within the minimum interval.
+   *
+   * @param device - Device to sync
+   * @param force - Sync even if the device was synced recently
+   * @returns The sync result, or null if skipped
+   * @throws DeviceError if the device does not accept the time
+   */
+  async sync(device: WemoDevice, force = false): Promise<TimeSyncResult | null> {
+    const inFlight = this.pending.get(device.id);
+    if (inFlight) {
+      return force ? inFlight : null;
+    }
+
+    const last = this.results.get(device.id);
+    if (!force && last && Date.now() - Date.parse(last.syncedAt) < this.minInterval) {
+      return null;
+    }
+
+    const run = (async () => {
+      const params = getHostTimeSettings();
+      await new TimeSyncDeviceClient(device).syncTime(params);
+
+      const result: TimeSyncResult = {
+        deviceId: device.id,
+        syncedAt: new Date(params.utc * 1000).toISOString(),
+        timeZone: params.timeZone,
+        dst: params.dst,
+      };
+      this.results.set(device.id, result);
+      return result;
+    })();
+
+    this.pending.set(device.id, run);
+    try {
+      return { ...(await run) };
+    } finally {
+      this.pending.delete(device.id);
+    }
+  }
+
+  /**
+   * Syncs a saved device, looking it up on the network first.
+   * Bulbs and devices without timesync1 are skipped.
+   *
+   * @returns The sync result, or null if skipped
+   * @throws DeviceError if the device does not accept the time
+   */
+  async syncSavedDevice(saved: SavedDevice, force = false): Promise<TimeSyncResult | null> {
+    // Bulbs take their schedule from the Link
+    if (saved.parentId) {
+      return null;
+    }
+
+    const device = await getDeviceByAddress(saved.host, saved.port);
+    if (!device || !supportsTimeSync(device)) {
+      return null;
+    }
+
+    // Keep the saved ID so results map back to the database row
+    return this.sync({ ...device, id: saved.id, name: saved.name }, force);
+  }
+
+  /**
+   * Forgets a device, e.g. after it was removed.
+   */
+  forget(deviceId: string): void {
+    this.results.delete(deviceId);
+  }
+}
+
+/**
+ * Singleton sync manager instance.
+ */
+let managerInstance: TimeSyncManager | null = null;
+
+/**
+ * Gets the time sync manager instance (singleton).
+ */
+export function getTimeSync(): TimeSyncManager {
+  if (!managerInstance) {
+    managerInstance = new TimeSyncManager();
+  }
+  return managerInstance;
+}
+
+/**
+ * Checks if a device exposes the timesync1 service.
+ *
+ * @param device - The device to check
+ * @returns true if the device clock can be set
+ */
+export function supportsTimeSync(device: Pick<WemoDevice, "services">): boolean {
+  return device.services.some((s) => s.serviceType === TIMESYNC_SERVICE);
+}
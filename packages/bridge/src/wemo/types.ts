@@ -20,10 +20,20 @@ export enum WemoDeviceType {
   Dimmer = "Dimmer",
   /** Compact smart plug */
   Mini = "Mini",
-  /** Smart LED bulb */
+  /** Smart LED bulb (paired with a Link) */
   Bulb = "Bulb",
+  /** Zigbee bridge for LED bulbs */
+  Link = "Link",
   /** Motion sensor */
   Motion = "Motion",
+  /** Maker relay and sensor module */
+  Maker = "Maker",
+  /** Crock-Pot slow cooker */
+  Crockpot = "Crockpot",
+  /** Holmes space heater */
+  Heater = "Heater",
+  /** Holmes humidifier */
+  Humidifier = "Humidifier",
   /** Device type could not be determined */
   Unknown = "Unknown",
 }
@@ -49,7 +59,7 @@ export interface WemoService {
  * Represents a discovered WeMo device on the network.
  */
 export interface WemoDevice {
-  /** Unique identifier (typically MAC address or UUID from UPnP) */
+  /** Unique identifier: the UDN, else `mac:<MAC>`, else `serial:<serial number>` */
   id: string;
   /** User-friendly device name (can be changed by user) */
   name: string;
@@ -73,6 +83,12 @@ export interface WemoDevice {
   services: WemoService[];
   /** URL to device setup XML */
   setupUrl: string;
+  /** UDN from the device description, if it has one */
+  udn?: string;
+  /** ID of the Link this device is reached through (bulbs only) */
+  parentId?: string;
+  /** Local interface the device was discovered on (discovery results only) */
+  networkInterface?: string;
 }
 
 /**
@@ -91,6 +107,11 @@ export interface DeviceState {
    * Only applicable for Dimmer and Bulb types.
    */
   brightness?: number;
+  /**
+   * Color temperature in Kelvin.
+   * Only applicable for Bulb types.
+   */
+  colorTemperature?: number;
 }
 
 /**
@@ -171,17 +192,33 @@ export interface SoapResponse<T = unknown> {
   error?: string;
   /** HTTP status code */
   statusCode?: number;
+  /** Whether the device could not be reached at all (e.g., connection refused) */
+  connectionFailed?: boolean;
 }
 
+/**
+ * How devices are discovered.
+ * - ssdp: multicast M-SEARCH, answered by devices
+ * - sweep: fetch setup.xml from every address in a range, for networks that
+ *   block multicast
+ */
+export type DiscoveryMode = "ssdp" | "sweep";
+
 /**
  * Options for device discovery.
  */
 export interface DiscoveryOptions {
-  /** Timeout in milliseconds for SSDP search (default: 5000) */
+  /** How to look for devices (default: "ssdp") */
+  mode?: DiscoveryMode;
+  /** Timeout in milliseconds (default: 5000 for SSDP, 20000 for a sweep) */
   timeout?: number;
-  /** Specific device types to search for (default: all) */
+  /** CIDR ranges to sweep (default: the /24 of each local interface) */
+  ranges?: string[];
+  /** Ports to probe on each swept address (default: WEMO_PORTS) */
+  ports?: readonly number[];
+  /** Device types to keep (default: all) */
   deviceTypes?: WemoDeviceType[];
-  /** Network interface to use (default: all) */
+  /** Interface name or address to search from (default: all non-virtual interfaces) */
   networkInterface?: string;
 }
 
@@ -205,4 +242,22 @@ export interface SavedDevice {
   updatedAt: string;
   /** Whether the device is currently reachable */
   isOnline?: boolean;
+  /** ID of the Link this device is reached through (bulbs only) */
+  parentId?: string;
+  /** Model name, as last reported by the device */
+  model?: string;
+  /** Firmware version, as last reported by the device */
+  firmwareVersion?: string;
+  /** Serial number, as last reported by the device */
+  serialNumber?: string;
+  /** MAC address, as last reported by the device */
+  macAddress?: string;
+  /** UDN, as last reported by the device */
+  udn?: string;
+  /** Services from the device description, used to build clients */
+  services?: WemoService[];
+  /** When the description was last read from the device */
+  metadataUpdatedAt?: string;
+  /** Set after a WiFi reset until the device is seen on the network again */
+  needsSetup?: boolean;
 }
@@ -0,0 +1,210 @@
+/**
+ * Minimal ZIP Archive Support
+ *
+ * WeMo devices exchange their rules database as a single-file ZIP archive.
+ * Only what that needs is implemented: stored and deflated entries, no
+ * encryption, no ZIP64.
+ */
+
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+/**
+ * ZIP record signatures.
+ */
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/**
+ * Compression methods.
+ */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Error thrown when an archive cannot be read.
+ */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+/**
+ * A file extracted from a ZIP archive.
+ */
+export interface ZipEntry {
+  /** File name inside the archive */
+  name: string;
+  /** Uncompressed file contents */
+  data: Uint8Array;
+}
+
+/**
+ * CRC-32 lookup table (IEEE polynomial).
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum used by ZIP.
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Finds the end of central directory record, which sits at the end of the
+ * archive behind an optional comment.
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipError("Not a ZIP archive: end of central directory not found");
+}
+
+/**
+ * Extracts all files from a ZIP archive.
+ *
+ * @param archive - Raw archive bytes
+ * @returns Extracted files in archive order
+ * @throws ZipError if the archive is malformed or uses unsupported features
+ */
+export function readZip(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  const entries: ZipEntry[] = [];
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError("Corrupt ZIP archive: bad central directory entry");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const expectedCrc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`Corrupt ZIP archive: bad local header for ${name}`);
+    }
+
+    // Local header name/extra lengths can differ from the central directory
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = compressed.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = new Uint8Array(inflateRawSync(compressed));
+    } else {
+      throw new ZipError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (crc32(data) !== expectedCrc) {
+      throw new ZipError(`CRC mismatch for ${name}`);
+    }
+
+    if (!name.endsWith("/")) {
+      entries.push({ name, data });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Creates a ZIP archive with deflated entries.
+ *
+ * @param entries - Files to add
+ * @returns Archive bytes
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compressed = new Uint8Array(deflateRawSync(entry.data));
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(8, METHOD_DEFLATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, compressed.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(10, METHOD_DEFLATE, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, compressed.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, compressed);
+    centralParts.push(central);
+    offset += local.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
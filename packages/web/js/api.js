@@ -182,6 +182,55 @@ export const api = {
     });
   },
 
+  /**
+   * Set brightness of a dimmable device.
+   * @param {string} id - Device ID (must be Dimmer or Bulb device)
+   * @param {number} brightness - Brightness level (0-100)
+   * @returns {Promise<{id: string, action: string, state: number, brightness: number, isOn: boolean}>}
+   */
+  async setBrightness(id, brightness) {
+    return request(`/devices/${encodeURIComponent(id)}/brightness`, {
+      method: "POST",
+      body: JSON.stringify({ brightness }),
+    });
+  },
+
+  /**
+   * Set color temperature of a bulb.
+   * @param {string} id - Device ID (must be Bulb device)
+   * @param {number} kelvin - Color temperature (2700-6500)
+   * @returns {Promise<{id: string, action: string, state: number, colorTemperature: number, isOn: boolean}>}
+   */
+  async setColorTemperature(id, kelvin) {
+    return request(`/devices/${encodeURIComponent(id)}/color-temperature`, {
+      method: "POST",
+      body: JSON.stringify({ kelvin }),
+    });
+  },
+
+  /**
+   * Change an appliance's controls (Maker, Crock-Pot, heater or humidifier).
+   * @param {string} id - Device ID
+   * @param {"maker"|"crockpot"|"heater"|"humidifier"} kind - Appliance kind
+   * @param {Object} settings - Fields to change, e.g. { relay: true } or { fanMode: "low" }
+   * @returns {Promise<{id: string}>} The device ID plus the new state under the kind's key
+   */
+  async updateAppliance(id, kind, settings) {
+    return request(`/devices/${encodeURIComponent(id)}/${kind}`, {
+      method: "PATCH",
+      body: JSON.stringify(settings),
+    });
+  },
+
+  /**
+   * Get the rules (schedules) stored on a device.
+   * @param {string} id - Device ID
+   * @returns {Promise<{id: string, version: number, rules: Array}>}
+   */
+  async getRules(id) {
+    return request(`/devices/${encodeURIComponent(id)}/rules`);
+  },
+
   /**
    * Get Insight power data.
    * @param {string} id - Device ID (must be Insight device)
@@ -191,13 +240,74 @@ export const api = {
     return request(`/devices/${encodeURIComponent(id)}/insight`);
   },
 
+  /**
+   * Get Insight standby threshold and energy price.
+   * @param {string} id - Device ID (must be Insight device)
+   * @returns {Promise<{id: string, standbyThreshold: number, pricePerKwh: number|null, currency: string|null}>}
+   */
+  async getInsightSettings(id) {
+    return request(`/devices/${encodeURIComponent(id)}/insight/settings`);
+  },
+
+  /**
+   * Update Insight standby threshold and/or energy price.
+   * @param {string} id - Device ID (must be Insight device)
+   * @param {{standbyThreshold?: number, pricePerKwh?: number, currency?: string}} settings
+   * @returns {Promise<{id: string, standbyThreshold: number, pricePerKwh: number|null, currency: string|null}>}
+   */
+  async updateInsightSettings(id, settings) {
+    return request(`/devices/${encodeURIComponent(id)}/insight/settings`, {
+      method: "PATCH",
+      body: JSON.stringify(settings),
+    });
+  },
+
+  /**
+   * Clear Insight usage counters.
+   * @param {string} id - Device ID (must be Insight device)
+   * @returns {Promise<{id: string, action: string, power: Object}>}
+   */
+  async resetInsightUsage(id) {
+    return request(`/devices/${encodeURIComponent(id)}/insight/reset`, {
+      method: "POST",
+    });
+  },
+
+  /**
+   * Request a single-use token confirming a device reset.
+   * @param {string} id - Device ID
+   * @param {"clear-data"|"clear-wifi"|"factory"} mode - What the reset clears
+   * @returns {Promise<{id: string, mode: string, token: string, expiresAt: string}>}
+   */
+  async requestResetConfirmation(id, mode) {
+    return request(`/devices/${encodeURIComponent(id)}/reset/confirmation`, {
+      method: "POST",
+      body: JSON.stringify({ mode }),
+    });
+  },
+
+  /**
+   * Reset a device remotely.
+   * @param {string} id - Device ID
+   * @param {"clear-data"|"clear-wifi"|"factory"} mode - What the reset clears
+   * @param {string} token - Token from requestResetConfirmation for the same mode
+   * @returns {Promise<{id: string, mode: string, outcome: "kept"|"needs-setup"|"removed"}>}
+   */
+  async resetDevice(id, mode, token) {
+    return request(`/devices/${encodeURIComponent(id)}/reset`, {
+      method: "POST",
+      body: JSON.stringify({ mode, token }),
+    });
+  },
+
   /**
    * Discover devices on the network.
    * @param {number} timeout - Discovery timeout in seconds (default: 5)
-   * @returns {Promise<{devices: Array, duration: number}>}
+   * @param {"ssdp"|"sweep"} mode - Multicast search, or probe every local address (default: ssdp)
+   * @returns {Promise<{devices: Array, mode: string, duration: number, discovered: number}>}
    */
-  async discover(timeout = 5) {
-    return request(`/discover?timeout=${timeout}`, {
+  async discover(timeout = 5, mode = "ssdp") {
+    return request(`/discover?timeout=${timeout}&mode=${mode}`, {
       timeout: (timeout + 5) * 1000, // Add buffer to request timeout
     });
   },
@@ -211,6 +321,34 @@ export const api = {
   async getDeviceAtAddress(host, port = 49153) {
     return request(`/discover/${encodeURIComponent(host)}?port=${port}`);
   },
+
+  /**
+   * Get the devices set up from the bridge and whether each has joined the home network.
+   * @returns {Promise<{jobs: Array<{serial: string, name: string, status: "waiting"|"online"|"expired", host: string|null}>}>}
+   */
+  async getSetupAdoptions() {
+    return request("/setup/adoption");
+  },
+
+  /**
+   * Get the bridge's network interfaces and the preferred one.
+   * @returns {Promise<{preferredInterface: string|null, interfaces: Array}>}
+   */
+  async getNetworkSettings() {
+    return request("/settings/network");
+  },
+
+  /**
+   * Set the network interface used to find devices.
+   * @param {string|null} preferredInterface - Interface name, or null for automatic
+   * @returns {Promise<{preferredInterface: string|null, interfaces: Array}>}
+   */
+  async setNetworkInterface(preferredInterface) {
+    return request("/settings/network", {
+      method: "PUT",
+      body: JSON.stringify({ preferredInterface }),
+    });
+  },
 };
 
 export default api;
@@ -56,6 +56,16 @@ const $discoveryModal = document.getElementById("discovery-modal");
 const $discoveryContent = document.getElementById("discovery-content");
 const $discoveryFooter = document.getElementById("discovery-footer");
 const $discoveryClose = document.getElementById("discovery-close");
+const $deviceDetailModal = document.getElementById("device-detail-modal");
+const $deviceDetailTitle = document.getElementById("device-detail-title");
+const $deviceDetailContent = document.getElementById("device-detail-content");
+const $deviceDetailClose = document.getElementById("device-detail-close");
+const $resetDeviceModal = document.getElementById("reset-device-modal");
+const $resetDeviceForm = document.getElementById("reset-device-form");
+const $resetDeviceName = document.getElementById("reset-device-name");
+const $resetDeviceSubmit = document.getElementById("reset-device-submit");
+const $resetDeviceClose = document.getElementById("reset-device-close");
+const $resetDeviceCancel = document.getElementById("reset-device-cancel");
 const $settingsBtn = document.getElementById("settings-btn");
 const $settingsModal = document.getElementById("settings-modal");
 const $settingsClose = document.getElementById("settings-close");
@@ -68,6 +78,7 @@ const $iosModalClose = document.getElementById("ios-install-close");
 const $settingsInstallBtn = document.getElementById("settings-install-btn");
 const $settingsInstallRow = document.getElementById("settings-install-row");
 const $settingsShareBtn = document.getElementById("settings-share-btn");
+const $settingsInterface = document.getElementById("settings-interface");
 const $qrModal = document.getElementById("qr-modal");
 const $qrModalClose = document.getElementById("qr-modal-close");
 const $qrCodeContainer = document.getElementById("qr-code-container");
@@ -547,6 +558,17 @@ function renderDeviceCard(device) {
   const isStandby = device.state === 8;
   const isOffline = !device.isOnline;
   const isInsight = device.deviceType === "Insight";
+  const isDimmer = device.deviceType === "Dimmer";
+  const isBulb = device.deviceType === "Bulb";
+  const isLink = device.deviceType === "Link";
+  const isMotion = device.deviceType === "Motion";
+  const isOccupied = isMotion && device.occupancy === "occupied";
+  const applianceKind = APPLIANCE_KINDS[device.deviceType];
+  const appliance = applianceKind ? device[applianceKind] : null;
+  const isMomentaryMaker = applianceKind === "maker" && appliance?.momentary;
+  const capabilities = device.capabilities ?? [];
+  const hasBrightness = isDimmer || (isBulb && capabilities.includes("brightness"));
+  const hasColorTemperature = isBulb && capabilities.includes("colorTemperature");
 
   let statusText = "Off";
   let statusClass = "";
@@ -554,6 +576,17 @@ function renderDeviceCard(device) {
   if (isOffline) {
     statusText = "Offline";
     statusClass = "is-offline";
+  } else if (isLink) {
+    // The Link only relays commands to its bulbs
+    statusText = "Online";
+  } else if (isMotion) {
+    // Sensors report motion through state, not power
+    statusText = isOn ? "Motion detected" : isOccupied ? "Occupied" : "Idle";
+    statusClass = isOccupied ? "is-on" : "";
+  } else if (appliance && applianceKind !== "maker") {
+    // Appliances show their mode instead of on/off
+    statusText = formatApplianceStatus(applianceKind, appliance);
+    statusClass = isOn ? "is-on" : "";
   } else if (isOn) {
     statusText = "On";
     statusClass = "is-on";
@@ -562,7 +595,7 @@ function renderDeviceCard(device) {
     statusClass = "";
   }
 
-  const iconClass = isOn ? "is-on" : isStandby ? "is-standby" : "";
+  const iconClass = isOn || isOccupied ? "is-on" : isStandby ? "is-standby" : "";
 
   // Power stats section for Insight devices
   const powerStatsHtml =
@@ -581,16 +614,75 @@ function renderDeviceCard(device) {
     `
       : "";
 
-  return `
-    <div class="card device-card ${isInsight ? "device-card-insight" : ""}" data-device-id="${escapeHtml(device.id)}" data-device-type="${escapeHtml(device.deviceType)}">
-      <div class="device-card-main">
-        <div class="device-icon ${iconClass}">
-          ${getDeviceIcon(device.deviceType)}
-        </div>
-        <div class="device-info">
-          <div class="device-name">${escapeHtml(device.name)}</div>
-          <div class="device-status ${statusClass}">${statusText}</div>
-        </div>
+  // Brightness slider for Dimmer devices and dimmable bulbs
+  const brightness = device.brightness ?? 100;
+  const brightnessHtml = hasBrightness
+    ? `
+      <div class="brightness-control">
+        <input
+          type="range"
+          class="brightness-slider"
+          min="1"
+          max="100"
+          value="${brightness}"
+          aria-label="Brightness for ${escapeHtml(device.name)}"
+          ${isOffline ? "disabled" : ""}
+          data-action="brightness"
+        >
+        <span class="brightness-value" data-brightness-value>${brightness}%</span>
+      </div>
+    `
+    : "";
+
+  // Color temperature slider for tunable-white bulbs
+  const colorTemperature = device.colorTemperature ?? 2700;
+  const colorTemperatureHtml = hasColorTemperature
+    ? `
+      <div class="color-temp-control">
+        <input
+          type="range"
+          class="color-temp-slider"
+          min="2700"
+          max="6500"
+          step="100"
+          value="${colorTemperature}"
+          aria-label="Color temperature for ${escapeHtml(device.name)}"
+          ${isOffline ? "disabled" : ""}
+          data-action="color-temperature"
+        >
+        <span class="color-temp-value" data-color-temp-value>${colorTemperature}K</span>
+      </div>
+    `
+    : "";
+
+  // Last motion for sensors, which have no toggle
+  const motionHtml =
+    isMotion && !isOffline
+      ? `
+      <div class="motion-info" data-motion-info>
+        Last motion: ${device.lastMotionAt ? formatRelativeTime(Date.parse(device.lastMotionAt)) : "not seen yet"}
+      </div>
+    `
+      : "";
+
+  const applianceHtml =
+    appliance && !isOffline ? renderApplianceControls(applianceKind, appliance) : "";
+
+  // Crock-Pots, heaters and humidifiers are controlled by mode, and a
+  // momentary Maker is triggered instead of switched
+  const hasToggle =
+    !isLink && !isMotion && (!applianceKind || (applianceKind === "maker" && !isMomentaryMaker));
+  const triggerHtml = isMomentaryMaker
+    ? `
+        <button type="button" class="btn btn-primary maker-trigger" ${isOffline ? "disabled" : ""} data-action="maker-trigger">
+          Trigger
+        </button>
+    `
+    : "";
+
+  const toggleHtml = !hasToggle
+    ? triggerHtml
+    : `
         <label class="toggle">
           <input 
             type="checkbox" 
@@ -600,12 +692,317 @@ function renderDeviceCard(device) {
           >
           <span class="toggle-track"></span>
         </label>
+    `;
+
+  return `
+    <div class="card device-card ${isInsight ? "device-card-insight" : ""}" data-device-id="${escapeHtml(device.id)}" data-device-type="${escapeHtml(device.deviceType)}">
+      <div class="device-card-main">
+        <div class="device-icon ${iconClass}">
+          ${getDeviceIcon(device.deviceType)}
+        </div>
+        <div class="device-info" role="button" tabindex="0" data-action="details" aria-label="Details for ${escapeHtml(device.name)}">
+          <div class="device-name">${escapeHtml(device.name)}</div>
+          <div class="device-status-row">
+            <div class="device-status ${statusClass}">${statusText}</div>
+            ${renderHealthIndicators(device)}
+          </div>
+        </div>
+        ${toggleHtml}
       </div>
       ${powerStatsHtml}
+      ${brightnessHtml}
+      ${colorTemperatureHtml}
+      ${motionHtml}
+      ${applianceHtml}
     </div>
   `;
 }
 
+/**
+ * Renders the WiFi signal bars and the warning badge for flaky devices.
+ * Bulbs show the badge only, since their signal is the Link's.
+ */
+function renderHealthIndicators(device) {
+  const health = device.health;
+  if (!health) return "";
+
+  const signal = device.deviceType === "Bulb" ? null : health.signalStrength;
+  const signalHtml =
+    signal === null
+      ? ""
+      : `
+      <span class="signal-indicator" data-bars="${Math.ceil(signal / 25)}" title="WiFi signal ${signal}%" aria-label="WiFi signal ${signal}%">
+        <span></span><span></span><span></span><span></span>
+      </span>
+    `;
+  const flakyHtml = health.flaky
+    ? `<span class="health-badge" title="Often unreachable or failing requests (health ${health.score}/100)">Unstable</span>`
+    : "";
+
+  return signalHtml + flakyHtml;
+}
+
+// ============================================
+// Appliances
+// ============================================
+
+/** State key for each appliance device type */
+const APPLIANCE_KINDS = {
+  Maker: "maker",
+  Crockpot: "crockpot",
+  Heater: "heater",
+  Humidifier: "humidifier",
+};
+
+const CROCKPOT_MODE_LABELS = { off: "Off", warm: "Warm", low: "Low", high: "High" };
+
+const HEATER_MODE_LABELS = {
+  off: "Off",
+  frostProtect: "Frost protect",
+  high: "High",
+  low: "Low",
+  eco: "Eco",
+};
+
+const FAN_MODE_LABELS = {
+  off: "Off",
+  minimum: "Minimum",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  maximum: "Maximum",
+};
+
+const TARGET_HUMIDITY_LEVELS = [45, 50, 55, 60, 100];
+
+/**
+ * Formats an appliance's card status line.
+ */
+function formatApplianceStatus(kind, appliance) {
+  switch (kind) {
+    case "crockpot": {
+      const mode = CROCKPOT_MODE_LABELS[appliance.mode] ?? appliance.mode;
+      const cooking = appliance.mode === "low" || appliance.mode === "high";
+      return cooking && appliance.cookTime > 0
+        ? `${mode} · ${formatMinutes(appliance.cookTime)} left`
+        : mode;
+    }
+    case "heater": {
+      const mode = HEATER_MODE_LABELS[appliance.mode] ?? appliance.mode;
+      return appliance.currentTemperature === null
+        ? mode
+        : `${mode} · ${appliance.currentTemperature}°${appliance.temperatureUnit}`;
+    }
+    case "humidifier": {
+      const fan = appliance.fanMode === "off" ? "Off" : `Fan ${FAN_MODE_LABELS[appliance.fanMode]}`;
+      return appliance.currentHumidity === null ? fan : `${fan} · ${appliance.currentHumidity}%`;
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Formats a duration in minutes, e.g. "3h 20m".
+ */
+function formatMinutes(minutes) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Renders a select for an appliance setting.
+ */
+function renderApplianceSelect(label, field, options, value, numeric = false) {
+  const optionsHtml = Object.entries(options)
+    .map(
+      ([optionValue, optionLabel]) =>
+        `<option value="${escapeHtml(optionValue)}" ${String(value) === optionValue ? "selected" : ""}>${escapeHtml(optionLabel)}</option>`
+    )
+    .join("");
+  return `
+    <label class="appliance-field">
+      <span>${escapeHtml(label)}</span>
+      <select data-action="appliance-setting" data-field="${field}" ${numeric ? 'data-numeric="true"' : ""}>
+        ${optionsHtml}
+      </select>
+    </label>
+  `;
+}
+
+/**
+ * Renders a number input for an appliance setting.
+ */
+function renderApplianceNumber(label, field, value, min, max) {
+  return `
+    <label class="appliance-field">
+      <span>${escapeHtml(label)}</span>
+      <input
+        type="number"
+        inputmode="numeric"
+        min="${min}"
+        max="${max}"
+        value="${value ?? ""}"
+        data-action="appliance-setting"
+        data-field="${field}"
+        data-numeric="true"
+      >
+    </label>
+  `;
+}
+
+/**
+ * Renders the controls of an appliance card.
+ */
+function renderApplianceControls(kind, appliance) {
+  let fieldsHtml = "";
+  let infoHtml = "";
+
+  switch (kind) {
+    case "maker":
+      fieldsHtml = renderApplianceSelect(
+        "Relay",
+        "momentary",
+        { false: "Toggle", true: "Momentary" },
+        appliance.momentary
+      );
+      if (appliance.sensorPresent) {
+        infoHtml = `Sensor: <strong>${appliance.sensorTriggered ? "Triggered" : "Clear"}</strong>`;
+      }
+      break;
+    case "crockpot":
+      fieldsHtml =
+        renderApplianceSelect("Mode", "mode", CROCKPOT_MODE_LABELS, appliance.mode) +
+        renderApplianceNumber("Cook time (min)", "cookTime", appliance.cookTime || "", 1, 1440);
+      if (appliance.cookedTime > 0) {
+        infoHtml = `Cooking for ${formatMinutes(appliance.cookedTime)}`;
+      }
+      break;
+    case "heater":
+      fieldsHtml =
+        renderApplianceSelect("Mode", "mode", HEATER_MODE_LABELS, appliance.mode) +
+        renderApplianceNumber(
+          `Target (°${appliance.temperatureUnit})`,
+          "targetTemperature",
+          appliance.targetTemperature,
+          0,
+          100
+        );
+      break;
+    case "humidifier": {
+      const levels = Object.fromEntries(
+        TARGET_HUMIDITY_LEVELS.map((level) => [level, level === 100 ? "Continuous" : `${level}%`])
+      );
+      fieldsHtml =
+        renderApplianceSelect("Fan", "fanMode", FAN_MODE_LABELS, appliance.fanMode) +
+        renderApplianceSelect("Target", "targetHumidity", levels, appliance.targetHumidity, true);
+      const water = { good: "OK", low: "Low", empty: "Empty" }[appliance.waterLevel];
+      const filter =
+        appliance.filterExpired || appliance.filterLife === 0
+          ? "Replace"
+          : appliance.filterLife === null
+            ? "--"
+            : `${appliance.filterLife}%`;
+      infoHtml = `Water: <strong>${water}</strong> · Filter: <strong>${filter}</strong>`;
+      break;
+    }
+  }
+
+  return `
+    <div class="appliance-controls">
+      <div class="appliance-fields">${fieldsHtml}</div>
+      ${infoHtml ? `<div class="appliance-info">${infoHtml}</div>` : ""}
+    </div>
+  `;
+}
+
+/**
+ * Sends a changed appliance setting and re-renders the card.
+ */
+async function handleApplianceChange(event) {
+  const input = event.target;
+  const card = input.closest("[data-device-id]");
+  const deviceId = card.dataset.deviceId;
+  const device = state.devices.find((d) => d.id === deviceId);
+  const kind = APPLIANCE_KINDS[card.dataset.deviceType];
+  const { field } = input.dataset;
+
+  let value = input.value;
+  if (field === "momentary") {
+    value = value === "true";
+  } else if (input.dataset.numeric) {
+    if (value === "") {
+      return;
+    }
+    value = Number(value);
+  }
+
+  const settings = { [field]: value };
+
+  // Starting to cook needs a cook time, so send the one entered alongside
+  if (kind === "crockpot" && field === "mode") {
+    const cookTime = card.querySelector('[data-field="cookTime"]')?.value;
+    if (cookTime) {
+      settings.cookTime = Number(cookTime);
+    }
+  }
+
+  await updateAppliance(device, kind, settings, input);
+}
+
+/**
+ * "Presses" a momentary Maker's relay, e.g. to open or close a garage door.
+ */
+async function handleMakerTrigger(event) {
+  const button = event.currentTarget;
+  const deviceId = button.closest("[data-device-id]").dataset.deviceId;
+  const device = state.devices.find((d) => d.id === deviceId);
+
+  if (navigator.vibrate) {
+    navigator.vibrate(10);
+  }
+
+  if (await updateAppliance(device, "maker", { relay: true }, button)) {
+    showToast(`${device.name} triggered`, "success");
+  }
+}
+
+/**
+ * Applies appliance changes and updates local state.
+ *
+ * @returns {Promise<boolean>} Whether the device accepted the changes
+ */
+async function updateAppliance(device, kind, settings, control) {
+  if (!device || !kind) {
+    return false;
+  }
+
+  control.disabled = true;
+
+  try {
+    const result = await api.updateAppliance(device.id, kind, settings);
+    const appliance = result[kind];
+    device[kind] = appliance;
+    device.isOnline = true;
+    device.state =
+      kind === "maker"
+        ? Number(appliance.relay)
+        : Number((appliance.mode ?? appliance.fanMode) !== "off");
+    return true;
+  } catch (error) {
+    console.error("[App] Appliance change failed:", error);
+    showToast(error.message || "Failed to change device", "error");
+    return false;
+  } finally {
+    // Re-render with the device's state, which also reverts failed changes
+    renderDevices();
+  }
+}
+
 /**
  * Gets the icon SVG for a device type.
  */
@@ -853,6 +1250,40 @@ function attachDeviceListeners() {
     toggle.addEventListener("change", handleToggle);
   }
 
+  // Brightness sliders (Dimmer devices and bulbs)
+  for (const slider of $app.querySelectorAll('[data-action="brightness"]')) {
+    slider.addEventListener("input", handleBrightnessInput);
+    slider.addEventListener("change", handleBrightnessChange);
+  }
+
+  // Color temperature sliders (bulbs)
+  for (const slider of $app.querySelectorAll('[data-action="color-temperature"]')) {
+    slider.addEventListener("input", handleColorTemperatureInput);
+    slider.addEventListener("change", handleColorTemperatureChange);
+  }
+
+  // Appliance settings (Maker, Crock-Pot, heater, humidifier)
+  for (const input of $app.querySelectorAll('[data-action="appliance-setting"]')) {
+    input.addEventListener("change", handleApplianceChange);
+  }
+
+  // Momentary Maker trigger buttons
+  for (const button of $app.querySelectorAll('[data-action="maker-trigger"]')) {
+    button.addEventListener("click", handleMakerTrigger);
+  }
+
+  // Device details (name/status area of each card)
+  for (const info of $app.querySelectorAll('[data-action="details"]')) {
+    const open = () => openDeviceDetail(info.closest("[data-device-id]").dataset.deviceId);
+    info.addEventListener("click", open);
+    info.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        open();
+      }
+    });
+  }
+
   // Discover button
   const discoverBtn = document.getElementById("discover-btn");
   if (discoverBtn) {
@@ -929,6 +1360,100 @@ async function handleToggle(event) {
   }
 }
 
+/**
+ * Updates the brightness label while the slider is being dragged.
+ */
+function handleBrightnessInput(event) {
+  const slider = event.target;
+  const label = slider.closest(".brightness-control")?.querySelector("[data-brightness-value]");
+  if (label) {
+    label.textContent = `${slider.value}%`;
+  }
+}
+
+/**
+ * Sends the new brightness when the slider is released.
+ */
+async function handleBrightnessChange(event) {
+  const slider = event.target;
+  const card = slider.closest("[data-device-id]");
+  const deviceId = card.dataset.deviceId;
+  const device = state.devices.find((d) => d.id === deviceId);
+  const previous = device?.brightness ?? 100;
+
+  slider.disabled = true;
+
+  try {
+    const result = await api.setBrightness(deviceId, Number(slider.value));
+
+    if (device) {
+      device.state = result.state;
+      device.brightness = result.brightness;
+      device.isOnline = true;
+    }
+
+    const toggle = card.querySelector('[data-action="toggle"]');
+    if (toggle) {
+      toggle.checked = result.isOn;
+    }
+    updateDeviceCardState(card, result.state);
+  } catch (error) {
+    console.error("[App] Brightness change failed:", error);
+
+    // Revert slider position
+    slider.value = previous;
+    handleBrightnessInput({ target: slider });
+
+    showToast(error.message || "Failed to set brightness", "error");
+  } finally {
+    slider.disabled = false;
+  }
+}
+
+/**
+ * Updates the color temperature label while the slider is being dragged.
+ */
+function handleColorTemperatureInput(event) {
+  const slider = event.target;
+  const label = slider.closest(".color-temp-control")?.querySelector("[data-color-temp-value]");
+  if (label) {
+    label.textContent = `${slider.value}K`;
+  }
+}
+
+/**
+ * Sends the new color temperature when the slider is released.
+ */
+async function handleColorTemperatureChange(event) {
+  const slider = event.target;
+  const card = slider.closest("[data-device-id]");
+  const deviceId = card.dataset.deviceId;
+  const device = state.devices.find((d) => d.id === deviceId);
+  const previous = device?.colorTemperature ?? 2700;
+
+  slider.disabled = true;
+
+  try {
+    const result = await api.setColorTemperature(deviceId, Number(slider.value));
+
+    if (device) {
+      device.state = result.state;
+      device.colorTemperature = result.colorTemperature;
+      device.isOnline = true;
+    }
+  } catch (error) {
+    console.error("[App] Color temperature change failed:", error);
+
+    // Revert slider position
+    slider.value = previous;
+    handleColorTemperatureInput({ target: slider });
+
+    showToast(error.message || "Failed to set color temperature", "error");
+  } finally {
+    slider.disabled = false;
+  }
+}
+
 /**
  * Updates a device card's visual state.
  */
@@ -961,10 +1486,15 @@ function updateDeviceCardState(card, binaryState) {
 let discoveredDevices = [];
 const selectedDeviceIds = new Set();
 
+/** Mode of the last scan, and how many devices it found on the network */
+let discoveryMode = "ssdp";
+let discoveredCount = 0;
+
 /**
  * Opens the discovery modal.
  */
 function openDiscoveryModal() {
+  discoveryMode = "ssdp";
   discoveredDevices = [];
   selectedDeviceIds.clear();
   renderDiscoveryScanning();
@@ -988,7 +1518,11 @@ function renderDiscoveryScanning() {
   $discoveryContent.innerHTML = `
     <div class="loading">
       <div class="spinner"></div>
-      <p>Scanning network for WeMo devices...</p>
+      <p>${
+        discoveryMode === "sweep"
+          ? "Checking every address on your network. This can take up to 30 seconds..."
+          : "Scanning network for WeMo devices..."
+      }</p>
     </div>
   `;
   $discoveryFooter.innerHTML = `
@@ -997,6 +1531,33 @@ function renderDiscoveryScanning() {
   document.getElementById("discovery-cancel")?.addEventListener("click", closeDiscoveryModal);
 }
 
+/**
+ * Gets the button that offers an address sweep, shown when a multicast scan
+ * found nothing (some routers block multicast).
+ */
+function renderSweepButton() {
+  if (discoveryMode !== "ssdp" || discoveredCount > 0) {
+    return "";
+  }
+  return '<button class="btn" id="discovery-sweep">Scan Network Addresses</button>';
+}
+
+/**
+ * Attaches listeners shared by the discovery footers.
+ */
+function attachDiscoveryFooterListeners() {
+  document.getElementById("discovery-retry")?.addEventListener("click", () => {
+    renderDiscoveryScanning();
+    startDiscovery();
+  });
+  document.getElementById("discovery-sweep")?.addEventListener("click", () => {
+    discoveryMode = "sweep";
+    renderDiscoveryScanning();
+    startDiscovery();
+  });
+  document.getElementById("discovery-close-btn")?.addEventListener("click", closeDiscoveryModal);
+}
+
 /**
  * Renders the discovery results.
  */
@@ -1008,17 +1569,21 @@ function renderDiscoveryResults() {
         <p class="text-muted" style="font-size: var(--font-size-sm);">
           Make sure your WeMo devices are powered on and connected to the same network.
         </p>
+        ${
+          renderSweepButton()
+            ? `<p class="text-muted" style="font-size: var(--font-size-sm);">
+          If your router blocks device announcements, scanning network addresses may still find them.
+        </p>`
+            : ""
+        }
       </div>
     `;
     $discoveryFooter.innerHTML = `
       <button class="btn" id="discovery-retry">Scan Again</button>
+      ${renderSweepButton()}
       <button class="btn" id="discovery-close-btn">Close</button>
     `;
-    document.getElementById("discovery-retry")?.addEventListener("click", () => {
-      renderDiscoveryScanning();
-      startDiscovery();
-    });
-    document.getElementById("discovery-close-btn")?.addEventListener("click", closeDiscoveryModal);
+    attachDiscoveryFooterListeners();
     return;
   }
 
@@ -1040,7 +1605,7 @@ function renderDiscoveryResults() {
             >
             <div class="discovery-info">
               <div class="discovery-name">${escapeHtml(device.name)}</div>
-              <div class="discovery-details">${escapeHtml(device.host)} - ${escapeHtml(device.deviceType)}</div>
+              <div class="discovery-details">${escapeHtml(device.host)} - ${escapeHtml(device.deviceType)}${device.networkInterface ? ` - via ${escapeHtml(device.networkInterface)}` : ""}</div>
             </div>
             ${isSaved ? '<span class="discovery-badge is-saved">Saved</span>' : ""}
           </label>
@@ -1055,16 +1620,14 @@ function renderDiscoveryResults() {
 
   $discoveryFooter.innerHTML = `
     <button class="btn" id="discovery-retry">Scan Again</button>
+    ${renderSweepButton()}
     <button class="btn btn-primary" id="discovery-add" ${!hasNewDevices ? "disabled" : ""}>
       Add Selected
     </button>
   `;
 
   // Attach listeners
-  document.getElementById("discovery-retry")?.addEventListener("click", () => {
-    renderDiscoveryScanning();
-    startDiscovery();
-  });
+  attachDiscoveryFooterListeners();
   document.getElementById("discovery-add")?.addEventListener("click", handleAddSelected);
 
   // Checkbox listeners
@@ -1096,8 +1659,10 @@ function updateAddButton() {
  */
 async function startDiscovery() {
   try {
-    const result = await api.discover(10);
+    const result =
+      discoveryMode === "sweep" ? await api.discover(25, "sweep") : await api.discover(10);
     discoveredDevices = result.devices;
+    discoveredCount = result.discovered ?? result.devices.length;
 
     // Auto-select all new devices
     const savedIds = new Set(state.devices.map((d) => d.id));
@@ -1119,11 +1684,7 @@ async function startDiscovery() {
       <button class="btn" id="discovery-retry">Try Again</button>
       <button class="btn" id="discovery-close-btn">Close</button>
     `;
-    document.getElementById("discovery-retry")?.addEventListener("click", () => {
-      renderDiscoveryScanning();
-      startDiscovery();
-    });
-    document.getElementById("discovery-close-btn")?.addEventListener("click", closeDiscoveryModal);
+    attachDiscoveryFooterListeners();
   }
 }
 
@@ -1183,6 +1744,383 @@ async function handleDiscover() {
   openDiscoveryModal();
 }
 
+// ============================================
+// Device Detail Modal
+// ============================================
+
+const RULE_TYPE_LABELS = {
+  timer: "Schedule",
+  sunrise: "Sunrise",
+  sunset: "Sunset",
+  away: "Away mode",
+  longPress: "Long press",
+  countdown: "Countdown",
+  other: "Rule",
+};
+
+const RULE_DAY_LABELS = {
+  daily: "Daily",
+  weekdays: "Weekdays",
+  weekends: "Weekends",
+  sunday: "Sun",
+  monday: "Mon",
+  tuesday: "Tue",
+  wednesday: "Wed",
+  thursday: "Thu",
+  friday: "Fri",
+  saturday: "Sat",
+  unknown: "?",
+};
+
+/**
+ * Opens the device detail modal.
+ */
+function openDeviceDetail(deviceId) {
+  const device = state.devices.find((d) => d.id === deviceId);
+  if (!device) return;
+
+  $deviceDetailModal.dataset.deviceId = deviceId;
+  $deviceDetailTitle.textContent = device.name;
+  const isInsight = device.deviceType === "Insight";
+
+  $deviceDetailContent.innerHTML = `
+    ${renderDeviceDetailInfo(device)}
+    ${
+      isInsight
+        ? `
+    <section class="detail-section">
+      <h3 class="detail-section-title">Power settings</h3>
+      <div data-detail-insight>
+        <div class="loading">
+          <div class="spinner"></div>
+          <p>Reading settings...</p>
+        </div>
+      </div>
+    </section>
+    `
+        : ""
+    }
+    <section class="detail-section">
+      <h3 class="detail-section-title">Rules on device</h3>
+      <div data-detail-rules>
+        <div class="loading">
+          <div class="spinner"></div>
+          <p>Reading rules from device...</p>
+        </div>
+      </div>
+    </section>
+    ${
+      device.parentId
+        ? ""
+        : `
+    <section class="detail-section">
+      <h3 class="detail-section-title">Reset</h3>
+      <p class="detail-hint">Clear the device's data or WiFi without pressing its button.</p>
+      <div class="detail-actions">
+        <button type="button" class="btn btn-danger" data-action="reset-device">Reset device…</button>
+      </div>
+    </section>
+    `
+    }
+  `;
+  $deviceDetailContent
+    .querySelector('[data-action="reset-device"]')
+    ?.addEventListener("click", () => openResetDialog(deviceId));
+  $deviceDetailModal.classList.remove("hidden");
+  trapFocus($deviceDetailModal);
+
+  loadDeviceRules(deviceId);
+  if (isInsight) {
+    loadInsightSettings(deviceId);
+  }
+}
+
+/**
+ * Closes the device detail modal.
+ */
+function closeDeviceDetail() {
+  $deviceDetailModal.classList.add("hidden");
+  delete $deviceDetailModal.dataset.deviceId;
+}
+
+/**
+ * Renders the basic device information section.
+ */
+function renderDeviceDetailInfo(device) {
+  return `
+    <section class="detail-section">
+      <dl class="detail-list">
+        <dt>Type</dt>
+        <dd>${escapeHtml(device.deviceType)}</dd>
+        <dt>Address</dt>
+        <dd>${escapeHtml(device.host)}:${escapeHtml(String(device.port))}</dd>
+        <dt>ID</dt>
+        <dd class="detail-id">${escapeHtml(device.id)}</dd>
+        ${device.needsSetup ? "<dt>Status</dt><dd>Waiting to be set up again</dd>" : ""}
+      </dl>
+    </section>
+  `;
+}
+
+/**
+ * Loads the Insight settings form.
+ */
+async function loadInsightSettings(deviceId) {
+  const container = $deviceDetailContent.querySelector("[data-detail-insight]");
+
+  try {
+    const settings = await api.getInsightSettings(deviceId);
+    if ($deviceDetailModal.dataset.deviceId !== deviceId || !container) return;
+
+    container.innerHTML = renderInsightSettings(settings);
+    container.querySelector("form").addEventListener("submit", (e) => {
+      e.preventDefault();
+      saveInsightSettings(deviceId, e.currentTarget);
+    });
+    container
+      .querySelector('[data-action="reset-usage"]')
+      .addEventListener("click", (e) => resetInsightUsage(deviceId, e.currentTarget));
+  } catch (error) {
+    console.error("[App] Failed to load Insight settings:", error);
+    if ($deviceDetailModal.dataset.deviceId !== deviceId || !container) return;
+    container.innerHTML = `<p class="detail-empty">${escapeHtml(error.message || "Could not read settings from device")}</p>`;
+  }
+}
+
+/**
+ * Renders the Insight settings form.
+ */
+function renderInsightSettings(settings) {
+  const hasPrice = settings.pricePerKwh !== null;
+
+  return `
+    <form class="detail-form">
+      <label class="detail-field">
+        <span>Standby below (W)</span>
+        <input type="number" name="standbyThreshold" min="0" max="1000" step="0.1" value="${settings.standbyThreshold}" required>
+      </label>
+      <p class="detail-hint">The plug reports standby instead of on while it draws less than this.</p>
+      ${
+        hasPrice
+          ? `
+      <div class="detail-field-row">
+        <label class="detail-field">
+          <span>Price per kWh</span>
+          <input type="number" name="pricePerKwh" min="0" max="1000" step="0.001" value="${settings.pricePerKwh}">
+        </label>
+        <label class="detail-field">
+          <span>Currency</span>
+          <input type="text" name="currency" maxlength="3" pattern="[A-Za-z]{3}" value="${escapeHtml(settings.currency ?? "")}">
+        </label>
+      </div>
+      `
+          : ""
+      }
+      <div class="detail-actions">
+        <button type="submit" class="btn btn-primary">Save</button>
+        <button type="button" class="btn" data-action="reset-usage">Reset usage</button>
+      </div>
+    </form>
+  `;
+}
+
+/**
+ * Saves the Insight settings form.
+ */
+async function saveInsightSettings(deviceId, form) {
+  const data = new FormData(form);
+  const settings = { standbyThreshold: Number(data.get("standbyThreshold")) };
+  if (data.has("pricePerKwh") && data.get("pricePerKwh") !== "") {
+    settings.pricePerKwh = Number(data.get("pricePerKwh"));
+  }
+  if (data.has("currency") && data.get("currency") !== "") {
+    settings.currency = String(data.get("currency")).toUpperCase();
+  }
+
+  const button = form.querySelector('[type="submit"]');
+  button.disabled = true;
+  try {
+    await api.updateInsightSettings(deviceId, settings);
+    showToast("Settings saved", "success");
+  } catch (error) {
+    console.error("[App] Failed to save Insight settings:", error);
+    showToast(error.message || "Failed to save settings", "error");
+  } finally {
+    button.disabled = false;
+  }
+}
+
+/**
+ * Clears an Insight's usage counters after confirmation.
+ */
+async function resetInsightUsage(deviceId, button) {
+  if (!window.confirm("Reset usage totals on this device? This cannot be undone.")) {
+    return;
+  }
+
+  button.disabled = true;
+  try {
+    await api.resetInsightUsage(deviceId);
+    showToast("Usage reset", "success");
+    const device = state.devices.find((d) => d.id === deviceId);
+    if (device) {
+      fetchDevicePowerStats(device);
+    }
+  } catch (error) {
+    console.error("[App] Failed to reset usage:", error);
+    showToast(error.message || "Failed to reset usage", "error");
+  } finally {
+    button.disabled = false;
+  }
+}
+
+/**
+ * Loads and renders the rules stored on a device.
+ */
+async function loadDeviceRules(deviceId) {
+  const renderInto = (html) => {
+    // Ignore results for a modal that was closed or reopened for another device
+    if ($deviceDetailModal.dataset.deviceId !== deviceId) return;
+    const container = $deviceDetailContent.querySelector("[data-detail-rules]");
+    if (container) container.innerHTML = html;
+  };
+
+  try {
+    const { rules } = await api.getRules(deviceId);
+    renderInto(renderRulesList(rules));
+  } catch (error) {
+    console.error("[App] Failed to load rules:", error);
+    renderInto(
+      `<p class="detail-empty">${escapeHtml(error.message || "Could not read rules from device")}</p>`
+    );
+  }
+}
+
+/**
+ * Renders a read-only list of device rules.
+ */
+function renderRulesList(rules) {
+  if (rules.length === 0) {
+    return `<p class="detail-empty">No rules are stored on this device.</p>`;
+  }
+
+  return `
+    <ul class="rule-list">
+      ${rules
+        .map(
+          (rule) => `
+        <li class="rule-item ${rule.enabled ? "" : "is-disabled"}">
+          <div class="rule-header">
+            <span class="rule-name">${escapeHtml(rule.name || RULE_TYPE_LABELS[rule.type])}</span>
+            <span class="rule-type">${escapeHtml(RULE_TYPE_LABELS[rule.type] ?? rule.rawType)}${rule.enabled ? "" : " · Off"}</span>
+          </div>
+          <div class="rule-schedule">${escapeHtml(formatRuleSchedule(rule))}</div>
+        </li>
+      `
+        )
+        .join("")}
+    </ul>
+  `;
+}
+
+/**
+ * Summarizes when a rule runs, e.g. "Mon, Wed · 07:00 on".
+ */
+function formatRuleSchedule(rule) {
+  if (rule.schedules.length === 0) return "";
+
+  const days = [...new Set(rule.schedules.map((s) => RULE_DAY_LABELS[s.day] ?? "?"))].join(", ");
+  const first = rule.schedules[0];
+  const actionText = (action) => (action === "none" ? "" : ` ${action}`);
+
+  let time = formatTimeOfDay(first.startTime) + actionText(first.startAction);
+  if (first.solarOffset !== null && (rule.type === "sunrise" || rule.type === "sunset")) {
+    const minutes = Math.round(first.solarOffset / 60);
+    time = `${RULE_TYPE_LABELS[rule.type]}${minutes ? ` ${minutes > 0 ? "+" : ""}${minutes} min` : ""}${actionText(first.startAction)}`;
+  }
+  if (first.endTime !== null && first.endAction !== "none") {
+    time += ` → ${formatTimeOfDay(first.endTime)}${actionText(first.endAction)}`;
+  }
+
+  return `${days} · ${time}`;
+}
+
+/**
+ * Formats seconds after midnight as HH:MM.
+ */
+function formatTimeOfDay(seconds) {
+  const hours = Math.floor(seconds / 3600) % 24;
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// ============================================
+// Reset Device Modal
+// ============================================
+
+const RESET_OUTCOME_MESSAGES = {
+  kept: "Device data cleared",
+  "needs-setup": "WiFi cleared. Set the device up again to reconnect it.",
+  removed: "Device reset to factory settings and removed",
+};
+
+/**
+ * Opens the destructive-action dialog for resetting a device.
+ */
+function openResetDialog(deviceId) {
+  const device = state.devices.find((d) => d.id === deviceId);
+  if (!device) return;
+
+  $resetDeviceModal.dataset.deviceId = deviceId;
+  $resetDeviceForm.reset();
+  $resetDeviceName.textContent = device.name;
+  $resetDeviceSubmit.disabled = true;
+  $resetDeviceModal.classList.remove("hidden");
+  trapFocus($resetDeviceModal);
+}
+
+/**
+ * Closes the reset dialog.
+ */
+function closeResetDialog() {
+  $resetDeviceModal.classList.add("hidden");
+  delete $resetDeviceModal.dataset.deviceId;
+}
+
+/**
+ * Enables the reset button once the device name was typed.
+ */
+function updateResetConfirmation() {
+  const device = state.devices.find((d) => d.id === $resetDeviceModal.dataset.deviceId);
+  const typed = $resetDeviceForm.elements.confirmName.value.trim();
+  $resetDeviceSubmit.disabled = !device || typed !== device.name;
+}
+
+/**
+ * Confirms and performs the reset chosen in the dialog.
+ */
+async function handleResetSubmit(e) {
+  e.preventDefault();
+  const deviceId = $resetDeviceModal.dataset.deviceId;
+  if (!deviceId || $resetDeviceSubmit.disabled) return;
+
+  const mode = new FormData($resetDeviceForm).get("mode");
+  $resetDeviceSubmit.disabled = true;
+
+  try {
+    const { token } = await api.requestResetConfirmation(deviceId, mode);
+    const result = await api.resetDevice(deviceId, mode, token);
+    showToast(RESET_OUTCOME_MESSAGES[result.outcome] ?? "Device reset", "success");
+    closeResetDialog();
+    closeDeviceDetail();
+    await loadDevices();
+  } catch (error) {
+    console.error("[App] Failed to reset device:", error);
+    showToast(error.message || "Failed to reset device", "error");
+    updateResetConfirmation();
+  }
+}
+
 // ============================================
 // Setup Instructions Modal
 // ============================================
@@ -1207,6 +2145,31 @@ function showSetupInstructionsModal() {
   }
 }
 
+/** Adoptions already announced, so each is announced once */
+const ANNOUNCED_ADOPTIONS_KEY = "open-wemo-announced-adoptions";
+
+/**
+ * Announces devices the bridge found on the home network after setup.
+ */
+async function announceAdoptedDevices() {
+  try {
+    const { jobs } = await api.getSetupAdoptions();
+    const announced = new Set(JSON.parse(localStorage.getItem(ANNOUNCED_ADOPTIONS_KEY) || "[]"));
+
+    for (const job of jobs) {
+      const key = `${job.serial}:${job.startedAt}`;
+      if (job.status === "online" && !announced.has(key)) {
+        showToast(`${job.name} is online at ${job.host}`, "success");
+        announced.add(key);
+      }
+    }
+
+    localStorage.setItem(ANNOUNCED_ADOPTIONS_KEY, JSON.stringify([...announced].slice(-20)));
+  } catch (error) {
+    console.warn("[App] Failed to check for newly set up devices:", error);
+  }
+}
+
 /**
  * Hides the setup instructions modal.
  */
@@ -1265,6 +2228,7 @@ async function loadDevices() {
 
   try {
     const result = await api.getDevices(true);
+    const wasDisconnected = state.isOffline || state.networkMode === NetworkMode.SETUP_MODE;
     state.devices = result.devices;
     state.error = null;
     state.isOffline = false;
@@ -1273,6 +2237,11 @@ async function loadDevices() {
 
     // Cache devices to localStorage
     cacheDevices(result.devices);
+
+    // Back from a device's setup network, or the bridge was unreachable meanwhile
+    if (wasDisconnected) {
+      announceAdoptedDevices();
+    }
   } catch (error) {
     console.error("[App] Failed to load devices:", error);
     state.error = error;
@@ -1445,6 +2414,7 @@ function applyTheme(theme) {
 function openSettingsModal() {
   updateSettingsUI();
   updateBridgeStatus();
+  loadNetworkSettings();
   $settingsModal.classList.remove("hidden");
 }
 
@@ -1483,6 +2453,52 @@ function handleThemeChange(event) {
   showToast("Theme updated", "success");
 }
 
+/**
+ * Loads the bridge's network interfaces into the interface select.
+ */
+async function loadNetworkSettings() {
+  $settingsInterface.disabled = true;
+  try {
+    const { preferredInterface, interfaces } = await api.getNetworkSettings();
+    const names = [...new Set(interfaces.map((iface) => iface.name))];
+
+    $settingsInterface.innerHTML = `
+      <option value="">Automatic</option>
+      ${names
+        .map((name) => {
+          const addresses = interfaces.filter((iface) => iface.name === name);
+          const label = `${name} (${addresses.map((iface) => iface.address).join(", ")})`;
+          const isVirtual = addresses.some((iface) => iface.virtual);
+          return `<option value="${escapeHtml(name)}" ${name === preferredInterface ? "selected" : ""}>
+            ${escapeHtml(label)}${isVirtual ? " - virtual" : ""}
+          </option>`;
+        })
+        .join("")}
+    `;
+    $settingsInterface.disabled = false;
+  } catch (error) {
+    console.warn("[App] Failed to load network settings:", error);
+  }
+}
+
+/**
+ * Handles network interface change.
+ */
+async function handleInterfaceChange(event) {
+  const select = event.target;
+  select.disabled = true;
+  try {
+    await api.setNetworkInterface(select.value || null);
+    showToast("Network interface updated", "success");
+  } catch (error) {
+    console.error("[App] Failed to set network interface:", error);
+    showToast(error.message || "Failed to update network interface", "error");
+    await loadNetworkSettings();
+  } finally {
+    select.disabled = false;
+  }
+}
+
 /**
  * Updates the bridge status display.
  */
@@ -1642,12 +2658,20 @@ function trapFocus(modal) {
 function setupEscapeKeyHandler() {
   document.addEventListener("keydown", (e) => {
     if (e.key === "Escape") {
+      // The reset dialog opens over device details; close only the top one
+      if (!$resetDeviceModal.classList.contains("hidden")) {
+        closeResetDialog();
+        return;
+      }
       if (!$settingsModal.classList.contains("hidden")) {
         closeSettingsModal();
       }
       if (!$discoveryModal.classList.contains("hidden")) {
         closeDiscoveryModal();
       }
+      if (!$deviceDetailModal.classList.contains("hidden")) {
+        closeDeviceDetail();
+      }
       if ($iosModal && !$iosModal.classList.contains("hidden")) {
         hideIOSInstallModal();
       }
@@ -1703,6 +2727,9 @@ function setupSettingsListeners() {
     radio.addEventListener("change", handleThemeChange);
   }
 
+  // Network interface change
+  $settingsInterface?.addEventListener("change", handleInterfaceChange);
+
   // Listen for system theme changes
   window.matchMedia("(prefers-color-scheme: dark)").addEventListener("change", () => {
     if (state.settings.theme === "system") {
@@ -1830,6 +2857,17 @@ async function init() {
   // Close modal on backdrop click
   $discoveryModal.querySelector(".modal-backdrop")?.addEventListener("click", closeDiscoveryModal);
 
+  // Device detail modal
+  $deviceDetailClose.addEventListener("click", closeDeviceDetail);
+  $deviceDetailModal.querySelector(".modal-backdrop")?.addEventListener("click", closeDeviceDetail);
+
+  // Reset device dialog
+  $resetDeviceClose.addEventListener("click", closeResetDialog);
+  $resetDeviceCancel.addEventListener("click", closeResetDialog);
+  $resetDeviceModal.querySelector(".modal-backdrop")?.addEventListener("click", closeResetDialog);
+  $resetDeviceForm.addEventListener("input", updateResetConfirmation);
+  $resetDeviceForm.addEventListener("submit", handleResetSubmit);
+
   // Set up settings listeners
   setupSettingsListeners();
 